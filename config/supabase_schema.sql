@@ -35,6 +35,7 @@ create table if not exists public.properties (
   province text not null,
   postal_code text not null,
   landlord_id uuid not null,
+  proration_method text not null default 'actual_days' check (proration_method in ('actual_days', '365_12')),
   created_at timestamp with time zone default now() not null,
   updated_at timestamp with time zone default now() not null
 );
@@ -45,6 +46,8 @@ create table if not exists public.units (
   id uuid default uuid_generate_v4() primary key,
   unit_number text not null,
   property_id uuid not null,
+  first_occupied_date date, -- Units first occupied after 2018-11-15 are exempt from the Ontario rent increase guideline
+  status text not null default 'occupied' check (status in ('occupied', 'vacant')),
   created_at timestamp with time zone default now() not null,
   updated_at timestamp with time zone default now() not null
 );
@@ -57,6 +60,7 @@ create table if not exists public.tenants (
   last_name text not null,
   email text,
   phone text not null,
+  status text not null default 'current' check (status in ('current', 'former')), -- Former tenants are kept for reporting
   created_at timestamp with time zone default now() not null,
   updated_at timestamp with time zone default now() not null
 );
@@ -68,8 +72,13 @@ create table if not exists public.tenant_units (
   unit_id uuid not null,
   rent_amount text not null,
   rent_due_day integer not null check (rent_due_day >= 1 and rent_due_day <= 31),
-  lease_start_date date,
-  lease_end_date date,
+  rent_frequency text not null default 'monthly' check (rent_frequency in ('weekly', 'biweekly', 'monthly', 'quarterly')),
+  rent_anchor_date date, -- First due date; weekly, bi-weekly and quarterly rent repeats from it
+  lease_start date, -- First and last rent charges are prorated from the lease dates
+  lease_end date,
+  status text not null default 'active' check (status in ('active', 'ended')), -- Ended tenancies are no longer charged rent
+  joint_lease_id uuid references public.tenant_units(id) on delete set null, -- Roommates point at the tenant_unit that carries the joint lease's rent
+  rent_share numeric check (rent_share > 0 and rent_share <= 100), -- Percentage of the rent a joint tenant owes
   created_at timestamp with time zone default now() not null,
   updated_at timestamp with time zone default now() not null,
   constraint uq_tenant_unit unique (tenant_id, unit_id) -- A tenant can only be assigned to a specific unit once
@@ -82,6 +91,9 @@ create table if not exists public.rent_payments (
   unit_id uuid not null, -- Retained for direct reference, but could also link via tenant_units_id
   tenant_unit_id uuid, -- Optional: Foreign key to tenant_units for more precise linking
   amount numeric not null,
+  amount_paid numeric, -- Amount received so far (used for partial payments)
+  billing_period text, -- Period the charge is for (e.g. 2026-10), unique per tenant_unit
+  description text, -- Set on prorated charges to show the calculation
   due_date date not null,
   payment_date date,
   is_late boolean default false, -- Consider deriving this or ensuring consistency with status
@@ -97,7 +109,7 @@ create table if not exists public.notifications (
   id uuid default uuid_generate_v4() primary key,
   tenant_id uuid not null references public.tenants(id),
   payment_id uuid references public.rent_payments(id),
-  type text not null check (type in ('rent_due', 'rent_late', 'receipt', 'form_n4', 'form_l1')),
+  type text not null check (type in ('rent_due', 'rent_late', 'receipt', 'form_n4', 'form_l1', 'n4_voided', 'installment_reminder', 'credit_applied', 'additional_charges_due', 'utility_bill')),
   channel text not null check (channel in ('whatsapp', 'email')),
   status text not null check (status in ('pending', 'sent', 'delivered', 'read', 'failed')),
   message_id text, -- As per image (mess... truncated)
@@ -105,6 +117,7 @@ create table if not exists public.notifications (
   -- delivered_at, read_at were in image but not original schema, adding them
   delivered_at timestamp with time zone,
   read_at timestamp with time zone,
+  document_path text, -- Storage path of an attached document (e.g. a generated N4 PDF)
   created_at timestamp with time zone default now() not null,
   updated_at timestamp with time zone default now() not null
 );
@@ -122,6 +135,25 @@ create table if not exists public.incoming_messages (
   updated_at timestamp with time zone default now() not null
 );
 
+-- Create storage bucket for generated documents (N4/L1 PDFs)
+insert into storage.buckets (id, name, public)
+values ('documents', 'documents', false)
+on conflict (id) do nothing;
+
+-- Documents attached to notifications (e.g. the generated N4 PDF)
+alter table public.notifications add column if not exists document_path text;
+
+-- Notification types were added after the table was created, so replace the
+-- check constraint of existing databases with the full list
+DO $$
+BEGIN
+  ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+  ALTER TABLE public.notifications
+    ADD CONSTRAINT notifications_type_check
+    CHECK (type IN ('rent_due', 'rent_late', 'receipt', 'form_n4', 'form_l1', 'n4_voided', 'installment_reminder', 'credit_applied', 'additional_charges_due', 'utility_bill'));
+END;
+$$;
+
 -- Add foreign key constraints after all tables are created
 
 -- Property to landlord
@@ -784,3 +816,1181 @@ BEGIN
   END IF;
 END;
 $$;
+
+-- Create legal_notices table (one record per N4/L1 issued, with its lifecycle status)
+create table if not exists public.legal_notices (
+  id uuid default uuid_generate_v4() primary key,
+  tenant_id uuid not null references public.tenants(id),
+  unit_id uuid not null references public.units(id),
+  tenant_unit_id uuid references public.tenant_units(id) on delete set null,
+  notice_type text not null check (notice_type in ('N4', 'L1', 'RTB-30')),
+  jurisdiction text not null default 'ON', -- Province code whose rules apply (ON, BC)
+  parent_notice_id uuid references public.legal_notices(id), -- The N4 an L1 is based on
+  payment_ids uuid[] not null default '{}', -- rent_payments covered by this notice
+  amount_owed numeric not null,
+  termination_date date,
+  rent_period text, -- How often rent is paid, which sets the notice period (weekly tenancies get 7 days)
+  service_method text check (service_method in ('hand', 'mail', 'courier', 'door')),
+  served_date date,
+  deemed_service_date date, -- served_date adjusted for the service method
+  document_path text, -- Storage path of the generated PDF
+  certificate_path text, -- Storage path of the Certificate of Service PDF
+  status text not null default 'draft' check (status in ('draft', 'served', 'voided_by_payment', 'filed', 'withdrawn')),
+  created_at timestamp with time zone default now() not null,
+  updated_at timestamp with time zone default now() not null
+);
+
+create index if not exists legal_notices_tenant_id_idx on public.legal_notices(tenant_id);
+create index if not exists legal_notices_tenant_unit_id_idx on public.legal_notices(tenant_unit_id);
+create index if not exists legal_notices_status_idx on public.legal_notices(status);
+create index if not exists legal_notices_payment_ids_idx on public.legal_notices using gin(payment_ids);
+
+-- RLS for legal_notices
+DO $$
+BEGIN
+  alter table public.legal_notices enable row level security;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'legal_notices'
+    AND policyname = 'Enable read access for all users'
+  ) THEN
+    create policy "Enable read access for all users" on public.legal_notices for select using (true);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'legal_notices'
+    AND policyname = 'Enable insert for authenticated users'
+  ) THEN
+    create policy "Enable insert for authenticated users" on public.legal_notices for insert with check (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'legal_notices'
+    AND policyname = 'Enable update for authenticated users'
+  ) THEN
+    create policy "Enable update for authenticated users" on public.legal_notices for update using (auth.role() = 'authenticated');
+  END IF;
+END;
+$$;
+
+-- Trigger for legal_notices updated_at
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_trigger
+    WHERE tgname = 'update_legal_notices_updated_at'
+  ) THEN
+    create trigger update_legal_notices_updated_at
+      before update on public.legal_notices
+      for each row execute function public.update_updated_at_column();
+  END IF;
+END;
+$$;
+
+-- Create payment_plans table (repayment agreements for tenants in arrears)
+create table if not exists public.payment_plans (
+  id uuid default uuid_generate_v4() primary key,
+  tenant_unit_id uuid not null references public.tenant_units(id) on delete cascade,
+  tenant_id uuid not null references public.tenants(id),
+  unit_id uuid not null references public.units(id),
+  total_owed numeric not null,
+  status text not null default 'active' check (status in ('active', 'completed', 'defaulted', 'cancelled')),
+  notes text,
+  created_at timestamp with time zone default now() not null,
+  updated_at timestamp with time zone default now() not null
+);
+
+create index if not exists payment_plans_tenant_unit_id_idx on public.payment_plans(tenant_unit_id);
+create index if not exists payment_plans_status_idx on public.payment_plans(status);
+
+-- Create payment_plan_installments table (the agreed schedule of a payment plan)
+create table if not exists public.payment_plan_installments (
+  id uuid default uuid_generate_v4() primary key,
+  payment_plan_id uuid not null references public.payment_plans(id) on delete cascade,
+  due_date date not null,
+  amount numeric not null,
+  amount_paid numeric not null default 0,
+  paid_date date,
+  status text not null default 'pending' check (status in ('pending', 'paid', 'missed')),
+  reminder_sent_at timestamp with time zone, -- WhatsApp reminder, sent once per installment
+  created_at timestamp with time zone default now() not null,
+  updated_at timestamp with time zone default now() not null
+);
+
+create index if not exists payment_plan_installments_plan_id_idx on public.payment_plan_installments(payment_plan_id);
+create index if not exists payment_plan_installments_due_date_idx on public.payment_plan_installments(due_date);
+
+-- RLS for payment_plans
+DO $$
+BEGIN
+  alter table public.payment_plans enable row level security;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'payment_plans'
+    AND policyname = 'Enable read access for all users'
+  ) THEN
+    create policy "Enable read access for all users" on public.payment_plans for select using (true);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'payment_plans'
+    AND policyname = 'Enable insert for authenticated users'
+  ) THEN
+    create policy "Enable insert for authenticated users" on public.payment_plans for insert with check (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'payment_plans'
+    AND policyname = 'Enable update for authenticated users'
+  ) THEN
+    create policy "Enable update for authenticated users" on public.payment_plans for update using (auth.role() = 'authenticated');
+  END IF;
+END;
+$$;
+
+-- Trigger for payment_plans updated_at
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_trigger
+    WHERE tgname = 'update_payment_plans_updated_at'
+  ) THEN
+    create trigger update_payment_plans_updated_at
+      before update on public.payment_plans
+      for each row execute function public.update_updated_at_column();
+  END IF;
+END;
+$$;
+
+-- RLS for payment_plan_installments
+DO $$
+BEGIN
+  alter table public.payment_plan_installments enable row level security;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'payment_plan_installments'
+    AND policyname = 'Enable read access for all users'
+  ) THEN
+    create policy "Enable read access for all users" on public.payment_plan_installments for select using (true);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'payment_plan_installments'
+    AND policyname = 'Enable insert for authenticated users'
+  ) THEN
+    create policy "Enable insert for authenticated users" on public.payment_plan_installments for insert with check (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'payment_plan_installments'
+    AND policyname = 'Enable update for authenticated users'
+  ) THEN
+    create policy "Enable update for authenticated users" on public.payment_plan_installments for update using (auth.role() = 'authenticated');
+  END IF;
+END;
+$$;
+
+-- Trigger for payment_plan_installments updated_at
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_trigger
+    WHERE tgname = 'update_payment_plan_installments_updated_at'
+  ) THEN
+    create trigger update_payment_plan_installments_updated_at
+      before update on public.payment_plan_installments
+      for each row execute function public.update_updated_at_column();
+  END IF;
+END;
+$$;
+
+-- Create ledger_entries table (tenant ledger: charges, payments and adjustments per tenant_unit).
+-- Debits increase what the tenant owes, credits reduce it; the balance is the sum of debits minus credits.
+create table if not exists public.ledger_entries (
+  id uuid default uuid_generate_v4() primary key,
+  tenant_unit_id uuid not null references public.tenant_units(id) on delete cascade,
+  tenant_id uuid not null references public.tenants(id),
+  unit_id uuid not null references public.units(id),
+  entry_date date not null,
+  entry_type text not null check (entry_type in ('charge', 'payment', 'adjustment')),
+  category text not null default 'rent', -- rent, fee, nsf_fee, late_fee, ...
+  description text,
+  debit numeric not null default 0 check (debit >= 0),
+  credit numeric not null default 0 check (credit >= 0),
+  rent_payment_id uuid references public.rent_payments(id) on delete set null, -- The rent charge an entry belongs to
+  payer_tenant_id uuid references public.tenants(id), -- Roommate who made a payment on a joint lease's rent
+  payment_method text,
+  reference text,
+  created_at timestamp with time zone default now() not null,
+  updated_at timestamp with time zone default now() not null,
+  constraint ledger_entries_one_side check ((debit = 0) <> (credit = 0))
+);
+
+create index if not exists ledger_entries_tenant_unit_id_idx on public.ledger_entries(tenant_unit_id, entry_date);
+create index if not exists ledger_entries_tenant_id_idx on public.ledger_entries(tenant_id);
+create index if not exists ledger_entries_rent_payment_id_idx on public.ledger_entries(rent_payment_id);
+
+-- RLS for ledger_entries
+DO $$
+BEGIN
+  alter table public.ledger_entries enable row level security;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'ledger_entries'
+    AND policyname = 'Enable read access for all users'
+  ) THEN
+    create policy "Enable read access for all users" on public.ledger_entries for select using (true);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'ledger_entries'
+    AND policyname = 'Enable insert for authenticated users'
+  ) THEN
+    create policy "Enable insert for authenticated users" on public.ledger_entries for insert with check (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'ledger_entries'
+    AND policyname = 'Enable update for authenticated users'
+  ) THEN
+    create policy "Enable update for authenticated users" on public.ledger_entries for update using (auth.role() = 'authenticated');
+  END IF;
+END;
+$$;
+
+-- Trigger for ledger_entries updated_at
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_trigger
+    WHERE tgname = 'update_ledger_entries_updated_at'
+  ) THEN
+    create trigger update_ledger_entries_updated_at
+      before update on public.ledger_entries
+      for each row execute function public.update_updated_at_column();
+  END IF;
+END;
+$$;
+
+-- Partial payments: the amount received so far on a rent charge
+alter table public.rent_payments add column if not exists amount_paid numeric;
+
+-- Migrate existing rent_payments into the ledger: one rent charge per row, plus a
+-- payment for rows that were paid or partly paid. Safe to run more than once.
+insert into public.ledger_entries (tenant_unit_id, tenant_id, unit_id, entry_date, entry_type, category, description, debit, rent_payment_id)
+select tu.id, rp.tenant_id, rp.unit_id, rp.due_date, 'charge', 'rent', 'Rent due ' || to_char(rp.due_date, 'YYYY-MM-DD'), rp.amount, rp.id
+from public.rent_payments rp
+join public.tenant_units tu on tu.tenant_id = rp.tenant_id and tu.unit_id = rp.unit_id
+where not exists (
+  select 1 from public.ledger_entries le where le.rent_payment_id = rp.id and le.entry_type = 'charge'
+);
+
+insert into public.ledger_entries (tenant_unit_id, tenant_id, unit_id, entry_date, entry_type, category, description, credit, rent_payment_id, payment_method)
+select tu.id, rp.tenant_id, rp.unit_id, coalesce(rp.payment_date::date, rp.due_date), 'payment', 'rent', 'Rent payment',
+  case when rp.status = 'paid' then rp.amount else least(coalesce(rp.amount_paid, 0), rp.amount) end, rp.id, rp.payment_method
+from public.rent_payments rp
+join public.tenant_units tu on tu.tenant_id = rp.tenant_id and tu.unit_id = rp.unit_id
+where (rp.status = 'paid' or (rp.status = 'partial' and coalesce(rp.amount_paid, 0) > 0))
+and not exists (
+  select 1 from public.ledger_entries le where le.rent_payment_id = rp.id and le.entry_type = 'payment'
+);
+
+-- Billing periods: each rent charge is keyed by tenant_unit and billing period
+-- (e.g. 2026-10) so generation jobs can upsert and re-running them never
+-- creates a second charge for the same period.
+alter table public.rent_payments add column if not exists billing_period text;
+
+update public.rent_payments rp
+set tenant_unit_id = tu.id
+from public.tenant_units tu
+where rp.tenant_unit_id is null
+and tu.tenant_id = rp.tenant_id and tu.unit_id = rp.unit_id;
+
+-- Existing duplicates keep a null period so the unique index can be created;
+-- only the earliest charge for a period gets the key.
+with ranked as (
+  select id, row_number() over (
+    partition by tenant_unit_id, to_char(due_date, 'YYYY-MM') order by created_at, id
+  ) as position
+  from public.rent_payments
+  where billing_period is null and tenant_unit_id is not null
+)
+update public.rent_payments rp
+set billing_period = to_char(rp.due_date, 'YYYY-MM')
+from ranked
+where ranked.id = rp.id and ranked.position = 1
+and not exists (
+  select 1 from public.rent_payments existing
+  where existing.tenant_unit_id = rp.tenant_unit_id
+  and existing.billing_period = to_char(rp.due_date, 'YYYY-MM')
+);
+
+create unique index if not exists rent_payments_tenant_unit_period_key
+  on public.rent_payments(tenant_unit_id, billing_period);
+
+-- A rent charge appears on the ledger once
+create unique index if not exists ledger_entries_one_charge_per_rent_payment
+  on public.ledger_entries(rent_payment_id) where entry_type = 'charge';
+
+-- Rent frequency: weekly, bi-weekly and quarterly rent is due every 7 days,
+-- 14 days or 3 months from the anchor date. Monthly rent keeps using rent_due_day.
+alter table public.tenant_units add column if not exists rent_frequency text not null default 'monthly';
+alter table public.tenant_units add column if not exists rent_anchor_date date;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM   pg_constraint
+    WHERE  conname = 'tenant_units_rent_frequency_check'
+    AND    conrelid = 'public.tenant_units'::regclass
+  ) THEN
+    ALTER TABLE public.tenant_units
+      ADD CONSTRAINT tenant_units_rent_frequency_check
+      CHECK (rent_frequency IN ('weekly', 'biweekly', 'monthly', 'quarterly'));
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1
+    FROM   pg_constraint
+    WHERE  conname = 'tenant_units_rent_anchor_date_check'
+    AND    conrelid = 'public.tenant_units'::regclass
+  ) THEN
+    ALTER TABLE public.tenant_units
+      ADD CONSTRAINT tenant_units_rent_anchor_date_check
+      CHECK (rent_frequency = 'monthly' OR rent_anchor_date IS NOT NULL);
+  END IF;
+END;
+$$;
+
+-- A notice keeps the rent frequency its termination date was calculated
+-- with, so serving it checks the same notice period
+alter table public.legal_notices add column if not exists rent_period text;
+
+update public.legal_notices ln
+set rent_period = tu.rent_frequency
+from public.tenant_units tu
+where ln.rent_period is null
+and tu.id = ln.tenant_unit_id;
+
+-- Prorated rent: the first and last charges of a lease cover only the days
+-- the lease is in force. Lease dates were stored as lease_start_date and
+-- lease_end_date; the application reads lease_start and lease_end.
+alter table public.tenant_units add column if not exists lease_start date;
+alter table public.tenant_units add column if not exists lease_end date;
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM   information_schema.columns
+    WHERE  table_schema = 'public'
+    AND    table_name = 'tenant_units'
+    AND    column_name = 'lease_start_date'
+  ) THEN
+    UPDATE public.tenant_units
+    SET    lease_start = coalesce(lease_start, lease_start_date),
+           lease_end = coalesce(lease_end, lease_end_date);
+  END IF;
+END;
+$$;
+
+-- actual_days divides the rent by the days in the period; 365_12 charges
+-- rent x 12 / 365 a day whatever the length of the month
+alter table public.properties add column if not exists proration_method text not null default 'actual_days';
+alter table public.rent_payments add column if not exists description text;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM   pg_constraint
+    WHERE  conname = 'properties_proration_method_check'
+    AND    conrelid = 'public.properties'::regclass
+  ) THEN
+    ALTER TABLE public.properties
+      ADD CONSTRAINT properties_proration_method_check
+      CHECK (proration_method IN ('actual_days', '365_12'));
+  END IF;
+END;
+$$;
+
+-- Create rent_history table (effective-dated rent per tenant_unit).
+-- Rent generation charges the amount in force for each period;
+-- tenant_units.rent_amount holds the amount in force today.
+create table if not exists public.rent_history (
+  id uuid default uuid_generate_v4() primary key,
+  tenant_unit_id uuid not null references public.tenant_units(id) on delete cascade,
+  amount numeric not null check (amount >= 0),
+  effective_date date not null,
+  created_at timestamp with time zone default now() not null,
+  constraint uq_rent_history_effective_date unique (tenant_unit_id, effective_date)
+);
+
+-- Start each existing tenancy's history with its current rent
+insert into public.rent_history (tenant_unit_id, amount, effective_date)
+select tu.id, tu.rent_amount::numeric, coalesce(tu.lease_start, tu.created_at::date)
+from public.tenant_units tu
+where tu.rent_amount is not null
+and not exists (
+  select 1 from public.rent_history rh where rh.tenant_unit_id = tu.id
+);
+
+create index if not exists rent_history_tenant_unit_id_idx on public.rent_history(tenant_unit_id, effective_date);
+
+-- RLS for rent_history
+DO $$
+BEGIN
+  alter table public.rent_history enable row level security;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'rent_history'
+    AND policyname = 'Enable read access for all users'
+  ) THEN
+    create policy "Enable read access for all users" on public.rent_history for select using (true);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'rent_history'
+    AND policyname = 'Enable insert for authenticated users'
+  ) THEN
+    create policy "Enable insert for authenticated users" on public.rent_history for insert with check (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'rent_history'
+    AND policyname = 'Enable update for authenticated users'
+  ) THEN
+    create policy "Enable update for authenticated users" on public.rent_history for update using (auth.role() = 'authenticated');
+  END IF;
+END;
+$$;
+
+-- Rent increases: units first occupied after November 15, 2018 are exempt
+-- from the Ontario guideline, so the first occupancy date is kept per unit
+alter table public.units add column if not exists first_occupied_date date;
+
+-- Create rent_increases table (an increase given with an N1 and scheduled in rent_history)
+create table if not exists public.rent_increases (
+  id uuid default uuid_generate_v4() primary key,
+  tenant_unit_id uuid not null references public.tenant_units(id) on delete cascade,
+  tenant_id uuid not null references public.tenants(id),
+  unit_id uuid not null references public.units(id),
+  current_rent numeric not null,
+  new_rent numeric not null,
+  increase_percentage numeric not null,
+  guideline_percentage numeric, -- The guideline for the year the increase takes effect
+  guideline_exempt boolean not null default false,
+  effective_date date not null,
+  notice_deadline date not null, -- Last day the notice can be given
+  notice_type text not null default 'N1',
+  document_path text, -- Generated notice in storage
+  status text not null default 'scheduled' check (status in ('scheduled', 'cancelled')),
+  created_at timestamp with time zone default now() not null,
+  updated_at timestamp with time zone default now() not null
+);
+
+create index if not exists rent_increases_tenant_unit_id_idx on public.rent_increases(tenant_unit_id, effective_date);
+
+-- RLS for rent_increases
+DO $$
+BEGIN
+  alter table public.rent_increases enable row level security;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'rent_increases'
+    AND policyname = 'Enable read access for all users'
+  ) THEN
+    create policy "Enable read access for all users" on public.rent_increases for select using (true);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'rent_increases'
+    AND policyname = 'Enable insert for authenticated users'
+  ) THEN
+    create policy "Enable insert for authenticated users" on public.rent_increases for insert with check (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'rent_increases'
+    AND policyname = 'Enable update for authenticated users'
+  ) THEN
+    create policy "Enable update for authenticated users" on public.rent_increases for update using (auth.role() = 'authenticated');
+  END IF;
+END;
+$$;
+
+-- Trigger for rent_increases updated_at
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_trigger
+    WHERE tgname = 'update_rent_increases_updated_at'
+  ) THEN
+    create trigger update_rent_increases_updated_at
+      before update on public.rent_increases
+      for each row execute function public.update_updated_at_column();
+  END IF;
+END;
+$$;
+
+-- Create deposits table (last month's rent deposit held for a tenant_unit)
+create table if not exists public.deposits (
+  id uuid default uuid_generate_v4() primary key,
+  tenant_unit_id uuid not null references public.tenant_units(id) on delete cascade,
+  tenant_id uuid not null references public.tenants(id),
+  unit_id uuid not null references public.units(id),
+  amount numeric not null check (amount > 0), -- Held, including interest top-ups
+  received_date date not null,
+  interest_calculated_through date, -- Last tenancy anniversary interest was calculated for
+  status text not null default 'held' check (status in ('held', 'applied')),
+  applied_date date,
+  rent_payment_id uuid references public.rent_payments(id) on delete set null, -- The final rent charge the deposit paid
+  created_at timestamp with time zone default now() not null,
+  updated_at timestamp with time zone default now() not null,
+  constraint uq_deposits_tenant_unit unique (tenant_unit_id)
+);
+
+-- RLS for deposits
+DO $$
+BEGIN
+  alter table public.deposits enable row level security;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'deposits'
+    AND policyname = 'Enable read access for all users'
+  ) THEN
+    create policy "Enable read access for all users" on public.deposits for select using (true);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'deposits'
+    AND policyname = 'Enable insert for authenticated users'
+  ) THEN
+    create policy "Enable insert for authenticated users" on public.deposits for insert with check (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'deposits'
+    AND policyname = 'Enable update for authenticated users'
+  ) THEN
+    create policy "Enable update for authenticated users" on public.deposits for update using (auth.role() = 'authenticated');
+  END IF;
+END;
+$$;
+
+-- Trigger for deposits updated_at
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_trigger
+    WHERE tgname = 'update_deposits_updated_at'
+  ) THEN
+    create trigger update_deposits_updated_at
+      before update on public.deposits
+      for each row execute function public.update_updated_at_column();
+  END IF;
+END;
+$$;
+
+-- Create deposit_interest table (interest owed on a deposit on each tenancy anniversary)
+create table if not exists public.deposit_interest (
+  id uuid default uuid_generate_v4() primary key,
+  deposit_id uuid not null references public.deposits(id) on delete cascade,
+  tenant_unit_id uuid not null references public.tenant_units(id) on delete cascade,
+  anniversary_date date not null,
+  period_start date not null, -- The previous anniversary, or when the deposit was received if later
+  deposit_amount numeric not null,
+  interest_rate numeric not null,
+  amount numeric not null,
+  status text not null default 'pending' check (status in ('pending', 'topped_up', 'credited')),
+  top_up_amount numeric not null default 0, -- Added to the deposit
+  credit_amount numeric not null default 0, -- Credited on the tenant ledger
+  applied_date date,
+  created_at timestamp with time zone default now() not null,
+  updated_at timestamp with time zone default now() not null,
+  constraint uq_deposit_interest_anniversary unique (deposit_id, anniversary_date)
+);
+
+create index if not exists deposit_interest_tenant_unit_id_idx on public.deposit_interest(tenant_unit_id, anniversary_date);
+
+-- RLS for deposit_interest
+DO $$
+BEGIN
+  alter table public.deposit_interest enable row level security;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'deposit_interest'
+    AND policyname = 'Enable read access for all users'
+  ) THEN
+    create policy "Enable read access for all users" on public.deposit_interest for select using (true);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'deposit_interest'
+    AND policyname = 'Enable insert for authenticated users'
+  ) THEN
+    create policy "Enable insert for authenticated users" on public.deposit_interest for insert with check (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'deposit_interest'
+    AND policyname = 'Enable update for authenticated users'
+  ) THEN
+    create policy "Enable update for authenticated users" on public.deposit_interest for update using (auth.role() = 'authenticated');
+  END IF;
+END;
+$$;
+
+-- Trigger for deposit_interest updated_at
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_trigger
+    WHERE tgname = 'update_deposit_interest_updated_at'
+  ) THEN
+    create trigger update_deposit_interest_updated_at
+      before update on public.deposit_interest
+      for each row execute function public.update_updated_at_column();
+  END IF;
+END;
+$$;
+
+-- Move-out: ended tenancies stop being charged, the unit becomes vacant and
+-- the tenant is kept as a former tenant
+alter table public.tenant_units add column if not exists status text not null default 'active';
+alter table public.tenants add column if not exists status text not null default 'current';
+alter table public.units add column if not exists status text not null default 'occupied';
+
+-- Units nobody rents were never occupied
+update public.units set status = 'vacant'
+where not exists (select 1 from public.tenant_units where tenant_units.unit_id = units.id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM   pg_constraint
+    WHERE  conname = 'tenant_units_status_check'
+    AND    conrelid = 'public.tenant_units'::regclass
+  ) THEN
+    ALTER TABLE public.tenant_units
+      ADD CONSTRAINT tenant_units_status_check
+      CHECK (status IN ('active', 'ended'));
+  END IF;
+END;
+$$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM   pg_constraint
+    WHERE  conname = 'tenants_status_check'
+    AND    conrelid = 'public.tenants'::regclass
+  ) THEN
+    ALTER TABLE public.tenants
+      ADD CONSTRAINT tenants_status_check
+      CHECK (status IN ('current', 'former'));
+  END IF;
+END;
+$$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM   pg_constraint
+    WHERE  conname = 'units_status_check'
+    AND    conrelid = 'public.units'::regclass
+  ) THEN
+    ALTER TABLE public.units
+      ADD CONSTRAINT units_status_check
+      CHECK (status IN ('occupied', 'vacant'));
+  END IF;
+END;
+$$;
+
+-- Create move_outs table (the final statement of an ended tenancy)
+create table if not exists public.move_outs (
+  id uuid default uuid_generate_v4() primary key,
+  tenant_unit_id uuid not null references public.tenant_units(id) on delete cascade,
+  tenant_id uuid not null references public.tenants(id),
+  unit_id uuid not null references public.units(id),
+  move_out_date date not null,
+  final_rent_payment_id uuid references public.rent_payments(id) on delete set null,
+  arrears numeric not null default 0, -- Rent owing for periods before the final one
+  final_rent numeric not null default 0, -- Final period's rent, prorated to the move-out date
+  final_rent_paid numeric not null default 0,
+  deposit_applied numeric not null default 0,
+  credit numeric not null default 0,
+  balance numeric not null default 0, -- Positive when the tenant owes money, negative when a refund is due
+  document_path text, -- Closing statement in storage
+  created_at timestamp with time zone default now() not null,
+  updated_at timestamp with time zone default now() not null,
+  constraint uq_move_outs_tenant_unit unique (tenant_unit_id)
+);
+
+-- RLS for move_outs
+DO $$
+BEGIN
+  alter table public.move_outs enable row level security;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'move_outs'
+    AND policyname = 'Enable read access for all users'
+  ) THEN
+    create policy "Enable read access for all users" on public.move_outs for select using (true);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'move_outs'
+    AND policyname = 'Enable insert for authenticated users'
+  ) THEN
+    create policy "Enable insert for authenticated users" on public.move_outs for insert with check (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'move_outs'
+    AND policyname = 'Enable update for authenticated users'
+  ) THEN
+    create policy "Enable update for authenticated users" on public.move_outs for update using (auth.role() = 'authenticated');
+  END IF;
+END;
+$$;
+
+-- Trigger for move_outs updated_at
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_trigger
+    WHERE tgname = 'update_move_outs_updated_at'
+  ) THEN
+    create trigger update_move_outs_updated_at
+      before update on public.move_outs
+      for each row execute function public.update_updated_at_column();
+  END IF;
+END;
+$$;
+
+-- Joint tenancies: roommates share one rent charge, carried by the joint
+-- lease's tenant_unit, and each owes their share of it
+alter table public.tenant_units add column if not exists joint_lease_id uuid references public.tenant_units(id) on delete set null;
+alter table public.tenant_units add column if not exists rent_share numeric;
+alter table public.ledger_entries add column if not exists payer_tenant_id uuid references public.tenants(id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM   pg_constraint
+    WHERE  conname = 'tenant_units_rent_share_check'
+    AND    conrelid = 'public.tenant_units'::regclass
+  ) THEN
+    ALTER TABLE public.tenant_units
+      ADD CONSTRAINT tenant_units_rent_share_check
+      CHECK (rent_share > 0 AND rent_share <= 100);
+  END IF;
+END;
+$$;
+
+-- Create rent_payment_shares table (each roommate's part of a joint lease's rent charge)
+create table if not exists public.rent_payment_shares (
+  id uuid default uuid_generate_v4() primary key,
+  rent_payment_id uuid not null references public.rent_payments(id) on delete cascade,
+  tenant_id uuid not null references public.tenants(id),
+  tenant_unit_id uuid not null references public.tenant_units(id) on delete cascade,
+  share numeric not null, -- Percentage of the rent when the charge was made
+  amount numeric not null,
+  interac_request_link text, -- Request for what the roommate owed when the charge was made
+  created_at timestamp with time zone default now() not null,
+  updated_at timestamp with time zone default now() not null,
+  constraint uq_rent_payment_shares unique (rent_payment_id, tenant_id)
+);
+
+-- RLS for rent_payment_shares
+DO $$
+BEGIN
+  alter table public.rent_payment_shares enable row level security;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'rent_payment_shares'
+    AND policyname = 'Enable read access for all users'
+  ) THEN
+    create policy "Enable read access for all users" on public.rent_payment_shares for select using (true);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'rent_payment_shares'
+    AND policyname = 'Enable insert for authenticated users'
+  ) THEN
+    create policy "Enable insert for authenticated users" on public.rent_payment_shares for insert with check (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'rent_payment_shares'
+    AND policyname = 'Enable update for authenticated users'
+  ) THEN
+    create policy "Enable update for authenticated users" on public.rent_payment_shares for update using (auth.role() = 'authenticated');
+  END IF;
+END;
+$$;
+
+-- Trigger for rent_payment_shares updated_at
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_trigger
+    WHERE tgname = 'update_rent_payment_shares_updated_at'
+  ) THEN
+    create trigger update_rent_payment_shares_updated_at
+      before update on public.rent_payment_shares
+      for each row execute function public.update_updated_at_column();
+  END IF;
+END;
+$$;
+
+-- Create recurring_charges table (parking, storage, utilities and lockers billed on top of rent)
+create table if not exists public.recurring_charges (
+  id uuid default uuid_generate_v4() primary key,
+  tenant_unit_id uuid not null references public.tenant_units(id) on delete cascade,
+  category text not null check (category in ('parking', 'storage', 'utilities', 'locker', 'other')),
+  description text, -- Shown to the tenant instead of the category, e.g. "Parking spot P12"
+  amount numeric not null check (amount > 0),
+  frequency text not null default 'monthly' check (frequency in ('weekly', 'biweekly', 'monthly', 'quarterly')),
+  start_date date not null, -- Billed for every period that starts between the start and end dates
+  end_date date,
+  created_at timestamp with time zone default now() not null,
+  updated_at timestamp with time zone default now() not null
+);
+
+create index if not exists recurring_charges_tenant_unit_id_idx on public.recurring_charges(tenant_unit_id);
+
+-- Create additional_charges table (each charge billed on top of rent, kept out of rent arrears and the N4)
+create table if not exists public.additional_charges (
+  id uuid default uuid_generate_v4() primary key,
+  recurring_charge_id uuid references public.recurring_charges(id) on delete set null,
+  tenant_unit_id uuid not null references public.tenant_units(id) on delete cascade,
+  tenant_id uuid not null references public.tenants(id),
+  unit_id uuid not null references public.units(id),
+  category text not null,
+  description text,
+  amount numeric not null,
+  billing_period text, -- Unique per recurring charge, so generation never bills a period twice
+  due_date date not null,
+  rent_payment_id uuid references public.rent_payments(id) on delete set null, -- The rent it was requested with
+  interac_request_link text,
+  requested_at timestamp with time zone, -- When the tenant was asked to pay it
+  created_at timestamp with time zone default now() not null,
+  updated_at timestamp with time zone default now() not null,
+  constraint uq_additional_charges_period unique (recurring_charge_id, billing_period)
+);
+
+create index if not exists additional_charges_tenant_unit_id_idx on public.additional_charges(tenant_unit_id, due_date);
+
+-- The parking, storage or other charge a ledger entry belongs to
+alter table public.ledger_entries add column if not exists additional_charge_id uuid references public.additional_charges(id) on delete set null;
+create index if not exists ledger_entries_additional_charge_id_idx on public.ledger_entries(additional_charge_id);
+
+-- RLS for recurring_charges
+DO $$
+BEGIN
+  alter table public.recurring_charges enable row level security;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'recurring_charges'
+    AND policyname = 'Enable read access for all users'
+  ) THEN
+    create policy "Enable read access for all users" on public.recurring_charges for select using (true);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'recurring_charges'
+    AND policyname = 'Enable insert for authenticated users'
+  ) THEN
+    create policy "Enable insert for authenticated users" on public.recurring_charges for insert with check (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'recurring_charges'
+    AND policyname = 'Enable update for authenticated users'
+  ) THEN
+    create policy "Enable update for authenticated users" on public.recurring_charges for update using (auth.role() = 'authenticated');
+  END IF;
+END;
+$$;
+
+-- Trigger for recurring_charges updated_at
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_trigger
+    WHERE tgname = 'update_recurring_charges_updated_at'
+  ) THEN
+    create trigger update_recurring_charges_updated_at
+      before update on public.recurring_charges
+      for each row execute function public.update_updated_at_column();
+  END IF;
+END;
+$$;
+
+-- RLS for additional_charges
+DO $$
+BEGIN
+  alter table public.additional_charges enable row level security;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'additional_charges'
+    AND policyname = 'Enable read access for all users'
+  ) THEN
+    create policy "Enable read access for all users" on public.additional_charges for select using (true);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'additional_charges'
+    AND policyname = 'Enable insert for authenticated users'
+  ) THEN
+    create policy "Enable insert for authenticated users" on public.additional_charges for insert with check (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'additional_charges'
+    AND policyname = 'Enable update for authenticated users'
+  ) THEN
+    create policy "Enable update for authenticated users" on public.additional_charges for update using (auth.role() = 'authenticated');
+  END IF;
+END;
+$$;
+
+-- Trigger for additional_charges updated_at
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_trigger
+    WHERE tgname = 'update_additional_charges_updated_at'
+  ) THEN
+    create trigger update_additional_charges_updated_at
+      before update on public.additional_charges
+      for each row execute function public.update_updated_at_column();
+  END IF;
+END;
+$$;
+
+-- Utility sub-metering: a property's hydro, water or gas bill is split
+-- across its units and charged to their tenants
+alter table public.units add column if not exists square_feet numeric check (square_feet > 0);
+
+-- Create utility_bills table (one utility bill for a property and the period it covers)
+create table if not exists public.utility_bills (
+  id uuid default uuid_generate_v4() primary key,
+  property_id uuid not null references public.properties(id) on delete cascade,
+  utility_type text not null check (utility_type in ('hydro', 'water', 'gas')),
+  period_start date not null,
+  period_end date not null,
+  total_amount numeric not null check (total_amount > 0),
+  allocation_method text not null check (allocation_method in ('meter', 'square_footage', 'equal')),
+  due_date date not null, -- When the tenants' charges fall due
+  created_at timestamp with time zone default now() not null,
+  updated_at timestamp with time zone default now() not null,
+  constraint chk_utility_bills_period check (period_end >= period_start)
+);
+
+create index if not exists utility_bills_property_id_idx on public.utility_bills(property_id, period_start);
+
+-- Create utility_bill_allocations table (each unit's part of a utility bill)
+create table if not exists public.utility_bill_allocations (
+  id uuid default uuid_generate_v4() primary key,
+  utility_bill_id uuid not null references public.utility_bills(id) on delete cascade,
+  unit_id uuid not null references public.units(id),
+  tenant_unit_id uuid references public.tenant_units(id) on delete set null, -- Null for a vacant unit, whose part the landlord pays
+  meter_start numeric,
+  meter_end numeric,
+  basis numeric not null, -- Meter usage, square feet, or 1 for an equal share
+  share numeric not null, -- Percentage of the bill
+  amount numeric not null,
+  additional_charge_id uuid references public.additional_charges(id) on delete set null, -- The charge to the tenant
+  document_path text, -- The tenant's breakdown PDF in storage
+  created_at timestamp with time zone default now() not null,
+  updated_at timestamp with time zone default now() not null,
+  constraint uq_utility_bill_allocations_unit unique (utility_bill_id, unit_id)
+);
+
+-- RLS for utility_bills
+DO $$
+BEGIN
+  alter table public.utility_bills enable row level security;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'utility_bills'
+    AND policyname = 'Enable read access for all users'
+  ) THEN
+    create policy "Enable read access for all users" on public.utility_bills for select using (true);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'utility_bills'
+    AND policyname = 'Enable insert for authenticated users'
+  ) THEN
+    create policy "Enable insert for authenticated users" on public.utility_bills for insert with check (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'utility_bills'
+    AND policyname = 'Enable update for authenticated users'
+  ) THEN
+    create policy "Enable update for authenticated users" on public.utility_bills for update using (auth.role() = 'authenticated');
+  END IF;
+END;
+$$;
+
+-- Trigger for utility_bills updated_at
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_trigger
+    WHERE tgname = 'update_utility_bills_updated_at'
+  ) THEN
+    create trigger update_utility_bills_updated_at
+      before update on public.utility_bills
+      for each row execute function public.update_updated_at_column();
+  END IF;
+END;
+$$;
+
+-- RLS for utility_bill_allocations
+DO $$
+BEGIN
+  alter table public.utility_bill_allocations enable row level security;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'utility_bill_allocations'
+    AND policyname = 'Enable read access for all users'
+  ) THEN
+    create policy "Enable read access for all users" on public.utility_bill_allocations for select using (true);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'utility_bill_allocations'
+    AND policyname = 'Enable insert for authenticated users'
+  ) THEN
+    create policy "Enable insert for authenticated users" on public.utility_bill_allocations for insert with check (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE tablename = 'utility_bill_allocations'
+    AND policyname = 'Enable update for authenticated users'
+  ) THEN
+    create policy "Enable update for authenticated users" on public.utility_bill_allocations for update using (auth.role() = 'authenticated');
+  END IF;
+END;
+$$;
+
+-- Trigger for utility_bill_allocations updated_at
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_trigger
+    WHERE tgname = 'update_utility_bill_allocations_updated_at'
+  ) THEN
+    create trigger update_utility_bill_allocations_updated_at
+      before update on public.utility_bill_allocations
+      for each row execute function public.update_updated_at_column();
+  END IF;
+END;
+$$;
@@ -68,6 +68,84 @@
   ]
 }
 
+/*
+  Template Name: payment_plan_installment_reminder
+  Category: UTILITY
+  Language: en_US
+*/
+{
+  "name": "payment_plan_installment_reminder",
+  "language": "en_US",
+  "category": "UTILITY",
+  "components": [
+    {
+      "type": "BODY",
+      "text": "Hello {{1}},\n\nThis is a reminder that your next payment plan installment of {{2}} is due on {{3}} for {{4}}.\n\nKeeping up with your payment plan keeps your tenancy in good standing. Thank you.",
+      "example": {
+        "body_text": [
+          ["John Smith", "$500.00", "May 15, 2023", "Unit 101, 123 Main Street, Toronto, ON M5V 1A1"]
+        ]
+      }
+    },
+    {
+      "type": "FOOTER",
+      "text": "This is an automated message from your property management system."
+    }
+  ]
+}
+
+/*
+  Template Name: rent_covered_by_credit
+  Category: UTILITY
+  Language: en_US
+*/
+{
+  "name": "rent_covered_by_credit",
+  "language": "en_US",
+  "category": "UTILITY",
+  "components": [
+    {
+      "type": "BODY",
+      "text": "Hello {{1}},\n\nYour rent of {{2}} due on {{3}} for {{4}} has been covered by the credit on your account. There is nothing to pay this period.\n\nYour remaining credit is {{5}}. Thank you.",
+      "example": {
+        "body_text": [
+          ["John Smith", "$1,500.00", "May 1, 2023", "Unit 101, 123 Main Street, Toronto, ON M5V 1A1", "$1,500.00"]
+        ]
+      }
+    },
+    {
+      "type": "FOOTER",
+      "text": "This is an automated message from your property management system."
+    }
+  ]
+}
+
+/*
+  Template Name: rent_due_prorated
+  Category: UTILITY
+  Language: en_US
+*/
+{
+  "name": "rent_due_prorated",
+  "language": "en_US",
+  "category": "UTILITY",
+  "components": [
+    {
+      "type": "BODY",
+      "text": "Hello {{1}},\n\nYour rent of {{2}} is due on {{3}} for {{4}}. This is a partial period, so the rent has been prorated:\n\n{{6}}\n\nPlease use the following link to make your payment:\n\n{{5}}\n\nThank you.",
+      "example": {
+        "body_text": [
+          ["John Smith", "$725.85", "October 17, 2026", "Unit 101, 123 Main Street, Toronto, ON M5V 1A1", "https://interac.mock/request?reference=123", "Prorated rent 2026-10-17 to 2026-10-31: 15 of 31 days at $48.39/day ($1500.00 / 31 days) = $725.85"]
+        ]
+      }
+    },
+    {
+      "type": "FOOTER",
+      "text": "This is an automated message from your property management system."
+    }
+  ]
+}
+
 /* 
   Instructions for setting up WhatsApp templates:
   
@@ -61,6 +61,7 @@ export interface Tenant {
   last_name: string;
   email: string;
   phone: string; // WhatsApp-enabled phone number
+  status?: "current" | "former"; // Former tenants have moved out of every unit they rented
   created_at?: string;
   updated_at?: string;
   // The following fields are not stored in the tenants table but derived through relationships
@@ -74,6 +75,11 @@ export interface Tenant {
   unit_number?: string; // Derived from units relationship
   rent_amount?: number | null; // Derived from tenant_units relationship
   rent_due_day?: number | null; // Derived from tenant_units relationship
+  rent_frequency?: TenantUnit["rent_frequency"] | null; // Derived from tenant_units relationship
+  rent_anchor_date?: string | null; // Derived from tenant_units relationship
+  lease_start?: string | null; // Derived from tenant_units relationship
+  lease_end?: string | null; // Derived from tenant_units relationship
+  rent_history?: RentHistoryEntry[]; // Effective-dated rent amounts, oldest first
   tenant_units?: TenantUnit[]; // Related tenant-unit relationships
   units?: { // Nested unit information
     id: string;
@@ -100,13 +106,29 @@ export interface Tenant {
 }
 
 export interface TenantUnit {
+  id: string; // UUID in the database
   tenant_id: string; // UUID in the database
   unit_id: string; // UUID in the database
   is_primary: boolean;
   rent_amount: number; // Added field for per-tenant rent amount
   rent_due_day: number; // Added field for per-tenant rent due day
+  rent_frequency: "weekly" | "biweekly" | "monthly" | "quarterly";
+  rent_anchor_date: string | null; // First due date for weekly, bi-weekly and quarterly rent
   lease_start: string;
   lease_end: string | null;
+  status: "active" | "ended"; // Ended on move-out; no more rent is charged
+  joint_lease_id?: string | null; // Set on roommates: the tenant_unit that carries the joint lease's rent
+  rent_share?: number | null; // Percentage of the rent a joint tenant owes
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Landlord {
+  id: string; // UUID in the database
+  user_id: string | null;
+  name: string;
+  email: string;
+  phone: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -119,6 +141,7 @@ export interface Property {
   province: string;
   postal_code: string;
   landlord_id: string; // UUID in the database
+  proration_method: "actual_days" | "365_12"; // How partial first and last periods are charged
   created_at: string;
   updated_at: string;
 }
@@ -131,6 +154,9 @@ export interface Unit {
   rent_due_day: number; // Day of month rent is due
   lease_start: string;
   lease_end: string | null; // null for month-to-month
+  first_occupied_date: string | null; // Decides whether the rent increase guideline applies
+  square_feet: number | null; // Used to split utility bills by floor area
+  status: "occupied" | "vacant";
   created_at: string;
   updated_at: string;
 }
@@ -140,6 +166,10 @@ export interface RentPayment {
   tenant_id: string;
   unit_id: string;
   amount: number;
+  amount_paid?: number | null; // Amount received so far (used for partial payments)
+  tenant_unit_id?: string | null;
+  billing_period?: string | null; // e.g. 2026-10, unique per tenant_unit
+  description?: string | null; // Set when the charge is prorated, showing the calculation
   due_date: string;
   payment_date: string | null;
   status: "pending" | "paid" | "late" | "partial";
@@ -153,11 +183,260 @@ export interface Notification {
   id: string;
   tenant_id: string;
   payment_id: string | null;
-  type: "rent_due" | "rent_late" | "receipt" | "form_n4" | "form_l1";
+  type: "rent_due" | "rent_late" | "receipt" | "form_n4" | "form_l1" | "n4_voided" | "installment_reminder" | "credit_applied" | "additional_charges_due" | "utility_bill";
   channel: "whatsapp" | "email";
   status: "pending" | "sent" | "delivered" | "read" | "failed";
   message_id: string | null;
   sent_at: string | null;
+  delivered_at: string | null;
+  read_at: string | null;
+  document_path: string | null; // Storage path of an attached document (e.g. a generated N4)
+  created_at: string;
+  updated_at: string;
+}
+
+export type LegalNoticeType = "N4" | "L1" | "RTB-30";
+
+export type LegalNoticeStatus = "draft" | "served" | "voided_by_payment" | "filed" | "withdrawn";
+
+export type ServiceMethod = "hand" | "mail" | "courier" | "door";
+
+export interface LegalNotice {
+  id: string;
+  tenant_id: string;
+  unit_id: string;
+  tenant_unit_id: string | null;
+  notice_type: LegalNoticeType;
+  jurisdiction: string; // Province code whose rules apply (ON, BC)
+  parent_notice_id: string | null; // The N4 an L1 is based on
+  payment_ids: string[]; // rent_payments covered by this notice
+  amount_owed: number;
+  termination_date: string | null;
+  rent_period: TenantUnit["rent_frequency"] | null; // Sets the notice period; weekly tenancies get 7 days
+  service_method: ServiceMethod | null;
+  served_date: string | null;
+  deemed_service_date: string | null;
+  document_path: string | null;
+  certificate_path: string | null; // Certificate of Service PDF
+  status: LegalNoticeStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+export type PaymentPlanStatus = "active" | "completed" | "defaulted" | "cancelled";
+
+export type InstallmentStatus = "pending" | "paid" | "missed";
+
+// Repayment agreement for a tenant in arrears
+export interface PaymentPlan {
+  id: string;
+  tenant_unit_id: string;
+  tenant_id: string;
+  unit_id: string;
+  total_owed: number;
+  status: PaymentPlanStatus;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PaymentPlanInstallment {
+  id: string;
+  payment_plan_id: string;
+  due_date: string;
+  amount: number;
+  amount_paid: number;
+  paid_date: string | null;
+  status: InstallmentStatus;
+  reminder_sent_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type LedgerEntryType = "charge" | "payment" | "adjustment";
+
+// One line of a tenant_unit's ledger. Debits increase what the tenant owes, credits reduce it.
+export interface LedgerEntry {
+  id: string;
+  tenant_unit_id: string;
+  tenant_id: string;
+  unit_id: string;
+  entry_date: string;
+  entry_type: LedgerEntryType;
+  category: string; // rent, fee, nsf_fee, late_fee, ...
+  description: string | null;
+  debit: number;
+  credit: number;
+  rent_payment_id: string | null; // The rent charge this entry belongs to
+  payer_tenant_id?: string | null; // Roommate who made a payment on a joint lease's rent
+  additional_charge_id?: string | null; // The parking, storage or other charge this entry belongs to
+  payment_method: string | null;
+  reference: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// An effective-dated rent amount for a tenant_unit
+export interface RentHistoryEntry {
+  id: string;
+  tenant_unit_id: string;
+  amount: number;
+  effective_date: string;
+  created_at: string;
+}
+
+export type RentIncreaseStatus = "scheduled" | "cancelled";
+
+// A rent increase given with a notice (an N1 in Ontario) and scheduled in the rent history
+export interface RentIncrease {
+  id: string;
+  tenant_unit_id: string;
+  tenant_id: string;
+  unit_id: string;
+  current_rent: number;
+  new_rent: number;
+  increase_percentage: number;
+  guideline_percentage: number | null; // The year's guideline, even for exempt units
+  guideline_exempt: boolean; // First occupied after the guideline cut-off
+  effective_date: string;
+  notice_deadline: string; // Last day to give the notice
+  notice_type: string;
+  document_path: string | null;
+  status: RentIncreaseStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+export type DepositStatus = "held" | "applied";
+
+// A last month's rent deposit held for a tenant_unit
+export interface Deposit {
+  id: string;
+  tenant_unit_id: string;
+  tenant_id: string;
+  unit_id: string;
+  amount: number; // Held, including interest top-ups
+  received_date: string;
+  interest_calculated_through: string | null; // Last tenancy anniversary interest was calculated for
+  status: DepositStatus;
+  applied_date: string | null;
+  rent_payment_id: string | null; // The final rent charge the deposit paid
+  created_at: string;
+  updated_at: string;
+}
+
+export type DepositInterestStatus = "pending" | "topped_up" | "credited";
+
+// Interest owed on a deposit on a tenancy anniversary, and how it was paid
+export interface DepositInterestPayment {
+  id: string;
+  deposit_id: string;
+  tenant_unit_id: string;
+  anniversary_date: string;
+  period_start: string;
+  deposit_amount: number;
+  interest_rate: number;
+  amount: number;
+  status: DepositInterestStatus;
+  top_up_amount: number;
+  credit_amount: number;
+  applied_date: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// The final statement of a tenancy ended on move-out
+export interface MoveOut {
+  id: string;
+  tenant_unit_id: string;
+  tenant_id: string;
+  unit_id: string;
+  move_out_date: string;
+  final_rent_payment_id: string | null;
+  arrears: number;
+  final_rent: number;
+  final_rent_paid: number;
+  deposit_applied: number;
+  credit: number;
+  balance: number; // Positive when the tenant owes money, negative when a refund is due
+  document_path: string | null; // Closing statement in storage
+  created_at: string;
+  updated_at: string;
+}
+
+// A roommate's part of a joint lease's rent charge
+export interface RentPaymentShare {
+  id: string;
+  rent_payment_id: string;
+  tenant_id: string;
+  tenant_unit_id: string;
+  share: number; // Percentage of the rent when the charge was made
+  amount: number;
+  interac_request_link: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Parking, storage, utilities or a locker billed on top of rent
+export interface RecurringCharge {
+  id: string;
+  tenant_unit_id: string;
+  category: "parking" | "storage" | "utilities" | "locker" | "other";
+  description: string | null;
+  amount: number;
+  frequency: "weekly" | "biweekly" | "monthly" | "quarterly";
+  start_date: string;
+  end_date: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// One charge billed on top of rent; not part of rent arrears or the N4
+export interface AdditionalCharge {
+  id: string;
+  recurring_charge_id: string | null;
+  tenant_unit_id: string;
+  tenant_id: string;
+  unit_id: string;
+  category: string;
+  description: string | null;
+  amount: number;
+  billing_period: string | null;
+  due_date: string;
+  rent_payment_id: string | null; // The rent it was requested with
+  interac_request_link: string | null;
+  requested_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A property's utility bill, split across its units
+export interface UtilityBill {
+  id: string;
+  property_id: string;
+  utility_type: "hydro" | "water" | "gas";
+  period_start: string;
+  period_end: string;
+  total_amount: number;
+  allocation_method: "meter" | "square_footage" | "equal";
+  due_date: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// A unit's part of a utility bill and the charge to its tenant
+export interface UtilityBillAllocation {
+  id: string;
+  utility_bill_id: string;
+  unit_id: string;
+  tenant_unit_id: string | null; // Null for a vacant unit
+  meter_start: number | null;
+  meter_end: number | null;
+  basis: number; // Meter usage, square feet, or 1 for an equal share
+  share: number; // Percentage of the bill
+  amount: number;
+  additional_charge_id: string | null;
+  document_path: string | null; // The tenant's breakdown PDF in storage
   created_at: string;
   updated_at: string;
 }
@@ -12,6 +12,14 @@ import whatsappRoutes from "./routes/whatsapp";
 import cronRoutes from "./routes/cron";
 import pdfRoutes from "./routes/pdf";
 import aiToolsRoutes from "./routes/ai-tools";
+import legalNoticesRoutes from "./routes/legal-notices";
+import paymentPlansRoutes from "./routes/payment-plans";
+import rentIncreasesRoutes from "./routes/rent-increases";
+import depositsRoutes from "./routes/deposits";
+import moveOutsRoutes from "./routes/move-outs";
+import jointTenanciesRoutes from "./routes/joint-tenancies";
+import additionalChargesRoutes from "./routes/additional-charges";
+import utilityBillsRoutes from "./routes/utility-bills";
 
 // Load environment variables
 dotenv.config({ path: path.resolve(__dirname, "../.env") });
@@ -34,6 +42,14 @@ app.use("/api/rent", rentRoutes);
 app.use("/api/whatsapp", whatsappRoutes);
 app.use("/api/pdf", pdfRoutes);
 app.use("/api/ai-tools", aiToolsRoutes);
+app.use("/api/legal-notices", legalNoticesRoutes);
+app.use("/api/payment-plans", paymentPlansRoutes);
+app.use("/api/rent-increases", rentIncreasesRoutes);
+app.use("/api/deposits", depositsRoutes);
+app.use("/api/move-outs", moveOutsRoutes);
+app.use("/api/joint-tenancies", jointTenanciesRoutes);
+app.use("/api/additional-charges", additionalChargesRoutes);
+app.use("/api/utility-bills", utilityBillsRoutes);
 app.use("/api/cron", cronRoutes);
 
 // Root route for health check with DB connection test
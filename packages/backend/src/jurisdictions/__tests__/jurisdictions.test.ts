@@ -0,0 +1,55 @@
+import {
+  getJurisdictionForProvince,
+  getJurisdictionByCode,
+  NON_PAYMENT_NOTICE_TYPES,
+  ontario,
+  britishColumbia
+} from '..';
+
+describe('jurisdiction selection', () => {
+  test('matches province codes and names', () => {
+    expect(getJurisdictionForProvince('ON')).toBe(ontario);
+    expect(getJurisdictionForProvince(' ontario ')).toBe(ontario);
+    expect(getJurisdictionForProvince('BC')).toBe(britishColumbia);
+    expect(getJurisdictionForProvince('British Columbia')).toBe(britishColumbia);
+  });
+
+  test('returns null for provinces without rules', () => {
+    expect(getJurisdictionForProvince('AB')).toBeNull();
+    expect(getJurisdictionForProvince('')).toBeNull();
+    expect(getJurisdictionByCode('QC')).toBeNull();
+  });
+
+  test('lists the non-payment notice of every jurisdiction', () => {
+    expect(NON_PAYMENT_NOTICE_TYPES).toEqual(['N4', 'RTB-30']);
+  });
+});
+
+describe('jurisdiction rules', () => {
+  test('Ontario gives 14 days notice after deemed service', () => {
+    expect(ontario.getServiceDates('2026-10-19', 'mail')).toEqual({
+      servedDate: '2026-10-19',
+      serviceMethod: 'mail',
+      deemedServiceDate: '2026-10-24',
+      earliestTerminationDate: '2026-11-07'
+    });
+  });
+
+  test('BC gives 10 days notice after the notice is deemed received', () => {
+    expect(britishColumbia.getServiceDates('2026-10-19', 'door')).toEqual({
+      servedDate: '2026-10-19',
+      serviceMethod: 'door',
+      deemedServiceDate: '2026-10-22',
+      earliestTerminationDate: '2026-11-01'
+    });
+    expect(britishColumbia.getServiceDates('2026-10-19', 'mail').earliestTerminationDate).toBe('2026-11-03');
+    expect(britishColumbia.getServiceDates('2026-10-19', 'hand').earliestTerminationDate).toBe('2026-10-29');
+  });
+
+  test('every non-payment notice has a form to render it', () => {
+    [ontario, britishColumbia].forEach((jurisdiction) => {
+      expect(jurisdiction.noticeTypes[jurisdiction.nonPayment.noticeType].formCode).toBeTruthy();
+      expect(jurisdiction.serviceMethods).toContain(jurisdiction.defaultServiceMethod);
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { addDays } from "../utils/date";
+import { NoticeServiceMethod, ServiceDates } from "../services/serviceDate.utils";
+import { Jurisdiction } from "./types";
+
+// A notice sent by mail is deemed received on the fifth day after mailing
+export const BC_MAIL_SERVICE_DAYS = 5;
+
+// A notice attached to the door is deemed received on the third day after it is attached
+export const BC_DOOR_SERVICE_DAYS = 3;
+
+// Minimum days between receipt of a 10 Day Notice and its effective date
+export const BC_UNPAID_RENT_NOTICE_DAYS = 10;
+
+/**
+ * Date a BC notice is deemed received
+ */
+export const calculateBcDeemedServiceDate = (servedDate: string, serviceMethod: NoticeServiceMethod): string => {
+  const date = servedDate.split("T")[0];
+
+  switch (serviceMethod) {
+    case "mail":
+      return addDays(date, BC_MAIL_SERVICE_DAYS);
+    case "door":
+      return addDays(date, BC_DOOR_SERVICE_DAYS);
+    case "hand":
+    default:
+      return date;
+  }
+};
+
+// British Columbia, Residential Tenancy Act. Disputes go to the Residential Tenancy Branch.
+export const britishColumbia: Jurisdiction = {
+  code: "BC",
+  name: "British Columbia",
+  provinceNames: ["BC", "B.C.", "British Columbia"],
+  tribunal: "Residential Tenancy Branch",
+  noticeTypes: {
+    "RTB-30": { code: "RTB-30", title: "10 Day Notice to End Tenancy for Unpaid Rent or Utilities", formCode: "RTB-30" }
+  },
+  nonPayment: {
+    noticeType: "RTB-30",
+    // The notice can be given the day after rent is due
+    daysLateBeforeNotice: 1,
+    // Orders of possession are requested through the RTB Direct Request process, outside the app
+    applicationType: null,
+    applicationWaitingDays: 0
+  },
+  serviceMethods: ["hand", "mail", "door"],
+  defaultServiceMethod: "door",
+  allowedFees: {
+    lateFee: 25,
+    nsfFee: 25
+  },
+  rentIncrease: null,
+  // Only security and pet damage deposits can be taken, not last month's rent
+  lastMonthRentDeposit: null,
+  getServiceDates: (servedDate: string, serviceMethod: NoticeServiceMethod): ServiceDates => {
+    const deemedServiceDate = calculateBcDeemedServiceDate(servedDate, serviceMethod);
+
+    return {
+      servedDate: servedDate.split("T")[0],
+      serviceMethod,
+      deemedServiceDate,
+      earliestTerminationDate: addDays(deemedServiceDate, BC_UNPAID_RENT_NOTICE_DAYS)
+    };
+  }
+};
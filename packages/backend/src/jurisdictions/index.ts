@@ -0,0 +1,39 @@
+import { ontario } from "./ontario";
+import { britishColumbia } from "./britishColumbia";
+import { Jurisdiction } from "./types";
+
+// Every province the escalation rules support. Add new plugins here.
+export const JURISDICTIONS: Jurisdiction[] = [ontario, britishColumbia];
+
+// Notices for legal_notices created before jurisdictions existed
+export const DEFAULT_JURISDICTION = ontario;
+
+// Notice types that end a tenancy for unpaid rent, in any jurisdiction
+export const NON_PAYMENT_NOTICE_TYPES = JURISDICTIONS.map((jurisdiction) => jurisdiction.nonPayment.noticeType);
+
+/**
+ * Find the jurisdiction by its code (ON, BC)
+ */
+export const getJurisdictionByCode = (code: string | null | undefined): Jurisdiction | null => {
+  if (!code) {
+    return null;
+  }
+  return JURISDICTIONS.find((jurisdiction) => jurisdiction.code === code.toUpperCase()) || null;
+};
+
+/**
+ * Find the jurisdiction for a property's province, or null when the province is not supported
+ */
+export const getJurisdictionForProvince = (province: string | null | undefined): Jurisdiction | null => {
+  const name = (province || "").trim().toLowerCase();
+  if (!name) {
+    return null;
+  }
+
+  return JURISDICTIONS.find((jurisdiction) =>
+    jurisdiction.provinceNames.some((provinceName) => provinceName.toLowerCase() === name)
+  ) || null;
+};
+
+export { ontario, britishColumbia };
+export { Jurisdiction, NoticeTypeDefinition, AllowedFees, RentIncreaseRules, LastMonthRentDepositRules } from "./types";
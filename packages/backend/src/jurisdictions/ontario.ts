@@ -0,0 +1,70 @@
+import { calculateServiceDates, NoticeServiceMethod } from "../services/serviceDate.utils";
+import { Jurisdiction } from "./types";
+
+/**
+ * Parse guidelines published after this release, e.g. "2027:2.4,2028:2.5"
+ */
+const parseGuidelines = (value: string | undefined): Record<number, number> =>
+  (value || "").split(",").reduce<Record<number, number>>((guidelines, entry) => {
+    const [year, percentage] = entry.split(":").map((part) => Number(part.trim()));
+    if (year > 0 && !isNaN(percentage)) {
+      guidelines[year] = percentage;
+    }
+    return guidelines;
+  }, {});
+
+// Rent increase guideline set each year by the province (2021 was frozen)
+const guidelines: Record<number, number> = {
+  2018: 1.8,
+  2019: 1.8,
+  2020: 2.2,
+  2021: 0,
+  2022: 1.2,
+  2023: 2.5,
+  2024: 2.5,
+  2025: 2.5,
+  2026: 2.1,
+  ...parseGuidelines(process.env.ONTARIO_RENT_GUIDELINES)
+};
+
+// Ontario, Residential Tenancies Act, 2006. Notices go to the Landlord and Tenant Board.
+export const ontario: Jurisdiction = {
+  code: "ON",
+  name: "Ontario",
+  provinceNames: ["ON", "Ont", "Ontario"],
+  tribunal: "Landlord and Tenant Board",
+  noticeTypes: {
+    N4: { code: "N4", title: "Notice to End a Tenancy Early for Non-payment of Rent", formCode: "N4" },
+    L1: { code: "L1", title: "Application to Evict a Tenant for Non-payment of Rent", formCode: "L1" },
+    N1: { code: "N1", title: "Notice of Rent Increase", formCode: "N1" }
+  },
+  nonPayment: {
+    noticeType: "N4",
+    daysLateBeforeNotice: 14,
+    applicationType: "L1",
+    // An L1 can be filed the day after the N4 termination date
+    applicationWaitingDays: 1
+  },
+  serviceMethods: ["hand", "mail", "courier"],
+  defaultServiceMethod: (process.env.N4_SERVICE_METHOD || "mail") as NoticeServiceMethod,
+  allowedFees: {
+    // Late fees are not allowed; an NSF administration charge of up to $20 is
+    lateFee: null,
+    nsfFee: 20
+  },
+  rentIncrease: {
+    noticeType: "N1",
+    noticeDays: 90,
+    monthsBetweenIncreases: 12,
+    guidelines,
+    // Units first occupied for residential purposes after November 15, 2018
+    // are not covered by the guideline
+    guidelineExemptAfter: "2018-11-15"
+  },
+  lastMonthRentDeposit: {
+    // Interest is owed at the guideline in effect on the anniversary
+    interestRates: guidelines,
+    topUpAllowed: true
+  },
+  getServiceDates: calculateServiceDates
+};
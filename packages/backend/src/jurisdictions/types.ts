@@ -0,0 +1,79 @@
+import { NoticeServiceMethod, ServiceDates } from "../services/serviceDate.utils";
+
+/**
+ * A notice or application a jurisdiction uses, and the PDF service form that renders it
+ */
+export interface NoticeTypeDefinition {
+  code: string;
+  title: string;
+  formCode: string;
+}
+
+/**
+ * Fees a landlord may charge on top of rent. null means the fee is not allowed.
+ */
+export interface AllowedFees {
+  lateFee: number | null;
+  nsfFee: number | null;
+}
+
+/**
+ * Limits on when and by how much rent can be raised
+ */
+export interface RentIncreaseRules {
+  // Notice of the increase the tenant must be given
+  noticeType: string;
+  // Days of written notice before the increase takes effect
+  noticeDays: number;
+  // Months that must pass since the tenancy started or the last increase
+  monthsBetweenIncreases: number;
+  // Guideline percentage by the calendar year the increase takes effect
+  guidelines: Record<number, number>;
+  // Units first occupied after this date are exempt from the guideline, if any
+  guidelineExemptAfter: string | null;
+}
+
+/**
+ * Rules for a deposit held for the last rent period of a tenancy
+ */
+export interface LastMonthRentDepositRules {
+  // Interest percentage owed on each tenancy anniversary, by the calendar year of the anniversary
+  interestRates: Record<number, number>;
+  // Interest may be kept to top the deposit up to the current rent instead of being paid out
+  topUpAllowed: boolean;
+}
+
+/**
+ * Residential tenancy rules for one province.
+ * Properties pick their plugin through properties.province.
+ */
+export interface Jurisdiction {
+  code: string;
+  name: string;
+  // Values of properties.province that select this jurisdiction (compared case-insensitively)
+  provinceNames: string[];
+  tribunal: string;
+  noticeTypes: Record<string, NoticeTypeDefinition>;
+  nonPayment: {
+    // Notice to end the tenancy for unpaid rent
+    noticeType: string;
+    // Days rent must be late before the notice is generated. Late reminders stop at this point.
+    daysLateBeforeNotice: number;
+    // Application to the tribunal that follows an unpaid notice, if the app files one
+    applicationType: string | null;
+    // Days after the termination date before the application can be filed
+    applicationWaitingDays: number;
+  };
+  serviceMethods: NoticeServiceMethod[];
+  // How notices are served unless told otherwise
+  defaultServiceMethod: NoticeServiceMethod;
+  allowedFees: AllowedFees;
+  // Null when the app does not handle rent increases for the province
+  rentIncrease: RentIncreaseRules | null;
+  // Null when the province does not allow last month's rent deposits
+  lastMonthRentDeposit: LastMonthRentDepositRules | null;
+  /**
+   * Deemed service date and earliest termination date for a non-payment notice
+   */
+  getServiceDates(servedDate: string, serviceMethod: NoticeServiceMethod, rentPeriod?: string): ServiceDates;
+}
@@ -0,0 +1,189 @@
+import express, { Request, Response, NextFunction } from "express";
+import { additionalChargeService } from "../services/additionalCharge.service";
+import { logger } from "../utils/logger";
+import { validateRequest } from "../middleware/validation.middleware";
+import {
+  listRecurringChargesSchema,
+  createRecurringChargeSchema,
+  updateRecurringChargeSchema,
+  listAdditionalChargesSchema,
+  recordAdditionalChargePaymentSchema
+} from "../validators/additionalCharge.validator";
+
+const router = express.Router();
+
+// Dates arrive as ISO strings; only the date part is stored
+const toDate = (value: unknown): string | null | undefined =>
+  value === null || value === undefined ? (value as null | undefined) : String(value).split("T")[0];
+
+/**
+ * List recurring charges such as parking, storage, utilities and lockers
+ *
+ * Query params:
+ * - tenantUnitId: Optional filter
+ */
+router.get(
+  "/recurring",
+  validateRequest(listRecurringChargesSchema, "query"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      logger.debug("GET /api/additional-charges/recurring - Listing recurring charges");
+      console.log("GET /api/additional-charges/recurring - Listing recurring charges with filters:", req.query);
+
+      const recurringCharges = await additionalChargeService.listRecurringCharges(req.query.tenantUnitId as string | undefined);
+      res.json(recurringCharges);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Add a recurring charge to a tenant_unit. It is billed every period that
+ * starts between its start and end dates, with the rent when it is monthly.
+ */
+router.post(
+  "/recurring",
+  validateRequest(createRecurringChargeSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { tenant_unit_id, start_date, end_date, ...charge } = req.body;
+      logger.debug(`POST /api/additional-charges/recurring - Adding recurring charge to tenant_unit ${tenant_unit_id}`);
+      console.log(`Adding recurring charge to tenant_unit ${tenant_unit_id} with data:`, req.body);
+
+      const recurringCharge = await additionalChargeService.createRecurringCharge(tenant_unit_id, {
+        ...charge,
+        start_date: toDate(start_date),
+        end_date: toDate(end_date)
+      });
+      if (!recurringCharge) {
+        return res.status(404).json({ error: true, message: "Tenant unit not found" });
+      }
+      res.status(201).json(recurringCharge);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Get a recurring charge by ID
+ */
+router.get("/recurring/:id", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    logger.debug(`GET /api/additional-charges/recurring/:id - Fetching recurring charge ${id}`);
+    console.log(`Fetching recurring charge ${id}`);
+
+    const recurringCharge = await additionalChargeService.getRecurringChargeById(id);
+    if (!recurringCharge) {
+      return res.status(404).json({ error: true, message: "Recurring charge not found" });
+    }
+    res.json(recurringCharge);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Change a recurring charge's amount or description, or end it by giving an end date
+ */
+router.patch(
+  "/recurring/:id",
+  validateRequest(updateRecurringChargeSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      logger.debug(`PATCH /api/additional-charges/recurring/:id - Updating recurring charge ${id}`);
+      console.log(`Updating recurring charge ${id} with data:`, req.body);
+
+      const changes = { ...req.body };
+      if ("end_date" in changes) {
+        changes.end_date = toDate(changes.end_date);
+      }
+
+      const recurringCharge = await additionalChargeService.updateRecurringCharge(id, changes);
+      if (!recurringCharge) {
+        return res.status(404).json({ error: true, message: "Recurring charge not found" });
+      }
+      res.json(recurringCharge);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * List billed charges with what is still owing on each. These are kept
+ * apart from rent and never count towards rent arrears or an N4.
+ *
+ * Query params:
+ * - tenantId, tenantUnitId: Optional filters
+ */
+router.get(
+  "/",
+  validateRequest(listAdditionalChargesSchema, "query"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      logger.debug("GET /api/additional-charges - Listing additional charges");
+      console.log("GET /api/additional-charges - Listing additional charges with filters:", req.query);
+
+      const charges = await additionalChargeService.listCharges({
+        tenantId: req.query.tenantId as string | undefined,
+        tenantUnitId: req.query.tenantUnitId as string | undefined
+      });
+      res.json(charges);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Get a billed charge with what is still owing on it
+ */
+router.get("/:id", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    logger.debug(`GET /api/additional-charges/:id - Fetching additional charge ${id}`);
+    console.log(`Fetching additional charge ${id}`);
+
+    const charge = await additionalChargeService.getChargeById(id);
+    if (!charge) {
+      return res.status(404).json({ error: true, message: "Additional charge not found" });
+    }
+    res.json(charge);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Record money received against a billed charge
+ */
+router.post(
+  "/:id/payments",
+  validateRequest(recordAdditionalChargePaymentSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      logger.debug(`POST /api/additional-charges/:id/payments - Recording payment for additional charge ${id}`);
+      console.log(`Recording payment for additional charge ${id} with data:`, req.body);
+
+      const charge = await additionalChargeService.recordPayment(id, {
+        ...req.body,
+        amount: Number(req.body.amount),
+        payment_date: toDate(req.body.payment_date) || undefined
+      });
+      if (!charge) {
+        return res.status(404).json({ error: true, message: "Additional charge not found" });
+      }
+      res.status(201).json(charge);
+    } catch (error) {
+      // More than the balance of the charge comes back as 422
+      next(error);
+    }
+  }
+);
+
+export default router;
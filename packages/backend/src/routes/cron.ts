@@ -2,9 +2,26 @@ import express, { Request, Response } from "express";
 import { rentService } from "../services/rent.service";
 import { tenantService } from "../services/tenant.service";
 import { paymentService } from "../services/payment.service";
-import { sendRentDueNotification, sendRentLateNotification } from "../services/notification.service";
+import { n4Service } from "../services/n4.service";
+import { legalNoticeService } from "../services/legalNotice.service";
+import { paymentPlanService } from "../services/paymentPlan.service";
+import { ledgerService } from "../services/ledger.service";
+import {
+  sendRentDueNotification,
+  sendRentLateNotification,
+  sendRentCoveredByCreditNotification,
+  sendAdditionalChargesDueNotification
+} from "../services/notification.service";
 import { supabase, Tenant, Unit, RentPayment, Property } from "../config/database";
 import { logger } from "../utils/logger";
+import { getJurisdictionForProvince } from "../jurisdictions";
+import { getRemainingBalance } from "../services/arrears.utils";
+import { billingCalendarService } from "../services/billingCalendar.service";
+import { rentHistoryService } from "../services/rentHistory.service";
+import { depositService } from "../services/deposit.service";
+import { isFinalRentPeriod } from "../services/deposit.utils";
+import { jointTenancyService } from "../services/jointTenancy.service";
+import { additionalChargeService } from "../services/additionalCharge.service";
 
 const router = express.Router();
 
@@ -17,19 +34,19 @@ router.get("/due-rent", async (req: Request, res: Response) => {
     logger.debug("Processing rent due generation and notifications");
     console.log("Processing rent due generation and notifications");
 
+    // Rent changes that took effect today become the tenant_units rent
+    try {
+      await rentHistoryService.applyRentChangesInForce(billingCalendarService.today());
+    } catch (historyError) {
+      logger.error(`Error applying rent changes: ${historyError}`);
+      console.log(`Error applying rent changes: ${historyError}`);
+    }
+
     // 1. Generate rent payment records for tenants due today
     const createdPayments = await rentService.generateRentDueToday();
     logger.info(`Generated ${createdPayments.length} rent payment records.`);
     console.log(`Generated ${createdPayments.length} rent payment records.`);
 
-    // Call the /past-due-day endpoint to ensure all tenants have a payment record for the current month
-    try {
-      await rentService.generateRentDueToday();
-    } catch (error) {
-      logger.error("Error calling /past-due-day endpoint", error);
-      console.log("Error calling /past-due-day endpoint", error);
-    }
-
     const results = [];
 
     // 2. Process each newly created payment for notification
@@ -60,18 +77,90 @@ router.get("/due-rent", async (req: Request, res: Response) => {
         // Format address
         const propertyAddress = `${property.address}, ${property.city}, ${property.province} ${property.postal_code}`;
 
-        // Send notification
+        // Each roommate on a joint lease is asked for their own share
+        const shares = await jointTenancyService.getShares(payment.id);
+        if (shares.length > 0) {
+          const creditRemaining = payment.status === "paid" && payment.tenant_unit_id
+            ? await ledgerService.getCreditBalance(payment.tenant_unit_id)
+            : 0;
+
+          for (const share of shares) {
+            const notification = payment.status === "paid"
+              ? await sendRentCoveredByCreditNotification(share.tenant, payment, unit, propertyAddress, creditRemaining)
+              : await sendRentDueNotification(share.tenant, payment, unit, propertyAddress, share);
+
+            results.push({
+              tenant: share.tenantName,
+              unit: unit.unit_number,
+              amount: share.balance,
+              status: payment.status === "paid" ? "payment_covered_by_credit" : "share_notification_sent",
+              payment_id: payment.id,
+              notification_id: notification.id
+            });
+          }
+          continue;
+        }
+
+        // Parking, storage and other charges requested with the rent
+        const extras = await additionalChargeService.getChargesForRentPayment(payment.id);
+
+        // Rent paid in full from the tenant's credit gets a confirmation instead of a payment request
+        if (payment.status === "paid") {
+          const tenantUnit = await ledgerService.findTenantUnit(payment.tenant_id, payment.unit_id);
+          const creditRemaining = tenantUnit ? await ledgerService.getCreditBalance(tenantUnit.id) : 0;
+          const notification = await sendRentCoveredByCreditNotification(
+            tenant,
+            payment,
+            unit,
+            propertyAddress,
+            creditRemaining
+          );
+
+          results.push({
+            tenant: `${tenant.first_name} ${tenant.last_name}`,
+            unit: unit.unit_number,
+            amount: payment.amount,
+            status: "payment_covered_by_credit",
+            payment_id: payment.id,
+            notification_id: notification.id
+          });
+
+          // Credit only pays rent, so the other charges are still requested
+          if (extras.length > 0) {
+            const extrasNotification = await sendAdditionalChargesDueNotification(
+              tenant,
+              extras,
+              unit,
+              propertyAddress,
+              payment.interac_request_link
+            );
+
+            results.push({
+              tenant: `${tenant.first_name} ${tenant.last_name}`,
+              unit: unit.unit_number,
+              amount: extras.reduce((total, extra) => total + Number(extra.amount), 0),
+              status: "additional_charges_notification_sent",
+              payment_id: payment.id,
+              notification_id: extrasNotification.id
+            });
+          }
+          continue;
+        }
+
+        // Send notification for the rent still owing after any credit, with the other charges listed
         const notification = await sendRentDueNotification(
           tenant,
           payment,
           unit,
-          propertyAddress
+          propertyAddress,
+          undefined,
+          extras
         );
 
         results.push({
           tenant: `${tenant.first_name} ${tenant.last_name}`,
           unit: unit.unit_number,
-          amount: payment.amount,
+          amount: getRemainingBalance(payment) + extras.reduce((total, extra) => total + Number(extra.amount), 0),
           status: "payment_created_and_notification_sent",
           payment_id: payment.id,
           notification_id: notification.id
@@ -88,6 +177,40 @@ router.get("/due-rent", async (req: Request, res: Response) => {
       }
     }
 
+    // 3. Request the charges that were not requested with rent: those on their
+    // own schedule, a joint lease's charges and any left by an earlier run
+    const chargeRequests = await additionalChargeService.requestChargesDue(billingCalendarService.today());
+    for (const request of chargeRequests) {
+      try {
+        const property = request.unit.properties;
+        const propertyAddress = `${property.address}, ${property.city}, ${property.province} ${property.postal_code}`;
+        const notification = await sendAdditionalChargesDueNotification(
+          request.tenant,
+          request.charges,
+          request.unit,
+          propertyAddress,
+          request.interacRequestLink
+        );
+
+        results.push({
+          tenant: `${request.tenant.first_name} ${request.tenant.last_name}`,
+          unit: request.unit.unit_number,
+          amount: request.total,
+          status: "additional_charges_notification_sent",
+          notification_id: notification.id
+        });
+      } catch (error) {
+        logger.error(`Error sending additional charges notification to tenant ${request.tenant.id}`, error);
+        console.log(`Error sending additional charges notification to tenant ${request.tenant.id}`, error);
+
+        results.push({
+          tenant_id: request.tenant.id,
+          status: "failed",
+          error: (error as Error).message
+        });
+      }
+    }
+
     res.json({
       success: true,
       processed: results.length,
@@ -114,7 +237,8 @@ router.get("/late-rent", async (req: Request, res: Response) => {
     logger.info(`Updated ${newlyLatePayments.length} payments to 'late' status.`);
     console.log(`Updated ${newlyLatePayments.length} payments to 'late' status.`);
 
-    // 2. Get all payments currently marked as 'late' (including newly updated ones)
+    // 2. Get all payments currently marked as 'late' (including newly updated ones),
+    // plus overdue payments that have only been partly paid
     const { data: allLatePayments, error: fetchLateError } = await supabase
       .from("rent_payments")
       .select(`
@@ -122,7 +246,8 @@ router.get("/late-rent", async (req: Request, res: Response) => {
         tenants (*),
         units (*, properties(*))
       `)
-      .eq("status", "late");
+      .in("status", ["late", "partial"])
+      .lt("due_date", billingCalendarService.today());
 
     if (fetchLateError) {
       logger.error("Error fetching all late payments", fetchLateError);
@@ -131,7 +256,9 @@ router.get("/late-rent", async (req: Request, res: Response) => {
     }
 
     const results = [];
-    const today = new Date();
+
+    // Tenancies keeping up with a payment plan don't get late reminders
+    const tenanciesOnPlan = await paymentPlanService.getTenanciesInGoodStanding();
 
     // 3. Process each late payment for notification
     for (const payment of allLatePayments as (RentPayment & { tenants: Tenant; units: Unit & { properties: Property } })[]) {
@@ -146,20 +273,58 @@ router.get("/late-rent", async (req: Request, res: Response) => {
           continue;
         }
 
-        // Calculate days late
-        const dueDate = new Date(payment.due_date);
-        const timeDiff = today.getTime() - dueDate.getTime();
-        const daysLate = Math.max(0, Math.floor(timeDiff / (1000 * 3600 * 24))); // Ensure non-negative
+        // Calculate days late, counted from the next business day when due dates shift
+        const daysLate = billingCalendarService.getDaysLate(payment.due_date);
 
-        // Skip payments that are 14+ days late (handled by N4/L1 logic)
+        // Skip payments late enough for the province's non-payment notice (handled by N4/L1 logic).
+        // Provinces without jurisdiction rules never escalate, so they keep getting reminders.
         // Also skip if daysLate is 0 (e.g., updated today but due today)
-        if (daysLate === 0 || daysLate >= 14) {
+        const jurisdiction = getJurisdictionForProvince(property.province);
+        if (daysLate === 0 || (jurisdiction && daysLate >= jurisdiction.nonPayment.daysLateBeforeNotice)) {
+          continue;
+        }
+
+        if (tenanciesOnPlan.has(`${tenant.id}:${unit.id}`)) {
+          results.push({
+            tenant: `${tenant.first_name} ${tenant.last_name}`,
+            unit: unit.unit_number,
+            amount: getRemainingBalance(payment),
+            days_late: daysLate,
+            status: "paused_payment_plan",
+            payment_id: payment.id
+          });
           continue;
         }
 
         // Format address
         const propertyAddress = `${property.address}, ${property.city}, ${property.province} ${property.postal_code}`;
 
+        // Roommates on a joint lease who have not paid their share are reminded of it
+        const shares = await jointTenancyService.getShares(payment.id);
+        if (shares.length > 0) {
+          for (const share of shares.filter((owing) => owing.balance > 0)) {
+            const notification = await sendRentLateNotification(
+              share.tenant,
+              payment,
+              unit,
+              propertyAddress,
+              daysLate,
+              share
+            );
+
+            results.push({
+              tenant: share.tenantName,
+              unit: unit.unit_number,
+              amount: share.balance,
+              days_late: daysLate,
+              status: "share_notification_sent",
+              payment_id: payment.id,
+              notification_id: notification.id
+            });
+          }
+          continue;
+        }
+
         // Send late notification
         // TODO: Add logic to prevent sending multiple 'late' notifications for the same payment?
         // Maybe check the 'notifications' table for an existing 'rent_late' for this payment_id.
@@ -174,7 +339,7 @@ router.get("/late-rent", async (req: Request, res: Response) => {
         results.push({
           tenant: `${tenant.first_name} ${tenant.last_name}`,
           unit: unit.unit_number,
-          amount: payment.amount,
+          amount: getRemainingBalance(payment),
           days_late: daysLate,
           status: "notification_sent",
           payment_id: payment.id,
@@ -205,65 +370,154 @@ router.get("/late-rent", async (req: Request, res: Response) => {
 });
 
 /**
- * Endpoint to identify tenants eligible for N4 forms (rent 14+ days late)
+ * Endpoint to keep payment plans up to date
+ * Flags installments that were not paid by their due date (the plan defaults and
+ * late reminders and N4s resume) and sends WhatsApp reminders for upcoming installments.
+ * This would be triggered by a daily cron job, before /late-rent and /form-n4
+ */
+router.get("/payment-plans", async (req: Request, res: Response) => {
+  try {
+    logger.debug("Processing payment plan installments");
+    console.log("Processing payment plan installments");
+
+    const missedInstallments = await paymentPlanService.flagMissedInstallments();
+    logger.info(`Flagged ${missedInstallments.length} missed installments.`);
+    console.log(`Flagged ${missedInstallments.length} missed installments.`);
+
+    const reminders = await paymentPlanService.sendInstallmentReminders();
+
+    res.json({
+      success: true,
+      missed_installments: missedInstallments.map((installment) => ({
+        payment_plan_id: installment.payment_plan_id,
+        installment_id: installment.id,
+        due_date: installment.due_date,
+        amount: installment.amount,
+        amount_paid: installment.amount_paid
+      })),
+      reminders_sent: reminders.filter((reminder) => reminder.status === "reminder_sent").length,
+      results: reminders
+    });
+  } catch (error) {
+    logger.error("Error in payment-plans endpoint", error);
+    console.log("Error in payment-plans endpoint", error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+/**
+ * Endpoint to work out the interest owed on last month's rent deposits on
+ * each tenancy anniversary. The interest is left pending for the landlord to
+ * pay as a top-up or a credit through /api/deposits.
  * This would be triggered by a daily cron job
  */
-router.get("/form-n4", async (req: Request, res: Response) => {
+router.get("/deposit-interest", async (req: Request, res: Response) => {
   try {
-    logger.debug("Identifying tenants eligible for N4 form generation");
-    console.log("Identifying tenants eligible for N4 form generation");
+    logger.debug("Calculating deposit interest");
+    console.log("Calculating deposit interest");
 
-    // Get all late rent payments
-    const { data: latePayments, error: fetchLateError } = await supabase
-      .from("rent_payments")
-      .select(`
-        *,
-        tenants (*),
-        units (*)
-      `)
-      .eq("status", "late");
+    const interest = await depositService.calculateInterestDue(billingCalendarService.today());
 
-    if (fetchLateError) {
-      logger.error("Error fetching late payments for N4 check", fetchLateError);
-      console.log("Error fetching late payments for N4 check", fetchLateError);
-      throw new Error("Failed to fetch late payments for N4 check");
-    }
+    res.json({
+      success: true,
+      processed: interest.length,
+      results: interest.map((payment) => ({
+        deposit_id: payment.deposit_id,
+        tenant_unit_id: payment.tenant_unit_id,
+        anniversary_date: payment.anniversary_date,
+        interest_rate: payment.interest_rate,
+        amount: payment.amount
+      }))
+    });
+  } catch (error) {
+    logger.error("Error in deposit-interest endpoint", error);
+    console.log("Error in deposit-interest endpoint", error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+/**
+ * Endpoint to generate N4 forms for tenants whose rent is late enough for a notice
+ * The notice type, lateness threshold and termination date come from the
+ * property's jurisdiction (N4 in Ontario, RTB-30 in BC).
+ * Builds the form from the database, stores the PDF and records a form_n4 notification.
+ * Payments already covered by an N4 are skipped so the job can run daily.
+ * This would be triggered by a daily cron job
+ */
+router.get("/form-n4", async (req: Request, res: Response) => {
+  try {
+    logger.debug("Generating N4 forms for eligible tenants");
+    console.log("Generating N4 forms for eligible tenants");
 
+    const candidates = await n4Service.getN4Candidates();
+    const tenanciesOnPlan = await paymentPlanService.getTenanciesInGoodStanding();
     const results = [];
-    const today = new Date();
 
-    // Filter payments that are 14+ days late
-    for (const payment of latePayments as (RentPayment & { tenants: Tenant; units: Unit })[]) {
-      const tenant = payment.tenants;
-      const unit = payment.units;
+    for (const candidate of candidates) {
+      const { tenant, unit, payments } = candidate;
+      const paymentIds = payments.map((payment) => payment.id);
 
-      if (!tenant || !unit) {
-        logger.warn(`Missing related data for N4 check on payment ${payment.id}`);
-        console.log(`Missing related data for N4 check on payment ${payment.id}`);
-        continue;
-      }
+      try {
+        // Escalation is paused while the tenant keeps up with a payment plan
+        if (tenanciesOnPlan.has(`${tenant.id}:${unit.id}`)) {
+          results.push({
+            tenant: `${tenant.first_name} ${tenant.last_name}`,
+            unit: unit.unit_number,
+            amount: candidate.arrears,
+            days_late: candidate.daysLate,
+            payment_ids: paymentIds,
+            status: "paused_payment_plan"
+          });
+          continue;
+        }
 
-      const dueDate = new Date(payment.due_date);
-      const timeDiff = today.getTime() - dueDate.getTime();
-      const daysLate = Math.max(0, Math.floor(timeDiff / (1000 * 3600 * 24)));
+        if (await n4Service.hasExistingN4(candidate)) {
+          logger.debug(`N4 already issued for tenant ${tenant.id}, unit ${unit.id}, skipping`);
+          console.log(`N4 already issued for tenant ${tenant.id}, unit ${unit.id}, skipping`);
+          results.push({
+            tenant: `${tenant.first_name} ${tenant.last_name}`,
+            unit: unit.unit_number,
+            amount: candidate.arrears,
+            days_late: candidate.daysLate,
+            notice_type: candidate.jurisdiction.nonPayment.noticeType,
+            payment_ids: paymentIds,
+            status: "n4_already_issued"
+          });
+          continue;
+        }
+
+        const { notice, notification } = await n4Service.generateN4(candidate);
 
-      if (daysLate >= 14) {
-        // TODO: Check if an N4 notification/PDF generation request already exists for this payment?
-        // In MVP, we just identify them. Actual PDF generation is triggered via /api/pdf routes.
         results.push({
           tenant: `${tenant.first_name} ${tenant.last_name}`,
           unit: unit.unit_number,
-          amount: payment.amount,
-          days_late: daysLate,
-          payment_id: payment.id,
-          status: "n4_eligible", // Mark as eligible, actual generation is separate
+          amount: candidate.arrears,
+          days_late: candidate.daysLate,
+          notice_type: notice.notice_type,
+          payment_ids: paymentIds,
+          status: "n4_generated",
+          notice_id: notice.id,
+          notification_id: notification.id,
+          document_path: notice.document_path
+        });
+      } catch (error) {
+        logger.error(`Error generating N4 for tenant ${tenant.id}, unit ${unit.id}`, error);
+        console.log(`Error generating N4 for tenant ${tenant.id}, unit ${unit.id}`, error);
+
+        results.push({
+          tenant: `${tenant.first_name} ${tenant.last_name}`,
+          unit: unit.unit_number,
+          payment_ids: paymentIds,
+          status: "failed",
+          error: (error as Error).message
         });
       }
     }
 
     res.json({
       success: true,
-      eligible_count: results.length,
+      eligible_count: candidates.length,
+      generated_count: results.filter((result) => result.status === "n4_generated").length,
       results
     });
   } catch (error) {
@@ -274,7 +528,10 @@ router.get("/form-n4", async (req: Request, res: Response) => {
 });
 
 /**
- * Endpoint to identify tenants eligible for L1 forms (rent 15+ days late)
+ * Endpoint to identify tenants eligible for L1 forms
+ * A tenant is eligible once an N4 has been served, its termination date has passed
+ * and no L1 has been filed for it yet (see the legal_notices table).
+ * N4s voided by payment are no longer "served", so they never show up here.
  * This would be triggered by a daily cron job
  */
 router.get("/form-l1", async (req: Request, res: Response) => {
@@ -282,51 +539,38 @@ router.get("/form-l1", async (req: Request, res: Response) => {
     logger.debug("Identifying tenants eligible for L1 form generation");
     console.log("Identifying tenants eligible for L1 form generation");
 
-    // Get all late rent payments
-    const { data: latePayments, error: fetchLateError } = await supabase
-      .from("rent_payments")
-      .select(`
-        *,
-        tenants (*),
-        units (*)
-      `)
-      .eq("status", "late");
-
-    if (fetchLateError) {
-      logger.error("Error fetching late payments for L1 check", fetchLateError);
-      console.log("Error fetching late payments for L1 check", fetchLateError);
-      throw new Error("Failed to fetch late payments for L1 check");
-    }
+    const eligibleNotices = await legalNoticeService.getL1EligibleNotices();
 
     const results = [];
     const today = new Date();
 
-    // Filter payments that are 15+ days late
-    for (const payment of latePayments as (RentPayment & { tenants: Tenant; units: Unit })[]) {
-      const tenant = payment.tenants;
-      const unit = payment.units;
+    for (const notice of eligibleNotices) {
+      try {
+        const tenant = await tenantService.getTenantById(notice.tenant_id);
 
-      if (!tenant || !unit) {
-        logger.warn(`Missing related data for L1 check on payment ${payment.id}`);
-        console.log(`Missing related data for L1 check on payment ${payment.id}`);
-        continue;
-      }
+        if (!tenant) {
+          logger.warn(`Missing tenant ${notice.tenant_id} for L1 check on notice ${notice.id}`);
+          console.log(`Missing tenant ${notice.tenant_id} for L1 check on notice ${notice.id}`);
+          continue;
+        }
 
-      const dueDate = new Date(payment.due_date);
-      const timeDiff = today.getTime() - dueDate.getTime();
-      const daysLate = Math.max(0, Math.floor(timeDiff / (1000 * 3600 * 24)));
+        const terminationDate = new Date(notice.termination_date as string);
+        const daysPastTermination = Math.floor((today.getTime() - terminationDate.getTime()) / (1000 * 3600 * 24));
 
-      if (daysLate >= 15) {
-        // TODO: Check if an L1 notification/PDF generation request already exists?
         // In MVP, we just identify them. Actual PDF generation is triggered via /api/pdf routes.
         results.push({
           tenant: `${tenant.first_name} ${tenant.last_name}`,
-          unit: unit.unit_number,
-          amount: payment.amount,
-          days_late: daysLate,
-          payment_id: payment.id,
+          unit_id: notice.unit_id,
+          amount: notice.amount_owed,
+          termination_date: notice.termination_date,
+          days_past_termination: daysPastTermination,
+          n4_notice_id: notice.id,
+          payment_ids: notice.payment_ids,
           status: "l1_eligible", // Mark as eligible, actual generation is separate
         });
+      } catch (error) {
+        logger.error(`Error processing N4 notice ${notice.id} for L1 check`, error);
+        console.log(`Error processing N4 notice ${notice.id} for L1 check`, error);
       }
     }
 
@@ -369,22 +613,23 @@ router.get("/past-due-day", async (req: Request, res: Response) => {
       console.log(`DEBUG: Using test day parameter: ${currentDay} instead of actual day: ${today.getDate()}`);
     }
 
-    const currentMonth = today.getMonth();
-    const currentYear = today.getFullYear();
-
-    console.log(`DEBUG: Current date: ${today.toISOString()}, day: ${currentDay}, month: ${currentMonth + 1}`);
-
     // Format today's date for comparisons
-    const currentMonthFormatted = `${currentYear}-${String(currentMonth + 1).padStart(2, "0")}`;
+    const todayFormatted = billingCalendarService.today();
 
-    // Get all tenant_units with their tenant and unit information
+    console.log(`DEBUG: Current date: ${today.toISOString()}, day: ${currentDay}, billing date: ${todayFormatted}`);
+
+    // Get all tenant_units with their tenant and unit information, except
+    // tenancies that have ended. Roommates are charged through their joint lease.
     const { data: allTenantUnits, error: fetchError } = await supabase
       .from("tenant_units")
       .select(`
         *,
         tenants (*),
-        units (*)
-      `);
+        units (*, properties (proration_method)),
+        rent_history (amount, effective_date)
+      `)
+      .neq("status", "ended")
+      .is("joint_lease_id", null);
 
     console.log(`DEBUG: Fetched ${allTenantUnits ? allTenantUnits.length : 0} tenant_units with joins`);
 
@@ -444,32 +689,44 @@ router.get("/past-due-day", async (req: Request, res: Response) => {
         console.log(`DEBUG: unit.id: ${unit.id}`);
         console.log(`DEBUG: tenantUnit.rent_amount: ${tenantUnit.rent_amount}`);
 
-        // Calculate the due date for this month
-        const dueDate = new Date(currentYear, currentMonth, dueDayAsNumber);
-        const dueDateFormatted = `${currentYear}-${String(currentMonth + 1).padStart(2, "0")}-${String(dueDayAsNumber).padStart(2, "0")}`;
+        // Calculate the due date of the current period from the tenant's rent schedule
+        const period = billingCalendarService.getCurrentPeriod(tenantUnit, todayFormatted);
+        if (!period) {
+          console.log(`DEBUG: Rent schedule for tenant_unit ${tenantUnit.id} has not started, skipping`);
+          continue;
+        }
+        const { billingPeriod } = period;
+
+        // Prorate the first and last periods of the lease
+        const charge = rentService.getChargeForPeriod(tenantUnit, period, unit.properties?.proration_method);
+        if (!charge) {
+          console.log(`DEBUG: Lease for tenant_unit ${tenantUnit.id} does not cover ${billingPeriod}, skipping`);
+          continue;
+        }
+        const dueDateFormatted = charge.dueDate;
         console.log(`DEBUG: dueDateFormatted: ${dueDateFormatted}`);
 
         // Determine status based on days past due
-        const daysPastDue = Math.floor((today.getTime() - dueDate.getTime()) / (1000 * 3600 * 24));
+        const daysPastDue = billingCalendarService.getDaysLate(dueDateFormatted, todayFormatted);
         console.log(`DEBUG: Days past due: ${daysPastDue}`);
 
         // Determine status based on days past due
         const status = daysPastDue > 0 ? "late" : "pending";
 
+        // Skip tenant_units that already have this month's charge
+        if (await rentService.hasRentChargeForPeriod(tenantUnit.id, billingPeriod)) {
+          console.log(`DEBUG: Payment already exists for tenant_unit ${tenantUnit.id} for ${billingPeriod}. Skipping.`);
+          continue;
+        }
+
         // Define the payment data with the correct type
-        const newPaymentData: {
-          tenant_id: string;
-          unit_id: string;
-          amount: number;
-          due_date: string;
-          payment_date: null;
-          status: "pending" | "late";
-          payment_method: null;
-          interac_request_link: string | null;
-        } = {
+        const newPaymentData: Omit<RentPayment, "id" | "created_at" | "updated_at"> & { tenant_unit_id: string } = {
           tenant_id: tenant.id,
           unit_id: unit.id,
-          amount: tenantUnit.rent_amount,
+          tenant_unit_id: tenantUnit.id,
+          billing_period: billingPeriod,
+          amount: charge.amount,
+          description: charge.description,
           due_date: dueDateFormatted,
           payment_date: null,
           status: status as "pending" | "late",
@@ -479,43 +736,38 @@ router.get("/past-due-day", async (req: Request, res: Response) => {
 
         console.log(`DEBUG: newPaymentData: ${JSON.stringify(newPaymentData)}`);
 
+        const finalPeriod = isFinalRentPeriod(tenantUnit.lease_end, period);
         try {
-          // Generate Interac request link
-          const interacRequestLink = await paymentService.generateInteracRequestLink(
-            tenant.email,
-            tenant.first_name,
-            tenantUnit.rent_amount,
-            `Rent payment for unit ${unit.unit_number}`
-          );
-
-          // Set the interac_request_link
-          newPaymentData.interac_request_link = interacRequestLink;
+          // Generate Interac request link for whatever the credit and deposit do not cover
+          const rentToRequest = await rentService.getRentToRequest(tenantUnit.id, charge.amount, finalPeriod);
+          if (rentToRequest > 0) {
+            newPaymentData.interac_request_link = await paymentService.generateInteracRequestLink(
+              tenant.email,
+              tenant.first_name,
+              rentToRequest,
+              `Rent payment for unit ${unit.unit_number}`
+            );
+          }
         } catch (error) {
           logger.error(`Error generating Interac request link: ${error}`);
           console.log(`Error generating Interac request link: ${error}`);
           // Continue without the link
         }
 
-        const { data: newPayment, error: insertError } = await supabase
-          .from("rent_payments")
-          .insert([newPaymentData])
-          .select()
-          .single();
-
-        if (insertError) {
-          logger.error(`Error creating payment: ${insertError.message}`);
-          console.log(`Error creating payment: ${insertError.message}`);
+        // Upserts on the billing period, so a concurrent run cannot create a second charge
+        const newPayment = await rentService.createRentChargeForPeriod(newPaymentData, finalPeriod);
+        if (!newPayment) {
           continue;
         }
 
-        console.log(`Successfully created payment record with ID: ${newPayment.id} and status: ${status}`);
+        console.log(`Successfully created payment record with ID: ${newPayment.id} and status: ${newPayment.status}`);
 
         results.push({
           tenant: `${tenant.first_name} ${tenant.last_name}`,
           unit: unit.unit_number,
-          amount: tenantUnit.rent_amount,
+          amount: getRemainingBalance(newPayment),
           due_date: dueDateFormatted,
-          status: `${status}_payment_created`,
+          status: `${newPayment.status}_payment_created`,
           payment_id: newPayment.id
         });
       } catch (error) {
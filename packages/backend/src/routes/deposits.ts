@@ -0,0 +1,170 @@
+import express, { Request, Response, NextFunction } from "express";
+import { depositService } from "../services/deposit.service";
+import { rentService } from "../services/rent.service";
+import { logger } from "../utils/logger";
+import { validateRequest } from "../middleware/validation.middleware";
+import {
+  listDepositsSchema,
+  createDepositSchema,
+  listDepositInterestSchema,
+  applyDepositInterestSchema
+} from "../validators/deposit.validator";
+import { DepositInterestStatus } from "../config/database";
+
+const router = express.Router();
+
+/**
+ * List last month's rent deposits
+ *
+ * Query params:
+ * - tenantId, tenantUnitId: Optional filters
+ */
+router.get(
+  "/",
+  validateRequest(listDepositsSchema, "query"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      logger.debug("GET /api/deposits - Listing deposits");
+      console.log("GET /api/deposits - Listing deposits with filters:", req.query);
+
+      const deposits = await depositService.listDeposits({
+        tenantId: req.query.tenantId as string | undefined,
+        tenantUnitId: req.query.tenantUnitId as string | undefined
+      });
+      res.json(deposits);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Record a last month's rent deposit received for a tenant_unit
+ */
+router.post(
+  "/",
+  validateRequest(createDepositSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { tenant_unit_id, amount, received_date } = req.body;
+      logger.debug(`POST /api/deposits - Recording deposit for tenant_unit ${tenant_unit_id}`);
+      console.log(`Recording deposit for tenant_unit ${tenant_unit_id} with data:`, req.body);
+
+      if (await depositService.getHeldDeposit(tenant_unit_id)) {
+        return res.status(409).json({ error: true, message: "A deposit is already held for this tenant unit" });
+      }
+
+      const deposit = await depositService.recordDeposit(
+        tenant_unit_id,
+        Number(amount),
+        received_date ? String(received_date).split("T")[0] : undefined
+      );
+      if (!deposit) {
+        return res.status(404).json({ error: true, message: "Tenant unit not found" });
+      }
+      res.status(201).json(deposit);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * List interest owed on deposits by tenancy anniversary
+ *
+ * Query params:
+ * - status: Optional, pending interest still has to be paid as a top-up or a credit
+ */
+router.get(
+  "/interest",
+  validateRequest(listDepositInterestSchema, "query"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      logger.debug("GET /api/deposits/interest - Listing deposit interest");
+      console.log("GET /api/deposits/interest - Listing deposit interest with filters:", req.query);
+
+      res.json(await depositService.listInterest(req.query.status as DepositInterestStatus | undefined));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Pay pending deposit interest as a top-up of the deposit or a credit on the tenant ledger
+ */
+router.post(
+  "/interest/:interestId/apply",
+  validateRequest(applyDepositInterestSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { interestId } = req.params;
+      const { method } = req.body;
+      logger.debug(`POST /api/deposits/interest/:interestId/apply - Paying deposit interest ${interestId} as ${method}`);
+      console.log(`Paying deposit interest ${interestId} as ${method}`);
+
+      const interest = await depositService.applyInterest(interestId, method);
+      if (!interest) {
+        return res.status(404).json({ error: true, message: "Deposit interest not found" });
+      }
+      res.json(interest);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Get a deposit with its interest and the ways pending interest can be paid
+ */
+router.get("/:id", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    logger.debug(`GET /api/deposits/:id - Fetching deposit with ID: ${id}`);
+    console.log(`Fetching deposit with ID: ${id}`);
+
+    const deposit = await depositService.getDepositById(id);
+    if (!deposit) {
+      return res.status(404).json({ error: true, message: "Deposit not found" });
+    }
+    res.json(deposit);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Apply a held deposit to the rent charge for the last period of the lease.
+ * Rent generation does this on its own when it charges the final period;
+ * this is for charges made before the deposit was recorded or the lease end set.
+ */
+router.post("/:id/apply", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    logger.debug(`POST /api/deposits/:id/apply - Applying deposit ${id} to the final rent`);
+    console.log(`Applying deposit ${id} to the final rent`);
+
+    const deposit = await depositService.getDepositById(id);
+    if (!deposit) {
+      return res.status(404).json({ error: true, message: "Deposit not found" });
+    }
+
+    if (deposit.status !== "held") {
+      return res.status(409).json({ error: true, message: "Deposit has already been applied" });
+    }
+
+    const finalCharge = await depositService.getFinalRentCharge(deposit.tenant_unit_id);
+    if (!finalCharge) {
+      return res.status(409).json({
+        error: true,
+        message: "The deposit can only be applied once the lease has an end date and its final period has been charged"
+      });
+    }
+
+    res.json(await rentService.applyDepositToPayment(finalCharge));
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
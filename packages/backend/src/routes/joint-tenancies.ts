@@ -0,0 +1,73 @@
+import express, { Request, Response, NextFunction } from "express";
+import { jointTenancyService } from "../services/jointTenancy.service";
+import { logger } from "../utils/logger";
+import { validateRequest } from "../middleware/validation.middleware";
+import { setJointTenancySchema } from "../validators/jointTenancy.validator";
+
+const router = express.Router();
+
+/**
+ * Get the joint tenancy of a unit with each roommate's share of the rent
+ */
+router.get("/:unitId", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { unitId } = req.params;
+    logger.debug(`GET /api/joint-tenancies/:unitId - Fetching joint tenancy for unit ${unitId}`);
+    console.log(`Fetching joint tenancy for unit ${unitId}`);
+
+    const jointTenancy = await jointTenancyService.getJointTenancy(unitId);
+    if (!jointTenancy) {
+      return res.status(404).json({ error: true, message: "The unit has no joint tenancy" });
+    }
+    res.json(jointTenancy);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Make the tenants of a unit joint tenants, or change their shares. The
+ * lease's tenant_unit is charged the unit's rent from the next period and
+ * every roommate is sent their own share.
+ */
+router.put(
+  "/:unitId",
+  validateRequest(setJointTenancySchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { unitId } = req.params;
+      logger.debug(`PUT /api/joint-tenancies/:unitId - Setting joint tenancy for unit ${unitId}`);
+      console.log(`Setting joint tenancy for unit ${unitId} with data:`, req.body);
+
+      const jointTenancy = await jointTenancyService.setJointTenancy(
+        unitId,
+        req.body.lease_tenant_unit_id,
+        req.body.shares
+      );
+      res.json(jointTenancy);
+    } catch (error) {
+      // Shares that don't cover every tenant or add up to 100% come back as 422
+      next(error);
+    }
+  }
+);
+
+/**
+ * End a joint tenancy. Each tenant is charged their own rent_amount again from the next period.
+ */
+router.delete("/:unitId", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { unitId } = req.params;
+    logger.debug(`DELETE /api/joint-tenancies/:unitId - Ending joint tenancy for unit ${unitId}`);
+    console.log(`Ending joint tenancy for unit ${unitId}`);
+
+    if (!(await jointTenancyService.endJointTenancy(unitId))) {
+      return res.status(404).json({ error: true, message: "The unit has no joint tenancy" });
+    }
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,180 @@
+import express, { Request, Response, NextFunction } from "express";
+import { legalNoticeService } from "../services/legalNotice.service";
+import { logger } from "../utils/logger";
+import { validateRequest } from "../middleware/validation.middleware";
+import { listLegalNoticesSchema, transitionLegalNoticeSchema, serviceDatesQuerySchema } from "../validators/legalNotice.validator";
+import { LegalNoticeStatus, LegalNoticeType, ServiceMethod } from "../config/database";
+import { getJurisdictionByCode, DEFAULT_JURISDICTION } from "../jurisdictions";
+
+const router = express.Router();
+
+/**
+ * List legal notices (N4/L1)
+ *
+ * Query params:
+ * - tenantId, tenantUnitId, status, type: Optional filters
+ */
+router.get(
+  "/",
+  validateRequest(listLegalNoticesSchema, "query"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      logger.debug("GET /api/legal-notices - Listing legal notices");
+      console.log("GET /api/legal-notices - Listing legal notices with filters:", req.query);
+
+      const notices = await legalNoticeService.listNotices({
+        tenantId: req.query.tenantId as string | undefined,
+        tenantUnitId: req.query.tenantUnitId as string | undefined,
+        status: req.query.status as LegalNoticeStatus | undefined,
+        noticeType: req.query.type as LegalNoticeType | undefined
+      });
+      res.json(notices);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Preview the deemed service date and earliest termination date for a service method
+ *
+ * Query params:
+ * - serviceMethod: hand, mail, courier or door (depending on the jurisdiction)
+ * - servedDate: Day the notice is handed over, mailed or couriered (defaults to today)
+ * - rentPeriod: Optional, daily and weekly tenancies need less notice in Ontario
+ * - jurisdiction: Optional province code (ON, BC), defaults to ON
+ */
+router.get(
+  "/service-dates",
+  validateRequest(serviceDatesQuerySchema, "query"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      logger.debug("GET /api/legal-notices/service-dates - Calculating service dates");
+      console.log("GET /api/legal-notices/service-dates - Calculating service dates:", req.query);
+
+      const jurisdiction = getJurisdictionByCode(req.query.jurisdiction as string | undefined) || DEFAULT_JURISDICTION;
+      const serviceMethod = req.query.serviceMethod as ServiceMethod;
+
+      if (!jurisdiction.serviceMethods.includes(serviceMethod)) {
+        return res.status(422).json({
+          error: true,
+          message: `Service by ${serviceMethod} is not allowed in ${jurisdiction.name}`
+        });
+      }
+
+      const servedDate = (req.query.servedDate as string | undefined) || new Date().toISOString().split("T")[0];
+      res.json(jurisdiction.getServiceDates(
+        servedDate,
+        serviceMethod,
+        req.query.rentPeriod as string | undefined
+      ));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Get legal notice by ID
+ */
+router.get("/:id", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    logger.debug(`GET /api/legal-notices/:id - Fetching legal notice with ID: ${id}`);
+    console.log(`Fetching legal notice with ID: ${id}`);
+
+    const notice = await legalNoticeService.getNoticeById(id);
+    if (!notice) {
+      return res.status(404).json({ error: true, message: "Legal notice not found" });
+    }
+    res.json(notice);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Move a legal notice to a new status (served, voided_by_payment, filed, withdrawn)
+ */
+router.post(
+  "/:id/transition",
+  validateRequest(transitionLegalNoticeSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const { status, served_date, service_method } = req.body;
+      logger.debug(`POST /api/legal-notices/:id/transition - Moving legal notice ${id} to ${status}`);
+      console.log(`Moving legal notice ${id} to ${status} with data:`, req.body);
+
+      const notice = await legalNoticeService.getNoticeById(id);
+      if (!notice) {
+        return res.status(404).json({ error: true, message: "Legal notice not found" });
+      }
+
+      if (!legalNoticeService.canTransition(notice.status, status)) {
+        return res.status(409).json({
+          error: true,
+          message: `Cannot move legal notice from ${notice.status} to ${status}`
+        });
+      }
+
+      if (status === "served") {
+        const jurisdiction = legalNoticeService.getNoticeJurisdiction(notice);
+        if (service_method && !jurisdiction.serviceMethods.includes(service_method)) {
+          return res.status(422).json({
+            error: true,
+            message: `Service by ${service_method} is not allowed in ${jurisdiction.name}`
+          });
+        }
+
+        const serviceCheck = legalNoticeService.getServiceCheck(notice, served_date, service_method);
+        if (!serviceCheck.terminationDateValid) {
+          return res.status(422).json({
+            error: true,
+            message: `Termination date ${notice.termination_date} is earlier than ${serviceCheck.earliestTerminationDate}, ` +
+              `the earliest allowed for service by ${serviceCheck.serviceMethod} on ${serviceCheck.servedDate}. Issue a new notice instead.`,
+            serviceDates: serviceCheck
+          });
+        }
+      }
+
+      const updatedNotice = await legalNoticeService.transitionNotice(id, status, { served_date, service_method });
+      res.json(updatedNotice);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Generate the Certificate of Service for a served notice and return it as a PDF
+ */
+router.post("/:id/certificate-of-service", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    logger.debug(`POST /api/legal-notices/:id/certificate-of-service - Generating certificate for notice ${id}`);
+    console.log(`Generating Certificate of Service for legal notice ${id}`);
+
+    const notice = await legalNoticeService.getNoticeById(id);
+    if (!notice) {
+      return res.status(404).json({ error: true, message: "Legal notice not found" });
+    }
+
+    if (!notice.served_date || !notice.service_method) {
+      return res.status(409).json({
+        error: true,
+        message: "A Certificate of Service can only be generated once the notice has been served"
+      });
+    }
+
+    const { pdf } = await legalNoticeService.generateCertificateOfService(id);
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="Certificate_of_Service_${notice.notice_type}_${id}.pdf"`);
+    res.send(pdf);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
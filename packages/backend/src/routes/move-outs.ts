@@ -0,0 +1,101 @@
+import express, { Request, Response, NextFunction } from "express";
+import { moveOutService } from "../services/moveOut.service";
+import { logger } from "../utils/logger";
+import { validateRequest } from "../middleware/validation.middleware";
+import { listMoveOutsSchema, createMoveOutSchema } from "../validators/moveOut.validator";
+
+const router = express.Router();
+
+/**
+ * List move-outs
+ *
+ * Query params:
+ * - tenantId, unitId: Optional filters
+ */
+router.get(
+  "/",
+  validateRequest(listMoveOutsSchema, "query"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      logger.debug("GET /api/move-outs - Listing move-outs");
+      console.log("GET /api/move-outs - Listing move-outs with filters:", req.query);
+
+      const moveOuts = await moveOutService.listMoveOuts({
+        tenantId: req.query.tenantId as string | undefined,
+        unitId: req.query.unitId as string | undefined
+      });
+      res.json(moveOuts);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Move a tenant out of a unit: ends the lease on the move-out date, settles the
+ * final rent against the deposit and credits, and returns the final statement
+ */
+router.post(
+  "/",
+  validateRequest(createMoveOutSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { tenant_unit_id, move_out_date } = req.body;
+      logger.debug(`POST /api/move-outs - Moving out tenant_unit ${tenant_unit_id}`);
+      console.log(`Moving out tenant_unit ${tenant_unit_id} with data:`, req.body);
+
+      const result = await moveOutService.moveOut(tenant_unit_id, String(move_out_date).split("T")[0]);
+      if (!result) {
+        return res.status(404).json({ error: true, message: "Tenant unit not found" });
+      }
+      res.status(201).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Get a move-out with its final statement figures
+ */
+router.get("/:id", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    logger.debug(`GET /api/move-outs/:id - Fetching move-out with ID: ${id}`);
+    console.log(`Fetching move-out with ID: ${id}`);
+
+    const moveOut = await moveOutService.getMoveOutById(id);
+    if (!moveOut) {
+      return res.status(404).json({ error: true, message: "Move-out not found" });
+    }
+    res.json(moveOut);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Download the closing statement as a PDF
+ */
+router.get("/:id/pdf", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    logger.debug(`GET /api/move-outs/:id/pdf - Downloading closing statement for move-out ${id}`);
+    console.log(`Downloading closing statement for move-out ${id}`);
+
+    const moveOut = await moveOutService.getMoveOutById(id);
+    if (!moveOut) {
+      return res.status(404).json({ error: true, message: "Move-out not found" });
+    }
+
+    const pdf = await moveOutService.getClosingStatement(moveOut);
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="Closing_Statement_${moveOut.move_out_date}.pdf"`);
+    res.send(pdf);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
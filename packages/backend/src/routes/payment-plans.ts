@@ -0,0 +1,166 @@
+import express, { Request, Response, NextFunction } from "express";
+import { paymentPlanService } from "../services/paymentPlan.service";
+import { buildInstallmentSchedule, getScheduleTotal, InstallmentFrequency, ScheduledInstallment } from "../services/paymentPlan.utils";
+import { logger } from "../utils/logger";
+import { validateRequest } from "../middleware/validation.middleware";
+import {
+  listPaymentPlansSchema,
+  createPaymentPlanSchema,
+  recordInstallmentPaymentSchema
+} from "../validators/paymentPlan.validator";
+import { PaymentPlanStatus } from "../config/database";
+
+const router = express.Router();
+
+/**
+ * List payment plans with their installments
+ *
+ * Query params:
+ * - tenantId, tenantUnitId, status: Optional filters
+ */
+router.get(
+  "/",
+  validateRequest(listPaymentPlansSchema, "query"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      logger.debug("GET /api/payment-plans - Listing payment plans");
+      console.log("GET /api/payment-plans - Listing payment plans with filters:", req.query);
+
+      const plans = await paymentPlanService.listPlans({
+        tenantId: req.query.tenantId as string | undefined,
+        tenantUnitId: req.query.tenantUnitId as string | undefined,
+        status: req.query.status as PaymentPlanStatus | undefined
+      });
+      res.json(plans);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Get a payment plan with its installments, balance and standing
+ */
+router.get("/:id", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    logger.debug(`GET /api/payment-plans/:id - Fetching payment plan with ID: ${id}`);
+    console.log(`Fetching payment plan with ID: ${id}`);
+
+    const plan = await paymentPlanService.getPlanById(id);
+    if (!plan) {
+      return res.status(404).json({ error: true, message: "Payment plan not found" });
+    }
+    res.json(plan);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Create a payment plan for a tenant_unit
+ *
+ * Pass either `installments` (due_date and amount of each) or
+ * `installment_count`, `start_date` and optional `frequency` to split the total evenly.
+ */
+router.post(
+  "/",
+  validateRequest(createPaymentPlanSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { tenant_unit_id, total_owed, installments, installment_count, start_date, frequency, notes } = req.body;
+      logger.debug(`POST /api/payment-plans - Creating payment plan for tenant_unit ${tenant_unit_id}`);
+      console.log("Creating payment plan with data:", req.body);
+
+      const schedule: ScheduledInstallment[] = installments
+        ? installments.map((installment: ScheduledInstallment) => ({
+          due_date: String(installment.due_date).split("T")[0],
+          amount: Number(installment.amount)
+        }))
+        : buildInstallmentSchedule(
+          Number(total_owed),
+          Number(installment_count),
+          String(start_date).split("T")[0],
+          (frequency || "monthly") as InstallmentFrequency
+        );
+
+      if (getScheduleTotal(schedule) !== Number(total_owed)) {
+        return res.status(422).json({
+          error: true,
+          message: `Installments add up to ${getScheduleTotal(schedule)}, not the total owed of ${total_owed}`
+        });
+      }
+
+      const existingPlans = await paymentPlanService.listPlans({ tenantUnitId: tenant_unit_id, status: "active" });
+      if (existingPlans.length > 0) {
+        return res.status(409).json({
+          error: true,
+          message: "This tenancy already has an active payment plan",
+          paymentPlanId: existingPlans[0].id
+        });
+      }
+
+      const plan = await paymentPlanService.createPlan(tenant_unit_id, Number(total_owed), schedule, notes);
+      res.status(201).json(plan);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Record a payment against an installment
+ */
+router.post(
+  "/:id/installments/:installmentId/payments",
+  validateRequest(recordInstallmentPaymentSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id, installmentId } = req.params;
+      const { amount, paid_date } = req.body;
+      logger.debug(`POST /api/payment-plans/:id/installments/:installmentId/payments - Recording ${amount} on installment ${installmentId}`);
+      console.log(`Recording payment of ${amount} on installment ${installmentId} of payment plan ${id}`);
+
+      const plan = await paymentPlanService.getPlanById(id);
+      if (!plan) {
+        return res.status(404).json({ error: true, message: "Payment plan not found" });
+      }
+
+      if (plan.status === "cancelled" || plan.status === "completed") {
+        return res.status(409).json({ error: true, message: `Payment plan is ${plan.status}` });
+      }
+
+      const updatedPlan = await paymentPlanService.recordInstallmentPayment(id, installmentId, Number(amount), paid_date);
+      res.json(updatedPlan);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Cancel a payment plan. Late rent reminders and N4s resume for the tenancy.
+ */
+router.post("/:id/cancel", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    logger.debug(`POST /api/payment-plans/:id/cancel - Cancelling payment plan ${id}`);
+    console.log(`Cancelling payment plan ${id}`);
+
+    const plan = await paymentPlanService.getPlanById(id);
+    if (!plan) {
+      return res.status(404).json({ error: true, message: "Payment plan not found" });
+    }
+
+    if (plan.status === "cancelled" || plan.status === "completed") {
+      return res.status(409).json({ error: true, message: `Payment plan is already ${plan.status}` });
+    }
+
+    await paymentPlanService.updatePlanStatus(id, "cancelled");
+    res.json(await paymentPlanService.getPlanById(id));
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,79 +1,102 @@
 import express from "express";
-import axios from "axios";
 import { logger } from "../utils/logger";
+import { generateFormPdf } from "../services/pdf.service";
+import { prepareFormData } from "../services/formData.service";
+import { filingPackageService } from "../services/filingPackage.service";
 
 const router = express.Router();
 
-// The URL to the PDF service
-const PDF_SERVICE_URL = process.env.PDF_SERVICE_URL || "http://localhost:3001";
-
 /**
- * Generate N4 form
+ * Complete a form's data from the tenancy it refers to and have the PDF
+ * service validate and render it
  */
-router.post("/generate-n4", async (req, res) => {
+const handleFormRequest = async (formCode: string, req: express.Request, res: express.Response) => {
   try {
-    const formData = req.body;
-    
-    logger.debug("POST /api/pdf/generate-n4 - Generating N4 form");
-    console.log("POST /api/pdf/generate-n4 - Generating N4 form");
-    
-    // Validate required fields
-    if (!formData.tenantName || !formData.landlordName || !formData.rentalAddress || !formData.rentAmount) {
-      return res.status(400).json({
-        error: "Missing required fields for N4 form"
-      });
-    }
-    
-    // Call the PDF service
-    const response = await axios.post(`${PDF_SERVICE_URL}/pdf/n4`, formData, {
-      responseType: "arraybuffer"
-    });
-    
+    logger.debug(`POST /api/pdf/forms/${formCode} - Generating ${formCode} form`);
+    console.log(`POST /api/pdf/forms/${formCode} - Generating ${formCode} form`);
+
+    const formData = await prepareFormData(formCode, req.body);
+
+    // Call the PDF service, which validates the data for the form
+    const pdfBuffer = await generateFormPdf(formCode, formData, { flatten: req.query.flatten === "true" });
+
     // Set headers for PDF download
     res.setHeader("Content-Type", "application/pdf");
-    res.setHeader("Content-Disposition", `attachment; filename="N4_${formData.tenantName}.pdf"`);
-    
+    res.setHeader("Content-Disposition", `attachment; filename="${formCode.toUpperCase()}_${formData.tenantName}.pdf"`);
+
     // Send PDF data
-    res.send(response.data);
+    res.send(pdfBuffer);
   } catch (error) {
-    logger.error("Error generating N4 form", error);
-    console.log("Error generating N4 form", error);
-    res.status(500).json({ error: "Failed to generate N4 form" });
+    const { statusCode, errors, message } = error as Error & { statusCode?: number; errors?: string[] };
+
+    // Validation problems reported by the PDF service are passed back as-is
+    if (statusCode && statusCode < 500) {
+      return res.status(statusCode).json({ error: message, errors });
+    }
+
+    logger.error(`Error generating ${formCode} form`, error);
+    console.log(`Error generating ${formCode} form`, error);
+    res.status(500).json({ error: `Failed to generate ${formCode} form` });
   }
-});
+};
+
+/**
+ * Generate any form registered in the PDF service (N4, L1, N1, N5, N9, N12, N13, ...).
+ * Pass tenantUnitId (or tenantId and unitId) to fill in the tenancy details.
+ */
+router.post("/forms/:formCode", (req, res) => handleFormRequest(req.params.formCode, req, res));
+
+/**
+ * Generate N4 form
+ */
+router.post("/generate-n4", (req, res) => handleFormRequest("N4", req, res));
 
 /**
  * Generate L1 form
  */
-router.post("/generate-l1", async (req, res) => {
+router.post("/generate-l1", (req, res) => handleFormRequest("L1", req, res));
+
+/**
+ * Generate the L1 filing package for a tenant_unit: filled L1, served N4,
+ * Certificate of Service, rent ledger and WhatsApp delivery record.
+ * Pass format "zip" to get the documents separately.
+ */
+router.post("/l1-package", async (req, res) => {
   try {
-    const formData = req.body;
-    
-    logger.debug("POST /api/pdf/generate-l1 - Generating L1 form");
-    console.log("POST /api/pdf/generate-l1 - Generating L1 form");
-    
-    // Validate required fields
-    if (!formData.tenantName || !formData.landlordName || !formData.rentalAddress || !formData.rentAmount) {
+    const { tenantUnitId, format } = req.body;
+
+    logger.debug("POST /api/pdf/l1-package - Generating L1 filing package");
+    console.log(`POST /api/pdf/l1-package - Generating L1 filing package for tenant_unit ${tenantUnitId}`);
+
+    if (!tenantUnitId) {
       return res.status(400).json({
-        error: "Missing required fields for L1 form"
+        error: "tenantUnitId is required"
       });
     }
-    
-    // Call the PDF service
-    const response = await axios.post(`${PDF_SERVICE_URL}/pdf/l1`, formData, {
-      responseType: "arraybuffer"
-    });
-    
-    // Set headers for PDF download
-    res.setHeader("Content-Type", "application/pdf");
-    res.setHeader("Content-Disposition", `attachment; filename="L1_${formData.tenantName}.pdf"`);
-    
-    // Send PDF data
-    res.send(response.data);
+
+    if (format && format !== "pdf" && format !== "zip") {
+      return res.status(400).json({
+        error: "format must be pdf or zip"
+      });
+    }
+
+    const n4 = await filingPackageService.getServedN4(tenantUnitId);
+    if (!n4) {
+      return res.status(409).json({
+        error: "No served N4 found for this tenancy"
+      });
+    }
+
+    const packageFormat = format === "zip" ? "zip" : "pdf";
+    const packageBuffer = await filingPackageService.buildL1Package(tenantUnitId, n4, packageFormat);
+
+    res.setHeader("Content-Type", packageFormat === "zip" ? "application/zip" : "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="L1_Package_${tenantUnitId}.${packageFormat}"`);
+    res.send(packageBuffer);
   } catch (error) {
-    logger.error("Error generating L1 form", error);
-    console.log("Error generating L1 form", error);
-    res.status(500).json({ error: "Failed to generate L1 form" });
+    logger.error("Error generating L1 filing package", error);
+    console.log("Error generating L1 filing package", error);
+    res.status(500).json({ error: "Failed to generate L1 filing package" });
   }
 });
 
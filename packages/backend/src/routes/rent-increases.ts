@@ -0,0 +1,186 @@
+import express, { Request, Response, NextFunction } from "express";
+import { rentIncreaseService } from "../services/rentIncrease.service";
+import { downloadDocument } from "../services/storage.service";
+import { logger } from "../utils/logger";
+import { validateRequest } from "../middleware/validation.middleware";
+import { listRentIncreasesSchema, rentIncreaseSchema, guidelinesQuerySchema } from "../validators/rentIncrease.validator";
+import { getJurisdictionByCode, DEFAULT_JURISDICTION } from "../jurisdictions";
+
+const router = express.Router();
+
+/**
+ * Get the rent increase rules and published guidelines of a jurisdiction
+ *
+ * Query params:
+ * - jurisdiction: Optional province code (ON, BC), defaults to ON
+ */
+router.get(
+  "/guidelines",
+  validateRequest(guidelinesQuerySchema, "query"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      logger.debug("GET /api/rent-increases/guidelines - Fetching rent increase guidelines");
+      console.log("GET /api/rent-increases/guidelines - Fetching rent increase guidelines:", req.query);
+
+      const jurisdiction = getJurisdictionByCode(req.query.jurisdiction as string | undefined) || DEFAULT_JURISDICTION;
+      if (!jurisdiction.rentIncrease) {
+        return res.status(422).json({
+          error: true,
+          message: `Rent increases are not supported for ${jurisdiction.name}`
+        });
+      }
+      res.json({ jurisdiction: jurisdiction.code, ...jurisdiction.rentIncrease });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * List rent increases
+ *
+ * Query params:
+ * - tenantId, tenantUnitId: Optional filters
+ */
+router.get(
+  "/",
+  validateRequest(listRentIncreasesSchema, "query"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      logger.debug("GET /api/rent-increases - Listing rent increases");
+      console.log("GET /api/rent-increases - Listing rent increases with filters:", req.query);
+
+      const increases = await rentIncreaseService.listIncreases({
+        tenantId: req.query.tenantId as string | undefined,
+        tenantUnitId: req.query.tenantUnitId as string | undefined
+      });
+      res.json(increases);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Check a proposed rent increase against the guideline, the 12-month rule and
+ * the notice period without issuing it
+ */
+router.post(
+  "/preview",
+  validateRequest(rentIncreaseSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { tenant_unit_id, new_rent, effective_date } = req.body;
+      logger.debug(`POST /api/rent-increases/preview - Checking rent increase for tenant_unit ${tenant_unit_id}`);
+      console.log(`Checking rent increase for tenant_unit ${tenant_unit_id} with data:`, req.body);
+
+      const preview = await rentIncreaseService.previewIncrease(tenant_unit_id, Number(new_rent), effective_date.split("T")[0]);
+      if (!preview) {
+        return res.status(404).json({ error: true, message: "Tenant unit not found" });
+      }
+      res.json(preview);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Issue a rent increase: generates the N1, records the increase and schedules
+ * the new rent from its effective date. Rejected with the failed checks if the
+ * increase is not allowed.
+ */
+router.post(
+  "/",
+  validateRequest(rentIncreaseSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { tenant_unit_id, new_rent, effective_date } = req.body;
+      logger.debug(`POST /api/rent-increases - Issuing rent increase for tenant_unit ${tenant_unit_id}`);
+      console.log(`Issuing rent increase for tenant_unit ${tenant_unit_id} with data:`, req.body);
+
+      const preview = await rentIncreaseService.previewIncrease(tenant_unit_id, Number(new_rent), effective_date.split("T")[0]);
+      if (!preview) {
+        return res.status(404).json({ error: true, message: "Tenant unit not found" });
+      }
+
+      if (preview.errors.length > 0) {
+        return res.status(422).json({ error: true, message: preview.errors.join(" "), check: preview });
+      }
+
+      const increase = await rentIncreaseService.issueIncrease(preview);
+      res.status(201).json(increase);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Get rent increase by ID
+ */
+router.get("/:id", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    logger.debug(`GET /api/rent-increases/:id - Fetching rent increase with ID: ${id}`);
+    console.log(`Fetching rent increase with ID: ${id}`);
+
+    const increase = await rentIncreaseService.getIncreaseById(id);
+    if (!increase) {
+      return res.status(404).json({ error: true, message: "Rent increase not found" });
+    }
+    res.json(increase);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Download the notice of rent increase (N1) as a PDF
+ */
+router.get("/:id/pdf", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    logger.debug(`GET /api/rent-increases/:id/pdf - Downloading notice for rent increase ${id}`);
+    console.log(`Downloading notice for rent increase ${id}`);
+
+    const increase = await rentIncreaseService.getIncreaseById(id);
+    if (!increase || !increase.document_path) {
+      return res.status(404).json({ error: true, message: "Rent increase notice not found" });
+    }
+
+    const pdf = await downloadDocument(increase.document_path);
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${increase.notice_type}_${increase.effective_date}.pdf"`);
+    res.send(pdf);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Cancel a scheduled rent increase before it takes effect
+ */
+router.post("/:id/cancel", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    logger.debug(`POST /api/rent-increases/:id/cancel - Cancelling rent increase ${id}`);
+    console.log(`Cancelling rent increase ${id}`);
+
+    const increase = await rentIncreaseService.getIncreaseById(id);
+    if (!increase) {
+      return res.status(404).json({ error: true, message: "Rent increase not found" });
+    }
+
+    if (increase.status !== "scheduled") {
+      return res.status(409).json({ error: true, message: `Cannot cancel a ${increase.status} rent increase` });
+    }
+
+    res.json(await rentIncreaseService.cancelIncrease(increase));
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -2,8 +2,11 @@ import express, { Request, Response, NextFunction } from "express"; // Add Reque
 import { rentService } from "../services/rent.service";
 import { logger } from "../utils/logger";
 import { validateRequest } from "../middleware/validation.middleware"; // Import validation middleware
-import { createRentPaymentSchema, updateRentPaymentSchema } from "../validators/rent.validator"; // Import rent schemas
+import { createRentPaymentSchema, updateRentPaymentSchema, recordRentPaymentSchema, allocatePaymentSchema, arrearsQuerySchema } from "../validators/rent.validator"; // Import rent schemas
 import { paymentService } from "../services/payment.service";
+import { arrearsService } from "../services/arrears.service";
+import { allocationService, AllocationRequest } from "../services/allocation.service";
+import { jointTenancyService } from "../services/jointTenancy.service";
 
 const router = express.Router();
 
@@ -70,6 +73,92 @@ router.get("/tenant/:tenantId", async (req: Request, res: Response, next: NextFu
   }
 });
 
+/**
+ * Get the period-by-period arrears statement for a tenant_unit
+ *
+ * Query params:
+ * - tenantUnitId, or tenantId and unitId: The tenancy to calculate
+ * - asOf: Optional date (YYYY-MM-DD), defaults to today
+ */
+router.get(
+  "/arrears",
+  validateRequest(arrearsQuerySchema, "query"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { tenantUnitId, tenantId, unitId, asOf } = req.query as Record<string, string | undefined>;
+      logger.debug(`GET /api/rent/arrears - Calculating arrears with query: ${JSON.stringify(req.query)}`);
+      console.log("Calculating arrears with query:", req.query);
+
+      const statement = tenantUnitId
+        ? await arrearsService.getArrearsForTenantUnit(tenantUnitId, asOf)
+        : await arrearsService.getArrears(tenantId as string, unitId as string, asOf);
+
+      if (!statement) {
+        return res.status(404).json({ error: true, message: "Tenant unit not found" });
+      }
+      res.json(statement);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+const toAllocationRequest = (body: Record<string, any>): AllocationRequest => ({
+  tenantUnitId: body.tenant_unit_id,
+  amount: Number(body.amount),
+  policy: body.policy,
+  paymentDate: body.payment_date,
+  paymentMethod: body.payment_method,
+  reference: body.reference
+});
+
+/**
+ * Preview how a lump-sum payment would be allocated across a tenant_unit's
+ * open charges. Nothing is recorded.
+ */
+router.post(
+  "/allocations/preview",
+  validateRequest(allocatePaymentSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      logger.debug(`POST /api/rent/allocations/preview - Previewing allocation: ${JSON.stringify(req.body)}`);
+      console.log("Previewing payment allocation with data:", req.body);
+
+      const report = await allocationService.previewAllocation(toAllocationRequest(req.body));
+      if (!report) {
+        return res.status(404).json({ error: true, message: "Tenant unit not found" });
+      }
+      res.json(report);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Allocate a lump-sum payment across a tenant_unit's open charges (oldest
+ * first unless another policy is given). Charges the money runs out on are
+ * partly paid and any overpayment is kept as a credit.
+ */
+router.post(
+  "/allocations",
+  validateRequest(allocatePaymentSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      logger.debug(`POST /api/rent/allocations - Allocating payment: ${JSON.stringify(req.body)}`);
+      console.log("Allocating payment with data:", req.body);
+
+      const report = await allocationService.applyAllocation(toAllocationRequest(req.body));
+      if (!report) {
+        return res.status(404).json({ error: true, message: "Tenant unit not found" });
+      }
+      res.status(201).json(report);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 /**
  * Get rent payment by ID
  */
@@ -89,6 +178,67 @@ router.get("/:id", async (req: Request, res: Response, next: NextFunction) => {
   }
 });
 
+/**
+ * Get the payments recorded against a rent payment
+ */
+router.get("/:id/payments", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    logger.debug(`GET /api/rent/:id/payments - Fetching payments recorded against rent payment ${id}`);
+    console.log(`Fetching payments recorded against rent payment ${id}`);
+    const records = await rentService.getPaymentRecords(id);
+    res.json(records);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Get each roommate's share of a joint lease's rent payment and what they still owe
+ */
+router.get("/:id/shares", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    logger.debug(`GET /api/rent/:id/shares - Fetching shares of rent payment ${id}`);
+    console.log(`Fetching shares of rent payment ${id}`);
+    const shares = await jointTenancyService.getShares(id);
+    res.json(shares.map(({ tenant, ...share }) => share));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Record money received against a rent payment. Partial amounts are allowed;
+ * the rent payment becomes partial until the payments add up to the amount due.
+ */
+router.post(
+  "/:id/payments",
+  validateRequest(recordRentPaymentSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      logger.debug(`POST /api/rent/:id/payments - Recording payment against rent payment ${id}`);
+      console.log(`Recording payment against rent payment ${id} with data:`, req.body);
+
+      const result = await rentService.recordPayment(id, {
+        amount: Number(req.body.amount),
+        payment_date: req.body.payment_date,
+        payment_method: req.body.payment_method,
+        reference: req.body.reference,
+        payer_tenant_id: req.body.payer_tenant_id
+      });
+      if (!result) {
+        return res.status(404).json({ error: true, message: "Rent payment not found" });
+      }
+      res.status(201).json(result);
+    } catch (error) {
+      // Overpayments come back as 422 through the error handler
+      next(error);
+    }
+  }
+);
+
 /**
  * Create new rent payment
  */
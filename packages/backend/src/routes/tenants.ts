@@ -1,7 +1,10 @@
 import express from "express";
 import { tenantService } from "../services/tenant.service";
+import { ledgerService } from "../services/ledger.service";
 import { logger } from "../utils/logger";
-import { fixTenantUnitRelationship } from "../utils/tenant-unit-fixer";
+import { fixTenantUnitRelationship, RentScheduleUpdate } from "../utils/tenant-unit-fixer";
+import { validateRentSchedule, validateLeaseDates, validateRentEffectiveDate } from "../services/tenant.utils";
+import { rentHistoryService } from "../services/rentHistory.service";
 
 const router = express.Router();
 
@@ -96,7 +99,8 @@ router.get("/:id", async (req, res) => {
       // Transform the tenant data for the frontend to include the unit number
       const transformedTenant = {
         ...tenant,
-        unit_number: tenant.units?.unit_number || tenant.unit_number || null
+        unit_number: tenant.units?.unit_number || tenant.unit_number || null,
+        rent_history: await rentHistoryService.getRentHistoryForTenant(tenant.id)
       };
 
       // Send the transformed data with the unit number properly extracted from units
@@ -117,12 +121,50 @@ router.get("/:id", async (req, res) => {
   }
 });
 
+/**
+ * Get a tenant's ledger: charges, payments and adjustments with a running
+ * balance for each unit they rent. Pass ?asOf=YYYY-MM-DD for a past balance.
+ */
+router.get("/:id/ledger", async (req, res) => {
+  try {
+    const { id } = req.params;
+    const asOf = typeof req.query.asOf === "string" ? req.query.asOf : undefined;
+
+    logger.debug(`GET /api/tenants/${id}/ledger - Getting tenant ledger`);
+    console.log(`GET /api/tenants/${id}/ledger - Getting tenant ledger`);
+
+    if (asOf && !/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+      return res.status(400).json({ error: "asOf must be a date in YYYY-MM-DD format" });
+    }
+
+    const tenant = await tenantService.getTenantById(id);
+    if (!tenant) {
+      return res.status(404).json({ error: "Tenant not found" });
+    }
+
+    const ledgers = await ledgerService.getTenantLedger(id, asOf);
+    const balance = Math.round(ledgers.reduce((total, ledger) => total + ledger.balance, 0) * 100) / 100;
+
+    res.json({ tenantId: id, asOf: asOf || new Date().toISOString().split("T")[0], balance, ledgers });
+  } catch (error) {
+    const clientErrorMessage = error instanceof Error ? error.message : "An unexpected error occurred while fetching the tenant ledger.";
+    logger.error("Error getting tenant ledger route handler:", {
+      originalError: error,
+      messageForClient: clientErrorMessage,
+      requestPath: req.path,
+      requestMethod: req.method
+    });
+    console.error("Error getting tenant ledger (raw):", error);
+    res.status(500).json({ error: clientErrorMessage });
+  }
+});
+
 /**
  * Create new tenant
  */
 router.post("/", async (req, res) => {
   try {
-    const { first_name, last_name, email, phone, unit_id, rent_amount, rent_due_day } = req.body;
+    const { first_name, last_name, email, phone, unit_id, rent_amount, rent_due_day, rent_frequency, rent_anchor_date, lease_start, lease_end } = req.body;
     const landlordId = "322128c3-eba9-40b7-a8e9-9a35e498197a"; // Hardcoded landlord ID
 
     logger.debug("POST /tenants - Creating new tenant");
@@ -136,6 +178,13 @@ router.post("/", async (req, res) => {
       });
     }
 
+    try {
+      validateRentSchedule(rent_frequency, rent_anchor_date);
+      validateLeaseDates(lease_start, lease_end);
+    } catch (validationError) {
+      return res.status(400).json({ error: (validationError as Error).message });
+    }
+
     // Pass ALL the fields including rent_amount and rent_due_day
     const tenant = await tenantService.createTenant({
       first_name,
@@ -147,6 +196,37 @@ router.post("/", async (req, res) => {
       rent_due_day: rent_due_day !== undefined ? Number(rent_due_day) : undefined // Ensure it's a number
     });
 
+    // Start the rent history from the lease start
+    if (rent_amount !== undefined) {
+      try {
+        await rentHistoryService.recordRentChange(tenant.id, unit_id, Number(rent_amount), lease_start || undefined);
+      } catch (historyError) {
+        console.warn(`WARNING: Failed to record rent history for tenant ${tenant.id}: ${historyError}`);
+      }
+    }
+
+    // Weekly, bi-weekly and quarterly rent and the lease dates are set on the tenant_units row once it exists
+    if (rent_frequency !== undefined || rent_anchor_date !== undefined || lease_start || lease_end) {
+      const schedule: RentScheduleUpdate = { rent_frequency, rent_anchor_date: rent_anchor_date || null };
+      if (lease_start) {
+        schedule.lease_start = lease_start;
+      }
+      if (lease_end) {
+        schedule.lease_end = lease_end;
+      }
+      const fixResult = await fixTenantUnitRelationship(
+        tenant.id,
+        unit_id,
+        tenant.rent_amount !== undefined && tenant.rent_amount !== null ? Number(tenant.rent_amount) : 0,
+        tenant.rent_due_day ? Number(tenant.rent_due_day) : 1,
+        schedule
+      );
+      if (!fixResult.success) {
+        console.warn(`WARNING: Failed to set rent schedule for tenant ${tenant.id}: ${fixResult.message}`);
+      }
+      return res.status(201).json((await tenantService.getTenantById(tenant.id)) || tenant);
+    }
+
     res.status(201).json(tenant);
   } catch (error) {
     logger.error("Error creating tenant", error);
@@ -175,14 +255,55 @@ router.patch("/:id", async (req, res) => {
     // Extract fields for tenant_units table
     const { rent_amount, rent_due_day, unit_id } = validUpdates;
 
+    // The rent frequency and lease dates live only on tenant_units, so keep them out of the tenant update
+    const { rent_frequency, rent_anchor_date, lease_start, lease_end, rent_effective_date, ...tenantUpdates } = validUpdates;
+    try {
+      validateRentSchedule(rent_frequency, rent_anchor_date);
+      validateLeaseDates(lease_start, lease_end);
+      validateRentEffectiveDate(rent_effective_date);
+    } catch (validationError) {
+      return res.status(400).json({ error: (validationError as Error).message });
+    }
+    const schedule: RentScheduleUpdate = {};
+    if (rent_frequency !== undefined) {
+      schedule.rent_frequency = rent_frequency;
+    }
+    if (rent_anchor_date !== undefined) {
+      schedule.rent_anchor_date = rent_anchor_date || null;
+    }
+    if (lease_start) {
+      schedule.lease_start = lease_start;
+    }
+    if (lease_end !== undefined) {
+      schedule.lease_end = lease_end || null;
+    }
+
     console.log(`[DEBUG-FLOW] Extracted fields: rent_amount=${rent_amount}, rent_due_day=${rent_due_day}, unit_id=${unit_id}`);
     console.log(`[DEBUG-FLOW] Types - rent_amount: ${typeof rent_amount}, rent_due_day: ${typeof rent_due_day}, unit_id: ${typeof unit_id}`);
     console.log(`[DEBUG-FLOW] Values present? rent_amount: ${rent_amount !== undefined}, rent_due_day: ${rent_due_day !== undefined}, unit_id: ${unit_id !== undefined}`);
 
+    // A rent change is added to the rent history from its effective date (today
+    // by default); tenant_units keeps the rent in force today, so a future
+    // increase does not change the rent until it takes effect
+    let rentAmountInForce = rent_amount;
+    if (unit_id && rent_amount !== undefined) {
+      try {
+        const inForce = await rentHistoryService.recordRentChange(id, unit_id, Number(rent_amount), rent_effective_date || undefined);
+        if (inForce !== null) {
+          rentAmountInForce = inForce;
+          tenantUpdates.rent_amount = inForce;
+        }
+      } catch (historyError) {
+        logger.error(`Error recording rent change for tenant ${id}`, historyError);
+        console.log(`Error recording rent change for tenant ${id}`, historyError);
+        return res.status(500).json({ error: (historyError as Error).message });
+      }
+    }
+
     // First update the basic tenant information
     console.log(`[DEBUG-FLOW] Calling tenantService.updateTenant with id=${id}`);
     const startTime = Date.now();
-    const tenant = await tenantService.updateTenant(id, validUpdates);
+    const tenant = await tenantService.updateTenant(id, tenantUpdates);
     console.log(`[DEBUG-FLOW] tenantService.updateTenant completed in ${Date.now() - startTime}ms`);
     console.log(`[DEBUG-FLOW] Tenant service returned:`, tenant ? `Tenant with id=${tenant.id}` : "null");
 
@@ -191,7 +312,7 @@ router.patch("/:id", async (req, res) => {
     }
 
     // If we have rent_amount, rent_due_day, and unit_id, make sure the tenant_units relationship is updated
-    if (unit_id && (rent_amount !== undefined || rent_due_day !== undefined)) {
+    if (unit_id && (rent_amount !== undefined || rent_due_day !== undefined || Object.keys(schedule).length > 0)) {
       console.log(`[DEBUG-FLOW] Tenant-unit relationship update needed`);
       console.log(`Ensuring tenant-unit relationship between tenant ${id} and unit ${unit_id} with rent_amount=${rent_amount}, rent_due_day=${rent_due_day}`);
 
@@ -201,8 +322,9 @@ router.patch("/:id", async (req, res) => {
         const fixResult = await fixTenantUnitRelationship(
           id,
           unit_id,
-          rent_amount !== undefined ? Number(rent_amount) : (tenant && tenant.rent_amount ? Number(tenant.rent_amount) : 0),
-          rent_due_day !== undefined ? Number(rent_due_day) : (tenant && tenant.rent_due_day ? Number(tenant.rent_due_day) : 1)
+          rentAmountInForce !== undefined ? Number(rentAmountInForce) : (tenant && tenant.rent_amount ? Number(tenant.rent_amount) : 0),
+          rent_due_day !== undefined ? Number(rent_due_day) : (tenant && tenant.rent_due_day ? Number(tenant.rent_due_day) : 1),
+          schedule
         );
         console.log(`[DEBUG-FLOW] fixTenantUnitRelationship completed in ${Date.now() - fixStartTime}ms`);
         console.log(`Tenant-unit fix result:`, fixResult);
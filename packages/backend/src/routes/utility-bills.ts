@@ -0,0 +1,103 @@
+import express, { Request, Response, NextFunction } from "express";
+import { utilityBillService } from "../services/utilityBill.service";
+import { logger } from "../utils/logger";
+import { validateRequest } from "../middleware/validation.middleware";
+import { listUtilityBillsSchema, createUtilityBillSchema } from "../validators/utilityBill.validator";
+
+const router = express.Router();
+
+/**
+ * List utility bills
+ *
+ * Query params:
+ * - propertyId: Optional filter
+ */
+router.get(
+  "/",
+  validateRequest(listUtilityBillsSchema, "query"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      logger.debug("GET /api/utility-bills - Listing utility bills");
+      console.log("GET /api/utility-bills - Listing utility bills with filters:", req.query);
+
+      const bills = await utilityBillService.listBills(req.query.propertyId as string | undefined);
+      res.json(bills);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Record a property's utility bill, split it across the units and charge
+ * each tenant their part with a breakdown PDF
+ */
+router.post(
+  "/",
+  validateRequest(createUtilityBillSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { property_id, period_start, period_end, due_date } = req.body;
+      logger.debug(`POST /api/utility-bills - Recording utility bill for property ${property_id}`);
+      console.log(`Recording utility bill for property ${property_id} with data:`, req.body);
+
+      const bill = await utilityBillService.createBill({
+        ...req.body,
+        total_amount: Number(req.body.total_amount),
+        period_start: String(period_start).split("T")[0],
+        period_end: String(period_end).split("T")[0],
+        due_date: due_date ? String(due_date).split("T")[0] : undefined
+      });
+      if (!bill) {
+        return res.status(404).json({ error: true, message: "Property not found" });
+      }
+      res.status(201).json(bill);
+    } catch (error) {
+      // Missing meter readings or square footage come back as 422
+      next(error);
+    }
+  }
+);
+
+/**
+ * Get a utility bill with each unit's part of it
+ */
+router.get("/:id", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    logger.debug(`GET /api/utility-bills/:id - Fetching utility bill ${id}`);
+    console.log(`Fetching utility bill ${id}`);
+
+    const bill = await utilityBillService.getBillById(id);
+    if (!bill) {
+      return res.status(404).json({ error: true, message: "Utility bill not found" });
+    }
+    res.json(bill);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Download the breakdown PDF sent to a unit's tenant
+ */
+router.get("/:id/allocations/:allocationId/pdf", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id, allocationId } = req.params;
+    logger.debug(`GET /api/utility-bills/:id/allocations/:allocationId/pdf - Downloading breakdown ${allocationId}`);
+    console.log(`Downloading utility bill ${id} breakdown ${allocationId}`);
+
+    const pdf = await utilityBillService.getBreakdownPdf(id, allocationId);
+    if (!pdf) {
+      return res.status(404).json({ error: true, message: "Breakdown not found" });
+    }
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="Utility_Breakdown_${allocationId}.pdf"`);
+    res.send(pdf);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
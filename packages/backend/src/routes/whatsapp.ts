@@ -97,7 +97,7 @@ router.get("/webhook", (req, res) => {
  */
 async function handleWhatsAppStatusUpdate(status: any) {
   try {
-    const { id, status: messageStatus, recipient_id } = status;
+    const { id, status: messageStatus, recipient_id, timestamp } = status;
     
     logger.debug(`Handling WhatsApp status update: ${messageStatus} for message ${id}`);
     console.log(`Handling WhatsApp status update: ${messageStatus} for message ${id}`);
@@ -141,8 +141,11 @@ async function handleWhatsAppStatusUpdate(status: any) {
         notificationStatus = "sent"; // Default to 'sent' for any other statuses
     }
     
+    // WhatsApp reports the time of the status change as a Unix timestamp in seconds
+    const statusAt = timestamp ? new Date(Number(timestamp) * 1000).toISOString() : undefined;
+
     // Update the notification status
-    await updateNotificationStatus(notification.id, notificationStatus);
+    await updateNotificationStatus(notification.id, notificationStatus, undefined, statusAt);
     
     logger.debug(`Updated notification ${notification.id} status to ${notificationStatus}`);
     console.log(`Updated notification ${notification.id} status to ${notificationStatus}`);
@@ -74,7 +74,7 @@ async function fixTenantUnit(tenantId, unitId, rentAmount, rentDueDay) {
           is_primary: true,
           rent_amount: finalRentAmount,
           rent_due_day: finalRentDueDay,
-          lease_start_date: new Date().toISOString().split('T')[0]
+          lease_start: new Date().toISOString().split('T')[0]
         }]);
 
       if (error) {
@@ -136,24 +136,24 @@ async function seedDatabase() {
         unit_id: units[0].id,
         rent_amount: Math.floor(Math.random() * (2500 - 1500 + 1)) + 1500,
         rent_due_day: Math.floor(Math.random() * 28) + 1,
-        lease_start_date: new Date(new Date().getFullYear(), new Date().getMonth(), 1).toISOString().split('T')[0],
-        lease_end_date: new Date(new Date().getFullYear() + 1, new Date().getMonth(), 0).toISOString().split('T')[0],
+        lease_start: new Date(new Date().getFullYear(), new Date().getMonth(), 1).toISOString().split('T')[0],
+        lease_end: new Date(new Date().getFullYear() + 1, new Date().getMonth(), 0).toISOString().split('T')[0],
       },
       {
         tenant_id: tenants[1].id,
         unit_id: units[1].id,
         rent_amount: Math.floor(Math.random() * (2500 - 1500 + 1)) + 1500,
         rent_due_day: Math.floor(Math.random() * 28) + 1,
-        lease_start_date: new Date(new Date().getFullYear(), new Date().getMonth(), 1).toISOString().split('T')[0],
-        lease_end_date: new Date(new Date().getFullYear() + 1, new Date().getMonth(), 0).toISOString().split('T')[0],
+        lease_start: new Date(new Date().getFullYear(), new Date().getMonth(), 1).toISOString().split('T')[0],
+        lease_end: new Date(new Date().getFullYear() + 1, new Date().getMonth(), 0).toISOString().split('T')[0],
       },
       {
         tenant_id: tenants[2].id,
         unit_id: units[2].id,
         rent_amount: Math.floor(Math.random() * (2500 - 1500 + 1)) + 1500,
         rent_due_day: Math.floor(Math.random() * 28) + 1,
-        lease_start_date: new Date(new Date().getFullYear(), new Date().getMonth(), 1).toISOString().split('T')[0],
-        lease_end_date: new Date(new Date().getFullYear() + 1, new Date().getMonth(), 0).toISOString().split('T')[0],
+        lease_start: new Date(new Date().getFullYear(), new Date().getMonth(), 1).toISOString().split('T')[0],
+        lease_end: new Date(new Date().getFullYear() + 1, new Date().getMonth(), 0).toISOString().split('T')[0],
       },
     ];
 
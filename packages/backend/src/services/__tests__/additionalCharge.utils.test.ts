@@ -0,0 +1,54 @@
+import {
+  getChargeSchedule,
+  isChargeBilledForPeriod,
+  describeCharge,
+  summarizeAdditionalCharges,
+  formatLineItems
+} from '../additionalCharge.utils';
+import { getRentPeriodFor } from '../billing.utils';
+
+const parking = { frequency: 'monthly' as const, start_date: '2026-11-01', end_date: '2027-04-30' };
+
+describe('recurring charge schedule', () => {
+  test('bills a monthly charge on the rent due day', () => {
+    const period = getRentPeriodFor('2026-11-10', getChargeSchedule(parking, 1));
+
+    expect(period).toMatchObject({ billingPeriod: '2026-11', dueDate: '2026-11-01' });
+    expect(isChargeBilledForPeriod(parking, period!)).toBe(true);
+  });
+
+  test('only bills periods that start between the start and end dates', () => {
+    const midMonthStart = { ...parking, start_date: '2026-10-15' };
+    const october = getRentPeriodFor('2026-10-20', getChargeSchedule(midMonthStart, 1))!;
+    const may = getRentPeriodFor('2027-05-01', getChargeSchedule(parking, 1))!;
+
+    expect(isChargeBilledForPeriod(midMonthStart, october)).toBe(false);
+    expect(isChargeBilledForPeriod(parking, may)).toBe(false);
+  });
+
+  test('repeats a quarterly charge from its start date', () => {
+    const locker = { frequency: 'quarterly' as const, start_date: '2026-09-15', end_date: null };
+    const period = getRentPeriodFor('2026-12-20', getChargeSchedule(locker, 1))!;
+
+    expect(period).toMatchObject({ billingPeriod: '2026-12', dueDate: '2026-12-15' });
+    expect(isChargeBilledForPeriod(locker, period)).toBe(true);
+  });
+});
+
+describe('additional charge ledger', () => {
+  test('summarizes what is owing on each charge', () => {
+    expect(summarizeAdditionalCharges([
+      { entry_type: 'charge', debit: 75, credit: 0, additional_charge_id: 'parking-nov' },
+      { entry_type: 'payment', debit: 0, credit: 50, additional_charge_id: 'parking-nov' },
+      { entry_type: 'charge', debit: 1500, credit: 0, additional_charge_id: null }
+    ])).toEqual([{ additionalChargeId: 'parking-nov', amount: 75, amountPaid: 50, balance: 25 }]);
+  });
+
+  test('itemises charges for the tenant', () => {
+    expect(formatLineItems([
+      { description: 'Rent', amount: 1500 },
+      { description: describeCharge('parking'), amount: 75 },
+      { description: describeCharge('locker', 'Bike locker B4'), amount: 12.5 }
+    ])).toBe('Rent $1500.00, Parking $75.00, Bike locker B4 $12.50');
+  });
+});
@@ -0,0 +1,37 @@
+import { allocatePayment, orderChargesForPolicy, OpenCharge } from '../allocation.utils';
+
+const charges: OpenCharge[] = [
+  { rentPaymentId: 'nov', dueDate: '2026-11-01', amount: 1500, balance: 1500 },
+  { rentPaymentId: 'sep', dueDate: '2026-09-01', amount: 1500, balance: 500 },
+  { rentPaymentId: 'oct', dueDate: '2026-10-01', amount: 1500, balance: 1500 }
+];
+
+describe('payment allocation', () => {
+  test('pays the oldest charges first and splits the last one into a partial', () => {
+    const allocation = allocatePayment(1200, charges);
+
+    expect(allocation.allocations).toEqual([
+      { rentPaymentId: 'sep', dueDate: '2026-09-01', balanceBefore: 500, applied: 500, balanceAfter: 0, status: 'paid' },
+      { rentPaymentId: 'oct', dueDate: '2026-10-01', balanceBefore: 1500, applied: 700, balanceAfter: 800, status: 'partial' }
+    ]);
+    expect(allocation.totalApplied).toBe(1200);
+    expect(allocation.credit).toBe(0);
+  });
+
+  test('carries an overpayment forward as a credit', () => {
+    const allocation = allocatePayment(4000.5, charges);
+
+    expect(allocation.allocations.map((line) => line.status)).toEqual(['paid', 'paid', 'paid']);
+    expect(allocation.totalApplied).toBe(3500);
+    expect(allocation.credit).toBe(500.5);
+  });
+
+  test('everything is credit when nothing is owing', () => {
+    expect(allocatePayment(300, [])).toMatchObject({ allocations: [], totalApplied: 0, credit: 300 });
+  });
+
+  test('the newest_first policy pays the most recent charge first', () => {
+    expect(orderChargesForPolicy(charges, 'newest_first').map((charge) => charge.rentPaymentId)).toEqual(['nov', 'oct', 'sep']);
+    expect(allocatePayment(1500, charges, 'newest_first').allocations).toHaveLength(1);
+  });
+});
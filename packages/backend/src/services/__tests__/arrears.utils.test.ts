@@ -0,0 +1,132 @@
+import { calculateArrears, getAmountPaid, getRemainingBalance, ArrearsPaymentRow } from '../arrears.utils';
+
+const payment = (overrides: Partial<ArrearsPaymentRow>): ArrearsPaymentRow => ({
+  id: 'payment-1',
+  amount: 1500,
+  due_date: '2026-01-01',
+  payment_date: null,
+  status: 'late',
+  amount_paid: null,
+  ...overrides
+});
+
+describe('arrears engine', () => {
+  test('returns an empty statement when nothing is due', () => {
+    const statement = calculateArrears([], '2026-03-15');
+
+    expect(statement.periods).toEqual([]);
+    expect(statement.totalOwing).toBe(0);
+  });
+
+  test('builds one period per missed month with a running balance', () => {
+    const statement = calculateArrears([
+      payment({ id: 'mar', due_date: '2026-03-01' }),
+      payment({ id: 'jan', due_date: '2026-01-01' }),
+      payment({ id: 'feb', due_date: '2026-02-01' })
+    ], '2026-03-15');
+
+    expect(statement.periods.map((period) => period.paymentId)).toEqual(['jan', 'feb', 'mar']);
+    expect(statement.periods[0]).toMatchObject({
+      periodStart: '2026-01-01',
+      periodEnd: '2026-01-31',
+      rentCharged: 1500,
+      rentPaid: 0,
+      rentOwing: 1500,
+      balance: 1500
+    });
+    expect(statement.periods[1].periodEnd).toBe('2026-02-28');
+    expect(statement.periods[2]).toMatchObject({ periodEnd: '2026-03-31', balance: 4500 });
+    expect(statement.totalCharged).toBe(4500);
+    expect(statement.totalOwing).toBe(4500);
+  });
+
+  test('applies partial payments to their period', () => {
+    const statement = calculateArrears([
+      payment({ id: 'jan', due_date: '2026-01-01', status: 'partial', amount_paid: 1000.5 }),
+      payment({ id: 'feb', due_date: '2026-02-01', status: 'late' })
+    ], '2026-02-20');
+
+    expect(statement.periods[0]).toMatchObject({ rentPaid: 1000.5, rentOwing: 499.5, balance: 499.5 });
+    expect(statement.periods[1]).toMatchObject({ rentPaid: 0, rentOwing: 1500, balance: 1999.5 });
+    expect(statement.totalPaid).toBe(1000.5);
+    expect(statement.totalOwing).toBe(1999.5);
+  });
+
+  test('counts paid months as fully paid', () => {
+    const statement = calculateArrears([
+      payment({ id: 'jan', due_date: '2026-01-01', status: 'paid', payment_date: '2026-01-03' }),
+      payment({ id: 'feb', due_date: '2026-02-01', status: 'late' })
+    ], '2026-02-20');
+
+    expect(statement.periods[0]).toMatchObject({ rentPaid: 1500, rentOwing: 0, balance: 0 });
+    expect(statement.totalOwing).toBe(1500);
+  });
+
+  test('ignores periods due after the as-of date', () => {
+    const statement = calculateArrears([
+      payment({ id: 'jan', due_date: '2026-01-01' }),
+      payment({ id: 'feb', due_date: '2026-02-01' })
+    ], '2026-01-20');
+
+    expect(statement.periods).toHaveLength(1);
+    expect(statement.periods[0].periodEnd).toBe('2026-01-31');
+    expect(statement.totalOwing).toBe(1500);
+  });
+
+  test('treats payments received after the as-of date as unpaid', () => {
+    const row = payment({ status: 'paid', payment_date: '2026-02-10' });
+
+    expect(getAmountPaid(row, '2026-02-01')).toBe(0);
+    expect(getAmountPaid(row, '2026-02-10')).toBe(1500);
+  });
+
+  test('never counts more than the amount charged for a partial payment', () => {
+    expect(getAmountPaid(payment({ status: 'partial', amount_paid: 2000 }), '2026-03-01')).toBe(1500);
+  });
+
+  test('the remaining balance is what is left after partial payments', () => {
+    expect(getRemainingBalance(payment({ status: 'partial', amount_paid: 600 }))).toBe(900);
+    expect(getRemainingBalance(payment({ status: 'late' }))).toBe(1500);
+    expect(getRemainingBalance(payment({ status: 'paid', amount_paid: null }))).toBe(0);
+  });
+
+  test('weekly rent gets one-week periods', () => {
+    const statement = calculateArrears([
+      payment({ id: 'wk1', amount: 300, due_date: '2026-10-05' }),
+      payment({ id: 'wk2', amount: 300, due_date: '2026-10-12' })
+    ], '2026-10-14', { rent_due_day: 5, rent_frequency: 'weekly', rent_anchor_date: '2026-10-05' });
+
+    expect(statement.periods.map(({ periodStart, periodEnd }) => [periodStart, periodEnd])).toEqual([
+      ['2026-10-05', '2026-10-11'],
+      ['2026-10-12', '2026-10-18']
+    ]);
+    expect(statement.totalOwing).toBe(600);
+  });
+
+  test('keeps the tenancy periods when due dates were moved off a weekend', () => {
+    // Rent due on the 1st, moved to Monday 2026-02-02 and Monday 2026-03-02
+    const statement = calculateArrears([
+      payment({ id: 'feb', due_date: '2026-02-02', billing_period: '2026-02' }),
+      payment({ id: 'mar', due_date: '2026-03-02', billing_period: '2026-03' })
+    ], '2026-03-15', { rent_due_day: 1 });
+
+    expect(statement.periods.map(({ periodStart, periodEnd }) => [periodStart, periodEnd])).toEqual([
+      ['2026-02-01', '2026-02-28'],
+      ['2026-03-01', '2026-03-31']
+    ]);
+  });
+
+  test('starts weekly and quarterly periods on their unshifted due date', () => {
+    // 2026-10-12 is Thanksgiving, so that week's rent was due on the 13th
+    const weekly = calculateArrears([
+      payment({ id: 'wk1', amount: 300, due_date: '2026-10-13', billing_period: '2026-10-12' })
+    ], '2026-10-14', { rent_due_day: 5, rent_frequency: 'weekly', rent_anchor_date: '2026-10-05' });
+    // Quarterly rent anchored on the 31st is due on the last day of shorter months
+    const quarterly = calculateArrears([
+      payment({ id: 'q1', amount: 4500, due_date: '2026-05-01', billing_period: '2026-04' })
+    ], '2026-05-10', { rent_due_day: 31, rent_frequency: 'quarterly', rent_anchor_date: '2026-01-31' });
+
+    expect(weekly.periods[0]).toMatchObject({ periodStart: '2026-10-12', periodEnd: '2026-10-18' });
+    expect(quarterly.periods[0].periodStart).toBe('2026-04-30');
+  });
+});
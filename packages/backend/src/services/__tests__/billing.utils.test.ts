@@ -0,0 +1,87 @@
+import { getBillingPeriod, getDueDateForPeriod, getDueDateForMonthOf, getOntarioStatutoryHolidays, isBusinessDay, shiftDueDate, getDaysLate, getRentPeriodFor, getNextPeriodStart } from '../billing.utils';
+
+describe('billing periods', () => {
+  test('keys a charge by the month it is due in', () => {
+    expect(getBillingPeriod('2026-10-01')).toBe('2026-10');
+    expect(getBillingPeriod('2026-10-31T00:00:00.000Z')).toBe('2026-10');
+  });
+
+  test('a changed rent_due_day stays in the same period', () => {
+    expect(getBillingPeriod('2026-10-15')).toBe(getBillingPeriod('2026-10-01'));
+  });
+});
+
+describe('billing calendar', () => {
+  test('clamps a due day past the end of a short month to its last day', () => {
+    expect(getDueDateForPeriod(2026, 2, 31)).toMatchObject({ billingPeriod: '2026-02', dueDate: '2026-02-28' });
+    expect(getDueDateForPeriod(2028, 2, 30)).toMatchObject({ billingPeriod: '2028-02', dueDate: '2028-02-29' });
+    expect(getDueDateForPeriod(2026, 4, 31).dueDate).toBe('2026-04-30');
+    expect(getDueDateForMonthOf('2026-02-10', 31).dueDate).toBe('2026-02-28');
+  });
+
+  test('knows the Ontario statutory holidays', () => {
+    expect(getOntarioStatutoryHolidays(2026)).toEqual([
+      '2026-01-01', '2026-02-16', '2026-04-03', '2026-05-18', '2026-07-01',
+      '2026-09-07', '2026-10-12', '2026-12-25', '2026-12-26'
+    ]);
+    expect(isBusinessDay('2026-10-12')).toBe(false);
+    expect(isBusinessDay('2026-10-13')).toBe(true);
+  });
+
+  test('shifts due dates off weekends and holidays when asked', () => {
+    // 2026-08-01 is a Saturday, 2027-01-01 a Friday holiday
+    expect(shiftDueDate('2026-08-01', 'none')).toBe('2026-08-01');
+    expect(shiftDueDate('2026-08-01', 'next_business_day')).toBe('2026-08-03');
+    expect(shiftDueDate('2026-08-01', 'previous_business_day')).toBe('2026-07-31');
+    expect(shiftDueDate('2027-01-01', 'next_business_day')).toBe('2027-01-04');
+  });
+
+  test('keeps the billing period when a shift crosses into another month', () => {
+    expect(getDueDateForPeriod(2026, 8, 1, 'previous_business_day')).toMatchObject({ billingPeriod: '2026-08', dueDate: '2026-07-31' });
+  });
+
+  test('counts days late from the shifted due date', () => {
+    expect(getDaysLate('2026-08-01', '2026-08-03')).toBe(2);
+    expect(getDaysLate('2026-08-01', '2026-08-03', 'next_business_day')).toBe(0);
+    expect(getDaysLate('2026-08-01', '2026-08-05', 'next_business_day')).toBe(2);
+    expect(getDaysLate('2026-10-01', '2026-09-20')).toBe(0);
+  });
+});
+
+describe('rent frequencies', () => {
+  test('monthly rent uses rent_due_day and ignores the anchor', () => {
+    expect(getRentPeriodFor('2026-10-19', { rent_due_day: 1 })).toMatchObject({ billingPeriod: '2026-10', dueDate: '2026-10-01' });
+  });
+
+  test('weekly and bi-weekly rent repeat from the anchor date', () => {
+    const weekly = { rent_due_day: 5, rent_frequency: 'weekly' as const, rent_anchor_date: '2026-10-05' };
+    expect(getRentPeriodFor('2026-10-05', weekly)).toMatchObject({ billingPeriod: '2026-10-05', dueDate: '2026-10-05' });
+    expect(getRentPeriodFor('2026-10-18', weekly)).toMatchObject({ billingPeriod: '2026-10-12', dueDate: '2026-10-12' });
+    expect(getRentPeriodFor('2026-10-19', { ...weekly, rent_frequency: 'biweekly' })?.billingPeriod).toBe('2026-10-19');
+    expect(getRentPeriodFor('2026-10-18', { ...weekly, rent_frequency: 'biweekly' })?.billingPeriod).toBe('2026-10-05');
+  });
+
+  test('quarterly rent repeats every three months', () => {
+    const quarterly = { rent_due_day: 31, rent_frequency: 'quarterly' as const, rent_anchor_date: '2026-01-31' };
+    expect(getRentPeriodFor('2026-03-15', quarterly)).toMatchObject({ billingPeriod: '2026-01', dueDate: '2026-01-31' });
+    expect(getRentPeriodFor('2026-05-02', quarterly)).toMatchObject({ billingPeriod: '2026-04', dueDate: '2026-04-30' });
+  });
+
+  test('has no period before the anchor date or without one', () => {
+    expect(getRentPeriodFor('2026-10-01', { rent_due_day: 5, rent_frequency: 'weekly', rent_anchor_date: '2026-10-05' })).toBeNull();
+    expect(getRentPeriodFor('2026-10-01', { rent_due_day: 5, rent_frequency: 'weekly', rent_anchor_date: null })).toBeNull();
+  });
+
+  test('each period covers the stretch its rent pays for', () => {
+    expect(getRentPeriodFor('2026-02-10', { rent_due_day: 15 })).toMatchObject({ periodStart: '2026-02-01', periodEnd: '2026-02-28' });
+    expect(getRentPeriodFor('2026-10-19', { rent_due_day: 5, rent_frequency: 'biweekly', rent_anchor_date: '2026-10-05' })).toMatchObject({ periodStart: '2026-10-19', periodEnd: '2026-11-01' });
+    expect(getRentPeriodFor('2026-03-15', { rent_due_day: 31, rent_frequency: 'quarterly', rent_anchor_date: '2026-01-31' })).toMatchObject({ periodEnd: '2026-04-29' });
+  });
+
+  test('finds the start of the next period', () => {
+    expect(getNextPeriodStart('2026-10-05', 'weekly')).toBe('2026-10-12');
+    expect(getNextPeriodStart('2026-10-05', 'biweekly')).toBe('2026-10-19');
+    expect(getNextPeriodStart('2026-01-31', 'monthly')).toBe('2026-02-28');
+    expect(getNextPeriodStart('2026-11-15', 'quarterly')).toBe('2027-02-15');
+  });
+});
@@ -0,0 +1,60 @@
+import { calculateDepositInterest, getTenancyAnniversaries, isFinalRentPeriod, splitDepositInterest } from '../deposit.utils';
+import { ontario } from '../../jurisdictions';
+
+const rules = ontario.lastMonthRentDeposit!;
+
+describe('tenancy anniversaries', () => {
+  test('lists the anniversaries after the last one processed', () => {
+    expect(getTenancyAnniversaries('2023-11-01', null, '2026-10-19')).toEqual(['2024-11-01', '2025-11-01']);
+    expect(getTenancyAnniversaries('2023-11-01', '2024-11-01', '2026-11-01')).toEqual(['2025-11-01', '2026-11-01']);
+  });
+
+  test('keeps a leap day tenancy on the last day of February', () => {
+    expect(getTenancyAnniversaries('2024-02-29', null, '2028-03-01')).toEqual(['2025-02-28', '2026-02-28', '2027-02-28', '2028-02-29']);
+  });
+});
+
+describe('deposit interest', () => {
+  test('pays the guideline for the anniversary year on a deposit held all year', () => {
+    expect(calculateDepositInterest(rules, 1500, '2025-10-15', '2026-11-01')).toEqual({
+      anniversaryDate: '2026-11-01',
+      periodStart: '2025-11-01',
+      depositAmount: 1500,
+      interestRate: 2.1,
+      amount: 31.5
+    });
+  });
+
+  test('pays for the days held when the deposit came part way through the year', () => {
+    const interest = calculateDepositInterest(rules, 1460, '2026-05-05', '2026-11-01');
+    expect(interest?.periodStart).toBe('2026-05-05');
+    expect(interest?.amount).toBe(15.12); // 1460 x 2.1% x 180 / 365
+  });
+
+  test('owes nothing for a frozen year and cannot calculate an unpublished one', () => {
+    expect(calculateDepositInterest(rules, 1500, '2020-01-01', '2021-01-01')?.amount).toBe(0);
+    expect(calculateDepositInterest(rules, 1500, '2030-01-01', '2035-01-01')).toBeNull();
+  });
+});
+
+describe('paying deposit interest', () => {
+  test('tops the deposit up to the current rent and credits the rest', () => {
+    expect(splitDepositInterest(rules, 31.5, 1500, 1520, 'top_up')).toEqual({ topUp: 20, credit: 11.5 });
+    expect(splitDepositInterest(rules, 31.5, 1500, 1600, 'top_up')).toEqual({ topUp: 31.5, credit: 0 });
+  });
+
+  test('credits all of it when asked to', () => {
+    expect(splitDepositInterest(rules, 31.5, 1500, 1600, 'credit')).toEqual({ topUp: 0, credit: 31.5 });
+  });
+});
+
+describe('final rent period', () => {
+  const period = { periodStart: '2026-11-01', periodEnd: '2026-11-30' };
+
+  test('is the period the lease ends in', () => {
+    expect(isFinalRentPeriod('2026-11-30', period)).toBe(true);
+    expect(isFinalRentPeriod('2026-11-15', period)).toBe(true);
+    expect(isFinalRentPeriod('2026-12-31', period)).toBe(false);
+    expect(isFinalRentPeriod(null, period)).toBe(false);
+  });
+});
@@ -0,0 +1,63 @@
+import { validateRentShares, splitRent, getShareBalances } from '../jointTenancy.utils';
+
+const charge = (debit: number) => ({ entry_type: 'charge' as const, debit, credit: 0 });
+const payment = (credit: number, payer: string | null = null) => ({
+  entry_type: 'payment' as const, debit: 0, credit, payer_tenant_id: payer
+});
+
+describe('joint tenancy shares', () => {
+  test('accepts shares that cover the whole rent', () => {
+    expect(validateRentShares([50, 30, 20])).toBeNull();
+    expect(validateRentShares([33.33, 33.33, 33.34])).toBeNull();
+  });
+
+  test('rejects shares that do not add up to 100%', () => {
+    expect(validateRentShares([50, 40])).toBe('Shares must add up to 100%, not 90%');
+    expect(validateRentShares([100])).toBe('A joint tenancy needs at least two tenants');
+    expect(validateRentShares([100, 0])).toBe("Every tenant's share must be more than 0%");
+  });
+});
+
+describe('splitting rent', () => {
+  test('gives the rounding remainder to the first roommate', () => {
+    expect(splitRent(1000, [
+      { tenantId: 'a', share: 33.34 },
+      { tenantId: 'b', share: 33.33 },
+      { tenantId: 'c', share: 33.33 }
+    ])).toEqual([
+      { tenantId: 'a', share: 33.34, amount: 333.4 },
+      { tenantId: 'b', share: 33.33, amount: 333.3 },
+      { tenantId: 'c', share: 33.33, amount: 333.3 }
+    ]);
+  });
+
+  test('scales the shares of roommates still on the lease to the whole rent', () => {
+    expect(splitRent(2000, [{ tenantId: 'a', share: 40 }, { tenantId: 'b', share: 20 }]).map((part) => part.amount))
+      .toEqual([1333.33, 666.67]);
+  });
+});
+
+describe('share balances', () => {
+  const shares = [{ tenantId: 'a', share: 60, amount: 1200 }, { tenantId: 'b', share: 40, amount: 800 }];
+
+  test('counts each payment towards the roommate who made it', () => {
+    const balances = getShareBalances(shares, [charge(2000), payment(1200, 'a'), payment(300, 'b')]);
+
+    expect(balances.map(({ paid, balance }) => ({ paid, balance }))).toEqual([
+      { paid: 1200, balance: 0 },
+      { paid: 300, balance: 500 }
+    ]);
+  });
+
+  test('spreads credit applied to the charge across every share', () => {
+    const balances = getShareBalances(shares, [charge(2000), payment(500)]);
+
+    expect(balances.map((share) => share.balance)).toEqual([900, 600]);
+  });
+
+  test('never asks a roommate for more than the charge still owes', () => {
+    const balances = getShareBalances(shares, [charge(2000), payment(1700, 'a')]);
+
+    expect(balances.map((share) => share.balance)).toEqual([0, 300]);
+  });
+});
@@ -0,0 +1,77 @@
+import { buildLedgerStatement, deriveChargeStatus, summarizeRentCharges, getCreditBalance, LedgerEntryRow } from '../ledger.utils';
+
+const entry = (overrides: Partial<LedgerEntryRow>): LedgerEntryRow => ({
+  id: Math.random().toString(36).slice(2),
+  entry_date: '2026-10-01',
+  entry_type: 'charge',
+  category: 'rent',
+  description: null,
+  debit: 0,
+  credit: 0,
+  rent_payment_id: null,
+  ...overrides
+});
+
+const octoberRent = entry({ entry_date: '2026-10-01', debit: 1500, rent_payment_id: 'rp-oct' });
+const octoberPayment = entry({ entry_date: '2026-10-01', entry_type: 'payment', credit: 1000, rent_payment_id: 'rp-oct' });
+const novemberRent = entry({ entry_date: '2026-11-01', debit: 1500, rent_payment_id: 'rp-nov' });
+
+describe('ledger statement', () => {
+  test('keeps a running balance with charges before same-day payments', () => {
+    const statement = buildLedgerStatement([novemberRent, octoberPayment, octoberRent]);
+
+    expect(statement.entries.map((line) => line.balance)).toEqual([1500, 500, 2000]);
+    expect(statement.totalCharges).toBe(3000);
+    expect(statement.totalPayments).toBe(1000);
+    expect(statement.balance).toBe(2000);
+  });
+
+  test('stops at the as-of date', () => {
+    expect(buildLedgerStatement([octoberRent, octoberPayment, novemberRent], '2026-10-31').balance).toBe(500);
+  });
+
+  test('a credit adjustment can leave the tenant in credit', () => {
+    const credit = entry({ entry_date: '2026-10-05', entry_type: 'adjustment', credit: 600 });
+    const statement = buildLedgerStatement([octoberRent, octoberPayment, credit]);
+
+    expect(statement.totalAdjustments).toBe(-600);
+    expect(statement.balance).toBe(-100);
+  });
+});
+
+describe('rent charge status', () => {
+  test('is derived from what has been paid and the due date', () => {
+    expect(deriveChargeStatus(1500, 1500, '2026-10-01', '2026-10-19')).toBe('paid');
+    expect(deriveChargeStatus(1500, 200, '2026-10-01', '2026-10-19')).toBe('partial');
+    expect(deriveChargeStatus(1500, 0, '2026-10-01', '2026-10-19')).toBe('late');
+    expect(deriveChargeStatus(1500, 0, '2026-11-01', '2026-10-19')).toBe('pending');
+  });
+
+  test('summarizes each rent charge with its payments', () => {
+    expect(summarizeRentCharges([novemberRent, octoberRent, octoberPayment], '2026-10-19')).toEqual([
+      { rentPaymentId: 'rp-oct', dueDate: '2026-10-01', amount: 1500, amountPaid: 1000, balance: 500, lastPaymentDate: '2026-10-01', status: 'partial' },
+      { rentPaymentId: 'rp-nov', dueDate: '2026-11-01', amount: 1500, amountPaid: 0, balance: 1500, lastPaymentDate: null, status: 'pending' }
+    ]);
+  });
+});
+
+describe('tenant credit', () => {
+  test('adds up overpayments and subtracts credit used', () => {
+    const overpayment = entry({ entry_type: 'payment', category: 'credit', credit: 500 });
+    const used = entry({ entry_type: 'adjustment', category: 'credit', debit: 200 });
+
+    expect(getCreditBalance([octoberRent, octoberPayment, overpayment, used])).toBe(300);
+    expect(getCreditBalance([octoberRent, octoberPayment])).toBe(0);
+  });
+
+  test('credit applied to a charge pays it without changing the balance', () => {
+    const prepayment = entry({ entry_date: '2026-09-20', entry_type: 'payment', category: 'credit', credit: 2000 });
+    const used = entry({ entry_date: '2026-11-01', entry_type: 'adjustment', category: 'credit', debit: 1500 });
+    const applied = entry({ entry_date: '2026-11-01', entry_type: 'adjustment', credit: 1500, rent_payment_id: 'rp-nov' });
+    const entries = [prepayment, novemberRent, used, applied];
+
+    expect(summarizeRentCharges(entries, '2026-11-01')[0]).toMatchObject({ amountPaid: 1500, balance: 0, status: 'paid' });
+    expect(getCreditBalance(entries)).toBe(500);
+    expect(buildLedgerStatement(entries).balance).toBe(-500);
+  });
+});
@@ -0,0 +1,165 @@
+import {
+  getLedgerPeriods,
+  getNoticeRentDueDate,
+  getNoticeTerminationDate,
+  checkTerminationDate,
+  getNoticeServiceCheck,
+  getApplicationCutoffDate,
+  sumOutstandingArrears,
+  getNoticesVoidedByPayment
+} from '../legalNotice.utils';
+import { LegalNotice } from '../../config/database';
+import { ArrearsStatement } from '../arrears.utils';
+import { calculateServiceDates } from '../serviceDate.utils';
+import { ontario, britishColumbia } from '../../jurisdictions';
+
+const period = (periodStart: string, rentCharged: number, rentPaid: number, balance: number) => ({
+  paymentId: periodStart,
+  periodStart,
+  periodEnd: periodStart.replace(/-01$/, '-28'),
+  rentCharged,
+  rentPaid,
+  rentOwing: rentCharged - rentPaid,
+  balance
+});
+
+describe('the rent owing on the notice', () => {
+  test('starts the L1 ledger at the first period with rent owing, keeping the paid periods after it', () => {
+    const statement: ArrearsStatement = {
+      asOf: '2026-10-19',
+      periods: [
+        period('2026-07-01', 2000, 2000, 0),
+        period('2026-08-01', 2000, 1500, 500),
+        period('2026-09-01', 2000, 2000, 500),
+        period('2026-10-01', 2000, 0, 2500)
+      ],
+      totalCharged: 8000,
+      totalPaid: 5500,
+      totalOwing: 2500
+    };
+
+    expect(getLedgerPeriods(statement).map((ledgerPeriod) => ledgerPeriod.periodStart))
+      .toEqual(['2026-08-01', '2026-09-01', '2026-10-01']);
+    expect(getLedgerPeriods({ ...statement, periods: [statement.periods[0]] })).toEqual([]);
+  });
+
+  test('shows the start of the most recent period owing as the due date', () => {
+    expect(getNoticeRentDueDate([
+      { periodStart: '2026-08-01', periodEnd: '2026-08-31', rentCharged: 2000, rentPaid: 1500, rentOwing: 500 },
+      { periodStart: '2026-10-01', periodEnd: '2026-10-31', rentCharged: 2000, rentPaid: 0, rentOwing: 2000 }
+    ])).toBe('2026-10-01');
+    expect(getNoticeRentDueDate([])).toBeUndefined();
+  });
+});
+
+describe('the termination date', () => {
+  test('gives monthly Ontario tenancies 14 days and weekly ones 7', () => {
+    expect(getNoticeTerminationDate(ontario, '2026-10-19', 'hand', 'monthly')).toBe('2026-11-02');
+    expect(getNoticeTerminationDate(ontario, '2026-10-19', 'hand', 'weekly')).toBe('2026-10-26');
+  });
+
+  test('counts from the deemed service date', () => {
+    expect(getNoticeTerminationDate(ontario, '2026-10-19', 'mail')).toBe('2026-11-07');
+    expect(getNoticeTerminationDate(britishColumbia, '2026-10-19', 'hand')).toBe('2026-10-29');
+  });
+
+  test('flags a termination date earlier than the law allows', () => {
+    const serviceDates = calculateServiceDates('2026-10-19', 'hand');
+
+    expect(checkTerminationDate(serviceDates, '2026-11-01').terminationDateValid).toBe(false);
+    expect(checkTerminationDate(serviceDates, '2026-11-02')).toEqual({
+      ...serviceDates,
+      terminationDate: '2026-11-02',
+      terminationDateValid: true
+    });
+    expect(checkTerminationDate(serviceDates, null).terminationDateValid).toBe(true);
+  });
+
+  test('serves a weekly tenancy\'s notice with the 7 day notice period it was issued with', () => {
+    const terminationDate = getNoticeTerminationDate(ontario, '2026-10-19', 'hand', 'weekly');
+    const notice = { termination_date: terminationDate, rent_period: 'weekly' as const, service_method: 'hand' as const };
+
+    expect(getNoticeServiceCheck(ontario, notice, '2026-10-19')).toMatchObject({
+      earliestTerminationDate: '2026-10-26',
+      terminationDateValid: true
+    });
+    // Served a day later, the 7 days are no longer given
+    expect(getNoticeServiceCheck(ontario, notice, '2026-10-20').terminationDateValid).toBe(false);
+    // Mailing adds five days to the deemed service date
+    expect(getNoticeServiceCheck(ontario, notice, '2026-10-19', 'mail').terminationDateValid).toBe(false);
+  });
+
+  test('checks a notice without a rent period against the monthly notice period', () => {
+    const notice = { termination_date: '2026-10-26', rent_period: null, service_method: 'hand' as const };
+
+    expect(getNoticeServiceCheck(ontario, notice, '2026-10-19')).toMatchObject({
+      earliestTerminationDate: '2026-11-02',
+      terminationDateValid: false
+    });
+  });
+});
+
+describe('following a notice with an application', () => {
+  test('allows notices whose termination date plus the waiting period has passed', () => {
+    expect(getApplicationCutoffDate('2026-10-19T08:00:00Z', ontario.nonPayment.applicationWaitingDays)).toBe('2026-10-18');
+    expect(getApplicationCutoffDate('2026-10-19', britishColumbia.nonPayment.applicationWaitingDays)).toBe('2026-10-19');
+  });
+});
+
+describe('voiding notices when a payment clears the arrears', () => {
+  const notice = (id: string, terminationDate: string, overrides: Partial<LegalNotice> = {}): LegalNotice => ({
+    id,
+    tenant_id: 'tenant',
+    unit_id: 'unit',
+    tenant_unit_id: 'tenant-unit',
+    notice_type: 'N4',
+    jurisdiction: 'ON',
+    parent_notice_id: null,
+    payment_ids: ['october'],
+    amount_owed: 2000,
+    termination_date: terminationDate,
+    rent_period: 'monthly',
+    service_method: 'hand',
+    served_date: '2026-10-10',
+    deemed_service_date: '2026-10-10',
+    document_path: null,
+    certificate_path: null,
+    status: 'served',
+    created_at: '2026-10-10T00:00:00Z',
+    updated_at: '2026-10-10T00:00:00Z',
+    ...overrides
+  });
+
+  const october = { amount: 2000, status: 'late' as const, amount_paid: 0 };
+
+  test('payment in full voids the open notices', () => {
+    const notices = [notice('served', '2026-10-24'), notice('draft', '2026-10-19', { status: 'draft' })];
+    const arrears = sumOutstandingArrears([{ ...october, status: 'paid', amount_paid: 2000 }]);
+
+    expect(arrears).toBe(0);
+    expect(getNoticesVoidedByPayment(notices, arrears, '2026-10-19').map((voided) => voided.id)).toEqual(['served', 'draft']);
+  });
+
+  test('a partial payment voids nothing', () => {
+    const arrears = sumOutstandingArrears([{ ...october, status: 'partial', amount_paid: 1500 }, october]);
+
+    expect(arrears).toBe(2500);
+    expect(getNoticesVoidedByPayment([notice('served', '2026-10-24')], arrears, '2026-10-19')).toEqual([]);
+  });
+
+  test('a notice past its termination date stays open', () => {
+    const notices = [notice('expired', '2026-10-18'), notice('current', '2026-10-24')];
+
+    expect(getNoticesVoidedByPayment(notices, 0, '2026-10-19').map((voided) => voided.id)).toEqual(['current']);
+  });
+
+  test('filed and withdrawn notices and applications are not voided', () => {
+    const notices = [
+      notice('filed', '2026-10-24', { status: 'filed' }),
+      notice('withdrawn', '2026-10-24', { status: 'withdrawn' }),
+      notice('l1', '2026-10-24', { notice_type: 'L1' })
+    ];
+
+    expect(getNoticesVoidedByPayment(notices, 0, '2026-10-19')).toEqual([]);
+  });
+});
@@ -0,0 +1,74 @@
+import { buildFinalStatement, MOVE_OUT_CATEGORY } from '../moveOut.utils';
+import { DEPOSIT_PAYMENT_METHOD } from '../deposit.utils';
+import { LedgerEntryRow } from '../ledger.utils';
+
+const entry = (overrides: Partial<LedgerEntryRow> & { payment_method?: string | null }) => ({
+  id: Math.random().toString(36).slice(2),
+  entry_date: '2026-10-01',
+  entry_type: 'charge' as const,
+  category: 'rent',
+  description: null,
+  debit: 0,
+  credit: 0,
+  rent_payment_id: null,
+  payment_method: null,
+  ...overrides
+});
+
+const octoberRent = entry({ entry_date: '2026-10-01', debit: 1500, rent_payment_id: 'rp-oct' });
+const octoberPayment = entry({ entry_date: '2026-10-03', entry_type: 'payment', credit: 1000, rent_payment_id: 'rp-oct' });
+const novemberRent = entry({ entry_date: '2026-11-01', debit: 1500, rent_payment_id: 'rp-nov' });
+const movedOutMidMonth = entry({
+  entry_date: '2026-11-15', entry_type: 'adjustment', category: MOVE_OUT_CATEGORY, credit: 750, rent_payment_id: 'rp-nov'
+});
+
+describe('final statement', () => {
+  test('applies the deposit to the prorated final rent and credits the rest', () => {
+    const depositPaid = entry({
+      entry_date: '2026-11-15', entry_type: 'payment', credit: 750, rent_payment_id: 'rp-nov', payment_method: DEPOSIT_PAYMENT_METHOD
+    });
+    const depositLeft = entry({ entry_date: '2026-11-15', entry_type: 'payment', category: 'credit', credit: 750 });
+
+    expect(buildFinalStatement(
+      [octoberRent, octoberPayment, novemberRent, movedOutMidMonth, depositPaid, depositLeft],
+      { rentPaymentId: 'rp-nov', rent: 750 },
+      '2026-11-15'
+    )).toEqual({
+      moveOutDate: '2026-11-15',
+      arrears: 500,
+      finalRent: 750,
+      finalRentPaid: 0,
+      depositApplied: 750,
+      credit: 750,
+      balance: -250
+    });
+  });
+
+  test('leaves what is unpaid owing when there is no deposit', () => {
+    const partPaid = entry({ entry_date: '2026-11-02', entry_type: 'payment', credit: 500, rent_payment_id: 'rp-nov' });
+    const statement = buildFinalStatement([octoberRent, octoberPayment, novemberRent, movedOutMidMonth, partPaid], { rentPaymentId: 'rp-nov', rent: 750 }, '2026-11-15');
+
+    expect(statement).toMatchObject({ arrears: 500, finalRent: 750, finalRentPaid: 500, depositApplied: 0, credit: 0 });
+    expect(statement.balance).toBe(750);
+  });
+
+  test('counts rent paid for after the move-out date as credit', () => {
+    const paidInFull = entry({ entry_date: '2026-11-01', entry_type: 'payment', credit: 1500, rent_payment_id: 'rp-nov' });
+    const paidAfterMoveOut = entry({ entry_date: '2026-11-15', entry_type: 'payment', category: 'credit', credit: 750 });
+    const statement = buildFinalStatement(
+      [octoberRent, octoberPayment, novemberRent, paidInFull, paidAfterMoveOut],
+      { rentPaymentId: 'rp-nov', rent: 750 },
+      '2026-11-15'
+    );
+
+    expect(statement).toMatchObject({ arrears: 500, finalRent: 750, finalRentPaid: 750, credit: 750, balance: -250 });
+  });
+
+  test('has no final rent when the final period was never charged', () => {
+    expect(buildFinalStatement([octoberRent, octoberPayment], null, '2026-10-31')).toMatchObject({
+      arrears: 500,
+      finalRent: 0,
+      balance: 500
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import {
+  buildInstallmentSchedule,
+  getScheduleTotal,
+  isInstallmentMissed,
+  isPlanInGoodStanding,
+  getPlanBalance
+} from '../paymentPlan.utils';
+
+describe('payment plan schedule', () => {
+  test('splits the total into monthly installments', () => {
+    expect(buildInstallmentSchedule(1500, 3, '2026-10-31')).toEqual([
+      { due_date: '2026-10-31', amount: 500 },
+      { due_date: '2026-11-30', amount: 500 },
+      { due_date: '2026-12-31', amount: 500 }
+    ]);
+  });
+
+  test('puts the rounding difference on the last installment', () => {
+    const schedule = buildInstallmentSchedule(1000, 3, '2026-10-19', 'biweekly');
+
+    expect(schedule.map((installment) => installment.amount)).toEqual([333.33, 333.33, 333.34]);
+    expect(schedule.map((installment) => installment.due_date)).toEqual(['2026-10-19', '2026-11-02', '2026-11-16']);
+    expect(getScheduleTotal(schedule)).toBe(1000);
+  });
+});
+
+describe('payment plan standing', () => {
+  const paid = { due_date: '2026-10-01', amount: 500, amount_paid: 500, status: 'paid' as const };
+  const upcoming = { due_date: '2026-11-01', amount: 500, amount_paid: 0, status: 'pending' as const };
+
+  test('an unpaid installment past its due date is missed', () => {
+    expect(isInstallmentMissed(upcoming, '2026-11-01')).toBe(false);
+    expect(isInstallmentMissed(upcoming, '2026-11-02')).toBe(true);
+    expect(isInstallmentMissed({ ...upcoming, amount_paid: 500 }, '2026-11-02')).toBe(false);
+  });
+
+  test('a plan is in good standing while active and nothing is missed', () => {
+    expect(isPlanInGoodStanding({ status: 'active' }, [paid, upcoming], '2026-10-19')).toBe(true);
+    expect(isPlanInGoodStanding({ status: 'active' }, [paid, upcoming], '2026-11-05')).toBe(false);
+    expect(isPlanInGoodStanding({ status: 'cancelled' }, [paid, upcoming], '2026-10-19')).toBe(false);
+  });
+
+  test('the balance counts what is still owing on each installment', () => {
+    expect(getPlanBalance([paid, { ...upcoming, amount_paid: 200 }])).toBe(300);
+  });
+});
@@ -0,0 +1,51 @@
+import { getRentForPeriod } from '../proration.utils';
+
+const october = { periodStart: '2026-10-01', periodEnd: '2026-10-31' };
+
+describe('rent proration', () => {
+  test('charges the full rent when the lease covers the period', () => {
+    expect(getRentForPeriod(1500, october, { start: '2026-01-01', end: null })).toEqual({ amount: 1500, proration: null });
+    expect(getRentForPeriod(1500, october, {})).toEqual({ amount: 1500, proration: null });
+  });
+
+  test('prorates a move-in by actual days', () => {
+    const rent = getRentForPeriod(1500, october, { start: '2026-10-17' });
+
+    expect(rent?.amount).toBe(725.81);
+    expect(rent?.proration).toMatchObject({ start: '2026-10-17', end: '2026-10-31', days: 15, periodDays: 31, dailyRate: 48.39 });
+    expect(rent?.proration?.description).toBe(
+      'Prorated rent 2026-10-17 to 2026-10-31: 15 of 31 days ($1500.00 x 15 / 31) = $725.81'
+    );
+  });
+
+  test('prorates a move-out using the 365/12 convention', () => {
+    const rent = getRentForPeriod(1500, october, { start: '2025-06-01', end: '2026-10-10' }, '365_12');
+
+    // 1500 x 12 / 365 = 49.32 a day, whatever the month
+    expect(rent?.amount).toBe(493.15);
+    expect(rent?.proration).toMatchObject({ start: '2026-10-01', end: '2026-10-10', days: 10, dailyRate: 49.32 });
+    expect(rent?.proration?.description).toBe(
+      'Prorated rent 2026-10-01 to 2026-10-10: 10 of 31 days ($1500.00 x 12 x 10 / 365) = $493.15'
+    );
+  });
+
+  test('uses the period length for other frequencies', () => {
+    const week = { periodStart: '2026-10-05', periodEnd: '2026-10-11' };
+    expect(getRentForPeriod(350, week, { start: '2026-10-09' })?.amount).toBe(150);
+    expect(getRentForPeriod(350, week, { start: '2026-10-09' }, '365_12', 'weekly')?.amount).toBe(149.59);
+  });
+
+  test('rounds the total rather than the daily rate', () => {
+    const month = { periodStart: '2026-11-01', periodEnd: '2026-11-30' };
+    const rent = getRentForPeriod(1999, month, { start: '2026-11-02' });
+
+    // 1999 x 29 / 30 = 1932.37, where 66.63 a day x 29 would be 1932.27
+    expect(rent?.amount).toBe(1932.37);
+    expect(rent?.proration?.dailyRate).toBe(66.63);
+  });
+
+  test('has nothing to charge outside the lease', () => {
+    expect(getRentForPeriod(1500, october, { start: '2026-11-01' })).toBeNull();
+    expect(getRentForPeriod(1500, october, { end: '2026-09-30' })).toBeNull();
+  });
+});
@@ -0,0 +1,24 @@
+import { getRentInForce, sortRentHistory } from '../rentHistory.utils';
+
+const history = [
+  { amount: '1550.00', effective_date: '2026-11-01' },
+  { amount: 1500, effective_date: '2025-11-01' }
+];
+
+describe('rent history', () => {
+  test('uses the latest change in force on the date', () => {
+    expect(getRentInForce(history, '2026-10-31')).toBe(1500);
+    expect(getRentInForce(history, '2026-11-01')).toBe(1550);
+    expect(getRentInForce(history, '2027-03-01')).toBe(1550);
+  });
+
+  test('has no rent before the first change', () => {
+    expect(getRentInForce(history, '2025-10-01')).toBeNull();
+    expect(getRentInForce([], '2026-10-01')).toBeNull();
+  });
+
+  test('sorts changes oldest first without changing the input', () => {
+    expect(sortRentHistory(history).map((change) => change.effective_date)).toEqual(['2025-11-01', '2026-11-01']);
+    expect(history[0].effective_date).toBe('2026-11-01');
+  });
+});
@@ -0,0 +1,81 @@
+import { checkRentIncrease, getGuidelinePercentage, getLastRentIncreaseDate, getNoticeDeadline, isGuidelineExempt } from '../rentIncrease.utils';
+import { ontario } from '../../jurisdictions';
+
+const rules = ontario.rentIncrease!;
+
+const request = {
+  currentRent: 1500,
+  newRent: 1531.5,
+  effectiveDate: '2026-10-01',
+  today: '2026-06-01',
+  lastIncreaseDate: '2025-10-01',
+  firstOccupiedDate: '2005-06-01'
+};
+
+describe('rent increase rules', () => {
+  test('uses the guideline for the year the increase takes effect', () => {
+    expect(getGuidelinePercentage(rules, '2026-12-01')).toBe(2.1);
+    expect(getGuidelinePercentage(rules, '2021-06-01')).toBe(0);
+    expect(getGuidelinePercentage(rules, '2035-01-01')).toBeNull();
+  });
+
+  test('exempts units first occupied after November 15, 2018', () => {
+    expect(isGuidelineExempt(rules, '2018-11-16')).toBe(true);
+    expect(isGuidelineExempt(rules, '2018-11-15')).toBe(false);
+    expect(isGuidelineExempt(rules, null)).toBe(false);
+  });
+
+  test('needs 90 days notice', () => {
+    expect(getNoticeDeadline(rules, '2027-02-01')).toBe('2026-11-03');
+  });
+
+  test('finds the last increase in the rent history', () => {
+    expect(getLastRentIncreaseDate([
+      { amount: 1450, effective_date: '2025-02-01' },
+      { amount: 1500, effective_date: '2026-02-01' },
+      { amount: 1400, effective_date: '2026-06-01' }
+    ])).toBe('2026-02-01');
+    expect(getLastRentIncreaseDate([{ amount: 1500, effective_date: '2025-02-01' }])).toBeNull();
+  });
+});
+
+describe('checking a rent increase', () => {
+  test('allows an increase within the guideline with enough notice', () => {
+    expect(checkRentIncrease(rules, request)).toMatchObject({
+      increasePercentage: 2.1,
+      guidelinePercentage: 2.1,
+      guidelineExempt: false,
+      maximumRent: 1531.5,
+      earliestEffectiveDate: '2026-10-01',
+      noticeDeadline: '2026-07-03',
+      errors: []
+    });
+  });
+
+  test('rejects an increase above the guideline', () => {
+    const check = checkRentIncrease(rules, { ...request, newRent: 1600 });
+    expect(check.errors).toHaveLength(1);
+    expect(check.errors[0]).toContain('above the 2026 guideline');
+  });
+
+  test('rejects an increase within 12 months of the last one', () => {
+    const check = checkRentIncrease(rules, { ...request, lastIncreaseDate: '2026-02-01' });
+    expect(check.earliestEffectiveDate).toBe('2027-02-01');
+    expect(check.errors[0]).toContain('once every 12 months');
+  });
+
+  test('rejects an increase after the notice deadline', () => {
+    const check = checkRentIncrease(rules, { ...request, today: '2026-07-04' });
+    expect(check.errors[0]).toContain('earliest effective date is 2026-10-02');
+  });
+
+  test('cannot check an increase before the guideline is published', () => {
+    const check = checkRentIncrease(rules, { ...request, effectiveDate: '2035-01-01' });
+    expect(check.errors).toEqual(['No rent increase guideline has been published for 2035']);
+  });
+
+  test('lets exempt units go above the guideline', () => {
+    const check = checkRentIncrease(rules, { ...request, newRent: 1700, firstOccupiedDate: '2020-01-01' });
+    expect(check).toMatchObject({ guidelineExempt: true, maximumRent: null, errors: [] });
+  });
+});
@@ -0,0 +1,53 @@
+import {
+  addBusinessDays,
+  calculateDeemedServiceDate,
+  calculateEarliestTerminationDate,
+  calculateServiceDates
+} from '../serviceDate.utils';
+
+describe('service date rules', () => {
+  test('hand delivery is served the same day', () => {
+    expect(calculateDeemedServiceDate('2026-10-19', 'hand')).toBe('2026-10-19');
+  });
+
+  test('mail adds five days', () => {
+    expect(calculateDeemedServiceDate('2026-10-19', 'mail')).toBe('2026-10-24');
+  });
+
+  test('courier adds one business day', () => {
+    // Thursday -> Friday
+    expect(calculateDeemedServiceDate('2026-10-22', 'courier')).toBe('2026-10-23');
+    // Friday -> Monday
+    expect(calculateDeemedServiceDate('2026-10-23', 'courier')).toBe('2026-10-26');
+  });
+
+  test('courier service is not deemed on a statutory holiday', () => {
+    // Friday before Thanksgiving Monday -> Tuesday
+    expect(calculateDeemedServiceDate('2026-10-09', 'courier')).toBe('2026-10-13');
+    // Christmas Eve -> past Christmas, the weekend and Boxing Day -> Monday
+    expect(calculateDeemedServiceDate('2026-12-24', 'courier')).toBe('2026-12-28');
+    expect(calculateServiceDates('2026-10-09', 'courier').earliestTerminationDate).toBe('2026-10-27');
+  });
+
+  test('skips weekends when adding business days', () => {
+    expect(addBusinessDays('2026-10-24', 1)).toBe('2026-10-26');
+    expect(addBusinessDays('2026-10-23', 3)).toBe('2026-10-28');
+  });
+
+  test('termination date is 14 days after service for monthly tenancies', () => {
+    expect(calculateEarliestTerminationDate('2026-10-24')).toBe('2026-11-07');
+  });
+
+  test('termination date is 7 days after service for weekly tenancies', () => {
+    expect(calculateEarliestTerminationDate('2026-10-24', 'weekly')).toBe('2026-10-31');
+  });
+
+  test('combines the service method and notice period', () => {
+    expect(calculateServiceDates('2026-10-19', 'mail')).toEqual({
+      servedDate: '2026-10-19',
+      serviceMethod: 'mail',
+      deemedServiceDate: '2026-10-24',
+      earliestTerminationDate: '2026-11-07'
+    });
+  });
+});
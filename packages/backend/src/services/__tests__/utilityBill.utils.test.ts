@@ -0,0 +1,58 @@
+import { allocateUtilityBill, validateAllocationInputs, describeAllocationBasis, describeUtilityCharge } from '../utilityBill.utils';
+
+describe('splitting a utility bill', () => {
+  test('splits by meter usage', () => {
+    const allocations = allocateUtilityBill(300, 'meter', [
+      { unitId: 'a', meterStart: 1000, meterEnd: 1600 },
+      { unitId: 'b', meterStart: 500, meterEnd: 800 },
+      { unitId: 'c', meterStart: 200, meterEnd: 300 }
+    ]);
+
+    expect(allocations).toEqual([
+      { unitId: 'a', basis: 600, share: 60, amount: 180 },
+      { unitId: 'b', basis: 300, share: 30, amount: 90 },
+      { unitId: 'c', basis: 100, share: 10, amount: 30 }
+    ]);
+  });
+
+  test('splits by square footage', () => {
+    const allocations = allocateUtilityBill(180, 'square_footage', [
+      { unitId: 'a', squareFeet: 1000 },
+      { unitId: 'b', squareFeet: 500 }
+    ]);
+
+    expect(allocations.map((allocation) => allocation.amount)).toEqual([120, 60]);
+  });
+
+  test('gives the rounding remainder to the largest unit so the parts add up to the bill', () => {
+    const allocations = allocateUtilityBill(100, 'equal', [{ unitId: 'a' }, { unitId: 'b' }, { unitId: 'c' }]);
+
+    expect(allocations.map((allocation) => allocation.amount)).toEqual([33.34, 33.33, 33.33]);
+    expect(allocations.map((allocation) => allocation.share)).toEqual([33.33, 33.33, 33.33]);
+  });
+});
+
+describe('validating allocation inputs', () => {
+  test('needs both meter readings, in order', () => {
+    expect(validateAllocationInputs('meter', [{ unitId: 'a', meterStart: 10 }])).toBe('Unit a needs a start and end meter reading');
+    expect(validateAllocationInputs('meter', [{ unitId: 'a', meterStart: 10, meterEnd: 5 }]))
+      .toBe("Unit a's end meter reading is lower than its start reading");
+    expect(validateAllocationInputs('meter', [{ unitId: 'a', meterStart: 10, meterEnd: 10 }]))
+      .toBe('The meters recorded no usage to split the bill by');
+  });
+
+  test('needs the square footage of every unit', () => {
+    expect(validateAllocationInputs('square_footage', [{ unitId: 'a', squareFeet: 800 }, { unitId: 'b', squareFeet: null }]))
+      .toBe('Unit b has no square footage');
+    expect(validateAllocationInputs('equal', [{ unitId: 'a' }])).toBeNull();
+  });
+});
+
+describe('describing a utility charge', () => {
+  test('shows the basis of each unit and names the bill period', () => {
+    expect(describeAllocationBasis('meter', { unitId: 'a', meterStart: 1000, meterEnd: 2250, basis: 1250 }))
+      .toBe('1,000 to 2,250 (1,250 used)');
+    expect(describeAllocationBasis('square_footage', { unitId: 'a', basis: 850 })).toBe('850 sq ft');
+    expect(describeUtilityCharge('hydro', '2026-09-01', '2026-09-30T00:00:00Z')).toBe('Hydro 2026-09-01 to 2026-09-30');
+  });
+});
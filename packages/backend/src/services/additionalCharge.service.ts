@@ -0,0 +1,457 @@
+import { supabase, AdditionalCharge, RecurringCharge, Tenant, TenantUnit, Unit, Property, LedgerEntry } from "../config/database";
+import { logger } from "../utils/logger";
+import { paymentService } from "./payment.service";
+import { ledgerService } from "./ledger.service";
+import { billingCalendarService } from "./billingCalendar.service";
+import {
+  getChargeSchedule,
+  isChargeBilledForPeriod,
+  describeCharge,
+  summarizeAdditionalCharges,
+  formatLineItems,
+  AdditionalChargeSummary
+} from "./additionalCharge.utils";
+
+type ChargeTenantUnit = Pick<TenantUnit, "id" | "tenant_id" | "unit_id" | "rent_due_day">;
+
+/**
+ * A charge with what has been paid against it
+ */
+export type AdditionalChargeWithBalance = AdditionalCharge & Omit<AdditionalChargeSummary, "additionalChargeId" | "amount">;
+
+/**
+ * Charges a tenant was asked to pay together, apart from their rent
+ */
+export interface AdditionalChargeRequest {
+  tenant: Tenant;
+  unit: Unit & { properties: Property };
+  charges: AdditionalCharge[];
+  total: number;
+  interacRequestLink: string | null;
+}
+
+export interface RecurringChargeInput {
+  category: RecurringCharge["category"];
+  description?: string | null;
+  amount: number;
+  frequency?: RecurringCharge["frequency"];
+  start_date: string;
+  end_date?: string | null;
+}
+
+const roundToCents = (value: number): number => Math.round(value * 100) / 100;
+
+export class AdditionalChargeService {
+  /**
+   * List recurring charges, optionally for one tenant_unit
+   */
+  async listRecurringCharges(tenantUnitId?: string): Promise<RecurringCharge[]> {
+    let query = supabase
+      .from("recurring_charges")
+      .select("*")
+      .order("start_date", { ascending: true });
+
+    if (tenantUnitId) {
+      query = query.eq("tenant_unit_id", tenantUnitId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      logger.error(`Error fetching recurring charges: ${error.message}`);
+      console.log(`Error fetching recurring charges: ${error.message}`);
+      throw new Error(`Failed to fetch recurring charges: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  /**
+   * Get recurring charge by ID
+   */
+  async getRecurringChargeById(id: string): Promise<RecurringCharge | null> {
+    const { data, error } = await supabase
+      .from("recurring_charges")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`Error fetching recurring charge ${id}: ${error.message}`);
+      console.log(`Error fetching recurring charge ${id}: ${error.message}`);
+      throw new Error(`Failed to fetch recurring charge: ${error.message}`);
+    }
+    return data;
+  }
+
+  /**
+   * Add a recurring charge to a tenant_unit. Returns null if the tenant_unit does not exist.
+   */
+  async createRecurringCharge(tenantUnitId: string, input: RecurringChargeInput): Promise<RecurringCharge | null> {
+    if (!(await ledgerService.getTenantUnitById(tenantUnitId))) {
+      return null;
+    }
+
+    logger.info(`Adding ${input.category} charge of ${input.amount} to tenant_unit ${tenantUnitId}`);
+    console.log(`Adding ${input.category} charge of ${input.amount} to tenant_unit ${tenantUnitId}`);
+
+    const { data, error } = await supabase
+      .from("recurring_charges")
+      .insert([{
+        tenant_unit_id: tenantUnitId,
+        category: input.category,
+        description: input.description || null,
+        amount: input.amount,
+        frequency: input.frequency || "monthly",
+        start_date: input.start_date,
+        end_date: input.end_date || null
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      logger.error(`Error creating recurring charge: ${error.message}`);
+      console.log(`Error creating recurring charge: ${error.message}`);
+      throw new Error(`Failed to create recurring charge: ${error.message}`);
+    }
+    return data;
+  }
+
+  /**
+   * Change a recurring charge, such as its amount or end date. Charges already
+   * billed keep what they were billed for. Returns null if it does not exist.
+   */
+  async updateRecurringCharge(id: string, changes: Partial<RecurringChargeInput>): Promise<RecurringCharge | null> {
+    const { data, error } = await supabase
+      .from("recurring_charges")
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`Error updating recurring charge ${id}: ${error.message}`);
+      console.log(`Error updating recurring charge ${id}: ${error.message}`);
+      throw new Error(`Failed to update recurring charge: ${error.message}`);
+    }
+    return data;
+  }
+
+  /**
+   * Bill a tenant_unit's recurring charges for their current periods. The
+   * database keeps one charge per recurring charge and period, so it is safe
+   * to call any number of times; only charges billed by this call are returned.
+   */
+  async generateChargesDue(tenantUnit: ChargeTenantUnit, date: string = billingCalendarService.today()): Promise<AdditionalCharge[]> {
+    const recurringCharges = await this.listRecurringCharges(tenantUnit.id);
+    const billed: AdditionalCharge[] = [];
+
+    for (const recurringCharge of recurringCharges) {
+      const period = billingCalendarService.getCurrentPeriod(
+        getChargeSchedule(recurringCharge, Number(tenantUnit.rent_due_day)),
+        date
+      );
+      if (!period || !isChargeBilledForPeriod(recurringCharge, period)) {
+        continue;
+      }
+
+      const { data, error } = await supabase
+        .from("additional_charges")
+        .upsert([{
+          recurring_charge_id: recurringCharge.id,
+          tenant_unit_id: tenantUnit.id,
+          tenant_id: tenantUnit.tenant_id,
+          unit_id: tenantUnit.unit_id,
+          category: recurringCharge.category,
+          description: describeCharge(recurringCharge.category, recurringCharge.description),
+          amount: recurringCharge.amount,
+          billing_period: period.billingPeriod,
+          due_date: period.dueDate
+        }], {
+          onConflict: "recurring_charge_id,billing_period",
+          ignoreDuplicates: true
+        })
+        .select();
+
+      if (error) {
+        logger.error(`Error billing recurring charge ${recurringCharge.id} for ${period.billingPeriod}: ${error.message}`);
+        console.log(`Error billing recurring charge ${recurringCharge.id} for ${period.billingPeriod}: ${error.message}`);
+        throw new Error(`Failed to bill recurring charge: ${error.message}`);
+      }
+
+      const created = data && data[0];
+      if (!created) {
+        continue;
+      }
+
+      // A ledger failure is logged rather than thrown so the charge is not lost
+      try {
+        await ledgerService.recordAdditionalCharge(created);
+      } catch (ledgerError) {
+        logger.error(`Error adding additional charge ${created.id} to the ledger: ${ledgerError}`);
+        console.log(`Error adding additional charge ${created.id} to the ledger: ${ledgerError}`);
+      }
+      billed.push(created);
+    }
+
+    return billed;
+  }
+
+  /**
+   * Bill a one-off charge, such as a tenant's part of a utility bill, and put it on the ledger
+   */
+  async createCharge(
+    charge: Pick<AdditionalCharge, "tenant_unit_id" | "tenant_id" | "unit_id" | "category" | "description" | "amount" | "due_date">
+  ): Promise<AdditionalCharge> {
+    logger.info(`Billing ${charge.category} charge of ${charge.amount} to tenant_unit ${charge.tenant_unit_id}`);
+    console.log(`Billing ${charge.category} charge of ${charge.amount} to tenant_unit ${charge.tenant_unit_id}`);
+
+    const { data, error } = await supabase
+      .from("additional_charges")
+      .insert([{ ...charge, recurring_charge_id: null, billing_period: null }])
+      .select()
+      .single();
+
+    if (error) {
+      logger.error(`Error creating additional charge: ${error.message}`);
+      console.log(`Error creating additional charge: ${error.message}`);
+      throw new Error(`Failed to create additional charge: ${error.message}`);
+    }
+
+    // A ledger failure is logged rather than thrown so the charge is not lost
+    try {
+      await ledgerService.recordAdditionalCharge(data);
+    } catch (ledgerError) {
+      logger.error(`Error adding additional charge ${data.id} to the ledger: ${ledgerError}`);
+      console.log(`Error adding additional charge ${data.id} to the ledger: ${ledgerError}`);
+    }
+    return data;
+  }
+
+  /**
+   * Record that charges were requested from the tenant, with the rent or on their own
+   */
+  async markRequested(charges: AdditionalCharge[], rentPaymentId: string | null, interacRequestLink: string | null): Promise<void> {
+    if (charges.length === 0) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from("additional_charges")
+      .update({
+        rent_payment_id: rentPaymentId,
+        interac_request_link: interacRequestLink,
+        requested_at: new Date().toISOString()
+      })
+      .in("id", charges.map((charge) => charge.id));
+
+    if (error) {
+      logger.error(`Error marking additional charges requested: ${error.message}`);
+      console.log(`Error marking additional charges requested: ${error.message}`);
+      throw new Error(`Failed to update additional charges: ${error.message}`);
+    }
+  }
+
+  /**
+   * Charges requested together with a rent charge
+   */
+  async getChargesForRentPayment(rentPaymentId: string): Promise<AdditionalCharge[]> {
+    const { data, error } = await supabase
+      .from("additional_charges")
+      .select("*")
+      .eq("rent_payment_id", rentPaymentId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      logger.error(`Error fetching additional charges for rent payment ${rentPaymentId}: ${error.message}`);
+      console.log(`Error fetching additional charges for rent payment ${rentPaymentId}: ${error.message}`);
+      throw new Error(`Failed to fetch additional charges: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  /**
+   * Bill every active tenant_unit's recurring charges due today and request
+   * whatever the rent did not already take along: charges on their own
+   * schedule, charges of roommates, and any billed outside the due-rent job.
+   * One Interac request per tenant_unit covers all of its charges.
+   */
+  async requestChargesDue(date: string = billingCalendarService.today()): Promise<AdditionalChargeRequest[]> {
+    const { data: tenantUnits, error: tenantUnitsError } = await supabase
+      .from("tenant_units")
+      .select("id, tenant_id, unit_id, rent_due_day, recurring_charges!inner(id)")
+      .neq("status", "ended");
+
+    if (tenantUnitsError) {
+      logger.error(`Error fetching tenant_units with recurring charges: ${tenantUnitsError.message}`);
+      console.log(`Error fetching tenant_units with recurring charges: ${tenantUnitsError.message}`);
+      throw new Error(`Failed to fetch tenant_units with recurring charges: ${tenantUnitsError.message}`);
+    }
+
+    for (const tenantUnit of tenantUnits || []) {
+      try {
+        await this.generateChargesDue(tenantUnit, date);
+      } catch (error) {
+        logger.error(`Error billing recurring charges for tenant_unit ${tenantUnit.id}: ${error}`);
+        console.log(`Error billing recurring charges for tenant_unit ${tenantUnit.id}: ${error}`);
+      }
+    }
+
+    const { data: unrequested, error } = await supabase
+      .from("additional_charges")
+      .select("*, tenants(*), units(*, properties(*))")
+      .is("requested_at", null)
+      .lte("due_date", date)
+      .order("due_date", { ascending: true });
+
+    if (error) {
+      logger.error(`Error fetching additional charges to request: ${error.message}`);
+      console.log(`Error fetching additional charges to request: ${error.message}`);
+      throw new Error(`Failed to fetch additional charges: ${error.message}`);
+    }
+
+    const requests = new Map<string, AdditionalChargeRequest>();
+    for (const { tenants, units, ...charge } of (unrequested || []) as (AdditionalCharge & { tenants: Tenant; units: Unit & { properties: Property } })[]) {
+      const request = requests.get(charge.tenant_unit_id) || {
+        tenant: tenants,
+        unit: units,
+        charges: [],
+        total: 0,
+        interacRequestLink: null
+      };
+      request.charges.push(charge);
+      request.total = roundToCents(request.total + Number(charge.amount));
+      requests.set(charge.tenant_unit_id, request);
+    }
+
+    for (const request of requests.values()) {
+      try {
+        request.interacRequestLink = await paymentService.generateInteracRequestLink(
+          request.tenant.email,
+          request.tenant.first_name,
+          request.total,
+          formatLineItems(request.charges.map((charge) => ({
+            description: describeCharge(charge.category, charge.description),
+            amount: Number(charge.amount)
+          })))
+        );
+      } catch (linkError) {
+        logger.error(`Error generating Interac request link for tenant ${request.tenant.id}: ${linkError}`);
+        console.log(`Error generating Interac request link for tenant ${request.tenant.id}: ${linkError}`);
+      }
+      await this.markRequested(request.charges, null, request.interacRequestLink);
+    }
+
+    return Array.from(requests.values());
+  }
+
+  /**
+   * List billed charges with what is still owing on each
+   */
+  async listCharges(filters: { tenantUnitId?: string; tenantId?: string } = {}): Promise<AdditionalChargeWithBalance[]> {
+    let query = supabase
+      .from("additional_charges")
+      .select("*")
+      .order("due_date", { ascending: false });
+
+    if (filters.tenantUnitId) {
+      query = query.eq("tenant_unit_id", filters.tenantUnitId);
+    }
+    if (filters.tenantId) {
+      query = query.eq("tenant_id", filters.tenantId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      logger.error(`Error fetching additional charges: ${error.message}`);
+      console.log(`Error fetching additional charges: ${error.message}`);
+      throw new Error(`Failed to fetch additional charges: ${error.message}`);
+    }
+
+    const charges = (data || []) as AdditionalCharge[];
+    if (charges.length === 0) {
+      return [];
+    }
+
+    const { data: entries, error: entriesError } = await supabase
+      .from("ledger_entries")
+      .select("*")
+      .in("additional_charge_id", charges.map((charge) => charge.id));
+
+    if (entriesError) {
+      logger.error(`Error fetching ledger entries for additional charges: ${entriesError.message}`);
+      console.log(`Error fetching ledger entries for additional charges: ${entriesError.message}`);
+      throw new Error(`Failed to fetch ledger entries: ${entriesError.message}`);
+    }
+
+    const summaries = summarizeAdditionalCharges((entries || []) as LedgerEntry[]);
+    return charges.map((charge) => this.withBalance(charge, summaries));
+  }
+
+  /**
+   * Get a billed charge with what is still owing on it
+   */
+  async getChargeById(id: string): Promise<AdditionalChargeWithBalance | null> {
+    const { data, error } = await supabase
+      .from("additional_charges")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`Error fetching additional charge ${id}: ${error.message}`);
+      console.log(`Error fetching additional charge ${id}: ${error.message}`);
+      throw new Error(`Failed to fetch additional charge: ${error.message}`);
+    }
+    if (!data) {
+      return null;
+    }
+
+    const summaries = summarizeAdditionalCharges(await ledgerService.getEntriesForAdditionalCharge(id));
+    return this.withBalance(data, summaries);
+  }
+
+  /**
+   * Record money received against a billed charge. Returns null if the charge does not exist.
+   */
+  async recordPayment(
+    id: string,
+    paymentData: { amount: number; payment_date?: string; payment_method?: string | null; reference?: string | null }
+  ): Promise<AdditionalChargeWithBalance | null> {
+    const charge = await this.getChargeById(id);
+    if (!charge) {
+      return null;
+    }
+
+    if (paymentData.amount > charge.balance) {
+      throw Object.assign(
+        new Error(`Payment of ${paymentData.amount} is more than the ${charge.balance} still owing on this charge`),
+        { statusCode: 422 }
+      );
+    }
+
+    await ledgerService.recordAdditionalChargePayment(
+      charge,
+      paymentData.amount,
+      paymentData.payment_date,
+      paymentData.payment_method || null,
+      paymentData.reference || null
+    );
+    return this.getChargeById(id);
+  }
+
+  /**
+   * A charge with its summary; a charge missing from the ledger is still owed in full
+   */
+  private withBalance(charge: AdditionalCharge, summaries: AdditionalChargeSummary[]): AdditionalChargeWithBalance {
+    const summary = summaries.find((candidate) => candidate.additionalChargeId === charge.id);
+    return {
+      ...charge,
+      amountPaid: summary ? summary.amountPaid : 0,
+      balance: summary ? summary.balance : Number(charge.amount)
+    };
+  }
+}
+
+// Create and export instance for use in other files
+export const additionalChargeService = new AdditionalChargeService();
@@ -0,0 +1,107 @@
+// Pure calculations for charges billed on top of rent: which periods a
+// recurring charge is billed for, what is owing on each charge and how the
+// charges are itemised for the tenant. Kept free of database access so the
+// schedule can be unit tested.
+import { PeriodDueDate, RentFrequency, RentSchedule } from "./billing.utils";
+
+export type AdditionalChargeCategory = "parking" | "storage" | "utilities" | "locker" | "other";
+
+export const ADDITIONAL_CHARGE_CATEGORIES: AdditionalChargeCategory[] = ["parking", "storage", "utilities", "locker", "other"];
+
+const CATEGORY_LABELS: Record<AdditionalChargeCategory, string> = {
+  parking: "Parking",
+  storage: "Storage",
+  utilities: "Utilities",
+  locker: "Locker",
+  other: "Other charge"
+};
+
+/**
+ * The fields of a recurring_charges row that decide when it is billed
+ */
+export interface RecurringChargeSchedule {
+  frequency: RentFrequency;
+  start_date: string;
+  end_date: string | null;
+}
+
+/**
+ * A line of a rent notice or Interac request
+ */
+export interface LineItem {
+  description: string;
+  amount: number;
+}
+
+/**
+ * What has been paid against a charge billed on top of rent
+ */
+export interface AdditionalChargeSummary {
+  additionalChargeId: string;
+  amount: number;
+  amountPaid: number;
+  balance: number;
+}
+
+type AdditionalChargeLedgerEntry = {
+  entry_type: "charge" | "payment" | "adjustment";
+  debit: number;
+  credit: number;
+  additional_charge_id?: string | null;
+};
+
+const roundToCents = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * The billing schedule of a recurring charge. Monthly charges fall due on the
+ * tenant's rent due day so they are billed with the rent; other frequencies
+ * repeat from the charge's start date.
+ */
+export const getChargeSchedule = (charge: RecurringChargeSchedule, rentDueDay: number): RentSchedule => ({
+  rent_due_day: rentDueDay,
+  rent_frequency: charge.frequency,
+  rent_anchor_date: charge.start_date
+});
+
+/**
+ * Whether a recurring charge is billed for a period: every period that
+ * starts between its start and end dates is billed in full
+ */
+export const isChargeBilledForPeriod = (charge: RecurringChargeSchedule, period: PeriodDueDate): boolean =>
+  period.periodStart >= charge.start_date.split("T")[0] &&
+  (!charge.end_date || period.periodStart <= charge.end_date.split("T")[0]);
+
+/**
+ * How a charge is named to the tenant: its own description, or its category
+ */
+export const describeCharge = (category: string, description?: string | null): string =>
+  description || CATEGORY_LABELS[category as AdditionalChargeCategory] || CATEGORY_LABELS.other;
+
+/**
+ * One summary per additional charge on a ledger
+ */
+export const summarizeAdditionalCharges = (entries: AdditionalChargeLedgerEntry[]): AdditionalChargeSummary[] =>
+  entries
+    .filter((entry) => entry.entry_type === "charge" && entry.additional_charge_id)
+    .map((charge) => {
+      const amount = roundToCents(Number(charge.debit));
+      const amountPaid = roundToCents(entries
+        .filter((entry) => entry.entry_type !== "charge" && entry.additional_charge_id === charge.additional_charge_id)
+        .reduce((total, entry) => total + Number(entry.credit) - Number(entry.debit), 0));
+
+      return {
+        additionalChargeId: charge.additional_charge_id as string,
+        amount,
+        amountPaid,
+        balance: roundToCents(Math.max(0, amount - amountPaid))
+      };
+    });
+
+/**
+ * Line items as one line of text for a WhatsApp template or Interac message,
+ * e.g. "Rent $1500.00, Parking $75.00"
+ */
+export const formatLineItems = (items: LineItem[]): string =>
+  items
+    .map((item) => `${item.description} $${item.amount.toFixed(2)}`)
+    .join(", ");
@@ -0,0 +1,106 @@
+import { logger } from "../utils/logger";
+import { ledgerService, TenantUnitRef } from "./ledger.service";
+import { rentService } from "./rent.service";
+import { allocatePayment, Allocation, AllocationPolicy, ALLOCATION_POLICIES } from "./allocation.utils";
+
+// How lump-sum payments are spread across open charges unless a request asks otherwise
+export const DEFAULT_ALLOCATION_POLICY: AllocationPolicy =
+  ALLOCATION_POLICIES.includes(process.env.PAYMENT_ALLOCATION_POLICY as AllocationPolicy)
+    ? (process.env.PAYMENT_ALLOCATION_POLICY as AllocationPolicy)
+    : "oldest_first";
+
+export interface AllocationRequest {
+  tenantUnitId: string;
+  amount: number;
+  policy?: AllocationPolicy;
+  paymentDate?: string;
+  paymentMethod?: string | null;
+  reference?: string | null;
+}
+
+/**
+ * What a lump-sum payment will do, or did, to a tenant_unit's open charges
+ */
+export interface AllocationReport extends Allocation {
+  tenantUnitId: string;
+  tenantId: string;
+  unitId: string;
+  paymentDate: string;
+  creditBefore: number;
+  creditAfter: number;
+  confirmed: boolean;
+}
+
+export class AllocationService {
+  /**
+   * Work out how a payment would be allocated without recording anything
+   */
+  async previewAllocation(request: AllocationRequest): Promise<AllocationReport | null> {
+    const tenantUnit = await ledgerService.getTenantUnitById(request.tenantUnitId);
+    if (!tenantUnit) {
+      return null;
+    }
+    return this.buildReport(tenantUnit, request);
+  }
+
+  /**
+   * Allocate a payment across the tenant_unit's open charges: record a
+   * payment against each charge it reaches and carry any overpayment forward
+   * as a credit. Returns the allocation report, or null if the tenant_unit
+   * does not exist.
+   */
+  async applyAllocation(request: AllocationRequest): Promise<AllocationReport | null> {
+    const tenantUnit = await ledgerService.getTenantUnitById(request.tenantUnitId);
+    if (!tenantUnit) {
+      return null;
+    }
+
+    const report = await this.buildReport(tenantUnit, request);
+
+    logger.info(`Allocating payment of ${report.amount} for tenant_unit ${tenantUnit.id} (${report.policy})`);
+    console.log(`Allocating payment of ${report.amount} for tenant_unit ${tenantUnit.id} (${report.policy})`);
+
+    for (const line of report.allocations) {
+      await rentService.recordPayment(line.rentPaymentId, {
+        amount: line.applied,
+        payment_date: report.paymentDate,
+        payment_method: request.paymentMethod,
+        reference: request.reference
+      });
+    }
+
+    if (report.credit > 0) {
+      await ledgerService.recordCredit(
+        tenantUnit,
+        report.credit,
+        report.paymentDate,
+        request.paymentMethod || null,
+        request.reference || null
+      );
+    }
+
+    return { ...report, confirmed: true };
+  }
+
+  private async buildReport(tenantUnit: TenantUnitRef, request: AllocationRequest): Promise<AllocationReport> {
+    const policy = request.policy || DEFAULT_ALLOCATION_POLICY;
+    const openCharges = await ledgerService.getOpenChargesForTenantUnit(tenantUnit.id);
+    const creditBefore = await ledgerService.getCreditBalance(tenantUnit.id);
+
+    const allocation = allocatePayment(request.amount, openCharges, policy);
+
+    return {
+      ...allocation,
+      tenantUnitId: tenantUnit.id,
+      tenantId: tenantUnit.tenant_id,
+      unitId: tenantUnit.unit_id,
+      paymentDate: (request.paymentDate || new Date().toISOString()).split("T")[0],
+      creditBefore,
+      creditAfter: Math.round((creditBefore + allocation.credit) * 100) / 100,
+      confirmed: false
+    };
+  }
+}
+
+// Create and export instance for use in other files
+export const allocationService = new AllocationService();
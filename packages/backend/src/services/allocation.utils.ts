@@ -0,0 +1,96 @@
+// Pure calculations for allocating a lump-sum payment across open charges.
+// Kept free of database access so the allocation policies can be unit tested.
+
+/**
+ * Order in which open charges are paid off
+ * - oldest_first: the longest outstanding charge first (default)
+ * - newest_first: the most recent charge first
+ */
+export type AllocationPolicy = "oldest_first" | "newest_first";
+
+export const ALLOCATION_POLICIES: AllocationPolicy[] = ["oldest_first", "newest_first"];
+
+/**
+ * A charge with a balance still owing
+ */
+export interface OpenCharge {
+  rentPaymentId: string;
+  dueDate: string;
+  amount: number;
+  balance: number;
+}
+
+/**
+ * How much of the payment goes to one charge
+ */
+export interface AllocationLine {
+  rentPaymentId: string;
+  dueDate: string;
+  balanceBefore: number;
+  applied: number;
+  balanceAfter: number;
+  status: "paid" | "partial";
+}
+
+export interface Allocation {
+  policy: AllocationPolicy;
+  amount: number;
+  allocations: AllocationLine[];
+  totalApplied: number;
+  credit: number; // Overpayment carried forward
+}
+
+const roundToCents = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Sort open charges into the order the policy pays them off
+ */
+export const orderChargesForPolicy = (charges: OpenCharge[], policy: AllocationPolicy): OpenCharge[] => {
+  const sorted = [...charges].sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+  return policy === "newest_first" ? sorted.reverse() : sorted;
+};
+
+/**
+ * Apply a payment across open charges following the policy. A charge the
+ * money runs out on is partly paid, and anything left over once every charge
+ * is paid becomes a credit.
+ */
+export const allocatePayment = (
+  amount: number,
+  charges: OpenCharge[],
+  policy: AllocationPolicy = "oldest_first"
+): Allocation => {
+  let remaining = roundToCents(amount);
+  const allocations: AllocationLine[] = [];
+
+  for (const charge of orderChargesForPolicy(charges, policy)) {
+    if (remaining <= 0) {
+      break;
+    }
+    const balanceBefore = roundToCents(charge.balance);
+    if (balanceBefore <= 0) {
+      continue;
+    }
+
+    const applied = Math.min(remaining, balanceBefore);
+    const balanceAfter = roundToCents(balanceBefore - applied);
+    remaining = roundToCents(remaining - applied);
+
+    allocations.push({
+      rentPaymentId: charge.rentPaymentId,
+      dueDate: charge.dueDate,
+      balanceBefore,
+      applied,
+      balanceAfter,
+      status: balanceAfter > 0 ? "partial" : "paid"
+    });
+  }
+
+  return {
+    policy,
+    amount: roundToCents(amount),
+    allocations,
+    totalApplied: roundToCents(amount - remaining),
+    credit: remaining
+  };
+};
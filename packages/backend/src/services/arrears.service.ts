@@ -0,0 +1,101 @@
+import { supabase } from "../config/database";
+import { logger } from "../utils/logger";
+import { calculateArrears, ArrearsPaymentRow, ArrearsStatement } from "./arrears.utils";
+import { RentFrequency, RentSchedule } from "./billing.utils";
+import { billingCalendarService } from "./billingCalendar.service";
+import { jointTenancyService } from "./jointTenancy.service";
+
+export interface TenantUnitArrearsStatement extends ArrearsStatement {
+  tenantId: string;
+  unitId: string;
+  tenantUnitId: string | null;
+  rentFrequency: RentFrequency;
+}
+
+export class ArrearsService {
+  /**
+   * Calculate the period-by-period arrears for a tenant in a unit as of a date.
+   * Joint tenants are liable for the whole rent, so a roommate's arrears are
+   * those of the joint lease.
+   */
+  async getArrears(tenantId: string, unitId: string, asOf?: string): Promise<TenantUnitArrearsStatement> {
+    const asOfDate = asOf || billingCalendarService.today();
+    logger.debug(`Calculating arrears for tenant ${tenantId}, unit ${unitId} as of ${asOfDate}`);
+    console.log(`Calculating arrears for tenant ${tenantId}, unit ${unitId} as of ${asOfDate}`);
+
+    const lease = await jointTenancyService.getLeaseTenantUnit(tenantId, unitId);
+    const chargedTenantId = lease ? lease.tenant_id : tenantId;
+
+    const { data, error } = await supabase
+      .from("rent_payments")
+      .select("id, amount, due_date, payment_date, status, amount_paid, billing_period")
+      .eq("tenant_id", chargedTenantId)
+      .eq("unit_id", unitId)
+      .lte("due_date", asOfDate)
+      .order("due_date", { ascending: true });
+
+    if (error) {
+      logger.error(`Error fetching rent payments for arrears: ${error.message}`);
+      console.log(`Error fetching rent payments for arrears: ${error.message}`);
+      throw new Error(`Failed to fetch rent payments for arrears: ${error.message}`);
+    }
+
+    const schedule = await this.getRentSchedule(chargedTenantId, unitId);
+    const rentFrequency = schedule?.rent_frequency || "monthly";
+    const statement = calculateArrears((data || []) as ArrearsPaymentRow[], asOfDate, schedule);
+
+    return {
+      ...statement,
+      tenantId,
+      unitId,
+      tenantUnitId: null,
+      rentFrequency
+    };
+  }
+
+  /**
+   * When the tenant pays rent for the unit, or null if there is no tenant_unit
+   */
+  async getRentSchedule(tenantId: string, unitId: string): Promise<RentSchedule | null> {
+    const { data, error } = await supabase
+      .from("tenant_units")
+      .select("rent_due_day, rent_frequency, rent_anchor_date")
+      .eq("tenant_id", tenantId)
+      .eq("unit_id", unitId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`Error fetching rent schedule for tenant ${tenantId}, unit ${unitId}: ${error.message}`);
+      console.log(`Error fetching rent schedule for tenant ${tenantId}, unit ${unitId}: ${error.message}`);
+      throw new Error(`Failed to fetch rent schedule: ${error.message}`);
+    }
+    return data as RentSchedule | null;
+  }
+
+  /**
+   * Calculate the arrears for a tenant_unit as of a date
+   */
+  async getArrearsForTenantUnit(tenantUnitId: string, asOf?: string): Promise<TenantUnitArrearsStatement | null> {
+    const { data: tenantUnit, error } = await supabase
+      .from("tenant_units")
+      .select("id, tenant_id, unit_id")
+      .eq("id", tenantUnitId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`Error fetching tenant_unit ${tenantUnitId}: ${error.message}`);
+      console.log(`Error fetching tenant_unit ${tenantUnitId}: ${error.message}`);
+      throw new Error(`Failed to fetch tenant_unit: ${error.message}`);
+    }
+
+    if (!tenantUnit) {
+      return null;
+    }
+
+    const statement = await this.getArrears(tenantUnit.tenant_id, tenantUnit.unit_id, asOf);
+    return { ...statement, tenantUnitId: tenantUnit.id };
+  }
+}
+
+// Create and export instance for use in other files
+export const arrearsService = new ArrearsService();
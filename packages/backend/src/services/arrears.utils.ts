@@ -0,0 +1,134 @@
+// Pure calculations for the arrears engine. Kept free of database access so the
+// rent owing tables on the N4/L1 can be unit tested.
+import { addDays } from "../utils/date";
+import { getNextPeriodStart, getUnshiftedDueDate, RentSchedule } from "./billing.utils";
+
+/**
+ * The fields of a rent_payments row the arrears engine needs
+ */
+export interface ArrearsPaymentRow {
+  id: string;
+  amount: number;
+  due_date: string;
+  payment_date: string | null;
+  status: "pending" | "paid" | "late" | "partial";
+  amount_paid?: number | null;
+  billing_period?: string | null;
+}
+
+/**
+ * One rental period in the rent owing table
+ */
+export interface ArrearsPeriod {
+  paymentId: string;
+  periodStart: string;
+  periodEnd: string;
+  rentCharged: number;
+  rentPaid: number;
+  rentOwing: number;
+  balance: number; // Running balance owing up to and including this period
+}
+
+export interface ArrearsStatement {
+  asOf: string;
+  periods: ArrearsPeriod[];
+  totalCharged: number;
+  totalPaid: number;
+  totalOwing: number;
+}
+
+const roundToCents = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Amount of a charge that had been paid as of the given date
+ */
+export const getAmountPaid = (payment: ArrearsPaymentRow, asOf: string): number => {
+  // A payment received after the as-of date had not been paid yet at that point
+  if (payment.payment_date && payment.payment_date.split("T")[0] > asOf) {
+    return 0;
+  }
+
+  if (payment.status === "paid") {
+    return Number(payment.amount);
+  }
+
+  // Partial (and any other) rows count whatever has been recorded as received
+  return Math.min(Number(payment.amount_paid || 0), Number(payment.amount));
+};
+
+/**
+ * Amount still owing on a charge after everything recorded against it
+ */
+export const getRemainingBalance = (payment: Pick<ArrearsPaymentRow, "amount" | "status" | "amount_paid">): number => {
+  if (payment.status === "paid") {
+    return 0;
+  }
+  return roundToCents(Math.max(0, Number(payment.amount) - Number(payment.amount_paid || 0)));
+};
+
+/**
+ * Where the rental period a charge pays for starts. A due date moved off a
+ * weekend or holiday doesn't move the period, so it comes from the charge's
+ * billing period; charges without one start on their due date.
+ */
+export const getChargePeriodStart = (payment: Pick<ArrearsPaymentRow, "due_date" | "billing_period">, schedule?: RentSchedule | null): string =>
+  payment.billing_period && schedule
+    ? getUnshiftedDueDate(payment.billing_period, schedule)
+    : payment.due_date.split("T")[0];
+
+/**
+ * Build the period-by-period rent owing table for one tenant_unit.
+ * Each rent_payments row is one rental period, running from its unshifted
+ * due date to the day before the next period starts. The last period runs for
+ * one week, two weeks, a month or a quarter depending on the rent frequency.
+ * Only periods due on or before the as-of date are included.
+ */
+export const calculateArrears = (
+  payments: ArrearsPaymentRow[],
+  asOf: string,
+  schedule: RentSchedule | null = null
+): ArrearsStatement => {
+  const frequency = schedule?.rent_frequency || "monthly";
+  const duePayments = payments
+    .filter((payment) => payment.due_date.split("T")[0] <= asOf)
+    .sort((a, b) => a.due_date.localeCompare(b.due_date));
+
+  const periods: ArrearsPeriod[] = [];
+  let balance = 0;
+  let totalCharged = 0;
+  let totalPaid = 0;
+
+  duePayments.forEach((payment, index) => {
+    const periodStart = getChargePeriodStart(payment, schedule);
+    const nextPayment = duePayments[index + 1];
+    const periodEnd = nextPayment
+      ? addDays(getChargePeriodStart(nextPayment, schedule), -1)
+      : addDays(getNextPeriodStart(periodStart, frequency), -1);
+
+    const rentCharged = roundToCents(Number(payment.amount));
+    const rentPaid = roundToCents(getAmountPaid(payment, asOf));
+    const rentOwing = roundToCents(rentCharged - rentPaid);
+
+    balance = roundToCents(balance + rentOwing);
+    totalCharged = roundToCents(totalCharged + rentCharged);
+    totalPaid = roundToCents(totalPaid + rentPaid);
+
+    periods.push({
+      paymentId: payment.id,
+      periodStart,
+      periodEnd,
+      rentCharged,
+      rentPaid,
+      rentOwing,
+      balance
+    });
+  });
+
+  return {
+    asOf,
+    periods,
+    totalCharged,
+    totalPaid,
+    totalOwing: balance
+  };
+};
@@ -0,0 +1,256 @@
+// Billing periods and the billing calendar for rent charges. Kept free of
+// database access so the period keys and due date rules can be unit tested.
+
+import { addDays, addMonths, isWeekend, parseDate } from "../utils/date";
+
+/**
+ * How often rent is charged
+ * - weekly / biweekly: every 7 or 14 days from the anchor date
+ * - monthly: on rent_due_day every month (default)
+ * - quarterly: every 3 months from the anchor date
+ */
+export type RentFrequency = "weekly" | "biweekly" | "monthly" | "quarterly";
+
+export const RENT_FREQUENCIES: RentFrequency[] = ["weekly", "biweekly", "monthly", "quarterly"];
+
+/**
+ * The tenant_units fields that decide when rent is due
+ */
+export interface RentSchedule {
+  rent_due_day: number;
+  rent_frequency?: RentFrequency | null;
+  rent_anchor_date?: string | null; // First due date, required for anything but monthly rent
+}
+
+/**
+ * Key of the billing period a due date falls in, e.g. 2026-10 for rent due
+ * 2026-10-01. Each tenant_unit has at most one rent charge per period.
+ */
+export const getBillingPeriod = (dueDate: string): string => dueDate.split("T")[0].slice(0, 7);
+
+/**
+ * How a due date that lands on a weekend or statutory holiday is moved
+ * - none: the tenant's rent_due_day is used as is (default)
+ * - next_business_day: rent is due the following business day
+ * - previous_business_day: rent is due the business day before
+ */
+export type DueDateShift = "none" | "next_business_day" | "previous_business_day";
+
+export const DUE_DATE_SHIFTS: DueDateShift[] = ["none", "next_business_day", "previous_business_day"];
+
+/**
+ * The due date of a billing period together with the period it belongs to.
+ * A shifted due date can cross into the neighbouring month, so the period is
+ * kept alongside rather than derived from the date. The period is the stretch
+ * of the tenancy the rent pays for: the calendar month for monthly rent,
+ * otherwise from the unshifted due date to the day before the next one.
+ */
+export interface PeriodDueDate {
+  billingPeriod: string;
+  dueDate: string;
+  periodStart: string;
+  periodEnd: string;
+}
+
+const MS_PER_DAY = 1000 * 3600 * 24;
+
+const toDateString = (year: number, month: number, day: number): string =>
+  `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+
+export const getDaysInMonth = (year: number, month: number): number =>
+  new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+/**
+ * The nth given weekday (0 = Sunday) of a month, e.g. the 3rd Monday of February
+ */
+const nthWeekdayOfMonth = (year: number, month: number, weekday: number, n: number): string => {
+  const firstWeekday = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+  const day = 1 + ((weekday - firstWeekday + 7) % 7) + (n - 1) * 7;
+  return toDateString(year, month, day);
+};
+
+/**
+ * Easter Sunday (Gregorian calendar, anonymous algorithm)
+ */
+const getEasterSunday = (year: number): string => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return toDateString(year, month, day);
+};
+
+/**
+ * Ontario's public holidays under the Employment Standards Act, 2000.
+ * Dates are the holidays themselves, not substitute days off.
+ */
+export const getOntarioStatutoryHolidays = (year: number): string[] => {
+  // Victoria Day is the Monday before May 25
+  const may24Weekday = new Date(Date.UTC(year, 4, 24)).getUTCDay();
+  const victoriaDay = toDateString(year, 5, 24 - ((may24Weekday + 6) % 7));
+
+  return [
+    toDateString(year, 1, 1), // New Year's Day
+    nthWeekdayOfMonth(year, 2, 1, 3), // Family Day
+    addDays(getEasterSunday(year), -2), // Good Friday
+    victoriaDay,
+    toDateString(year, 7, 1), // Canada Day
+    nthWeekdayOfMonth(year, 9, 1, 1), // Labour Day
+    nthWeekdayOfMonth(year, 10, 1, 2), // Thanksgiving Day
+    toDateString(year, 12, 25), // Christmas Day
+    toDateString(year, 12, 26) // Boxing Day
+  ].sort();
+};
+
+export const isBusinessDay = (date: string): boolean => {
+  const day = date.split("T")[0];
+  return !isWeekend(day) && !getOntarioStatutoryHolidays(Number(day.slice(0, 4))).includes(day);
+};
+
+/**
+ * Move a due date off weekends and statutory holidays
+ */
+export const shiftDueDate = (date: string, shift: DueDateShift): string => {
+  let result = date.split("T")[0];
+  if (shift === "none") {
+    return result;
+  }
+  const step = shift === "next_business_day" ? 1 : -1;
+  while (!isBusinessDay(result)) {
+    result = addDays(result, step);
+  }
+  return result;
+};
+
+/**
+ * Due date for a billing period. A rent_due_day past the end of a short month
+ * is clamped to the month's last day (31 becomes Feb 28), never rolled into
+ * the next month.
+ */
+export const getDueDateForPeriod = (
+  year: number,
+  month: number,
+  dueDay: number,
+  shift: DueDateShift = "none"
+): PeriodDueDate => {
+  const daysInMonth = getDaysInMonth(year, month);
+  const day = Math.min(Math.max(1, Math.floor(dueDay)), daysInMonth);
+  return {
+    billingPeriod: toDateString(year, month, 1).slice(0, 7),
+    dueDate: shiftDueDate(toDateString(year, month, day), shift),
+    periodStart: toDateString(year, month, 1),
+    periodEnd: toDateString(year, month, daysInMonth)
+  };
+};
+
+/**
+ * Due date of a billing period before it is moved off a weekend or holiday,
+ * which is where the rental period starts. Weekly and bi-weekly periods are
+ * keyed by that date; monthly and quarterly ones fall on the rent_due_day or
+ * the anchor date's day, clamped to the month's length.
+ */
+export const getUnshiftedDueDate = (billingPeriod: string, schedule: RentSchedule): string => {
+  if (billingPeriod.length > 7) {
+    return billingPeriod.slice(0, 10);
+  }
+  const [year, month] = billingPeriod.split("-").map(Number);
+  const anchor = schedule.rent_anchor_date?.split("T")[0];
+  const dueDay = (schedule.rent_frequency || "monthly") !== "monthly" && anchor
+    ? Number(anchor.slice(8, 10))
+    : Number(schedule.rent_due_day);
+  return getDueDateForPeriod(year, month, dueDay).dueDate;
+};
+
+/**
+ * Due date for the billing period that contains the given day
+ */
+export const getDueDateForMonthOf = (date: string, dueDay: number, shift: DueDateShift = "none"): PeriodDueDate => {
+  const [year, month] = date.split("T")[0].split("-").map(Number);
+  return getDueDateForPeriod(year, month, dueDay, shift);
+};
+
+/**
+ * Whole days a charge is past its due date, never negative. With a shift the
+ * due date is first moved off weekends and holidays, so rent due on a Sunday
+ * paid on the Monday is not late.
+ */
+export const getDaysLate = (dueDate: string, today: string, shift: DueDateShift = "none"): number => {
+  const effectiveDueDate = shiftDueDate(dueDate, shift);
+  const days = Math.round((parseDate(today).getTime() - parseDate(effectiveDueDate).getTime()) / MS_PER_DAY);
+  return Math.max(0, days);
+};
+
+/**
+ * Start of the rental period after the one starting on the given date
+ */
+export const getNextPeriodStart = (periodStart: string, frequency: RentFrequency = "monthly"): string => {
+  switch (frequency) {
+    case "weekly":
+      return addDays(periodStart, 7);
+    case "biweekly":
+      return addDays(periodStart, 14);
+    case "quarterly":
+      return addMonths(periodStart, 3);
+    default:
+      return addMonths(periodStart, 1);
+  }
+};
+
+/**
+ * Due date of the rental period that contains the given day, following the
+ * tenant_unit's frequency. Weekly and bi-weekly periods are keyed by their
+ * start date (2026-10-19) and quarterly periods by their first month
+ * (2026-10), as monthly periods are. Returns null when the schedule has not
+ * started yet or has no anchor date.
+ */
+export const getRentPeriodFor = (
+  date: string,
+  schedule: RentSchedule,
+  shift: DueDateShift = "none"
+): PeriodDueDate | null => {
+  const day = date.split("T")[0];
+  const frequency = schedule.rent_frequency || "monthly";
+
+  if (frequency === "monthly") {
+    return getDueDateForMonthOf(day, Number(schedule.rent_due_day), shift);
+  }
+
+  const anchor = schedule.rent_anchor_date?.split("T")[0];
+  if (!anchor || day < anchor) {
+    return null;
+  }
+
+  if (frequency === "quarterly") {
+    const [year, month] = day.split("-").map(Number);
+    const [anchorYear, anchorMonth] = anchor.split("-").map(Number);
+    const monthsSinceAnchor = (year - anchorYear) * 12 + (month - anchorMonth);
+    const quarterStart = monthsSinceAnchor - (monthsSinceAnchor % 3);
+    const periodStart = addMonths(anchor, quarterStart);
+    return {
+      billingPeriod: periodStart.slice(0, 7),
+      dueDate: shiftDueDate(periodStart, shift),
+      periodStart,
+      periodEnd: addDays(addMonths(anchor, quarterStart + 3), -1)
+    };
+  }
+
+  const periodDays = frequency === "weekly" ? 7 : 14;
+  const daysSinceAnchor = Math.round((parseDate(day).getTime() - parseDate(anchor).getTime()) / MS_PER_DAY);
+  const periodStart = addDays(anchor, daysSinceAnchor - (daysSinceAnchor % periodDays));
+  return {
+    billingPeriod: periodStart,
+    dueDate: shiftDueDate(periodStart, shift),
+    periodStart,
+    periodEnd: addDays(periodStart, periodDays - 1)
+  };
+};
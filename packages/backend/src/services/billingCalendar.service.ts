@@ -0,0 +1,50 @@
+import { formatDate } from "../utils/date";
+import {
+  DueDateShift,
+  DUE_DATE_SHIFTS,
+  PeriodDueDate,
+  RentSchedule,
+  getRentPeriodFor,
+  getDaysLate
+} from "./billing.utils";
+
+// Whether due dates move off weekends and Ontario statutory holidays
+export const DEFAULT_DUE_DATE_SHIFT: DueDateShift =
+  DUE_DATE_SHIFTS.includes(process.env.RENT_DUE_DATE_SHIFT as DueDateShift)
+    ? (process.env.RENT_DUE_DATE_SHIFT as DueDateShift)
+    : "none";
+
+/**
+ * Single place the cron jobs and rent generation get due dates and days late
+ * from, so month-end clamping and holiday shifting are applied the same way
+ * everywhere.
+ */
+export class BillingCalendarService {
+  constructor(private readonly shift: DueDateShift = DEFAULT_DUE_DATE_SHIFT) {}
+
+  /**
+   * Today's date (YYYY-MM-DD)
+   */
+  today(): string {
+    return formatDate(new Date());
+  }
+
+  /**
+   * Due date of a tenant_unit's rent for the current period (this month for
+   * monthly rent, this week for weekly rent), or null if its schedule has not
+   * started
+   */
+  getCurrentPeriod(schedule: RentSchedule, today: string = this.today()): PeriodDueDate | null {
+    return getRentPeriodFor(today, schedule, this.shift);
+  }
+
+  /**
+   * Whole days a charge is past its due date
+   */
+  getDaysLate(dueDate: string, today: string = this.today()): number {
+    return getDaysLate(dueDate, today, this.shift);
+  }
+}
+
+// Create and export instance for use in other files
+export const billingCalendarService = new BillingCalendarService();
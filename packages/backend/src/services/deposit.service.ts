@@ -0,0 +1,474 @@
+import { supabase, Deposit, DepositInterestPayment, DepositInterestStatus, RentPayment } from "../config/database";
+import { logger } from "../utils/logger";
+import { getJurisdictionForProvince, LastMonthRentDepositRules } from "../jurisdictions";
+import { ledgerService } from "./ledger.service";
+import { getRentInForce, RentChange } from "./rentHistory.utils";
+import {
+  calculateDepositInterest,
+  getTenancyAnniversaries,
+  splitDepositInterest,
+  DepositInterestMethod,
+  DEPOSIT_PAYMENT_METHOD
+} from "./deposit.utils";
+
+type DepositTenantUnit = {
+  id: string;
+  tenant_id: string;
+  unit_id: string;
+  rent_amount: number;
+  lease_start: string | null;
+  lease_end: string | null;
+  created_at: string;
+  units: { properties: { province: string } | null } | null;
+  rent_history: RentChange[] | null;
+};
+
+/**
+ * A pending interest payment with what each way of paying it would come to
+ */
+export interface DepositInterestWithOptions extends DepositInterestPayment {
+  options: Record<DepositInterestMethod, { topUp: number; credit: number }> | null;
+}
+
+export interface DepositWithInterest extends Deposit {
+  deposit_interest: DepositInterestWithOptions[];
+}
+
+export interface DepositFilters {
+  tenantId?: string;
+  tenantUnitId?: string;
+}
+
+const TENANT_UNIT_FIELDS = "id, tenant_id, unit_id, rent_amount, lease_start, lease_end, created_at, units(properties(province)), rent_history(amount, effective_date)";
+
+const today = (): string => new Date().toISOString().split("T")[0];
+
+export class DepositService {
+  /**
+   * Get a tenant_unit with what the deposit rules need
+   */
+  private async getTenantUnit(tenantUnitId: string): Promise<DepositTenantUnit | null> {
+    const { data, error } = await supabase
+      .from("tenant_units")
+      .select(TENANT_UNIT_FIELDS)
+      .eq("id", tenantUnitId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`Error fetching tenant_unit ${tenantUnitId}: ${error.message}`);
+      console.log(`Error fetching tenant_unit ${tenantUnitId}: ${error.message}`);
+      throw new Error(`Failed to fetch tenant_unit: ${error.message}`);
+    }
+    return data as DepositTenantUnit | null;
+  }
+
+  /**
+   * The deposit rules of the tenant_unit's province
+   */
+  private getRules(tenantUnit: DepositTenantUnit): LastMonthRentDepositRules {
+    const province = tenantUnit.units?.properties?.province;
+    const rules = getJurisdictionForProvince(province)?.lastMonthRentDeposit;
+    if (!rules) {
+      throw Object.assign(
+        new Error(`Last month's rent deposits are not supported for properties in ${province || "an unknown province"}`),
+        { statusCode: 422 }
+      );
+    }
+    return rules;
+  }
+
+  /**
+   * The rent in force on a date, from the rent history if there is one
+   */
+  private getRent(tenantUnit: DepositTenantUnit, date: string): number {
+    return getRentInForce(tenantUnit.rent_history || [], date) ?? Number(tenantUnit.rent_amount);
+  }
+
+  /**
+   * List deposits, most recently received first
+   */
+  async listDeposits(filters: DepositFilters = {}): Promise<Deposit[]> {
+    let query = supabase
+      .from("deposits")
+      .select("*")
+      .order("received_date", { ascending: false });
+
+    if (filters.tenantId) {
+      query = query.eq("tenant_id", filters.tenantId);
+    }
+    if (filters.tenantUnitId) {
+      query = query.eq("tenant_unit_id", filters.tenantUnitId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      logger.error(`Error fetching deposits: ${error.message}`);
+      console.log(`Error fetching deposits: ${error.message}`);
+      throw new Error(`Failed to fetch deposits: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  /**
+   * Get a deposit with its interest by anniversary. Pending interest comes
+   * with the top-up and credit each way of paying it would give.
+   */
+  async getDepositById(id: string): Promise<DepositWithInterest | null> {
+    const { data, error } = await supabase
+      .from("deposits")
+      .select("*, deposit_interest(*)")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`Error fetching deposit ${id}: ${error.message}`);
+      console.log(`Error fetching deposit ${id}: ${error.message}`);
+      throw new Error(`Failed to fetch deposit: ${error.message}`);
+    }
+    if (!data) {
+      return null;
+    }
+
+    const interest = ((data.deposit_interest || []) as DepositInterestPayment[])
+      .sort((a, b) => a.anniversary_date.localeCompare(b.anniversary_date));
+    const hasPending = interest.some((payment) => payment.status === "pending");
+    const tenantUnit = hasPending ? await this.getTenantUnit(data.tenant_unit_id) : null;
+    const rules = tenantUnit ? this.getRules(tenantUnit) : null;
+    const currentRent = tenantUnit ? this.getRent(tenantUnit, today()) : 0;
+
+    return {
+      ...data,
+      deposit_interest: interest.map((payment) => ({
+        ...payment,
+        options: payment.status === "pending" && rules
+          ? {
+            top_up: splitDepositInterest(rules, Number(payment.amount), Number(data.amount), currentRent, "top_up"),
+            credit: splitDepositInterest(rules, Number(payment.amount), Number(data.amount), currentRent, "credit")
+          }
+          : null
+      }))
+    };
+  }
+
+  /**
+   * The deposit still held for a tenant_unit, if any
+   */
+  async getHeldDeposit(tenantUnitId: string): Promise<Deposit | null> {
+    const { data, error } = await supabase
+      .from("deposits")
+      .select("*")
+      .eq("tenant_unit_id", tenantUnitId)
+      .eq("status", "held")
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`Error fetching deposit for tenant_unit ${tenantUnitId}: ${error.message}`);
+      console.log(`Error fetching deposit for tenant_unit ${tenantUnitId}: ${error.message}`);
+      throw new Error(`Failed to fetch deposit: ${error.message}`);
+    }
+    return data;
+  }
+
+  /**
+   * Record a last month's rent deposit received for a tenant_unit. The
+   * deposit can be no more than one period's rent. Returns null if the
+   * tenant_unit does not exist.
+   */
+  async recordDeposit(tenantUnitId: string, amount: number, receivedDate: string = today()): Promise<Deposit | null> {
+    const tenantUnit = await this.getTenantUnit(tenantUnitId);
+    if (!tenantUnit) {
+      return null;
+    }
+
+    this.getRules(tenantUnit);
+    const rent = this.getRent(tenantUnit, receivedDate);
+    if (amount > rent) {
+      throw Object.assign(
+        new Error(`A deposit of ${amount} is more than one period's rent of ${rent}`),
+        { statusCode: 422 }
+      );
+    }
+
+    logger.info(`Recording deposit of ${amount} for tenant_unit ${tenantUnitId}`);
+    console.log(`Recording deposit of ${amount} for tenant_unit ${tenantUnitId}`);
+
+    const { data, error } = await supabase
+      .from("deposits")
+      .insert([{
+        tenant_unit_id: tenantUnit.id,
+        tenant_id: tenantUnit.tenant_id,
+        unit_id: tenantUnit.unit_id,
+        amount,
+        received_date: receivedDate,
+        status: "held"
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      logger.error(`Error recording deposit for tenant_unit ${tenantUnitId}: ${error.message}`);
+      console.log(`Error recording deposit for tenant_unit ${tenantUnitId}: ${error.message}`);
+      throw new Error(`Failed to record deposit: ${error.message}`);
+    }
+    return data;
+  }
+
+  /**
+   * Work out the interest owed on every held deposit for tenancy anniversaries
+   * up to asOf. Each anniversary is recorded once as pending, for the
+   * landlord to pay as a top-up or a credit. Anniversaries in years without a
+   * published rate are left until the rate is known. Returns the interest
+   * recorded.
+   */
+  async calculateInterestDue(asOf: string = today()): Promise<DepositInterestPayment[]> {
+    const { data: deposits, error } = await supabase
+      .from("deposits")
+      .select(`*, tenant_units(${TENANT_UNIT_FIELDS})`)
+      .eq("status", "held");
+
+    if (error) {
+      logger.error(`Error fetching held deposits: ${error.message}`);
+      console.log(`Error fetching held deposits: ${error.message}`);
+      throw new Error(`Failed to fetch held deposits: ${error.message}`);
+    }
+
+    const recorded: DepositInterestPayment[] = [];
+
+    for (const deposit of (deposits || []) as (Deposit & { tenant_units: DepositTenantUnit | null })[]) {
+      try {
+        const tenantUnit = deposit.tenant_units;
+        if (!tenantUnit) {
+          continue;
+        }
+        const rules = this.getRules(tenantUnit);
+        const tenancyStart = tenantUnit.lease_start || tenantUnit.created_at;
+
+        let calculatedThrough = deposit.interest_calculated_through;
+        for (const anniversary of getTenancyAnniversaries(tenancyStart, calculatedThrough, asOf)) {
+          const interest = calculateDepositInterest(rules, Number(deposit.amount), deposit.received_date, anniversary);
+          if (!interest) {
+            logger.warn(`No deposit interest rate for ${anniversary.slice(0, 4)}, deposit ${deposit.id} left until it is published`);
+            console.log(`No deposit interest rate for ${anniversary.slice(0, 4)}, deposit ${deposit.id} left until it is published`);
+            break;
+          }
+
+          if (interest.amount > 0) {
+            const { data: created, error: insertError } = await supabase
+              .from("deposit_interest")
+              .upsert([{
+                deposit_id: deposit.id,
+                tenant_unit_id: deposit.tenant_unit_id,
+                anniversary_date: interest.anniversaryDate,
+                period_start: interest.periodStart,
+                deposit_amount: interest.depositAmount,
+                interest_rate: interest.interestRate,
+                amount: interest.amount,
+                status: "pending"
+              }], { onConflict: "deposit_id,anniversary_date", ignoreDuplicates: true })
+              .select();
+
+            if (insertError) {
+              throw new Error(`Failed to record deposit interest: ${insertError.message}`);
+            }
+            recorded.push(...(created || []));
+          }
+          calculatedThrough = anniversary;
+        }
+
+        if (calculatedThrough !== deposit.interest_calculated_through) {
+          const { error: updateError } = await supabase
+            .from("deposits")
+            .update({ interest_calculated_through: calculatedThrough })
+            .eq("id", deposit.id);
+
+          if (updateError) {
+            throw new Error(`Failed to update deposit: ${updateError.message}`);
+          }
+        }
+      } catch (depositError) {
+        logger.error(`Error calculating interest for deposit ${deposit.id}: ${depositError}`);
+        console.log(`Error calculating interest for deposit ${deposit.id}: ${depositError}`);
+      }
+    }
+
+    logger.info(`Recorded interest on ${recorded.length} deposit anniversaries`);
+    console.log(`Recorded interest on ${recorded.length} deposit anniversaries`);
+    return recorded;
+  }
+
+  /**
+   * List deposit interest, oldest anniversary first
+   */
+  async listInterest(status?: DepositInterestStatus): Promise<DepositInterestPayment[]> {
+    let query = supabase
+      .from("deposit_interest")
+      .select("*")
+      .order("anniversary_date", { ascending: true });
+
+    if (status) {
+      query = query.eq("status", status);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      logger.error(`Error fetching deposit interest: ${error.message}`);
+      console.log(`Error fetching deposit interest: ${error.message}`);
+      throw new Error(`Failed to fetch deposit interest: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  /**
+   * Pay pending interest as a top-up of the deposit or a credit on the tenant
+   * ledger. A top-up only goes as far as the current rent; the rest is
+   * credited. Returns null if the interest does not exist.
+   */
+  async applyInterest(interestId: string, method: DepositInterestMethod): Promise<DepositInterestPayment | null> {
+    const { data: interest, error } = await supabase
+      .from("deposit_interest")
+      .select("*, deposits(*)")
+      .eq("id", interestId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`Error fetching deposit interest ${interestId}: ${error.message}`);
+      console.log(`Error fetching deposit interest ${interestId}: ${error.message}`);
+      throw new Error(`Failed to fetch deposit interest: ${error.message}`);
+    }
+    if (!interest) {
+      return null;
+    }
+    if (interest.status !== "pending") {
+      throw Object.assign(new Error(`Deposit interest has already been ${interest.status.replace("_", " ")}`), { statusCode: 409 });
+    }
+
+    const deposit: Deposit = interest.deposits;
+    const tenantUnit = await this.getTenantUnit(deposit.tenant_unit_id);
+    if (!tenantUnit) {
+      throw Object.assign(new Error(`Tenant unit ${deposit.tenant_unit_id} not found`), { statusCode: 404 });
+    }
+
+    const appliedDate = today();
+    const { topUp, credit } = splitDepositInterest(
+      this.getRules(tenantUnit),
+      Number(interest.amount),
+      Number(deposit.amount),
+      this.getRent(tenantUnit, appliedDate),
+      method
+    );
+
+    logger.info(`Paying deposit interest ${interestId}: ${topUp} top-up, ${credit} credit`);
+    console.log(`Paying deposit interest ${interestId}: ${topUp} top-up, ${credit} credit`);
+
+    if (topUp > 0) {
+      const { error: depositError } = await supabase
+        .from("deposits")
+        .update({ amount: Math.round((Number(deposit.amount) + topUp) * 100) / 100 })
+        .eq("id", deposit.id);
+
+      if (depositError) {
+        logger.error(`Error topping up deposit ${deposit.id}: ${depositError.message}`);
+        console.log(`Error topping up deposit ${deposit.id}: ${depositError.message}`);
+        throw new Error(`Failed to top up deposit: ${depositError.message}`);
+      }
+    }
+
+    if (credit > 0) {
+      await ledgerService.recordCredit(
+        tenantUnit,
+        credit,
+        appliedDate,
+        null,
+        deposit.id,
+        `Interest on last month's rent deposit to ${interest.anniversary_date}`
+      );
+    }
+
+    const { data: updated, error: updateError } = await supabase
+      .from("deposit_interest")
+      .update({
+        status: topUp > 0 ? "topped_up" : "credited",
+        top_up_amount: topUp,
+        credit_amount: credit,
+        applied_date: appliedDate
+      })
+      .eq("id", interestId)
+      .select()
+      .single();
+
+    if (updateError) {
+      logger.error(`Error updating deposit interest ${interestId}: ${updateError.message}`);
+      console.log(`Error updating deposit interest ${interestId}: ${updateError.message}`);
+      throw new Error(`Failed to update deposit interest: ${updateError.message}`);
+    }
+    return updated;
+  }
+
+  /**
+   * The rent charge for the last period of the tenancy, or null if the lease
+   * has no end date or that period has not been charged yet
+   */
+  async getFinalRentCharge(tenantUnitId: string): Promise<RentPayment | null> {
+    const tenantUnit = await this.getTenantUnit(tenantUnitId);
+    if (!tenantUnit || !tenantUnit.lease_end) {
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from("rent_payments")
+      .select("*")
+      .eq("tenant_unit_id", tenantUnitId)
+      .lte("due_date", tenantUnit.lease_end.split("T")[0])
+      .order("due_date", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`Error fetching final rent charge for tenant_unit ${tenantUnitId}: ${error.message}`);
+      console.log(`Error fetching final rent charge for tenant_unit ${tenantUnitId}: ${error.message}`);
+      throw new Error(`Failed to fetch final rent charge: ${error.message}`);
+    }
+    return data;
+  }
+
+  /**
+   * Credit the whole deposit to the tenant ledger when the tenancy ends
+   * without a final rent charge for it to pay
+   */
+  async releaseToCredit(deposit: Deposit, releaseDate: string = today()): Promise<Deposit> {
+    const tenantUnit = { id: deposit.tenant_unit_id, tenant_id: deposit.tenant_id, unit_id: deposit.unit_id };
+    await ledgerService.recordCredit(
+      tenantUnit,
+      Number(deposit.amount),
+      releaseDate,
+      DEPOSIT_PAYMENT_METHOD,
+      deposit.id,
+      "Last month's rent deposit returned on move-out"
+    );
+    return this.markApplied(deposit, null);
+  }
+
+  /**
+   * Mark a deposit as used, for the final rent charge if there was one
+   */
+  async markApplied(deposit: Deposit, rentPaymentId: string | null): Promise<Deposit> {
+    const { data, error } = await supabase
+      .from("deposits")
+      .update({ status: "applied", applied_date: today(), rent_payment_id: rentPaymentId })
+      .eq("id", deposit.id)
+      .select()
+      .single();
+
+    if (error) {
+      logger.error(`Error updating deposit ${deposit.id}: ${error.message}`);
+      console.log(`Error updating deposit ${deposit.id}: ${error.message}`);
+      throw new Error(`Failed to update deposit: ${error.message}`);
+    }
+    return data;
+  }
+}
+
+// Create and export instance for use in other files
+export const depositService = new DepositService();
@@ -0,0 +1,107 @@
+// Pure calculations for last month's rent deposits: tenancy anniversaries,
+// the interest owed on each and how it is paid. Kept free of database access
+// so the interest rules can be unit tested.
+import { addMonths, parseDate } from "../utils/date";
+import { LastMonthRentDepositRules } from "../jurisdictions";
+
+export type DepositInterestMethod = "top_up" | "credit";
+
+// Payment method of the ledger payment made from the deposit
+export const DEPOSIT_PAYMENT_METHOD = "deposit";
+
+const roundToCents = (value: number): number => Math.round(value * 100) / 100;
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round((parseDate(to).getTime() - parseDate(from).getTime()) / 86400000);
+
+/**
+ * Anniversaries of a tenancy after a date, up to and including asOf
+ */
+export const getTenancyAnniversaries = (tenancyStart: string, after: string | null, asOf: string): string[] => {
+  const start = tenancyStart.split("T")[0];
+  const anniversaries: string[] = [];
+  for (let years = 1; ; years++) {
+    const anniversary = addMonths(start, years * 12);
+    if (anniversary > asOf) {
+      break;
+    }
+    if (!after || anniversary > after) {
+      anniversaries.push(anniversary);
+    }
+  }
+  return anniversaries;
+};
+
+/**
+ * Interest owed on a deposit on one tenancy anniversary
+ */
+export interface DepositInterest {
+  anniversaryDate: string;
+  periodStart: string; // The previous anniversary, or when the deposit was received if later
+  depositAmount: number;
+  interestRate: number;
+  amount: number;
+}
+
+/**
+ * The interest owed on a deposit on an anniversary, at the rate for the
+ * anniversary's year. A deposit received part way through the year earns
+ * interest for the days it was held. Null when no rate has been published
+ * for that year yet.
+ */
+export const calculateDepositInterest = (
+  rules: LastMonthRentDepositRules,
+  depositAmount: number,
+  receivedDate: string,
+  anniversaryDate: string
+): DepositInterest | null => {
+  const interestRate = rules.interestRates[Number(anniversaryDate.slice(0, 4))];
+  if (interestRate === undefined) {
+    return null;
+  }
+
+  const yearStart = addMonths(anniversaryDate, -12);
+  const received = receivedDate.split("T")[0];
+  const periodStart = received > yearStart ? received : yearStart;
+  const heldFor = Math.max(0, daysBetween(periodStart, anniversaryDate)) / daysBetween(yearStart, anniversaryDate);
+
+  return {
+    anniversaryDate,
+    periodStart,
+    depositAmount,
+    interestRate,
+    amount: roundToCents(depositAmount * (interestRate / 100) * heldFor)
+  };
+};
+
+/**
+ * How interest is paid. A top-up keeps the interest in the deposit, but only
+ * as far as it takes the deposit to the current rent; the rest is credited
+ * to the tenant.
+ */
+export const splitDepositInterest = (
+  rules: LastMonthRentDepositRules,
+  interest: number,
+  depositAmount: number,
+  currentRent: number,
+  method: DepositInterestMethod
+): { topUp: number; credit: number } => {
+  const topUp = method === "top_up" && rules.topUpAllowed
+    ? roundToCents(Math.min(interest, Math.max(0, currentRent - depositAmount)))
+    : 0;
+  return { topUp, credit: roundToCents(interest - topUp) };
+};
+
+/**
+ * Whether a period is the last of the lease, the one the deposit pays
+ */
+export const isFinalRentPeriod = (
+  leaseEnd: string | null | undefined,
+  period: { periodStart: string; periodEnd: string }
+): boolean => {
+  if (!leaseEnd) {
+    return false;
+  }
+  const end = leaseEnd.split("T")[0];
+  return end >= period.periodStart && end <= period.periodEnd;
+};
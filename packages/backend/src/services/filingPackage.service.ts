@@ -0,0 +1,131 @@
+import { supabase, Tenant, Unit, Property, Landlord, LegalNotice, Notification } from "../config/database";
+import { logger } from "../utils/logger";
+import { arrearsService } from "./arrears.service";
+import { legalNoticeService } from "./legalNotice.service";
+import { generateL1PackagePdf, toArrearsPeriodRows, L1PackageData } from "./pdf.service";
+import { getLedgerPeriods } from "./legalNotice.utils";
+import { downloadDocument } from "./storage.service";
+
+// Notifications that show the tenant was told about the arrears and the N4
+const EVIDENCE_NOTIFICATION_TYPES: Notification["type"][] = ["rent_due", "rent_late", "form_n4"];
+
+type TenantUnitWithRelations = {
+  id: string;
+  tenant_id: string;
+  unit_id: string;
+  tenants: Tenant;
+  units: Unit & { properties: Property & { landlords: Landlord } };
+};
+
+export class FilingPackageService {
+  /**
+   * The most recent N4 for a tenant_unit that has been served (or already filed)
+   */
+  async getServedN4(tenantUnitId: string): Promise<LegalNotice | null> {
+    const notices = await legalNoticeService.listNotices({ tenantUnitId, noticeType: "N4" });
+    return notices.find((notice) => notice.status === "served" || notice.status === "filed") || null;
+  }
+
+  /**
+   * Assemble the L1 filing package for a tenant_unit from its served N4
+   */
+  async buildL1Package(tenantUnitId: string, n4: LegalNotice, format: "pdf" | "zip" = "pdf"): Promise<Buffer> {
+    const { data, error } = await supabase
+      .from("tenant_units")
+      .select("id, tenant_id, unit_id, tenants (*), units (*, properties(*, landlords(*)))")
+      .eq("id", tenantUnitId)
+      .single();
+
+    const tenantUnit = data as TenantUnitWithRelations | null;
+
+    if (error || !tenantUnit?.tenants || !tenantUnit.units?.properties?.landlords) {
+      logger.error(`Error fetching tenant_unit ${tenantUnitId} for L1 package: ${error?.message || "Missing related data"}`);
+      console.log(`Error fetching tenant_unit ${tenantUnitId} for L1 package: ${error?.message || "Missing related data"}`);
+      throw new Error(`Failed to fetch tenant, unit or landlord for tenant_unit ${tenantUnitId}`);
+    }
+
+    if (!n4.document_path) {
+      throw new Error(`N4 ${n4.id} has no stored document`);
+    }
+
+    const { tenants: tenant, units: unit } = tenantUnit;
+    const property = unit.properties;
+    const tenantName = `${tenant.first_name} ${tenant.last_name}`;
+    const landlordName = property.landlords.name;
+    const rentalAddress = `${unit.unit_number}, ${property.address}, ${property.city}, ${property.province} ${property.postal_code}`;
+
+    logger.info(`Building L1 filing package for tenant_unit ${tenantUnitId} from N4 ${n4.id}`);
+    console.log(`Building L1 filing package for tenant_unit ${tenantUnitId} from N4 ${n4.id}`);
+
+    const servedN4 = await downloadDocument(n4.document_path);
+    const certificateOfService = n4.certificate_path
+      ? await downloadDocument(n4.certificate_path)
+      : (await legalNoticeService.generateCertificateOfService(n4.id)).pdf;
+
+    // The ledger starts at the first period that still has rent owing
+    const statement = await arrearsService.getArrears(tenantUnit.tenant_id, tenantUnit.unit_id);
+    const ledgerPeriods = getLedgerPeriods(statement);
+    const arrearsPeriods = toArrearsPeriodRows(statement);
+
+    const evidenceSince = ledgerPeriods.length > 0 ? ledgerPeriods[0].periodStart : n4.created_at.split("T")[0];
+    const { data: notifications, error: notificationsError } = await supabase
+      .from("notifications")
+      .select("*")
+      .eq("tenant_id", tenantUnit.tenant_id)
+      .in("type", EVIDENCE_NOTIFICATION_TYPES)
+      .gte("created_at", evidenceSince)
+      .order("created_at", { ascending: true });
+
+    if (notificationsError) {
+      logger.error(`Error fetching notifications for L1 package: ${notificationsError.message}`);
+      console.log(`Error fetching notifications for L1 package: ${notificationsError.message}`);
+      throw new Error(`Failed to fetch notifications: ${notificationsError.message}`);
+    }
+
+    const packageData: L1PackageData = {
+      l1: {
+        tenantName,
+        landlordName,
+        rentalAddress,
+        rentAmount: statement.totalOwing,
+        rentDueDate: arrearsPeriods.length > 0 ? arrearsPeriods[arrearsPeriods.length - 1].periodStart : statement.asOf,
+        rentPeriod: statement.rentFrequency,
+        arrearsPeriods
+      },
+      servedN4: servedN4.toString("base64"),
+      certificateOfService: certificateOfService.toString("base64"),
+      ledger: {
+        tenantName,
+        landlordName,
+        rentalAddress,
+        asOf: statement.asOf,
+        rows: ledgerPeriods.map(({ periodStart, periodEnd, rentCharged, rentPaid, rentOwing, balance }) => ({
+          periodStart,
+          periodEnd,
+          rentCharged,
+          rentPaid,
+          rentOwing,
+          balance
+        }))
+      },
+      evidence: {
+        tenantName,
+        rentalAddress,
+        records: ((notifications || []) as Notification[]).map((notification) => ({
+          type: notification.type,
+          channel: notification.channel,
+          status: notification.status,
+          messageId: notification.message_id,
+          sentAt: notification.sent_at,
+          deliveredAt: notification.delivered_at,
+          readAt: notification.read_at
+        }))
+      }
+    };
+
+    return generateL1PackagePdf(packageData, format);
+  }
+}
+
+// Create and export instance for use in other files
+export const filingPackageService = new FilingPackageService();
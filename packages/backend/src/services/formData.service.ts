@@ -0,0 +1,133 @@
+import { supabase, Tenant, Unit, Property, Landlord, TenantUnit } from "../config/database";
+import { logger } from "../utils/logger";
+import { arrearsService } from "./arrears.service";
+import { toArrearsPeriodRows } from "./pdf.service";
+import { ontario, britishColumbia, Jurisdiction } from "../jurisdictions";
+
+// Completes form data from the database before it is sent to the PDF service.
+// Requests can identify the tenancy (tenantUnitId, or tenantId and unitId)
+// instead of passing names, addresses and amounts themselves.
+type FormDataPreparer = (formData: any, tenantUnit: TenantUnitWithRelations | null) => Promise<void> | void;
+
+type TenantUnitWithRelations = TenantUnit & {
+  tenants: Tenant;
+  units: Unit & { properties: Property & { landlords: Landlord | null } };
+};
+
+/**
+ * Load the tenancy a form request refers to, if any
+ */
+const findTenantUnit = async (formData: any): Promise<TenantUnitWithRelations | null> => {
+  if (!formData.tenantUnitId && !(formData.tenantId && formData.unitId)) {
+    return null;
+  }
+
+  let query = supabase
+    .from("tenant_units")
+    .select("*, tenants (*), units (*, properties(*, landlords(*)))");
+
+  query = formData.tenantUnitId
+    ? query.eq("id", formData.tenantUnitId)
+    : query.eq("tenant_id", formData.tenantId).eq("unit_id", formData.unitId);
+
+  const { data, error } = await query.maybeSingle();
+
+  if (error) {
+    logger.error(`Error fetching tenancy for form data: ${error.message}`);
+    console.log(`Error fetching tenancy for form data: ${error.message}`);
+    throw new Error(`Failed to fetch tenancy: ${error.message}`);
+  }
+  return data;
+};
+
+/**
+ * Fill in the tenant, landlord and rental unit address
+ */
+const attachParties: FormDataPreparer = (formData, tenantUnit) => {
+  if (!tenantUnit) {
+    return;
+  }
+
+  const { tenants: tenant, units: unit } = tenantUnit;
+  const property = unit.properties;
+
+  formData.tenantName = formData.tenantName || `${tenant.first_name} ${tenant.last_name}`;
+  formData.landlordName = formData.landlordName || property.landlords?.name;
+  formData.rentalAddress = formData.rentalAddress ||
+    `${unit.unit_number}, ${property.address}, ${property.city}, ${property.province} ${property.postal_code}`;
+};
+
+/**
+ * Fill in the rent owing table and total from the arrears engine
+ */
+const attachArrears: FormDataPreparer = async (formData, tenantUnit) => {
+  if (formData.arrearsPeriods || !tenantUnit) {
+    return;
+  }
+
+  const statement = await arrearsService.getArrears(tenantUnit.tenant_id, tenantUnit.unit_id, formData.asOf);
+  const arrearsPeriods = toArrearsPeriodRows(statement);
+
+  formData.arrearsPeriods = arrearsPeriods;
+  formData.rentAmount = formData.rentAmount || statement.totalOwing;
+  formData.rentDueDate = formData.rentDueDate ||
+    (arrearsPeriods.length > 0 ? arrearsPeriods[arrearsPeriods.length - 1].periodStart : undefined);
+};
+
+/**
+ * Fill in how often rent is paid, which also decides the notice period
+ */
+const attachRentPeriod: FormDataPreparer = (formData, tenantUnit) => {
+  if (!formData.rentPeriod && tenantUnit) {
+    formData.rentPeriod = tenantUnit.rent_frequency || "monthly";
+  }
+};
+
+/**
+ * Default to the earliest legal termination date for the planned service
+ * under the rules of the jurisdiction the notice belongs to
+ */
+const attachTerminationDate = (jurisdiction: Jurisdiction): FormDataPreparer => (formData) => {
+  if (formData.terminationDate) {
+    return;
+  }
+
+  const serviceDates = jurisdiction.getServiceDates(
+    formData.servedDate || new Date().toISOString().split("T")[0],
+    formData.serviceMethod || jurisdiction.defaultServiceMethod,
+    formData.rentPeriod
+  );
+  formData.terminationDate = serviceDates.earliestTerminationDate;
+};
+
+/**
+ * Fill in the tenant's current rent under the field name a form uses
+ */
+const attachRent = (field: string): FormDataPreparer => (formData, tenantUnit) => {
+  if (formData[field] === undefined && tenantUnit) {
+    formData[field] = tenantUnit.rent_amount;
+  }
+};
+
+// Extra preparation per form, on top of the tenant, landlord and address
+const FORM_DATA_PREPARERS: Record<string, FormDataPreparer[]> = {
+  N4: [attachRentPeriod, attachArrears, attachTerminationDate(ontario)],
+  L1: [attachRentPeriod, attachArrears],
+  "RTB-30": [attachArrears, attachTerminationDate(britishColumbia)],
+  N1: [attachRentPeriod, attachRent("currentRent")],
+  N9: [attachRentPeriod],
+  N12: [attachRent("monthlyRent")]
+};
+
+/**
+ * Complete the data for a form from the tenancy it refers to
+ */
+export const prepareFormData = async (formCode: string, formData: any): Promise<any> => {
+  const tenantUnit = await findTenantUnit(formData);
+  const preparers = [attachParties, ...(FORM_DATA_PREPARERS[formCode.toUpperCase()] || [])];
+
+  for (const prepare of preparers) {
+    await prepare(formData, tenantUnit);
+  }
+  return formData;
+};
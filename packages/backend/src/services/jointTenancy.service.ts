@@ -0,0 +1,306 @@
+import { supabase, RentPayment, RentPaymentShare, Tenant, TenantUnit } from "../config/database";
+import { logger } from "../utils/logger";
+import { paymentService } from "./payment.service";
+import { ledgerService, TenantUnitRef } from "./ledger.service";
+import { validateRentShares, splitRent, getShareBalances, RentShareBalance } from "./jointTenancy.utils";
+
+type TenantUnitWithTenant = TenantUnit & { tenants: Tenant };
+
+/**
+ * A tenant on a joint lease and their share of the rent
+ */
+export interface JointTenant {
+  tenantUnitId: string;
+  tenant: Tenant;
+  share: number;
+}
+
+/**
+ * The roommates renting a unit together. The lease's tenant_unit carries the
+ * rent, its schedule, the charges and the ledger for all of them.
+ */
+export interface JointTenancy {
+  unitId: string;
+  leaseTenantUnitId: string;
+  tenants: JointTenant[];
+}
+
+/**
+ * A roommate's part of a rent charge with what they have paid of it
+ */
+export interface RentShareStatement extends RentShareBalance {
+  tenantUnitId: string;
+  tenantName: string;
+  interacRequestLink: string | null;
+}
+
+export class JointTenancyService {
+  /**
+   * Active tenant_units matching a column, with their tenants
+   */
+  private async getActiveTenantUnits(column: "unit_id" | "id" | "joint_lease_id", value: string): Promise<TenantUnitWithTenant[]> {
+    const { data, error } = await supabase
+      .from("tenant_units")
+      .select("*, tenants(*)")
+      .eq(column, value)
+      .neq("status", "ended")
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      logger.error(`Error fetching tenant_units by ${column} ${value}: ${error.message}`);
+      console.log(`Error fetching tenant_units by ${column} ${value}: ${error.message}`);
+      throw new Error(`Failed to fetch tenant_units: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  /**
+   * The tenants on a joint lease, lease holder first, or an empty list when
+   * the tenant_unit is not the lease of a joint tenancy
+   */
+  async getJointTenants(leaseTenantUnitId: string): Promise<JointTenant[]> {
+    const roommates = await this.getActiveTenantUnits("joint_lease_id", leaseTenantUnitId);
+    if (roommates.length === 0) {
+      return [];
+    }
+
+    const [lease] = await this.getActiveTenantUnits("id", leaseTenantUnitId);
+    if (!lease) {
+      return [];
+    }
+
+    return [lease, ...roommates].map((tenantUnit) => ({
+      tenantUnitId: tenantUnit.id,
+      tenant: tenantUnit.tenants,
+      share: Number(tenantUnit.rent_share || 0)
+    }));
+  }
+
+  /**
+   * The tenant_unit that carries the rent for a tenant in a unit: the joint
+   * lease for a roommate, otherwise the tenant's own. Null if the tenant does
+   * not rent the unit.
+   */
+  async getLeaseTenantUnit(tenantId: string, unitId: string): Promise<TenantUnitRef | null> {
+    const { data, error } = await supabase
+      .from("tenant_units")
+      .select("id, tenant_id, unit_id, joint_lease_id")
+      .eq("tenant_id", tenantId)
+      .eq("unit_id", unitId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`Error fetching tenant_unit for tenant ${tenantId}, unit ${unitId}: ${error.message}`);
+      console.log(`Error fetching tenant_unit for tenant ${tenantId}, unit ${unitId}: ${error.message}`);
+      throw new Error(`Failed to fetch tenant_unit: ${error.message}`);
+    }
+
+    if (!data || !data.joint_lease_id) {
+      return data ? { id: data.id, tenant_id: data.tenant_id, unit_id: data.unit_id } : null;
+    }
+    return ledgerService.getTenantUnitById(data.joint_lease_id);
+  }
+
+  /**
+   * The joint tenancy of a unit, or null when its tenants rent it separately
+   */
+  async getJointTenancy(unitId: string): Promise<JointTenancy | null> {
+    const tenantUnits = await this.getActiveTenantUnits("unit_id", unitId);
+    const lease = tenantUnits.find(
+      (tenantUnit) => !tenantUnit.joint_lease_id && tenantUnits.some((other) => other.joint_lease_id === tenantUnit.id)
+    );
+    if (!lease) {
+      return null;
+    }
+
+    return {
+      unitId,
+      leaseTenantUnitId: lease.id,
+      tenants: await this.getJointTenants(lease.id)
+    };
+  }
+
+  /**
+   * Make the tenants of a unit joint tenants. The lease's tenant_unit keeps
+   * the unit's rent and schedule and is charged for all of them; every tenant
+   * on the unit needs a share, and the shares have to add up to 100%.
+   */
+  async setJointTenancy(
+    unitId: string,
+    leaseTenantUnitId: string,
+    shares: { tenant_unit_id: string; share: number }[]
+  ): Promise<JointTenancy> {
+    const tenantUnits = await this.getActiveTenantUnits("unit_id", unitId);
+    const shareFor = new Map(shares.map((share) => [share.tenant_unit_id, Number(share.share)]));
+
+    const unknown = shares.find((share) => !tenantUnits.some((tenantUnit) => tenantUnit.id === share.tenant_unit_id));
+    if (unknown) {
+      throw Object.assign(new Error(`Tenant unit ${unknown.tenant_unit_id} is not an active tenancy of this unit`), { statusCode: 422 });
+    }
+    if (tenantUnits.some((tenantUnit) => !shareFor.has(tenantUnit.id))) {
+      throw Object.assign(new Error("Every tenant on the unit needs a share of the rent"), { statusCode: 422 });
+    }
+    if (!shareFor.has(leaseTenantUnitId)) {
+      throw Object.assign(new Error("The lease must be one of the unit's tenancies"), { statusCode: 422 });
+    }
+
+    const invalid = validateRentShares(Array.from(shareFor.values()));
+    if (invalid) {
+      throw Object.assign(new Error(invalid), { statusCode: 422 });
+    }
+
+    logger.info(`Setting up a joint tenancy on unit ${unitId} with lease ${leaseTenantUnitId}`);
+    console.log(`Setting up a joint tenancy on unit ${unitId} with lease ${leaseTenantUnitId}`);
+
+    for (const tenantUnit of tenantUnits) {
+      const { error } = await supabase
+        .from("tenant_units")
+        .update({
+          joint_lease_id: tenantUnit.id === leaseTenantUnitId ? null : leaseTenantUnitId,
+          rent_share: shareFor.get(tenantUnit.id),
+          updated_at: new Date().toISOString()
+        })
+        .eq("id", tenantUnit.id);
+
+      if (error) {
+        logger.error(`Error updating tenant_unit ${tenantUnit.id} share: ${error.message}`);
+        console.log(`Error updating tenant_unit ${tenantUnit.id} share: ${error.message}`);
+        throw new Error(`Failed to update joint tenancy: ${error.message}`);
+      }
+    }
+
+    return {
+      unitId,
+      leaseTenantUnitId,
+      tenants: await this.getJointTenants(leaseTenantUnitId)
+    };
+  }
+
+  /**
+   * Turn a joint tenancy back into separate tenancies, each charged its own
+   * rent_amount from the next period. Charges already made stay with the lease.
+   * Returns false when the unit has no joint tenancy.
+   */
+  async endJointTenancy(unitId: string): Promise<boolean> {
+    const jointTenancy = await this.getJointTenancy(unitId);
+    if (!jointTenancy) {
+      return false;
+    }
+
+    logger.info(`Ending the joint tenancy on unit ${unitId}`);
+    console.log(`Ending the joint tenancy on unit ${unitId}`);
+
+    const { error } = await supabase
+      .from("tenant_units")
+      .update({ joint_lease_id: null, rent_share: null, updated_at: new Date().toISOString() })
+      .in("id", jointTenancy.tenants.map((jointTenant) => jointTenant.tenantUnitId));
+
+    if (error) {
+      logger.error(`Error ending joint tenancy on unit ${unitId}: ${error.message}`);
+      console.log(`Error ending joint tenancy on unit ${unitId}: ${error.message}`);
+      throw new Error(`Failed to end joint tenancy: ${error.message}`);
+    }
+    return true;
+  }
+
+  /**
+   * Split a joint lease's new rent charge between the roommates, with an
+   * Interac request for what each of them owes after any credit or deposit
+   * applied. The split is kept with the charge, so later share changes only
+   * affect later charges. Does nothing for a sole tenancy.
+   */
+  async splitCharge(payment: RentPayment): Promise<RentPaymentShare[]> {
+    const tenantUnitId = payment.tenant_unit_id;
+    const jointTenants = tenantUnitId ? await this.getJointTenants(tenantUnitId) : [];
+    if (jointTenants.length === 0) {
+      return [];
+    }
+
+    const parts = splitRent(Number(payment.amount), jointTenants.map((jointTenant) => ({
+      tenantId: jointTenant.tenant.id,
+      share: jointTenant.share
+    })));
+    const balances = getShareBalances(parts, await ledgerService.getEntriesForRentPayment(payment.id));
+
+    const rows = [];
+    for (const [index, jointTenant] of jointTenants.entries()) {
+      const { tenant } = jointTenant;
+      let interacRequestLink: string | null = null;
+
+      if (balances[index].balance > 0) {
+        try {
+          interacRequestLink = await paymentService.generateInteracRequestLink(
+            tenant.email,
+            tenant.first_name,
+            balances[index].balance,
+            `Your share of the rent due ${payment.due_date.split("T")[0]}`
+          );
+        } catch (linkError) {
+          logger.error(`Error generating Interac request link for tenant ${tenant.id}: ${linkError}`);
+          console.log(`Error generating Interac request link for tenant ${tenant.id}: ${linkError}`);
+        }
+      }
+
+      rows.push({
+        rent_payment_id: payment.id,
+        tenant_id: tenant.id,
+        tenant_unit_id: jointTenant.tenantUnitId,
+        share: parts[index].share,
+        amount: parts[index].amount,
+        interac_request_link: interacRequestLink
+      });
+    }
+
+    // Re-running generation keeps the split already made
+    const { data, error } = await supabase
+      .from("rent_payment_shares")
+      .upsert(rows, { onConflict: "rent_payment_id,tenant_id", ignoreDuplicates: true })
+      .select();
+
+    if (error) {
+      logger.error(`Error splitting rent payment ${payment.id}: ${error.message}`);
+      console.log(`Error splitting rent payment ${payment.id}: ${error.message}`);
+      throw new Error(`Failed to split rent payment: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  /**
+   * Each roommate's part of a rent charge and what they still owe, or an
+   * empty list when the charge is not split
+   */
+  async getShares(rentPaymentId: string): Promise<(RentShareStatement & { tenant: Tenant })[]> {
+    const { data, error } = await supabase
+      .from("rent_payment_shares")
+      .select("*, tenants(*)")
+      .eq("rent_payment_id", rentPaymentId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      logger.error(`Error fetching shares of rent payment ${rentPaymentId}: ${error.message}`);
+      console.log(`Error fetching shares of rent payment ${rentPaymentId}: ${error.message}`);
+      throw new Error(`Failed to fetch rent payment shares: ${error.message}`);
+    }
+
+    const shares = (data || []) as (RentPaymentShare & { tenants: Tenant })[];
+    if (shares.length === 0) {
+      return [];
+    }
+
+    const balances = getShareBalances(
+      shares.map((share) => ({ tenantId: share.tenant_id, share: Number(share.share), amount: Number(share.amount) })),
+      await ledgerService.getEntriesForRentPayment(rentPaymentId)
+    );
+
+    return shares.map((share, index) => ({
+      ...balances[index],
+      tenantUnitId: share.tenant_unit_id,
+      tenantName: `${share.tenants.first_name} ${share.tenants.last_name}`,
+      interacRequestLink: share.interac_request_link,
+      tenant: share.tenants
+    }));
+  }
+}
+
+// Create and export instance for use in other files
+export const jointTenancyService = new JointTenancyService();
@@ -0,0 +1,107 @@
+// Pure calculations for joint tenancies: splitting one rent charge between
+// roommates by share and working out what each of them still owes. Kept free
+// of database access so the split can be unit tested.
+
+/**
+ * A roommate's percentage of the rent
+ */
+export interface RentShareInput {
+  tenantId: string;
+  share: number;
+}
+
+/**
+ * A roommate's part of one rent charge
+ */
+export interface RentShareAmount extends RentShareInput {
+  amount: number;
+}
+
+/**
+ * What a roommate has paid of their part of a rent charge, and what they still owe
+ */
+export interface RentShareBalance extends RentShareAmount {
+  paid: number;
+  balance: number;
+}
+
+type ShareLedgerEntry = {
+  entry_type: "charge" | "payment" | "adjustment";
+  debit: number;
+  credit: number;
+  payer_tenant_id?: string | null;
+};
+
+const roundToCents = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Why a set of shares can't make up a joint tenancy, or null when they can.
+ * Every roommate needs a share and together they have to cover the whole rent.
+ */
+export const validateRentShares = (shares: number[]): string | null => {
+  if (shares.length < 2) {
+    return "A joint tenancy needs at least two tenants";
+  }
+  if (shares.some((share) => !(share > 0))) {
+    return "Every tenant's share must be more than 0%";
+  }
+  const total = roundToCents(shares.reduce((sum, share) => sum + share, 0));
+  if (total !== 100) {
+    return `Shares must add up to 100%, not ${total}%`;
+  }
+  return null;
+};
+
+/**
+ * Split a rent charge between roommates in proportion to their shares. The
+ * shares are scaled to the roommates still on the lease, so someone moving
+ * out leaves the others with the whole rent. Cents left over from rounding go
+ * to the first roommate so the parts always add up to the charge.
+ */
+export const splitRent = (amount: number, shares: RentShareInput[]): RentShareAmount[] => {
+  const totalShare = shares.reduce((sum, share) => sum + Number(share.share), 0);
+  if (totalShare <= 0) {
+    return [];
+  }
+
+  const parts = shares.map((share) => ({
+    tenantId: share.tenantId,
+    share: Number(share.share),
+    amount: roundToCents(amount * Number(share.share) / totalShare)
+  }));
+  const remainder = roundToCents(amount - parts.reduce((sum, part) => sum + part.amount, 0));
+  parts[0].amount = roundToCents(parts[0].amount + remainder);
+  return parts;
+};
+
+/**
+ * What each roommate still owes on a rent charge, from the charge's ledger
+ * entries. A payment counts towards the share of the roommate who made it;
+ * money nobody in particular paid, such as credit, the deposit or a move-out
+ * reduction, comes off every share in proportion. Nobody is asked for more
+ * than the charge still owes, so a roommate who paid more than their share
+ * reduces what the others are asked for.
+ */
+export const getShareBalances = (shares: RentShareAmount[], entries: ShareLedgerEntry[]): RentShareBalance[] => {
+  const total = shares.reduce((sum, share) => sum + Number(share.amount), 0);
+  const chargeBalance = roundToCents(entries.reduce((sum, entry) => sum + Number(entry.debit) - Number(entry.credit), 0));
+  const payments = entries.filter((entry) => entry.entry_type !== "charge");
+  const paidByNobody = payments
+    .filter((entry) => !entry.payer_tenant_id)
+    .reduce((sum, entry) => sum + Number(entry.credit) - Number(entry.debit), 0);
+
+  return shares.map((share) => {
+    const amount = Number(share.amount);
+    const paidBySelf = payments
+      .filter((entry) => entry.payer_tenant_id === share.tenantId)
+      .reduce((sum, entry) => sum + Number(entry.credit) - Number(entry.debit), 0);
+    const paid = roundToCents(paidBySelf + (total > 0 ? paidByNobody * amount / total : 0));
+
+    return {
+      ...share,
+      amount,
+      paid,
+      balance: roundToCents(Math.max(0, Math.min(amount - paid, chargeBalance)))
+    };
+  });
+};
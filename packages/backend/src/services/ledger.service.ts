@@ -0,0 +1,549 @@
+import { supabase, LedgerEntry, RentPayment, AdditionalCharge, Tenant, Unit } from "../config/database";
+import { logger } from "../utils/logger";
+import {
+  buildLedgerStatement,
+  summarizeRentCharges,
+  getCreditBalance,
+  CREDIT_CATEGORY,
+  LedgerEntryRow,
+  LedgerStatement,
+  RentChargeSummary,
+  ChargeStatus
+} from "./ledger.utils";
+
+export type NewLedgerEntry = Omit<LedgerEntry, "id" | "created_at" | "updated_at">;
+
+type RentChargeEntry = LedgerEntry & {
+  tenants: Pick<Tenant, "first_name" | "last_name"> | null;
+  units: Pick<Unit, "unit_number"> | null;
+  rent_payments: Pick<RentPayment, "interac_request_link"> | null;
+};
+
+/**
+ * The ledger of one tenant_unit
+ */
+export interface TenantUnitLedger extends LedgerStatement {
+  tenantUnitId: string;
+  tenantId: string;
+  unitId: string;
+  unitNumber: string | null;
+  rentCharges: RentChargeSummary[];
+  credit: number;
+}
+
+/**
+ * A rent charge as shown on the Payments page, derived from the ledger
+ */
+export interface RentChargeRow {
+  id: string; // rent_payments id of the charge
+  tenant_id: string;
+  tenant_name: string;
+  unit_id: string;
+  unit_number: string;
+  tenant_unit_id: string;
+  amount: number;
+  amount_paid: number;
+  balance: number;
+  due_date: string;
+  payment_date: string | null;
+  status: ChargeStatus;
+  payment_method: string | null;
+  interac_request_link: string | null;
+}
+
+export type TenantUnitRef = { id: string; tenant_id: string; unit_id: string };
+
+// Postgres error code for a unique constraint violation
+const UNIQUE_VIOLATION = "23505";
+
+const today = (): string => new Date().toISOString().split("T")[0];
+
+export class LedgerService {
+  /**
+   * Find the tenant_unit for a tenant in a unit
+   */
+  async findTenantUnit(tenantId: string, unitId: string): Promise<TenantUnitRef | null> {
+    const { data, error } = await supabase
+      .from("tenant_units")
+      .select("id, tenant_id, unit_id")
+      .eq("tenant_id", tenantId)
+      .eq("unit_id", unitId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`Error fetching tenant_unit for tenant ${tenantId}, unit ${unitId}: ${error.message}`);
+      console.log(`Error fetching tenant_unit for tenant ${tenantId}, unit ${unitId}: ${error.message}`);
+      throw new Error(`Failed to fetch tenant_unit: ${error.message}`);
+    }
+    return data;
+  }
+
+  /**
+   * Get a tenant_unit by ID
+   */
+  async getTenantUnitById(tenantUnitId: string): Promise<TenantUnitRef | null> {
+    const { data, error } = await supabase
+      .from("tenant_units")
+      .select("id, tenant_id, unit_id")
+      .eq("id", tenantUnitId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`Error fetching tenant_unit ${tenantUnitId}: ${error.message}`);
+      console.log(`Error fetching tenant_unit ${tenantUnitId}: ${error.message}`);
+      throw new Error(`Failed to fetch tenant_unit: ${error.message}`);
+    }
+    return data;
+  }
+
+  /**
+   * Get every entry on a tenant_unit's ledger
+   */
+  async getEntriesForTenantUnit(tenantUnitId: string): Promise<LedgerEntry[]> {
+    const { data, error } = await supabase
+      .from("ledger_entries")
+      .select("*")
+      .eq("tenant_unit_id", tenantUnitId)
+      .order("entry_date", { ascending: true });
+
+    if (error) {
+      logger.error(`Error fetching ledger for tenant_unit ${tenantUnitId}: ${error.message}`);
+      console.log(`Error fetching ledger for tenant_unit ${tenantUnitId}: ${error.message}`);
+      throw new Error(`Failed to fetch ledger: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  /**
+   * Rent charges on a tenant_unit's ledger with a balance still owing
+   */
+  async getOpenChargesForTenantUnit(tenantUnitId: string): Promise<RentChargeSummary[]> {
+    const entries = await this.getEntriesForTenantUnit(tenantUnitId);
+    return summarizeRentCharges(entries, today()).filter((summary) => summary.balance > 0);
+  }
+
+  /**
+   * Credit a tenant_unit holds from overpayments and prepayments
+   */
+  async getCreditBalance(tenantUnitId: string): Promise<number> {
+    return getCreditBalance(await this.getEntriesForTenantUnit(tenantUnitId));
+  }
+
+  /**
+   * Record money received that is not applied to any charge, such as an
+   * overpayment or a prepayment. It is held as a credit on the tenant_unit.
+   */
+  async recordCredit(
+    tenantUnit: TenantUnitRef,
+    amount: number,
+    paymentDate: string = today(),
+    paymentMethod: string | null = null,
+    reference: string | null = null,
+    description: string = "Credit carried forward"
+  ): Promise<LedgerEntry> {
+    logger.info(`Recording credit of ${amount} for tenant_unit ${tenantUnit.id}`);
+    console.log(`Recording credit of ${amount} for tenant_unit ${tenantUnit.id}`);
+
+    return this.createEntry({
+      tenant_unit_id: tenantUnit.id,
+      tenant_id: tenantUnit.tenant_id,
+      unit_id: tenantUnit.unit_id,
+      entry_date: paymentDate.split("T")[0],
+      entry_type: "payment",
+      category: CREDIT_CATEGORY,
+      description,
+      debit: 0,
+      credit: amount,
+      rent_payment_id: null,
+      payment_method: paymentMethod,
+      reference
+    });
+  }
+
+  /**
+   * Add an entry to a tenant_unit's ledger
+   */
+  async createEntry(entry: NewLedgerEntry): Promise<LedgerEntry> {
+    const { data, error } = await supabase
+      .from("ledger_entries")
+      .insert([entry])
+      .select()
+      .single();
+
+    if (error) {
+      logger.error(`Error creating ledger entry: ${error.message}`);
+      console.log(`Error creating ledger entry: ${error.message}`);
+      throw new Error(`Failed to create ledger entry: ${error.message}`);
+    }
+    return data;
+  }
+
+  /**
+   * Pay part or all of a rent charge from the tenant_unit's credit. This is
+   * two adjustments that net to zero on the balance: one uses up the credit,
+   * the other pays the charge.
+   */
+  async applyCredit(tenantUnit: TenantUnitRef, payment: RentPayment, amount: number): Promise<LedgerEntry[]> {
+    const entryDate = today();
+    const dueDate = payment.due_date.split("T")[0];
+
+    logger.info(`Applying credit of ${amount} to rent payment ${payment.id}`);
+    console.log(`Applying credit of ${amount} to rent payment ${payment.id}`);
+
+    const used = await this.createEntry({
+      tenant_unit_id: tenantUnit.id,
+      tenant_id: tenantUnit.tenant_id,
+      unit_id: tenantUnit.unit_id,
+      entry_date: entryDate,
+      entry_type: "adjustment",
+      category: CREDIT_CATEGORY,
+      description: `Credit applied to rent due ${dueDate}`,
+      debit: amount,
+      credit: 0,
+      rent_payment_id: null,
+      payment_method: null,
+      reference: null
+    });
+
+    const applied = await this.createEntry({
+      tenant_unit_id: tenantUnit.id,
+      tenant_id: tenantUnit.tenant_id,
+      unit_id: tenantUnit.unit_id,
+      entry_date: entryDate,
+      entry_type: "adjustment",
+      category: "rent",
+      description: `Paid from credit`,
+      debit: 0,
+      credit: amount,
+      rent_payment_id: payment.id,
+      payment_method: "credit",
+      reference: null
+    });
+
+    return [used, applied];
+  }
+
+  /**
+   * Get the ledger entries linked to a rent charge
+   */
+  async getEntriesForRentPayment(rentPaymentId: string): Promise<LedgerEntry[]> {
+    const { data, error } = await supabase
+      .from("ledger_entries")
+      .select("*")
+      .eq("rent_payment_id", rentPaymentId);
+
+    if (error) {
+      logger.error(`Error fetching ledger entries for rent payment ${rentPaymentId}: ${error.message}`);
+      console.log(`Error fetching ledger entries for rent payment ${rentPaymentId}: ${error.message}`);
+      throw new Error(`Failed to fetch ledger entries: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  /**
+   * Record the rent charge for a rent_payments row. Does nothing if the charge
+   * is already on the ledger, so it is safe to call more than once.
+   */
+  async recordRentCharge(payment: RentPayment): Promise<LedgerEntry | null> {
+    const existing = await this.getEntriesForRentPayment(payment.id);
+    if (existing.some((entry) => entry.entry_type === "charge")) {
+      return null;
+    }
+
+    const tenantUnit = await this.findTenantUnit(payment.tenant_id, payment.unit_id);
+    if (!tenantUnit) {
+      logger.warn(`No tenant_unit for rent payment ${payment.id}, charge not added to the ledger`);
+      console.log(`No tenant_unit for rent payment ${payment.id}, charge not added to the ledger`);
+      return null;
+    }
+
+    const dueDate = payment.due_date.split("T")[0];
+    const { data, error } = await supabase
+      .from("ledger_entries")
+      .insert([{
+        tenant_unit_id: tenantUnit.id,
+        tenant_id: payment.tenant_id,
+        unit_id: payment.unit_id,
+        entry_date: dueDate,
+        entry_type: "charge",
+        category: "rent",
+        description: payment.description || `Rent due ${dueDate}`,
+        debit: Number(payment.amount),
+        credit: 0,
+        rent_payment_id: payment.id,
+        payment_method: null,
+        reference: null
+      }])
+      .select()
+      .single();
+
+    // The database allows one charge entry per rent payment, so a concurrent
+    // run that got there first is not an error
+    if (error && error.code === UNIQUE_VIOLATION) {
+      return null;
+    }
+    if (error) {
+      logger.error(`Error creating ledger entry: ${error.message}`);
+      console.log(`Error creating ledger entry: ${error.message}`);
+      throw new Error(`Failed to create ledger entry: ${error.message}`);
+    }
+    return data;
+  }
+
+  /**
+   * Record a payment received against a rent charge. On a joint lease the
+   * roommate who paid is kept as the payer.
+   */
+  async recordRentPayment(
+    payment: RentPayment,
+    amount: number,
+    paymentDate: string = today(),
+    paymentMethod: string | null = null,
+    reference: string | null = null,
+    payerTenantId: string | null = null
+  ): Promise<LedgerEntry> {
+    const tenantUnit = await this.findTenantUnit(payment.tenant_id, payment.unit_id);
+    if (!tenantUnit) {
+      throw new Error(`No tenant_unit for tenant ${payment.tenant_id}, unit ${payment.unit_id}`);
+    }
+
+    logger.info(`Recording payment of ${amount} against rent payment ${payment.id}`);
+    console.log(`Recording payment of ${amount} against rent payment ${payment.id}`);
+
+    return this.createEntry({
+      tenant_unit_id: tenantUnit.id,
+      tenant_id: payment.tenant_id,
+      unit_id: payment.unit_id,
+      entry_date: paymentDate.split("T")[0],
+      entry_type: "payment",
+      category: "rent",
+      description: `Payment for rent due ${payment.due_date.split("T")[0]}`,
+      debit: 0,
+      credit: amount,
+      rent_payment_id: payment.id,
+      payer_tenant_id: payerTenantId,
+      payment_method: paymentMethod,
+      reference
+    });
+  }
+
+  /**
+   * What has been charged and paid against a rent charge, or null when the
+   * charge is not on the ledger
+   */
+  async getRentChargeSummary(rentPaymentId: string): Promise<RentChargeSummary | null> {
+    const entries = await this.getEntriesForRentPayment(rentPaymentId);
+    const [summary] = summarizeRentCharges(entries as LedgerEntryRow[], today());
+    return summary || null;
+  }
+
+  /**
+   * Record whatever is still owing on a rent charge as paid
+   */
+  async settleRentCharge(
+    payment: RentPayment,
+    paymentDate: string = today(),
+    paymentMethod: string | null = null
+  ): Promise<LedgerEntry | null> {
+    await this.recordRentCharge(payment);
+
+    const summary = await this.getRentChargeSummary(payment.id);
+    if (!summary || summary.balance <= 0) {
+      return null;
+    }
+    return this.recordRentPayment(payment, summary.balance, paymentDate, paymentMethod);
+  }
+
+  /**
+   * Get the ledger entries linked to a charge billed on top of rent
+   */
+  async getEntriesForAdditionalCharge(additionalChargeId: string): Promise<LedgerEntry[]> {
+    const { data, error } = await supabase
+      .from("ledger_entries")
+      .select("*")
+      .eq("additional_charge_id", additionalChargeId);
+
+    if (error) {
+      logger.error(`Error fetching ledger entries for additional charge ${additionalChargeId}: ${error.message}`);
+      console.log(`Error fetching ledger entries for additional charge ${additionalChargeId}: ${error.message}`);
+      throw new Error(`Failed to fetch ledger entries: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  /**
+   * Put a parking, storage or other charge on the ledger in its own category,
+   * so it adds to the balance but never to the rent charges
+   */
+  async recordAdditionalCharge(charge: AdditionalCharge): Promise<LedgerEntry> {
+    return this.createEntry({
+      tenant_unit_id: charge.tenant_unit_id,
+      tenant_id: charge.tenant_id,
+      unit_id: charge.unit_id,
+      entry_date: charge.due_date.split("T")[0],
+      entry_type: "charge",
+      category: charge.category,
+      description: charge.description,
+      debit: Number(charge.amount),
+      credit: 0,
+      rent_payment_id: null,
+      additional_charge_id: charge.id,
+      payment_method: null,
+      reference: null
+    });
+  }
+
+  /**
+   * Record a payment received against a charge billed on top of rent
+   */
+  async recordAdditionalChargePayment(
+    charge: AdditionalCharge,
+    amount: number,
+    paymentDate: string = today(),
+    paymentMethod: string | null = null,
+    reference: string | null = null
+  ): Promise<LedgerEntry> {
+    logger.info(`Recording payment of ${amount} against additional charge ${charge.id}`);
+    console.log(`Recording payment of ${amount} against additional charge ${charge.id}`);
+
+    return this.createEntry({
+      tenant_unit_id: charge.tenant_unit_id,
+      tenant_id: charge.tenant_id,
+      unit_id: charge.unit_id,
+      entry_date: paymentDate.split("T")[0],
+      entry_type: "payment",
+      category: charge.category,
+      description: `Payment for ${charge.description || charge.category} due ${charge.due_date.split("T")[0]}`,
+      debit: 0,
+      credit: amount,
+      rent_payment_id: null,
+      additional_charge_id: charge.id,
+      payment_method: paymentMethod,
+      reference
+    });
+  }
+
+  /**
+   * The ledger of every tenant_unit a tenant has, with running balances
+   */
+  async getTenantLedger(tenantId: string, asOf?: string): Promise<TenantUnitLedger[]> {
+    const { data: tenantUnits, error: tenantUnitsError } = await supabase
+      .from("tenant_units")
+      .select("id, tenant_id, unit_id, units (unit_number)")
+      .eq("tenant_id", tenantId);
+
+    if (tenantUnitsError) {
+      logger.error(`Error fetching tenant_units for tenant ${tenantId}: ${tenantUnitsError.message}`);
+      console.log(`Error fetching tenant_units for tenant ${tenantId}: ${tenantUnitsError.message}`);
+      throw new Error(`Failed to fetch tenant_units: ${tenantUnitsError.message}`);
+    }
+
+    const { data: entries, error } = await supabase
+      .from("ledger_entries")
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .order("entry_date", { ascending: true });
+
+    if (error) {
+      logger.error(`Error fetching ledger for tenant ${tenantId}: ${error.message}`);
+      console.log(`Error fetching ledger for tenant ${tenantId}: ${error.message}`);
+      throw new Error(`Failed to fetch ledger: ${error.message}`);
+    }
+
+    const asOfDate = asOf || today();
+
+    return (tenantUnits || []).map((tenantUnit: any) => {
+      const unitEntries = ((entries || []) as LedgerEntry[]).filter((entry) => entry.tenant_unit_id === tenantUnit.id);
+
+      return {
+        tenantUnitId: tenantUnit.id,
+        tenantId: tenantUnit.tenant_id,
+        unitId: tenantUnit.unit_id,
+        unitNumber: tenantUnit.units?.unit_number || null,
+        ...buildLedgerStatement(unitEntries, asOfDate),
+        rentCharges: summarizeRentCharges(
+          unitEntries.filter((entry) => entry.entry_date <= asOfDate),
+          asOfDate
+        ),
+        credit: getCreditBalance(unitEntries.filter((entry) => entry.entry_date <= asOfDate))
+      };
+    });
+  }
+
+  /**
+   * Rent charges that are not fully paid, with their status derived from the
+   * ledger. Used for the Payments page.
+   */
+  async getOpenRentCharges(): Promise<RentChargeRow[]> {
+    // Only charges not yet marked paid can be open, so only their entries are read
+    const { data: openPayments, error: paymentsError } = await supabase
+      .from("rent_payments")
+      .select("id")
+      .neq("status", "paid");
+
+    if (paymentsError) {
+      logger.error(`Error fetching open rent charges: ${paymentsError.message}`);
+      console.log(`Error fetching open rent charges: ${paymentsError.message}`);
+      throw new Error(`Failed to fetch rent charges: ${paymentsError.message}`);
+    }
+
+    if (!openPayments || openPayments.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from("ledger_entries")
+      .select(`
+        *,
+        tenants (first_name, last_name),
+        units (unit_number),
+        rent_payments (interac_request_link)
+      `)
+      .in("rent_payment_id", openPayments.map((payment: Pick<RentPayment, "id">) => payment.id));
+
+    if (error) {
+      logger.error(`Error fetching rent charges from the ledger: ${error.message}`);
+      console.log(`Error fetching rent charges from the ledger: ${error.message}`);
+      throw new Error(`Failed to fetch rent charges: ${error.message}`);
+    }
+
+    const entriesByCharge = new Map<string, RentChargeEntry[]>();
+    for (const entry of (data || []) as RentChargeEntry[]) {
+      const chargeEntries = entriesByCharge.get(entry.rent_payment_id!) || [];
+      chargeEntries.push(entry);
+      entriesByCharge.set(entry.rent_payment_id!, chargeEntries);
+    }
+    const asOf = today();
+
+    return Array.from(entriesByCharge.values())
+      .flatMap((entries) => summarizeRentCharges(entries, asOf).map((summary) => ({ summary, entries })))
+      .filter(({ summary }) => summary.status !== "paid")
+      .sort((a, b) => a.summary.dueDate.localeCompare(b.summary.dueDate))
+      .map(({ summary, entries }) => {
+        const charge = entries.find((entry) => entry.entry_type === "charge")!;
+        const lastPayment = entries
+          .filter((entry) => entry.entry_type === "payment")
+          .sort((a, b) => b.entry_date.localeCompare(a.entry_date))[0];
+
+        return {
+          id: summary.rentPaymentId,
+          tenant_id: charge.tenant_id,
+          tenant_name: charge.tenants ? `${charge.tenants.first_name} ${charge.tenants.last_name}` : "Unknown Tenant",
+          unit_id: charge.unit_id,
+          unit_number: charge.units ? charge.units.unit_number : "Unknown Unit",
+          tenant_unit_id: charge.tenant_unit_id,
+          amount: summary.amount,
+          amount_paid: summary.amountPaid,
+          balance: summary.balance,
+          due_date: summary.dueDate,
+          payment_date: summary.lastPaymentDate,
+          status: summary.status,
+          payment_method: lastPayment?.payment_method || null,
+          interac_request_link: charge.rent_payments?.interac_request_link || null
+        };
+      });
+  }
+}
+
+// Create and export instance for use in other files
+export const ledgerService = new LedgerService();
@@ -0,0 +1,147 @@
+// Pure calculations for the tenant ledger. Kept free of database access so
+// running balances and the status of each rent charge can be unit tested.
+
+/**
+ * The fields of a ledger_entries row the calculations need
+ */
+export interface LedgerEntryRow {
+  id: string;
+  entry_date: string;
+  entry_type: "charge" | "payment" | "adjustment";
+  category: string;
+  description: string | null;
+  debit: number;
+  credit: number;
+  rent_payment_id: string | null;
+  created_at?: string;
+}
+
+export interface LedgerLine extends LedgerEntryRow {
+  balance: number; // Running balance owing after this entry
+}
+
+export interface LedgerStatement {
+  entries: LedgerLine[];
+  totalCharges: number;
+  totalPayments: number;
+  totalAdjustments: number; // Net of debit and credit adjustments
+  balance: number; // Negative when the tenant is in credit
+}
+
+// Category of the entries that hold and use up a tenant_unit's credit
+export const CREDIT_CATEGORY = "credit";
+
+export type ChargeStatus = "pending" | "paid" | "late" | "partial";
+
+/**
+ * A rent charge with what has been paid against it
+ */
+export interface RentChargeSummary {
+  rentPaymentId: string;
+  dueDate: string;
+  amount: number;
+  amountPaid: number;
+  balance: number;
+  lastPaymentDate: string | null;
+  status: ChargeStatus;
+}
+
+const roundToCents = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Order entries by date; on the same day charges come before payments and adjustments
+ */
+const compareEntries = (a: LedgerEntryRow, b: LedgerEntryRow): number => {
+  const byDate = a.entry_date.localeCompare(b.entry_date);
+  if (byDate !== 0) {
+    return byDate;
+  }
+  if (a.entry_type !== b.entry_type) {
+    return a.entry_type === "charge" ? -1 : b.entry_type === "charge" ? 1 : 0;
+  }
+  return (a.created_at || "").localeCompare(b.created_at || "");
+};
+
+/**
+ * Sort a tenant_unit's entries and work out the running balance and totals,
+ * optionally only up to and including the as-of date
+ */
+export const buildLedgerStatement = (entries: LedgerEntryRow[], asOf?: string): LedgerStatement => {
+  let balance = 0;
+  let totalCharges = 0;
+  let totalPayments = 0;
+  let totalAdjustments = 0;
+
+  const lines = entries
+    .filter((entry) => !asOf || entry.entry_date.split("T")[0] <= asOf)
+    .sort(compareEntries)
+    .map((entry) => {
+      const debit = Number(entry.debit);
+      const credit = Number(entry.credit);
+      balance = roundToCents(balance + debit - credit);
+
+      if (entry.entry_type === "charge") {
+        totalCharges = roundToCents(totalCharges + debit - credit);
+      } else if (entry.entry_type === "payment") {
+        totalPayments = roundToCents(totalPayments + credit - debit);
+      } else {
+        totalAdjustments = roundToCents(totalAdjustments + debit - credit);
+      }
+
+      return { ...entry, debit, credit, balance };
+    });
+
+  return { entries: lines, totalCharges, totalPayments, totalAdjustments, balance };
+};
+
+/**
+ * Status of a charge from what has been paid against it
+ */
+export const deriveChargeStatus = (amount: number, amountPaid: number, dueDate: string, today: string): ChargeStatus => {
+  if (amountPaid >= amount) {
+    return "paid";
+  }
+  if (amountPaid > 0) {
+    return "partial";
+  }
+  return dueDate.split("T")[0] < today ? "late" : "pending";
+};
+
+/**
+ * One summary per rent charge: the charge amount, the payments and credit
+ * adjustments linked to it, and its derived status
+ */
+export const summarizeRentCharges = (entries: LedgerEntryRow[], today: string): RentChargeSummary[] => {
+  const charges = entries.filter((entry) => entry.entry_type === "charge" && entry.rent_payment_id);
+
+  return charges
+    .map((charge) => {
+      const applied = entries.filter(
+        (entry) => entry.entry_type !== "charge" && entry.rent_payment_id === charge.rent_payment_id
+      );
+      const amount = roundToCents(Number(charge.debit));
+      const amountPaid = roundToCents(applied.reduce((total, entry) => total + Number(entry.credit) - Number(entry.debit), 0));
+      const paymentDates = applied.map((entry) => entry.entry_date.split("T")[0]).sort();
+      const dueDate = charge.entry_date.split("T")[0];
+
+      return {
+        rentPaymentId: charge.rent_payment_id as string,
+        dueDate,
+        amount,
+        amountPaid,
+        balance: roundToCents(Math.max(0, amount - amountPaid)),
+        lastPaymentDate: paymentDates.length > 0 ? paymentDates[paymentDates.length - 1] : null,
+        status: deriveChargeStatus(amount, amountPaid, dueDate, today)
+      };
+    })
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+};
+
+/**
+ * Credit a tenant_unit holds: overpayments and prepayments not yet applied to
+ * a charge. Entries in the credit category add to it (credit) or use it up (debit).
+ */
+export const getCreditBalance = (entries: LedgerEntryRow[]): number =>
+  roundToCents(Math.max(0, entries
+    .filter((entry) => entry.category === CREDIT_CATEGORY)
+    .reduce((total, entry) => total + Number(entry.credit) - Number(entry.debit), 0)));
@@ -0,0 +1,385 @@
+import { supabase, LegalNotice, LegalNoticeStatus, LegalNoticeType, ServiceMethod, Landlord, Property, Tenant } from "../config/database";
+import { logger } from "../utils/logger";
+import {
+  NoticeServiceCheck,
+  OPEN_NOTICE_STATUSES,
+  getNoticeServiceCheck,
+  getApplicationCutoffDate,
+  sumOutstandingArrears,
+  getNoticesVoidedByPayment
+} from "./legalNotice.utils";
+import { JURISDICTIONS, DEFAULT_JURISDICTION, NON_PAYMENT_NOTICE_TYPES, getJurisdictionByCode, Jurisdiction } from "../jurisdictions";
+import { generateCertificateOfServicePdf } from "./pdf.service";
+import { uploadDocument } from "./storage.service";
+
+// Allowed lifecycle transitions for a legal notice
+const ALLOWED_TRANSITIONS: Record<LegalNoticeStatus, LegalNoticeStatus[]> = {
+  draft: ["served", "voided_by_payment", "withdrawn"],
+  served: ["voided_by_payment", "filed", "withdrawn"],
+  filed: ["withdrawn"],
+  voided_by_payment: [],
+  withdrawn: []
+};
+
+export interface LegalNoticeFilters {
+  tenantId?: string;
+  tenantUnitId?: string;
+  status?: LegalNoticeStatus;
+  noticeType?: LegalNoticeType;
+}
+
+export interface LegalNoticeTransitionDetails {
+  served_date?: string;
+  service_method?: ServiceMethod;
+}
+
+export class LegalNoticeService {
+  /**
+   * Create a new legal notice record
+   */
+  async createNotice(noticeData: Omit<LegalNotice, "id" | "created_at" | "updated_at">): Promise<LegalNotice> {
+    const { data, error } = await supabase
+      .from("legal_notices")
+      .insert([noticeData])
+      .select()
+      .single();
+
+    if (error) {
+      logger.error(`Error creating legal notice: ${error.message}`);
+      console.log(`Error creating legal notice: ${error.message}`);
+      throw new Error(`Failed to create legal notice: ${error.message}`);
+    }
+    return data;
+  }
+
+  /**
+   * List legal notices, optionally filtered by tenant, tenant_unit, status or type
+   */
+  async listNotices(filters: LegalNoticeFilters = {}): Promise<LegalNotice[]> {
+    let query = supabase
+      .from("legal_notices")
+      .select("*")
+      .order("created_at", { ascending: false });
+
+    if (filters.tenantId) {
+      query = query.eq("tenant_id", filters.tenantId);
+    }
+    if (filters.tenantUnitId) {
+      query = query.eq("tenant_unit_id", filters.tenantUnitId);
+    }
+    if (filters.status) {
+      query = query.eq("status", filters.status);
+    }
+    if (filters.noticeType) {
+      query = query.eq("notice_type", filters.noticeType);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      logger.error(`Error fetching legal notices: ${error.message}`);
+      console.log(`Error fetching legal notices: ${error.message}`);
+      throw new Error(`Failed to fetch legal notices: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  /**
+   * Get legal notice by ID
+   */
+  async getNoticeById(id: string): Promise<LegalNotice | null> {
+    const { data, error } = await supabase
+      .from("legal_notices")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`Error fetching legal notice ${id}: ${error.message}`);
+      console.log(`Error fetching legal notice ${id}: ${error.message}`);
+      throw new Error(`Failed to fetch legal notice: ${error.message}`);
+    }
+    return data;
+  }
+
+  /**
+   * Find an N4 or L1 that still covers any of the given payments
+   */
+  async findActiveNoticeForPayments(noticeType: LegalNoticeType, paymentIds: string[]): Promise<LegalNotice | null> {
+    const { data, error } = await supabase
+      .from("legal_notices")
+      .select("*")
+      .eq("notice_type", noticeType)
+      .in("status", [...OPEN_NOTICE_STATUSES, "filed"])
+      .overlaps("payment_ids", paymentIds)
+      .limit(1);
+
+    if (error) {
+      logger.error(`Error checking existing ${noticeType} notices: ${error.message}`);
+      console.log(`Error checking existing ${noticeType} notices: ${error.message}`);
+      throw new Error(`Failed to check existing ${noticeType} notices: ${error.message}`);
+    }
+    return data && data.length > 0 ? data[0] : null;
+  }
+
+  /**
+   * Get served non-payment notices whose application waiting period has passed
+   * and that have not already been followed by an application (an L1 in Ontario).
+   * Jurisdictions whose applications are filed outside the app are not included.
+   */
+  async getL1EligibleNotices(today: Date = new Date()): Promise<LegalNotice[]> {
+    const todayStr = today.toISOString().split("T")[0];
+    const eligibleNotices: LegalNotice[] = [];
+
+    for (const jurisdiction of JURISDICTIONS) {
+      const { noticeType, applicationType, applicationWaitingDays } = jurisdiction.nonPayment;
+      if (!applicationType) {
+        continue;
+      }
+
+      const { data: servedNotices, error } = await supabase
+        .from("legal_notices")
+        .select("*")
+        .eq("jurisdiction", jurisdiction.code)
+        .eq("notice_type", noticeType)
+        .eq("status", "served")
+        .lte("termination_date", getApplicationCutoffDate(todayStr, applicationWaitingDays));
+
+      if (error) {
+        logger.error(`Error fetching served ${noticeType} notices: ${error.message}`);
+        console.log(`Error fetching served ${noticeType} notices: ${error.message}`);
+        throw new Error(`Failed to fetch served ${noticeType} notices: ${error.message}`);
+      }
+
+      if (!servedNotices || servedNotices.length === 0) {
+        continue;
+      }
+
+      const { data: applications, error: applicationError } = await supabase
+        .from("legal_notices")
+        .select("parent_notice_id")
+        .eq("notice_type", applicationType)
+        .neq("status", "withdrawn")
+        .in("parent_notice_id", servedNotices.map((notice: LegalNotice) => notice.id));
+
+      if (applicationError) {
+        logger.error(`Error fetching existing ${applicationType} notices: ${applicationError.message}`);
+        console.log(`Error fetching existing ${applicationType} notices: ${applicationError.message}`);
+        throw new Error(`Failed to fetch existing ${applicationType} notices: ${applicationError.message}`);
+      }
+
+      const filedParents = new Set((applications || []).map((notice: { parent_notice_id: string }) => notice.parent_notice_id));
+      eligibleNotices.push(...servedNotices.filter((notice: LegalNotice) => !filedParents.has(notice.id)));
+    }
+
+    return eligibleNotices;
+  }
+
+  /**
+   * Total rent still owing for a tenant in a unit, counting every unpaid
+   * payment that has come due on or before the given date
+   */
+  async getOutstandingArrears(tenantId: string, unitId: string, asOf: Date = new Date()): Promise<number> {
+    const asOfStr = asOf.toISOString().split("T")[0];
+
+    const { data, error } = await supabase
+      .from("rent_payments")
+      .select("amount, status, amount_paid")
+      .eq("tenant_id", tenantId)
+      .eq("unit_id", unitId)
+      .neq("status", "paid")
+      .lte("due_date", asOfStr);
+
+    if (error) {
+      logger.error(`Error calculating arrears for tenant ${tenantId}, unit ${unitId}: ${error.message}`);
+      console.log(`Error calculating arrears for tenant ${tenantId}, unit ${unitId}: ${error.message}`);
+      throw new Error(`Failed to calculate arrears: ${error.message}`);
+    }
+
+    return sumOutstandingArrears(data || []);
+  }
+
+  /**
+   * Void every open N4 (or other non-payment notice) for a tenant in a unit once the arrears have been paid
+   * before the termination date, as required by the RTA.
+   * Returns the notices that were voided.
+   */
+  async voidNoticesPaidInFull(tenantId: string, unitId: string, today: Date = new Date()): Promise<LegalNotice[]> {
+    const todayStr = today.toISOString().split("T")[0];
+
+    const { data: openNotices, error } = await supabase
+      .from("legal_notices")
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .eq("unit_id", unitId)
+      .in("notice_type", NON_PAYMENT_NOTICE_TYPES)
+      .in("status", OPEN_NOTICE_STATUSES)
+      .gte("termination_date", todayStr);
+
+    if (error) {
+      logger.error(`Error fetching open N4 notices for tenant ${tenantId}, unit ${unitId}: ${error.message}`);
+      console.log(`Error fetching open N4 notices for tenant ${tenantId}, unit ${unitId}: ${error.message}`);
+      throw new Error(`Failed to fetch open N4 notices: ${error.message}`);
+    }
+
+    if (!openNotices || openNotices.length === 0) {
+      return [];
+    }
+
+    const arrears = await this.getOutstandingArrears(tenantId, unitId, today);
+    logger.debug(`Outstanding arrears for tenant ${tenantId}, unit ${unitId}: ${arrears}`);
+    console.log(`Outstanding arrears for tenant ${tenantId}, unit ${unitId}: ${arrears}`);
+
+    const voidedNotices: LegalNotice[] = [];
+    for (const notice of getNoticesVoidedByPayment(openNotices as LegalNotice[], arrears, todayStr)) {
+      voidedNotices.push(await this.transitionNotice(notice.id, "voided_by_payment"));
+    }
+    return voidedNotices;
+  }
+
+  /**
+   * Check whether a notice can move from one status to another
+   */
+  canTransition(from: LegalNoticeStatus, to: LegalNoticeStatus): boolean {
+    return ALLOWED_TRANSITIONS[from].includes(to);
+  }
+
+  /**
+   * The jurisdiction whose rules apply to a notice
+   */
+  getNoticeJurisdiction(notice: LegalNotice): Jurisdiction {
+    return getJurisdictionByCode(notice.jurisdiction) || DEFAULT_JURISDICTION;
+  }
+
+  /**
+   * Work out the deemed service date and earliest termination date for serving
+   * a notice on the given day, and check the notice's termination date against them
+   */
+  getServiceCheck(notice: LegalNotice, servedDate?: string, serviceMethod?: ServiceMethod): NoticeServiceCheck {
+    return getNoticeServiceCheck(
+      this.getNoticeJurisdiction(notice),
+      notice,
+      servedDate || new Date().toISOString().split("T")[0],
+      serviceMethod
+    );
+  }
+
+  /**
+   * Move a notice to a new status, recording service details when it is served
+   */
+  async transitionNotice(
+    id: string,
+    status: LegalNoticeStatus,
+    details: LegalNoticeTransitionDetails = {}
+  ): Promise<LegalNotice> {
+    const notice = await this.getNoticeById(id);
+    if (!notice) {
+      throw new Error(`Legal notice ${id} not found`);
+    }
+
+    if (!this.canTransition(notice.status, status)) {
+      throw new Error(`Cannot move legal notice from ${notice.status} to ${status}`);
+    }
+
+    const updateData: Partial<LegalNotice> = { status };
+
+    if (status === "served") {
+      const serviceCheck = this.getServiceCheck(notice, details.served_date, details.service_method);
+      updateData.served_date = serviceCheck.servedDate;
+      updateData.service_method = serviceCheck.serviceMethod;
+      updateData.deemed_service_date = serviceCheck.deemedServiceDate;
+    }
+
+    logger.info(`Moving legal notice ${id} from ${notice.status} to ${status}`);
+    console.log(`Moving legal notice ${id} from ${notice.status} to ${status}`);
+
+    const { data, error } = await supabase
+      .from("legal_notices")
+      .update(updateData)
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) {
+      logger.error(`Error updating legal notice ${id}: ${error.message}`);
+      console.log(`Error updating legal notice ${id}: ${error.message}`);
+      throw new Error(`Failed to update legal notice: ${error.message}`);
+    }
+    return data;
+  }
+
+  /**
+   * Generate the Certificate of Service for a served notice, store it and
+   * record its path on the notice. Returns the updated notice and the PDF.
+   */
+  async generateCertificateOfService(id: string): Promise<{ notice: LegalNotice; pdf: Buffer }> {
+    const notice = await this.getNoticeById(id);
+    if (!notice) {
+      throw new Error(`Legal notice ${id} not found`);
+    }
+
+    if (!notice.served_date || !notice.service_method) {
+      throw new Error(`Legal notice ${id} has not been served`);
+    }
+
+    const { data: unit, error: unitError } = await supabase
+      .from("units")
+      .select("*, properties(*, landlords(*))")
+      .eq("id", notice.unit_id)
+      .single();
+
+    const { data: tenant, error: tenantError } = await supabase
+      .from("tenants")
+      .select("*")
+      .eq("id", notice.tenant_id)
+      .single();
+
+    if (unitError || tenantError || !unit?.properties?.landlords || !tenant) {
+      logger.error(`Missing tenant, unit or landlord for Certificate of Service of notice ${id}`);
+      console.log(`Missing tenant, unit or landlord for Certificate of Service of notice ${id}`);
+      throw new Error(`Failed to fetch tenant, unit or landlord for notice ${id}`);
+    }
+
+    const property = unit.properties as Property & { landlords: Landlord };
+    const landlordName = property.landlords.name;
+    const deemedServiceDate = notice.deemed_service_date ||
+      this.getServiceCheck(notice, notice.served_date, notice.service_method).deemedServiceDate;
+
+    logger.info(`Generating Certificate of Service for ${notice.notice_type} notice ${id}`);
+    console.log(`Generating Certificate of Service for ${notice.notice_type} notice ${id}`);
+
+    const pdf = await generateCertificateOfServicePdf({
+      tenantName: `${(tenant as Tenant).first_name} ${(tenant as Tenant).last_name}`,
+      landlordName,
+      rentalAddress: `${unit.unit_number}, ${property.address}, ${property.city}, ${property.province} ${property.postal_code}`,
+      noticeType: notice.notice_type,
+      servedDate: notice.served_date,
+      serviceMethod: notice.service_method,
+      deemedServiceDate,
+      servedBy: landlordName
+    }, { flatten: true });
+
+    const certificatePath = await uploadDocument(
+      `certificates/${notice.tenant_id}/${notice.unit_id}/COS_${notice.notice_type}_${notice.id}.pdf`,
+      pdf
+    );
+
+    const { data, error } = await supabase
+      .from("legal_notices")
+      .update({ certificate_path: certificatePath, deemed_service_date: deemedServiceDate })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) {
+      logger.error(`Error saving Certificate of Service for notice ${id}: ${error.message}`);
+      console.log(`Error saving Certificate of Service for notice ${id}: ${error.message}`);
+      throw new Error(`Failed to save Certificate of Service: ${error.message}`);
+    }
+
+    return { notice: data, pdf };
+  }
+}
+
+// Create and export instance for use in other files
+export const legalNoticeService = new LegalNoticeService();
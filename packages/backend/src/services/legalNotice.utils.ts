@@ -0,0 +1,104 @@
+// Pure calculations for non-payment notices: the L1 ledger periods, the due
+// date shown on the notice, the termination date, when an application can
+// follow the notice and when a payment voids it. Kept free of database access
+// so the notice rules can be unit tested.
+import { LegalNotice, LegalNoticeStatus } from "../config/database";
+import { addDays } from "../utils/date";
+import { ArrearsPeriodRow } from "./pdf.service";
+import { ArrearsStatement, ArrearsPeriod, ArrearsPaymentRow, getRemainingBalance } from "./arrears.utils";
+import { NoticeServiceMethod, ServiceDates } from "./serviceDate.utils";
+import { Jurisdiction, NON_PAYMENT_NOTICE_TYPES } from "../jurisdictions";
+
+// Statuses from which a notice can still be acted on
+export const OPEN_NOTICE_STATUSES: LegalNoticeStatus[] = ["draft", "served"];
+
+export interface NoticeServiceCheck extends ServiceDates {
+  terminationDate: string | null;
+  // False when the termination date on the notice is earlier than the law allows
+  terminationDateValid: boolean;
+}
+
+/**
+ * The periods of a statement from the first one that still has rent owing,
+ * which is where the L1 ledger starts
+ */
+export const getLedgerPeriods = (statement: ArrearsStatement): ArrearsPeriod[] => {
+  const firstOwingIndex = statement.periods.findIndex((period) => period.rentOwing > 0);
+  return firstOwingIndex === -1 ? [] : statement.periods.slice(firstOwingIndex);
+};
+
+/**
+ * The due date shown on the notice: the start of the most recent period with rent owing
+ */
+export const getNoticeRentDueDate = (arrearsPeriods: ArrearsPeriodRow[]): string | undefined =>
+  arrearsPeriods.length > 0 ? arrearsPeriods[arrearsPeriods.length - 1].periodStart : undefined;
+
+/**
+ * Earliest termination date for a non-payment notice served on the given day.
+ * Weekly tenancies get a shorter notice period in Ontario.
+ */
+export const getNoticeTerminationDate = (
+  jurisdiction: Jurisdiction,
+  servedDate: string,
+  serviceMethod: NoticeServiceMethod,
+  rentPeriod?: string
+): string => jurisdiction.getServiceDates(servedDate, serviceMethod, rentPeriod).earliestTerminationDate;
+
+/**
+ * Deemed service date and earliest termination date for serving a notice on
+ * the given day, checked against the notice's termination date. The notice
+ * period follows the rent frequency the notice was issued with.
+ */
+export const getNoticeServiceCheck = (
+  jurisdiction: Jurisdiction,
+  notice: Pick<LegalNotice, "termination_date" | "rent_period" | "service_method">,
+  servedDate: string,
+  serviceMethod?: NoticeServiceMethod
+): NoticeServiceCheck => checkTerminationDate(
+  jurisdiction.getServiceDates(servedDate, serviceMethod || notice.service_method || "hand", notice.rent_period || undefined),
+  notice.termination_date
+);
+
+/**
+ * Check a notice's termination date against the dates for serving it. A
+ * notice without a termination date yet is not flagged.
+ */
+export const checkTerminationDate = (serviceDates: ServiceDates, terminationDate: string | null): NoticeServiceCheck => ({
+  ...serviceDates,
+  terminationDate,
+  terminationDateValid: !terminationDate || terminationDate >= serviceDates.earliestTerminationDate
+});
+
+/**
+ * Latest termination date for which an application can be filed today, i.e.
+ * the notice's termination date plus the waiting period has been reached
+ */
+export const getApplicationCutoffDate = (today: string, applicationWaitingDays: number): string =>
+  addDays(today.split("T")[0], -applicationWaitingDays);
+
+const roundToCents = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Rent still owing across a tenant's unpaid charges, counting only the
+ * unpaid part of partly paid ones
+ */
+export const sumOutstandingArrears = (payments: Pick<ArrearsPaymentRow, "amount" | "status" | "amount_paid">[]): number =>
+  roundToCents(payments.reduce((total, payment) => total + getRemainingBalance(payment), 0));
+
+/**
+ * The notices a payment voids. Paying every dollar owing before the
+ * termination date voids the open non-payment notices; a partial payment
+ * voids none, and a notice whose termination date has passed stays open so
+ * the landlord can still apply.
+ */
+export const getNoticesVoidedByPayment = (notices: LegalNotice[], outstandingArrears: number, today: string): LegalNotice[] => {
+  if (outstandingArrears > 0) {
+    return [];
+  }
+  return notices.filter((notice) =>
+    NON_PAYMENT_NOTICE_TYPES.includes(notice.notice_type) &&
+    OPEN_NOTICE_STATUSES.includes(notice.status) &&
+    !!notice.termination_date &&
+    notice.termination_date.split("T")[0] >= today
+  );
+};
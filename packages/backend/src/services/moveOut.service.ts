@@ -0,0 +1,336 @@
+import { supabase, MoveOut, RentPayment, Tenant, TenantUnit, Unit, Property, Landlord } from "../config/database";
+import { logger } from "../utils/logger";
+import { RentChange } from "./rentHistory.utils";
+import { billingCalendarService } from "./billingCalendar.service";
+import { rentService } from "./rent.service";
+import { ledgerService } from "./ledger.service";
+import { depositService } from "./deposit.service";
+import { generateClosingStatementPdf } from "./pdf.service";
+import { uploadDocument, downloadDocument } from "./storage.service";
+import { buildFinalStatement, FinalStatement } from "./moveOut.utils";
+import { jointTenancyService } from "./jointTenancy.service";
+
+type MoveOutTenantUnit = TenantUnit & {
+  tenants: Tenant;
+  units: Unit & { properties: Property & { landlords: Landlord } };
+  rent_history: RentChange[] | null;
+};
+
+export interface MoveOutFilters {
+  tenantId?: string;
+  unitId?: string;
+}
+
+const today = (): string => new Date().toISOString().split("T")[0];
+
+export class MoveOutService {
+  /**
+   * Get a tenant_unit with the tenant, unit, property, landlord and rent history
+   */
+  private async getTenantUnit(tenantUnitId: string): Promise<MoveOutTenantUnit | null> {
+    const { data, error } = await supabase
+      .from("tenant_units")
+      .select("*, tenants(*), units(*, properties(*, landlords(*))), rent_history(amount, effective_date)")
+      .eq("id", tenantUnitId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`Error fetching tenant_unit ${tenantUnitId}: ${error.message}`);
+      console.log(`Error fetching tenant_unit ${tenantUnitId}: ${error.message}`);
+      throw new Error(`Failed to fetch tenant_unit: ${error.message}`);
+    }
+    return data;
+  }
+
+  /**
+   * Get a tenant_unit's rent charges
+   */
+  private async getRentCharges(tenantUnitId: string): Promise<RentPayment[]> {
+    const { data, error } = await supabase
+      .from("rent_payments")
+      .select("*")
+      .eq("tenant_unit_id", tenantUnitId)
+      .order("due_date", { ascending: true });
+
+    if (error) {
+      logger.error(`Error fetching rent charges for tenant_unit ${tenantUnitId}: ${error.message}`);
+      console.log(`Error fetching rent charges for tenant_unit ${tenantUnitId}: ${error.message}`);
+      throw new Error(`Failed to fetch rent charges: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  /**
+   * Set a column on a table row, for the status changes a move-out makes
+   */
+  private async updateStatus(table: "tenant_units" | "units" | "tenants", id: string, changes: object): Promise<void> {
+    const { error } = await supabase
+      .from(table)
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq("id", id);
+
+    if (error) {
+      logger.error(`Error updating ${table} ${id}: ${error.message}`);
+      console.log(`Error updating ${table} ${id}: ${error.message}`);
+      throw new Error(`Failed to update ${table}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Whether a unit or tenant still has a tenancy that has not ended
+   */
+  private async hasActiveTenancy(column: "unit_id" | "tenant_id", id: string): Promise<boolean> {
+    const { count, error } = await supabase
+      .from("tenant_units")
+      .select("id", { count: "exact", head: true })
+      .eq(column, id)
+      .neq("status", "ended");
+
+    if (error) {
+      logger.error(`Error checking tenancies for ${column} ${id}: ${error.message}`);
+      console.log(`Error checking tenancies for ${column} ${id}: ${error.message}`);
+      throw new Error(`Failed to check tenancies: ${error.message}`);
+    }
+    return (count || 0) > 0;
+  }
+
+  /**
+   * Settle the rent up to the move-out date. The final period is charged, or
+   * its charge reduced, to the prorated rent; charges for later periods are
+   * taken off; and the last month's rent deposit pays the final rent, or is
+   * credited back if there is none. Returns the final charge and its rent.
+   */
+  private async settleRent(
+    tenantUnit: MoveOutTenantUnit,
+    moveOutDate: string
+  ): Promise<{ rentPaymentId: string; rent: number } | null> {
+    const period = billingCalendarService.getCurrentPeriod(tenantUnit, moveOutDate);
+    const finalRent = period
+      ? rentService.getChargeForPeriod(tenantUnit, period, tenantUnit.units.properties?.proration_method)
+      : null;
+
+    let finalCharge: RentPayment | null = null;
+    for (const charge of await this.getRentCharges(tenantUnit.id)) {
+      if (period && charge.billing_period === period.billingPeriod) {
+        finalCharge = await rentService.adjustChargeForMoveOut(charge, finalRent ? finalRent.amount : 0, moveOutDate);
+      } else if (charge.due_date.split("T")[0] > moveOutDate) {
+        await rentService.adjustChargeForMoveOut(charge, 0, moveOutDate);
+      }
+    }
+
+    if (!finalCharge && period && finalRent) {
+      finalCharge = await rentService.createRentChargeForPeriod({
+        tenant_id: tenantUnit.tenant_id,
+        unit_id: tenantUnit.unit_id,
+        tenant_unit_id: tenantUnit.id,
+        billing_period: period.billingPeriod,
+        amount: finalRent.amount,
+        description: finalRent.description,
+        due_date: finalRent.dueDate,
+        payment_date: null,
+        status: "pending",
+        payment_method: null,
+        interac_request_link: null
+      }, true);
+    } else if (finalCharge) {
+      await rentService.applyDepositToPayment(finalCharge);
+    }
+
+    const deposit = await depositService.getHeldDeposit(tenantUnit.id);
+    if (deposit) {
+      await depositService.releaseToCredit(deposit, moveOutDate);
+    }
+
+    return finalCharge && finalRent ? { rentPaymentId: finalCharge.id, rent: finalRent.amount } : null;
+  }
+
+  /**
+   * Move a tenant out of a unit: the lease ends on the move-out date, rent is
+   * settled up to it and no longer generated, the final statement is saved
+   * with its closing statement PDF, the unit becomes vacant and the tenant is
+   * kept as a former tenant once they rent nothing else. Returns null if the
+   * tenant_unit does not exist.
+   */
+  async moveOut(tenantUnitId: string, moveOutDate: string): Promise<{ moveOut: MoveOut; statement: FinalStatement } | null> {
+    const tenantUnit = await this.getTenantUnit(tenantUnitId);
+    if (!tenantUnit) {
+      return null;
+    }
+
+    if (tenantUnit.status === "ended") {
+      throw Object.assign(new Error("The tenant has already moved out of this unit"), { statusCode: 409 });
+    }
+
+    // The tenancy ends as soon as it is recorded, so rent would stop before a
+    // future move-out date
+    if (moveOutDate > today()) {
+      throw Object.assign(new Error("A move-out can only be recorded on or after the move-out date"), { statusCode: 422 });
+    }
+
+    // The joint lease carries the roommates' rent, so it can't end before theirs
+    if ((await jointTenancyService.getJointTenants(tenantUnit.id)).length > 0) {
+      throw Object.assign(
+        new Error("Move the roommates out or end the joint tenancy before moving out the tenant the rent is charged to"),
+        { statusCode: 409 }
+      );
+    }
+
+    const leaseStart = (tenantUnit.lease_start || tenantUnit.created_at).split("T")[0];
+    if (moveOutDate < leaseStart) {
+      throw Object.assign(new Error(`The move-out date can't be before the lease start of ${leaseStart}`), { statusCode: 422 });
+    }
+
+    logger.info(`Moving tenant ${tenantUnit.tenant_id} out of unit ${tenantUnit.unit_id} on ${moveOutDate}`);
+    console.log(`Moving tenant ${tenantUnit.tenant_id} out of unit ${tenantUnit.unit_id} on ${moveOutDate}`);
+
+    await this.updateStatus("tenant_units", tenantUnit.id, { lease_end: moveOutDate });
+    tenantUnit.lease_end = moveOutDate;
+
+    // A roommate's rent is charged to the joint lease, which carries on
+    // without them; the others' shares grow to cover the whole rent
+    const finalCharge = tenantUnit.joint_lease_id ? null : await this.settleRent(tenantUnit, moveOutDate);
+
+    await this.updateStatus("tenant_units", tenantUnit.id, { status: "ended" });
+    if (!(await this.hasActiveTenancy("unit_id", tenantUnit.unit_id))) {
+      await this.updateStatus("units", tenantUnit.unit_id, { status: "vacant" });
+    }
+    if (!(await this.hasActiveTenancy("tenant_id", tenantUnit.tenant_id))) {
+      await this.updateStatus("tenants", tenantUnit.tenant_id, { status: "former" });
+    }
+
+    const entries = await ledgerService.getEntriesForTenantUnit(tenantUnit.id);
+    const statement = buildFinalStatement(entries, finalCharge, moveOutDate);
+
+    const { data: moveOut, error } = await supabase
+      .from("move_outs")
+      .insert([{
+        tenant_unit_id: tenantUnit.id,
+        tenant_id: tenantUnit.tenant_id,
+        unit_id: tenantUnit.unit_id,
+        move_out_date: moveOutDate,
+        final_rent_payment_id: finalCharge ? finalCharge.rentPaymentId : null,
+        arrears: statement.arrears,
+        final_rent: statement.finalRent,
+        final_rent_paid: statement.finalRentPaid,
+        deposit_applied: statement.depositApplied,
+        credit: statement.credit,
+        balance: statement.balance
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      logger.error(`Error recording move-out for tenant_unit ${tenantUnit.id}: ${error.message}`);
+      console.log(`Error recording move-out for tenant_unit ${tenantUnit.id}: ${error.message}`);
+      throw new Error(`Failed to record move-out: ${error.message}`);
+    }
+
+    // The tenancy is closed either way; a closing statement that fails now is
+    // generated when it is first downloaded
+    try {
+      await this.getClosingStatement(moveOut);
+    } catch (pdfError) {
+      logger.error(`Error generating closing statement for move-out ${moveOut.id}: ${pdfError}`);
+      console.log(`Error generating closing statement for move-out ${moveOut.id}: ${pdfError}`);
+    }
+
+    return { moveOut: (await this.getMoveOutById(moveOut.id)) || moveOut, statement };
+  }
+
+  /**
+   * The closing statement PDF of a move-out, generated and stored the first
+   * time it is needed
+   */
+  async getClosingStatement(moveOut: MoveOut): Promise<Buffer> {
+    if (moveOut.document_path) {
+      return downloadDocument(moveOut.document_path);
+    }
+
+    const tenantUnit = await this.getTenantUnit(moveOut.tenant_unit_id);
+    if (!tenantUnit) {
+      throw Object.assign(new Error(`Tenant unit ${moveOut.tenant_unit_id} not found`), { statusCode: 404 });
+    }
+
+    const { tenants: tenant, units: unit } = tenantUnit;
+    const property = unit.properties;
+    const lines = [
+      { description: "Rent owing before the final period", amount: Number(moveOut.arrears) },
+      { description: `Rent for the final period, to the move-out date of ${moveOut.move_out_date}`, amount: Number(moveOut.final_rent) },
+      { description: "Paid towards the final rent", amount: -Number(moveOut.final_rent_paid) },
+      { description: "Last month's rent deposit applied to the final rent", amount: -Number(moveOut.deposit_applied) },
+      { description: "Credit held (overpayments, deposit interest and any unused deposit)", amount: -Number(moveOut.credit) }
+    ].filter((line) => line.amount !== 0);
+
+    const pdf = await generateClosingStatementPdf({
+      tenantName: `${tenant.first_name} ${tenant.last_name}`,
+      landlordName: property.landlords.name,
+      rentalAddress: `${unit.unit_number}, ${property.address}, ${property.city}, ${property.province} ${property.postal_code}`,
+      moveOutDate: moveOut.move_out_date,
+      statementDate: today(),
+      lines,
+      balance: Number(moveOut.balance)
+    });
+    const documentPath = await uploadDocument(
+      `move-out/${tenant.id}/${unit.id}/Closing_Statement_${moveOut.move_out_date}.pdf`,
+      pdf
+    );
+
+    const { error } = await supabase
+      .from("move_outs")
+      .update({ document_path: documentPath })
+      .eq("id", moveOut.id);
+
+    if (error) {
+      logger.error(`Error saving closing statement for move-out ${moveOut.id}: ${error.message}`);
+      console.log(`Error saving closing statement for move-out ${moveOut.id}: ${error.message}`);
+    }
+    return pdf;
+  }
+
+  /**
+   * List move-outs, most recent first
+   */
+  async listMoveOuts(filters: MoveOutFilters = {}): Promise<MoveOut[]> {
+    let query = supabase
+      .from("move_outs")
+      .select("*")
+      .order("move_out_date", { ascending: false });
+
+    if (filters.tenantId) {
+      query = query.eq("tenant_id", filters.tenantId);
+    }
+    if (filters.unitId) {
+      query = query.eq("unit_id", filters.unitId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      logger.error(`Error fetching move-outs: ${error.message}`);
+      console.log(`Error fetching move-outs: ${error.message}`);
+      throw new Error(`Failed to fetch move-outs: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  /**
+   * Get move-out by ID
+   */
+  async getMoveOutById(id: string): Promise<MoveOut | null> {
+    const { data, error } = await supabase
+      .from("move_outs")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`Error fetching move-out ${id}: ${error.message}`);
+      console.log(`Error fetching move-out ${id}: ${error.message}`);
+      throw new Error(`Failed to fetch move-out: ${error.message}`);
+    }
+    return data;
+  }
+}
+
+// Create and export instance for use in other files
+export const moveOutService = new MoveOutService();
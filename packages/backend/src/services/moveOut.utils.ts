@@ -0,0 +1,66 @@
+// Pure calculations for closing a tenancy: the final statement of what the
+// tenant owes or is owed on move-out. Kept free of database access so the
+// settlement can be unit tested.
+import {
+  buildLedgerStatement,
+  getCreditBalance,
+  summarizeRentCharges,
+  LedgerEntryRow
+} from "./ledger.utils";
+import { DEPOSIT_PAYMENT_METHOD } from "./deposit.utils";
+
+// Category of the adjustments that take rent after the move-out date off a charge
+export const MOVE_OUT_CATEGORY = "move_out";
+
+type StatementEntry = LedgerEntryRow & { payment_method?: string | null };
+
+/**
+ * What a tenant owes, or is owed, when the tenancy ends
+ */
+export interface FinalStatement {
+  moveOutDate: string;
+  arrears: number; // Rent still owing for periods before the final one
+  finalRent: number; // Rent for the final period, prorated to the move-out date
+  finalRentPaid: number; // Paid towards the final rent by the tenant or from credit
+  depositApplied: number; // Paid towards the final rent from the last month's rent deposit
+  credit: number; // Credit left on the ledger, including any deposit the final rent did not use
+  balance: number; // Positive when the tenant owes money, negative when a refund is due
+}
+
+const roundToCents = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Build the final statement from a tenant_unit's ledger once the final rent
+ * has been charged, reduced to the move-out date and the deposit applied.
+ * finalCharge is the final period's rent charge and the rent it was reduced
+ * to, or null when the final period was never charged.
+ */
+export const buildFinalStatement = (
+  entries: StatementEntry[],
+  finalCharge: { rentPaymentId: string; rent: number } | null,
+  moveOutDate: string
+): FinalStatement => {
+  const charges = summarizeRentCharges(entries, moveOutDate);
+  const final = finalCharge ? charges.find((charge) => charge.rentPaymentId === finalCharge.rentPaymentId) : undefined;
+  const arrears = roundToCents(charges
+    .filter((charge) => charge !== final)
+    .reduce((total, charge) => total + charge.balance, 0));
+
+  const finalRent = final && finalCharge ? finalCharge.rent : 0;
+  const depositApplied = final
+    ? roundToCents(entries
+      .filter((entry) => entry.rent_payment_id === final.rentPaymentId && entry.payment_method === DEPOSIT_PAYMENT_METHOD)
+      .reduce((total, entry) => total + Number(entry.credit) - Number(entry.debit), 0))
+    : 0;
+
+  return {
+    moveOutDate,
+    arrears,
+    finalRent,
+    // Anything paid beyond the reduced rent is already part of the credit
+    finalRentPaid: final ? roundToCents(finalRent - final.balance - depositApplied) : 0,
+    depositApplied,
+    credit: getCreditBalance(entries),
+    balance: buildLedgerStatement(entries).balance
+  };
+};
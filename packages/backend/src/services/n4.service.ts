@@ -0,0 +1,256 @@
+import { supabase, Tenant, Unit, Property, RentPayment, TenantUnit, Landlord, Notification, LegalNotice, LegalNoticeType } from "../config/database";
+import { logger } from "../utils/logger";
+import { createNotification } from "./notification.service";
+import { legalNoticeService } from "./legalNotice.service";
+import { generateFormPdf, N4FormData, toArrearsPeriodRows } from "./pdf.service";
+import { getNoticeRentDueDate, getNoticeTerminationDate } from "./legalNotice.utils";
+import { arrearsService } from "./arrears.service";
+import { getRemainingBalance } from "./arrears.utils";
+import { billingCalendarService } from "./billingCalendar.service";
+import { RentFrequency } from "./billing.utils";
+import { uploadDocument } from "./storage.service";
+import { jointTenancyService } from "./jointTenancy.service";
+import { getJurisdictionForProvince, Jurisdiction } from "../jurisdictions";
+
+// N4s are generated for Ontario properties. Properties in other provinces get
+// their jurisdiction's non-payment notice instead (e.g. the BC RTB-30), with
+// that jurisdiction's lateness threshold, service rules and form.
+
+type LatePaymentWithRelations = RentPayment & {
+  tenants: Tenant;
+  units: Unit & { properties: Property };
+  tenant_units: Pick<TenantUnit, "rent_frequency" | "status"> | null;
+};
+
+/**
+ * All outstanding late and partly paid payments for one tenant in one unit.
+ * A joint lease's rent is charged to one tenant, but the notice names every
+ * roommate.
+ */
+export interface N4Candidate {
+  tenant: Tenant;
+  jointTenants: Tenant[]; // Every roommate on a joint lease, empty for a sole tenancy
+  unit: Unit;
+  property: Property;
+  jurisdiction: Jurisdiction;
+  payments: RentPayment[];
+  arrears: number;
+  daysLate: number;
+  rentFrequency: RentFrequency;
+}
+
+export class N4Service {
+  /**
+   * Group late and partly paid overdue payments by tenant and unit and keep those that are late enough
+   * for their province's non-payment notice. Properties in provinces without
+   * a jurisdiction plugin are skipped.
+   */
+  async getN4Candidates(today: string = billingCalendarService.today()): Promise<N4Candidate[]> {
+    const { data: latePayments, error } = await supabase
+      .from("rent_payments")
+      .select(`
+        *,
+        tenants (*),
+        units (*, properties(*)),
+        tenant_units (rent_frequency, status)
+      `)
+      .in("status", ["late", "partial"])
+      .lt("due_date", today)
+      .order("due_date", { ascending: true });
+
+    if (error) {
+      logger.error(`Error fetching late payments for N4 check: ${error.message}`);
+      console.log(`Error fetching late payments for N4 check: ${error.message}`);
+      throw new Error(`Failed to fetch late payments for N4 check: ${error.message}`);
+    }
+
+    const candidates = new Map<string, N4Candidate>();
+
+    for (const payment of (latePayments || []) as LatePaymentWithRelations[]) {
+      const tenant = payment.tenants;
+      const unit = payment.units;
+
+      if (!tenant || !unit || !unit.properties) {
+        logger.warn(`Missing related data for N4 check on payment ${payment.id}`);
+        console.log(`Missing related data for N4 check on payment ${payment.id}`);
+        continue;
+      }
+
+      // A tenancy that has ended can't be terminated; arrears are on the closing statement
+      if (payment.tenant_units?.status === "ended") {
+        continue;
+      }
+
+      const jurisdiction = getJurisdictionForProvince(unit.properties.province);
+      if (!jurisdiction) {
+        logger.warn(`No jurisdiction rules for province ${unit.properties.province}, skipping payment ${payment.id}`);
+        console.log(`No jurisdiction rules for province ${unit.properties.province}, skipping payment ${payment.id}`);
+        continue;
+      }
+
+      const key = `${tenant.id}:${unit.id}`;
+      let candidate = candidates.get(key);
+      if (!candidate) {
+        candidate = {
+          tenant,
+          jointTenants: [],
+          unit,
+          property: unit.properties,
+          jurisdiction,
+          payments: [],
+          arrears: 0,
+          daysLate: 0,
+          rentFrequency: payment.tenant_units?.rent_frequency || "monthly"
+        };
+        candidates.set(key, candidate);
+      }
+
+      const daysLate = billingCalendarService.getDaysLate(payment.due_date, today);
+
+      candidate.payments.push(payment);
+      candidate.arrears += getRemainingBalance(payment);
+      candidate.daysLate = Math.max(candidate.daysLate, daysLate);
+    }
+
+    const eligible = Array.from(candidates.values()).filter(
+      (candidate) => candidate.daysLate >= candidate.jurisdiction.nonPayment.daysLateBeforeNotice
+    );
+
+    // Arrears on a joint lease are the unit's, owed by all the roommates together
+    for (const candidate of eligible) {
+      const tenantUnitId = candidate.payments[0].tenant_unit_id;
+      if (tenantUnitId) {
+        candidate.jointTenants = (await jointTenancyService.getJointTenants(tenantUnitId))
+          .map((jointTenant) => jointTenant.tenant);
+      }
+    }
+    return eligible;
+  }
+
+  /**
+   * Check whether any of the candidate's payments is already covered by a non-payment notice
+   */
+  async hasExistingN4(candidate: N4Candidate): Promise<boolean> {
+    const notice = await legalNoticeService.findActiveNoticeForPayments(
+      candidate.jurisdiction.nonPayment.noticeType as LegalNoticeType,
+      candidate.payments.map((payment) => payment.id)
+    );
+    return notice !== null;
+  }
+
+  /**
+   * Build the N4 form data for a candidate from the database
+   */
+  async buildN4FormData(candidate: N4Candidate, terminationDate: string): Promise<N4FormData> {
+    const { tenant, jointTenants, unit, property, payments } = candidate;
+
+    const { data: landlord, error } = await supabase
+      .from("landlords")
+      .select("*")
+      .eq("id", property.landlord_id)
+      .single();
+
+    if (error || !landlord) {
+      logger.error(`Error fetching landlord ${property.landlord_id}: ${error?.message || "Landlord not found"}`);
+      console.log(`Error fetching landlord ${property.landlord_id}: ${error?.message || "Landlord not found"}`);
+      throw new Error(`Failed to fetch landlord for property ${property.id}`);
+    }
+
+    // Payments are ordered by due date, so the last one is the most recent rent owing
+    const latestPayment = payments[payments.length - 1];
+
+    // The rent owing table covers every period with a balance, including partial payments
+    const statement = await arrearsService.getArrears(tenant.id, unit.id);
+    const arrearsPeriods = toArrearsPeriodRows(statement);
+
+    return {
+      tenantName: (jointTenants.length > 0 ? jointTenants : [tenant])
+        .map((named) => `${named.first_name} ${named.last_name}`)
+        .join(", "),
+      landlordName: (landlord as Landlord).name,
+      rentalAddress: `${unit.unit_number}, ${property.address}, ${property.city}, ${property.province} ${property.postal_code}`,
+      rentAmount: statement.totalOwing,
+      rentDueDate: getNoticeRentDueDate(arrearsPeriods) || latestPayment.due_date,
+      rentPeriod: statement.rentFrequency,
+      terminationDate,
+      arrearsPeriods
+    };
+  }
+
+  /**
+   * Generate the non-payment notice PDF for a candidate, store it, record it
+   * as a draft legal notice and record a form_n4 notification.
+   * The termination date assumes the notice is served today using the
+   * jurisdiction's default service method.
+   */
+  async generateN4(candidate: N4Candidate): Promise<{ notice: LegalNotice; notification: Notification }> {
+    const { tenant, unit, payments, jurisdiction } = candidate;
+    const noticeType = jurisdiction.noticeTypes[jurisdiction.nonPayment.noticeType];
+    const serviceMethod = jurisdiction.defaultServiceMethod;
+
+    const today = billingCalendarService.today();
+    const earliestTerminationDate = getNoticeTerminationDate(jurisdiction, today, serviceMethod, candidate.rentFrequency);
+
+    const formData = await this.buildN4FormData(candidate, earliestTerminationDate);
+
+    logger.info(`Generating ${noticeType.code} for tenant ${tenant.id}, unit ${unit.id}`);
+    console.log(`Generating ${noticeType.code} for tenant ${tenant.id}, unit ${unit.id}`);
+
+    // Served notices must not be editable
+    const pdf = await generateFormPdf(noticeType.formCode, formData, { flatten: true });
+    const documentPath = await uploadDocument(
+      `${noticeType.code.toLowerCase()}/${tenant.id}/${unit.id}/${noticeType.code}_${today}.pdf`,
+      pdf
+    );
+
+    const { data: tenantUnit, error: tenantUnitError } = await supabase
+      .from("tenant_units")
+      .select("id")
+      .eq("tenant_id", tenant.id)
+      .eq("unit_id", unit.id)
+      .maybeSingle();
+
+    if (tenantUnitError) {
+      logger.warn(`Could not find tenant_unit for tenant ${tenant.id}, unit ${unit.id}: ${tenantUnitError.message}`);
+      console.log(`Could not find tenant_unit for tenant ${tenant.id}, unit ${unit.id}: ${tenantUnitError.message}`);
+    }
+
+    const notice = await legalNoticeService.createNotice({
+      tenant_id: tenant.id,
+      unit_id: unit.id,
+      tenant_unit_id: tenantUnit?.id || null,
+      notice_type: noticeType.code as LegalNoticeType,
+      jurisdiction: jurisdiction.code,
+      parent_notice_id: null,
+      payment_ids: payments.map((payment) => payment.id),
+      amount_owed: formData.rentAmount,
+      termination_date: earliestTerminationDate,
+      rent_period: candidate.rentFrequency,
+      service_method: serviceMethod,
+      served_date: null,
+      deemed_service_date: null,
+      document_path: documentPath,
+      certificate_path: null,
+      status: "draft"
+    });
+
+    // Link the notification to the oldest payment in arrears. Every joint
+    // tenant is served, starting with the one the rent is charged to.
+    const notification = await createNotification(
+      tenant.id,
+      "form_n4",
+      "whatsapp",
+      payments[0].id,
+      undefined,
+      documentPath
+    );
+    for (const roommate of candidate.jointTenants.filter((jointTenant) => jointTenant.id !== tenant.id)) {
+      await createNotification(roommate.id, "form_n4", "whatsapp", payments[0].id, undefined, documentPath);
+    }
+
+    return { notice, notification };
+  }
+}
+
+// Create and export instance for use in other files
+export const n4Service = new N4Service();
@@ -1,16 +1,34 @@
-import { supabase, Notification, Tenant, RentPayment, Unit } from "../config/database";
-import { sendRentDueMessage, sendRentLateMessage } from "./whatsapp.service";
+import { supabase, Notification, Tenant, RentPayment, Unit, Landlord, LegalNotice, PaymentPlanInstallment, AdditionalCharge } from "../config/database";
+import {
+  sendRentDueMessage,
+  sendRentLateMessage,
+  sendN4VoidedMessage,
+  sendInstallmentReminderMessage,
+  sendRentCoveredByCreditMessage,
+  sendAdditionalChargesDueMessage,
+  sendUtilityBillMessage
+} from "./whatsapp.service";
 import { logger } from "../utils/logger";
+import { getRemainingBalance } from "./arrears.utils";
+import { describeCharge, formatLineItems, LineItem } from "./additionalCharge.utils";
+import { getDocumentUrl } from "./storage.service";
+
+// A roommate's part of a joint lease's rent, for reminders about their share only
+export type ShareOwing = { balance: number; interacRequestLink: string | null };
+
+const toLineItems = (charges: AdditionalCharge[]): LineItem[] =>
+  charges.map((charge) => ({ description: describeCharge(charge.category, charge.description), amount: Number(charge.amount) }));
 
 /**
  * Create a notification record
  */
 export const createNotification = async (
   tenantId: string,
-  type: "rent_due" | "rent_late" | "receipt" | "form_n4" | "form_l1",
+  type: Notification["type"],
   channel: "whatsapp" | "email",
   paymentId?: string,
-  messageId?: string
+  messageId?: string,
+  documentPath?: string
 ): Promise<Notification> => {
   logger.debug("Creating notification record");
   console.log("Creating notification record for tenant:", tenantId, "type:", type);
@@ -25,7 +43,8 @@ export const createNotification = async (
         channel,
         status: messageId ? "sent" : "pending",
         message_id: messageId,
-        sent_at: messageId ? new Date().toISOString() : null
+        sent_at: messageId ? new Date().toISOString() : null,
+        document_path: documentPath
       })
       .select()
       .single();
@@ -47,12 +66,14 @@ export const createNotification = async (
 };
 
 /**
- * Update notification status
+ * Update notification status, recording when the message was sent, delivered or read.
+ * statusAt is the time reported by WhatsApp, defaulting to now.
  */
 export const updateNotificationStatus = async (
   notificationId: string,
   status: "pending" | "sent" | "delivered" | "read" | "failed",
-  messageId?: string
+  messageId?: string,
+  statusAt?: string
 ): Promise<Notification> => {
   logger.debug(`Updating notification ${notificationId} status to ${status}`);
   console.log(`Updating notification ${notificationId} status to ${status}`);
@@ -67,7 +88,15 @@ export const updateNotificationStatus = async (
     }
 
     if (status === "sent" && !updateData.sent_at) {
-      updateData.sent_at = new Date().toISOString();
+      updateData.sent_at = statusAt || new Date().toISOString();
+    }
+
+    if (status === "delivered") {
+      updateData.delivered_at = statusAt || new Date().toISOString();
+    }
+
+    if (status === "read") {
+      updateData.read_at = statusAt || new Date().toISOString();
     }
 
     const { data, error } = await supabase
@@ -94,13 +123,16 @@ export const updateNotificationStatus = async (
 };
 
 /**
- * Send rent due notification to a tenant
+ * Send rent due notification to a tenant, or to one roommate for their share.
+ * Charges requested with the rent are added to the amount and listed.
  */
 export const sendRentDueNotification = async (
   tenant: Tenant,
   payment: RentPayment,
   unit: Unit,
-  propertyAddress: string
+  propertyAddress: string,
+  share?: ShareOwing,
+  extras: AdditionalCharge[] = []
 ): Promise<Notification> => {
   logger.debug("Sending rent due notification");
   console.log("Sending rent due notification to tenant:", tenant.first_name, tenant.last_name);
@@ -117,14 +149,24 @@ export const sendRentDueNotification = async (
     // Format the unit address
     const unitAddress = `${unit.unit_number}, ${propertyAddress}`;
     
-    // Send the WhatsApp message
+    // Send the WhatsApp message for what is owing after any credit applied,
+    // with the calculation when the charge is prorated
+    const rentOwing = share ? share.balance : getRemainingBalance(payment);
+    const items = extras.length > 0
+      ? formatLineItems([
+        { description: payment.description ? `Rent (${payment.description})` : "Rent", amount: rentOwing },
+        ...toLineItems(extras)
+      ])
+      : null;
     const messageId = await sendRentDueMessage(
       tenant.phone,
       `${tenant.first_name} ${tenant.last_name}`,
       formattedDate,
-      payment.amount,
+      Math.round((rentOwing + extras.reduce((total, extra) => total + Number(extra.amount), 0)) * 100) / 100,
       unitAddress,
-      payment.interac_request_link || ""
+      (share ? share.interacRequestLink : payment.interac_request_link) || "",
+      payment.description,
+      items
     );
     
     // Create a notification record
@@ -143,14 +185,15 @@ export const sendRentDueNotification = async (
 };
 
 /**
- * Send rent late notification to a tenant
+ * Send rent late notification to a tenant, or to one roommate for their share
  */
 export const sendRentLateNotification = async (
   tenant: Tenant,
   payment: RentPayment,
   unit: Unit,
   propertyAddress: string,
-  daysLate: number
+  daysLate: number,
+  share?: ShareOwing
 ): Promise<Notification> => {
   logger.debug("Sending rent late notification");
   console.log("Sending rent late notification to tenant:", tenant.first_name, tenant.last_name);
@@ -159,14 +202,14 @@ export const sendRentLateNotification = async (
     // Format the unit address
     const unitAddress = `${unit.unit_number}, ${propertyAddress}`;
     
-    // Send the WhatsApp message
+    // Send the WhatsApp message for what is still owing after any partial payments
     const messageId = await sendRentLateMessage(
       tenant.phone,
       `${tenant.first_name} ${tenant.last_name}`,
       daysLate,
-      payment.amount,
+      share ? share.balance : getRemainingBalance(payment),
       unitAddress,
-      payment.interac_request_link || ""
+      (share ? share.interacRequestLink : payment.interac_request_link) || ""
     );
     
     // Create a notification record
@@ -183,3 +226,230 @@ export const sendRentLateNotification = async (
     throw error;
   }
 };
+
+/**
+ * Tell the landlord that an N4 was voided because the tenant paid the arrears
+ */
+export const sendN4VoidedNotification = async (
+  notice: LegalNotice,
+  tenant: Tenant,
+  landlord: Landlord,
+  unitAddress: string
+): Promise<Notification> => {
+  logger.debug(`Sending N4 voided notification for notice ${notice.id}`);
+  console.log("Sending N4 voided notification to landlord:", landlord.name);
+
+  try {
+    const tenantName = `${tenant.first_name} ${tenant.last_name}`;
+
+    // Landlords without a WhatsApp number get a pending email notification instead
+    if (!landlord.phone) {
+      logger.warn(`Landlord ${landlord.id} has no phone number, recording email notification only`);
+      console.log(`Landlord ${landlord.id} has no phone number, recording email notification only`);
+      return await createNotification(tenant.id, "n4_voided", "email", undefined, undefined, notice.document_path || undefined);
+    }
+
+    const messageId = await sendN4VoidedMessage(
+      landlord.phone,
+      landlord.name,
+      tenantName,
+      unitAddress,
+      notice.termination_date || ""
+    );
+
+    return await createNotification(
+      tenant.id,
+      "n4_voided",
+      "whatsapp",
+      undefined,
+      messageId,
+      notice.document_path || undefined
+    );
+  } catch (error) {
+    logger.error("Error sending N4 voided notification", error);
+    console.log("Error sending N4 voided notification", error);
+    throw error;
+  }
+};
+
+/**
+ * Remind a tenant of an upcoming payment plan installment
+ */
+export const sendInstallmentReminderNotification = async (
+  tenant: Tenant,
+  installment: PaymentPlanInstallment,
+  unit: Unit,
+  propertyAddress: string
+): Promise<Notification> => {
+  logger.debug(`Sending installment reminder for installment ${installment.id}`);
+  console.log("Sending installment reminder to tenant:", tenant.first_name, tenant.last_name);
+
+  try {
+    const formattedDate = new Date(installment.due_date).toLocaleDateString("en-CA", {
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+      timeZone: "UTC"
+    });
+
+    const messageId = await sendInstallmentReminderMessage(
+      tenant.phone,
+      `${tenant.first_name} ${tenant.last_name}`,
+      formattedDate,
+      Number(installment.amount) - Number(installment.amount_paid),
+      `${unit.unit_number}, ${propertyAddress}`
+    );
+
+    return await createNotification(
+      tenant.id,
+      "installment_reminder",
+      "whatsapp",
+      undefined,
+      messageId
+    );
+  } catch (error) {
+    logger.error("Error sending installment reminder notification", error);
+    console.log("Error sending installment reminder notification", error);
+    throw error;
+  }
+};
+
+/**
+ * Tell a tenant that this period's rent was paid from the credit on their account
+ */
+export const sendRentCoveredByCreditNotification = async (
+  tenant: Tenant,
+  payment: RentPayment,
+  unit: Unit,
+  propertyAddress: string,
+  creditRemaining: number
+): Promise<Notification> => {
+  logger.debug(`Sending rent covered by credit notification for payment ${payment.id}`);
+  console.log("Sending rent covered by credit notification to tenant:", tenant.first_name, tenant.last_name);
+
+  try {
+    const formattedDate = new Date(payment.due_date).toLocaleDateString("en-CA", {
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+      timeZone: "UTC"
+    });
+
+    const messageId = await sendRentCoveredByCreditMessage(
+      tenant.phone,
+      `${tenant.first_name} ${tenant.last_name}`,
+      formattedDate,
+      Number(payment.amount),
+      creditRemaining,
+      `${unit.unit_number}, ${propertyAddress}`
+    );
+
+    return await createNotification(
+      tenant.id,
+      "credit_applied",
+      "whatsapp",
+      payment.id,
+      messageId
+    );
+  } catch (error) {
+    logger.error("Error sending rent covered by credit notification", error);
+    console.log("Error sending rent covered by credit notification", error);
+    throw error;
+  }
+};
+
+/**
+ * Send a tenant the charges requested apart from their rent, such as parking
+ * or storage on its own schedule, with one Interac request for all of them
+ */
+export const sendAdditionalChargesDueNotification = async (
+  tenant: Tenant,
+  charges: AdditionalCharge[],
+  unit: Unit,
+  propertyAddress: string,
+  interacRequestLink: string | null
+): Promise<Notification> => {
+  logger.debug("Sending additional charges due notification");
+  console.log("Sending additional charges due notification to tenant:", tenant.first_name, tenant.last_name);
+
+  try {
+    // The earliest due date of the charges is the one shown
+    const dueDate = charges.map((charge) => charge.due_date.split("T")[0]).sort()[0];
+    const formattedDate = new Date(dueDate).toLocaleDateString("en-CA", {
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+      timeZone: "UTC"
+    });
+
+    const messageId = await sendAdditionalChargesDueMessage(
+      tenant.phone,
+      `${tenant.first_name} ${tenant.last_name}`,
+      formattedDate,
+      Math.round(charges.reduce((total, charge) => total + Number(charge.amount), 0) * 100) / 100,
+      `${unit.unit_number}, ${propertyAddress}`,
+      interacRequestLink || "",
+      formatLineItems(toLineItems(charges))
+    );
+
+    return await createNotification(
+      tenant.id,
+      "additional_charges_due",
+      "whatsapp",
+      undefined,
+      messageId
+    );
+  } catch (error) {
+    logger.error("Error sending additional charges due notification", error);
+    console.log("Error sending additional charges due notification", error);
+    throw error;
+  }
+};
+
+/**
+ * Send a tenant their part of a utility bill with the breakdown PDF attached
+ */
+export const sendUtilityBillNotification = async (
+  tenant: Tenant,
+  charge: AdditionalCharge,
+  unit: Unit,
+  propertyAddress: string,
+  documentPath: string
+): Promise<Notification> => {
+  logger.debug(`Sending utility bill notification for charge ${charge.id}`);
+  console.log("Sending utility bill notification to tenant:", tenant.first_name, tenant.last_name);
+
+  try {
+    const formattedDate = new Date(charge.due_date).toLocaleDateString("en-CA", {
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+      timeZone: "UTC"
+    });
+
+    const messageId = await sendUtilityBillMessage(
+      tenant.phone,
+      `${tenant.first_name} ${tenant.last_name}`,
+      formattedDate,
+      Number(charge.amount),
+      `${unit.unit_number}, ${propertyAddress}`,
+      charge.interac_request_link || "",
+      describeCharge(charge.category, charge.description),
+      await getDocumentUrl(documentPath),
+      documentPath.split("/").pop() || "Utility_Breakdown.pdf"
+    );
+
+    return await createNotification(
+      tenant.id,
+      "utility_bill",
+      "whatsapp",
+      undefined,
+      messageId,
+      documentPath
+    );
+  } catch (error) {
+    logger.error("Error sending utility bill notification", error);
+    console.log("Error sending utility bill notification", error);
+    throw error;
+  }
+};
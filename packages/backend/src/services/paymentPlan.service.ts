@@ -0,0 +1,359 @@
+import { supabase, PaymentPlan, PaymentPlanInstallment, PaymentPlanStatus, Tenant, Unit, Property } from "../config/database";
+import { logger } from "../utils/logger";
+import { addDays } from "../utils/date";
+import { sendInstallmentReminderNotification } from "./notification.service";
+import { getPlanBalance, isInstallmentMissed, isPlanInGoodStanding, ScheduledInstallment } from "./paymentPlan.utils";
+
+// Reminders go out this many days before an installment is due
+export const INSTALLMENT_REMINDER_DAYS = Number(process.env.INSTALLMENT_REMINDER_DAYS || 3);
+
+export interface PaymentPlanWithInstallments extends PaymentPlan {
+  installments: PaymentPlanInstallment[];
+  balance: number;
+  in_good_standing: boolean;
+}
+
+export interface PaymentPlanFilters {
+  tenantId?: string;
+  tenantUnitId?: string;
+  status?: PaymentPlanStatus;
+}
+
+type InstallmentWithPlan = PaymentPlanInstallment & {
+  payment_plans: PaymentPlan & {
+    tenants: Tenant;
+    units: Unit & { properties: Property };
+  };
+};
+
+const today = (): string => new Date().toISOString().split("T")[0];
+
+export class PaymentPlanService {
+  /**
+   * Add the schedule, balance and standing to a payment plan row
+   */
+  private withInstallments(plan: PaymentPlan & { payment_plan_installments?: PaymentPlanInstallment[] }, asOf: string): PaymentPlanWithInstallments {
+    const { payment_plan_installments: rows, ...planData } = plan;
+    const installments = [...(rows || [])].sort((a, b) => a.due_date.localeCompare(b.due_date));
+
+    return {
+      ...planData,
+      installments,
+      balance: getPlanBalance(installments),
+      in_good_standing: isPlanInGoodStanding(plan, installments, asOf)
+    };
+  }
+
+  /**
+   * Create a payment plan for a tenant_unit with its installment schedule
+   */
+  async createPlan(
+    tenantUnitId: string,
+    totalOwed: number,
+    schedule: ScheduledInstallment[],
+    notes?: string
+  ): Promise<PaymentPlanWithInstallments> {
+    const { data: tenantUnit, error: tenantUnitError } = await supabase
+      .from("tenant_units")
+      .select("id, tenant_id, unit_id")
+      .eq("id", tenantUnitId)
+      .maybeSingle();
+
+    if (tenantUnitError) {
+      logger.error(`Error fetching tenant_unit ${tenantUnitId}: ${tenantUnitError.message}`);
+      console.log(`Error fetching tenant_unit ${tenantUnitId}: ${tenantUnitError.message}`);
+      throw new Error(`Failed to fetch tenant_unit: ${tenantUnitError.message}`);
+    }
+
+    if (!tenantUnit) {
+      throw Object.assign(new Error(`Tenant unit ${tenantUnitId} not found`), { statusCode: 404 });
+    }
+
+    logger.info(`Creating payment plan for tenant_unit ${tenantUnitId}: ${totalOwed} in ${schedule.length} installments`);
+    console.log(`Creating payment plan for tenant_unit ${tenantUnitId}: ${totalOwed} in ${schedule.length} installments`);
+
+    const { data: plan, error } = await supabase
+      .from("payment_plans")
+      .insert([{
+        tenant_unit_id: tenantUnit.id,
+        tenant_id: tenantUnit.tenant_id,
+        unit_id: tenantUnit.unit_id,
+        total_owed: totalOwed,
+        status: "active",
+        notes: notes || null
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      logger.error(`Error creating payment plan: ${error.message}`);
+      console.log(`Error creating payment plan: ${error.message}`);
+      throw new Error(`Failed to create payment plan: ${error.message}`);
+    }
+
+    const { data: installments, error: installmentsError } = await supabase
+      .from("payment_plan_installments")
+      .insert(schedule.map((installment) => ({
+        payment_plan_id: plan.id,
+        due_date: installment.due_date,
+        amount: installment.amount,
+        amount_paid: 0,
+        status: "pending"
+      })))
+      .select();
+
+    if (installmentsError) {
+      logger.error(`Error creating installments for payment plan ${plan.id}: ${installmentsError.message}`);
+      console.log(`Error creating installments for payment plan ${plan.id}: ${installmentsError.message}`);
+      throw new Error(`Failed to create payment plan installments: ${installmentsError.message}`);
+    }
+
+    return this.withInstallments({ ...plan, payment_plan_installments: installments || [] }, today());
+  }
+
+  /**
+   * List payment plans with their installments
+   */
+  async listPlans(filters: PaymentPlanFilters = {}): Promise<PaymentPlanWithInstallments[]> {
+    let query = supabase
+      .from("payment_plans")
+      .select("*, payment_plan_installments (*)")
+      .order("created_at", { ascending: false });
+
+    if (filters.tenantId) {
+      query = query.eq("tenant_id", filters.tenantId);
+    }
+    if (filters.tenantUnitId) {
+      query = query.eq("tenant_unit_id", filters.tenantUnitId);
+    }
+    if (filters.status) {
+      query = query.eq("status", filters.status);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      logger.error(`Error fetching payment plans: ${error.message}`);
+      console.log(`Error fetching payment plans: ${error.message}`);
+      throw new Error(`Failed to fetch payment plans: ${error.message}`);
+    }
+
+    const asOf = today();
+    return (data || []).map((plan) => this.withInstallments(plan, asOf));
+  }
+
+  /**
+   * Get a payment plan with its installments
+   */
+  async getPlanById(id: string): Promise<PaymentPlanWithInstallments | null> {
+    const { data, error } = await supabase
+      .from("payment_plans")
+      .select("*, payment_plan_installments (*)")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`Error fetching payment plan ${id}: ${error.message}`);
+      console.log(`Error fetching payment plan ${id}: ${error.message}`);
+      throw new Error(`Failed to fetch payment plan: ${error.message}`);
+    }
+    return data ? this.withInstallments(data, today()) : null;
+  }
+
+  /**
+   * Update the status of a payment plan
+   */
+  async updatePlanStatus(id: string, status: PaymentPlanStatus): Promise<PaymentPlan> {
+    logger.info(`Setting payment plan ${id} to ${status}`);
+    console.log(`Setting payment plan ${id} to ${status}`);
+
+    const { data, error } = await supabase
+      .from("payment_plans")
+      .update({ status })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) {
+      logger.error(`Error updating payment plan ${id}: ${error.message}`);
+      console.log(`Error updating payment plan ${id}: ${error.message}`);
+      throw new Error(`Failed to update payment plan: ${error.message}`);
+    }
+    return data;
+  }
+
+  /**
+   * Record money received against an installment. Completes the plan once
+   * every installment has been paid in full.
+   */
+  async recordInstallmentPayment(
+    planId: string,
+    installmentId: string,
+    amount: number,
+    paidDate: string = today()
+  ): Promise<PaymentPlanWithInstallments> {
+    const plan = await this.getPlanById(planId);
+    const installment = plan?.installments.find((row) => row.id === installmentId);
+
+    if (!plan || !installment) {
+      throw Object.assign(new Error(`Installment ${installmentId} not found on payment plan ${planId}`), { statusCode: 404 });
+    }
+
+    const amountPaid = Number(installment.amount_paid) + amount;
+    const paidInFull = amountPaid >= Number(installment.amount);
+
+    const { error } = await supabase
+      .from("payment_plan_installments")
+      .update({
+        amount_paid: amountPaid,
+        paid_date: paidInFull ? paidDate.split("T")[0] : installment.paid_date,
+        // A missed installment stays flagged even when it is caught up later
+        status: paidInFull && installment.status !== "missed" ? "paid" : installment.status
+      })
+      .eq("id", installmentId);
+
+    if (error) {
+      logger.error(`Error recording payment on installment ${installmentId}: ${error.message}`);
+      console.log(`Error recording payment on installment ${installmentId}: ${error.message}`);
+      throw new Error(`Failed to record installment payment: ${error.message}`);
+    }
+
+    const updatedPlan = await this.getPlanById(planId) as PaymentPlanWithInstallments;
+    if (updatedPlan.balance <= 0 && updatedPlan.status !== "completed") {
+      updatedPlan.status = (await this.updatePlanStatus(planId, "completed")).status;
+    }
+    return updatedPlan;
+  }
+
+  /**
+   * Flag every unpaid installment of an active plan whose due date has passed
+   * as missed and mark its plan as defaulted, so escalations resume.
+   * Returns the installments that were flagged.
+   */
+  async flagMissedInstallments(asOf: string = today()): Promise<PaymentPlanInstallment[]> {
+    const { data, error } = await supabase
+      .from("payment_plan_installments")
+      .select("*, payment_plans!inner (status)")
+      .eq("status", "pending")
+      .eq("payment_plans.status", "active")
+      .lt("due_date", asOf);
+
+    if (error) {
+      logger.error(`Error fetching overdue installments: ${error.message}`);
+      console.log(`Error fetching overdue installments: ${error.message}`);
+      throw new Error(`Failed to fetch overdue installments: ${error.message}`);
+    }
+
+    const missed = ((data || []) as PaymentPlanInstallment[]).filter((installment) => isInstallmentMissed(installment, asOf));
+    const flagged: PaymentPlanInstallment[] = [];
+
+    for (const installment of missed) {
+      logger.warn(`Installment ${installment.id} of payment plan ${installment.payment_plan_id} was missed`);
+      console.log(`Installment ${installment.id} of payment plan ${installment.payment_plan_id} was missed`);
+
+      const { data: updated, error: updateError } = await supabase
+        .from("payment_plan_installments")
+        .update({ status: "missed" })
+        .eq("id", installment.id)
+        .select()
+        .single();
+
+      if (updateError) {
+        logger.error(`Error flagging installment ${installment.id} as missed: ${updateError.message}`);
+        console.log(`Error flagging installment ${installment.id} as missed: ${updateError.message}`);
+        throw new Error(`Failed to flag missed installment: ${updateError.message}`);
+      }
+      flagged.push(updated);
+    }
+
+    const defaultedPlanIds = new Set(flagged.map((installment) => installment.payment_plan_id));
+    for (const planId of defaultedPlanIds) {
+      await this.updatePlanStatus(planId, "defaulted");
+    }
+
+    return flagged;
+  }
+
+  /**
+   * Keys (tenant_id:unit_id) of tenancies with a payment plan in good standing.
+   * Late rent reminders and N4s are paused for these.
+   */
+  async getTenanciesInGoodStanding(asOf: string = today()): Promise<Set<string>> {
+    const plans = await this.listPlans({ status: "active" });
+
+    return new Set(
+      plans
+        .filter((plan) => isPlanInGoodStanding(plan, plan.installments, asOf))
+        .map((plan) => `${plan.tenant_id}:${plan.unit_id}`)
+    );
+  }
+
+  /**
+   * Send a WhatsApp reminder for every unpaid installment of an active plan due
+   * within INSTALLMENT_REMINDER_DAYS that has not been reminded yet
+   */
+  async sendInstallmentReminders(asOf: string = today()) {
+    const { data, error } = await supabase
+      .from("payment_plan_installments")
+      .select("*, payment_plans!inner (*, tenants (*), units (*, properties(*)))")
+      .eq("status", "pending")
+      .eq("payment_plans.status", "active")
+      .is("reminder_sent_at", null)
+      .gte("due_date", asOf)
+      .lte("due_date", addDays(asOf, INSTALLMENT_REMINDER_DAYS));
+
+    if (error) {
+      logger.error(`Error fetching upcoming installments: ${error.message}`);
+      console.log(`Error fetching upcoming installments: ${error.message}`);
+      throw new Error(`Failed to fetch upcoming installments: ${error.message}`);
+    }
+
+    const results = [];
+
+    for (const installment of (data || []) as InstallmentWithPlan[]) {
+      const plan = installment.payment_plans;
+      const { tenants: tenant, units: unit } = plan;
+
+      try {
+        if (!tenant || !unit?.properties) {
+          throw new Error("Missing tenant or unit for payment plan");
+        }
+
+        const property = unit.properties;
+        const propertyAddress = `${property.address}, ${property.city}, ${property.province} ${property.postal_code}`;
+        const notification = await sendInstallmentReminderNotification(tenant, installment, unit, propertyAddress);
+
+        await supabase
+          .from("payment_plan_installments")
+          .update({ reminder_sent_at: new Date().toISOString() })
+          .eq("id", installment.id);
+
+        results.push({
+          tenant: `${tenant.first_name} ${tenant.last_name}`,
+          unit: unit.unit_number,
+          amount: Number(installment.amount) - Number(installment.amount_paid),
+          due_date: installment.due_date,
+          payment_plan_id: plan.id,
+          installment_id: installment.id,
+          status: "reminder_sent",
+          notification_id: notification.id
+        });
+      } catch (error) {
+        logger.error(`Error sending reminder for installment ${installment.id}`, error);
+        console.log(`Error sending reminder for installment ${installment.id}`, error);
+
+        results.push({
+          payment_plan_id: plan.id,
+          installment_id: installment.id,
+          status: "failed",
+          error: (error as Error).message
+        });
+      }
+    }
+
+    return results;
+  }
+}
+
+// Create and export instance for use in other files
+export const paymentPlanService = new PaymentPlanService();
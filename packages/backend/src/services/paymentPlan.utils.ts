@@ -0,0 +1,80 @@
+// Pure calculations for payment plans. Kept free of database access so the
+// installment schedule and good standing rules can be unit tested.
+import { addDays, addMonths } from "../utils/date";
+
+export type InstallmentFrequency = "weekly" | "biweekly" | "monthly";
+
+/**
+ * The fields of a payment_plan_installments row the rules need
+ */
+export interface InstallmentRow {
+  due_date: string;
+  amount: number;
+  amount_paid: number;
+  status: "pending" | "paid" | "missed";
+}
+
+export interface ScheduledInstallment {
+  due_date: string;
+  amount: number;
+}
+
+const roundToCents = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Split the total owed into equal installments starting on the given date.
+ * Rounding differences go on the last installment so the schedule adds up to the total.
+ */
+export const buildInstallmentSchedule = (
+  totalOwed: number,
+  installmentCount: number,
+  startDate: string,
+  frequency: InstallmentFrequency = "monthly"
+): ScheduledInstallment[] => {
+  const amount = roundToCents(totalOwed / installmentCount);
+  const schedule: ScheduledInstallment[] = [];
+
+  for (let index = 0; index < installmentCount; index++) {
+    const dueDate = frequency === "monthly"
+      ? addMonths(startDate, index)
+      : addDays(startDate, index * (frequency === "weekly" ? 7 : 14));
+    const isLast = index === installmentCount - 1;
+
+    schedule.push({
+      due_date: dueDate,
+      amount: isLast ? roundToCents(totalOwed - amount * (installmentCount - 1)) : amount
+    });
+  }
+  return schedule;
+};
+
+/**
+ * Total of a schedule, used to check it covers what the tenant owes
+ */
+export const getScheduleTotal = (installments: { amount: number }[]): number =>
+  roundToCents(installments.reduce((total, installment) => total + Number(installment.amount), 0));
+
+/**
+ * Whether an installment was not paid in full by its due date
+ */
+export const isInstallmentMissed = (installment: InstallmentRow, today: string): boolean =>
+  installment.status === "missed" ||
+  (installment.status !== "paid" && installment.due_date < today && Number(installment.amount_paid) < Number(installment.amount));
+
+/**
+ * A plan is in good standing while it is active and no installment has been missed
+ */
+export const isPlanInGoodStanding = (
+  plan: { status: string },
+  installments: InstallmentRow[],
+  today: string
+): boolean => plan.status === "active" && !installments.some((installment) => isInstallmentMissed(installment, today));
+
+/**
+ * Amount still owing under the plan
+ */
+export const getPlanBalance = (installments: InstallmentRow[]): number =>
+  roundToCents(installments.reduce(
+    (total, installment) => total + Math.max(0, Number(installment.amount) - Number(installment.amount_paid)),
+    0
+  ));
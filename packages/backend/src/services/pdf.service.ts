@@ -0,0 +1,220 @@
+import axios from "axios";
+import { logger } from "../utils/logger";
+import { ArrearsStatement } from "./arrears.utils";
+
+// The URL to the PDF service
+export const PDF_SERVICE_URL = process.env.PDF_SERVICE_URL || "http://localhost:3001";
+
+/**
+ * One row of the rent owing table on the N4/L1
+ */
+export interface ArrearsPeriodRow {
+  periodStart: string;
+  periodEnd: string;
+  rentCharged: number;
+  rentPaid: number;
+  rentOwing: number;
+}
+
+/**
+ * Data required by the PDF service to render an N4 form
+ */
+export interface N4FormData {
+  tenantName: string;
+  landlordName: string;
+  rentalAddress: string;
+  rentAmount: number;
+  rentDueDate: string;
+  rentPeriod?: string;
+  terminationDate?: string;
+  arrearsPeriods?: ArrearsPeriodRow[];
+}
+
+/**
+ * Data required by the PDF service to render an L1 form
+ */
+export interface L1FormData {
+  tenantName: string;
+  landlordName: string;
+  rentalAddress: string;
+  rentAmount: number;
+  rentDueDate: string;
+  rentPeriod?: string;
+  reasonForApplication?: string;
+  arrearsPeriods?: ArrearsPeriodRow[];
+}
+
+/**
+ * Data required by the PDF service to render a Certificate of Service
+ */
+export interface CertificateOfServiceFormData {
+  tenantName: string;
+  landlordName: string;
+  rentalAddress: string;
+  noticeType: string;
+  servedDate: string;
+  serviceMethod: string;
+  deemedServiceDate: string;
+  servedBy: string;
+}
+
+/**
+ * Everything the PDF service needs to assemble an L1 filing package. The
+ * served N4 and Certificate of Service are the stored PDFs, base64 encoded.
+ */
+export interface L1PackageData {
+  l1: L1FormData;
+  servedN4: string;
+  certificateOfService: string;
+  ledger: {
+    tenantName: string;
+    landlordName: string;
+    rentalAddress: string;
+    asOf: string;
+    rows: (ArrearsPeriodRow & { balance: number })[];
+  };
+  evidence: {
+    tenantName: string;
+    rentalAddress: string;
+    records: {
+      type: string;
+      channel: string;
+      status: string;
+      messageId: string | null;
+      sentAt: string | null;
+      deliveredAt: string | null;
+      readAt: string | null;
+    }[];
+  };
+}
+
+/**
+ * A closing statement settling a tenancy on move-out. Positive line amounts
+ * are owed by the tenant, negative ones reduce what they owe.
+ */
+export interface ClosingStatementData {
+  tenantName: string;
+  landlordName: string;
+  rentalAddress: string;
+  moveOutDate: string;
+  statementDate: string;
+  lines: { description: string; amount: number }[];
+  balance: number;
+}
+
+/**
+ * A tenant's breakdown of a utility bill split across the property's units
+ */
+export interface UtilityBreakdownData {
+  tenantName: string;
+  rentalAddress: string;
+  utility: string;
+  periodStart: string;
+  periodEnd: string;
+  totalAmount: number;
+  allocationMethod: string;
+  dueDate: string;
+  rows: { unitNumber: string; basis: string; share: number; amount: number }[];
+  amountDue: number;
+}
+
+/**
+ * Output options passed through to the PDF service
+ */
+export interface PdfOutputOptions {
+  // Merge the filled fields into the page so the document can't be edited
+  flatten?: boolean;
+  // Filing packages only: return a ZIP of the documents instead of one merged PDF
+  format?: "pdf" | "zip";
+}
+
+/**
+ * Convert an arrears statement into the rent owing table rows the forms expect
+ */
+export const toArrearsPeriodRows = (statement: ArrearsStatement): ArrearsPeriodRow[] =>
+  statement.periods
+    .filter((period) => period.rentOwing > 0)
+    .map(({ periodStart, periodEnd, rentCharged, rentPaid, rentOwing }) => ({
+      periodStart,
+      periodEnd,
+      rentCharged,
+      rentPaid,
+      rentOwing
+    }));
+
+/**
+ * Request a PDF from the PDF service and return the raw document
+ */
+export const requestPdf = async (path: string, formData: object, options: PdfOutputOptions = {}): Promise<Buffer> => {
+  logger.debug(`Requesting PDF from ${PDF_SERVICE_URL}/pdf/${path}`);
+  console.log(`Requesting PDF from ${PDF_SERVICE_URL}/pdf/${path}`);
+
+  try {
+    const response = await axios.post(`${PDF_SERVICE_URL}/pdf/${path}`, formData, {
+      responseType: "arraybuffer",
+      params: {
+        flatten: options.flatten ? "true" : undefined,
+        format: options.format
+      }
+    });
+
+    return Buffer.from(response.data);
+  } catch (error) {
+    logger.error(`Error requesting PDF ${path} from PDF service`, error);
+    console.log(`Error requesting PDF ${path} from PDF service`, error);
+
+    // Pass validation errors, and a missing form template (503), from the PDF
+    // service back to the caller
+    const response = axios.isAxiosError(error) ? error.response : undefined;
+    if (response && (response.status < 500 || response.status === 503)) {
+      let body: { error?: string; errors?: string[] } = {};
+      try {
+        body = JSON.parse(Buffer.from(response.data).toString());
+      } catch (parseError) {
+        // Not a JSON error body
+      }
+      throw Object.assign(new Error(body.error || `Failed to generate PDF: ${path}`), {
+        statusCode: response.status,
+        errors: body.errors
+      });
+    }
+
+    throw new Error(`Failed to generate PDF: ${path}`);
+  }
+};
+
+/**
+ * Generate any form registered in the PDF service
+ */
+export const generateFormPdf = (formCode: string, formData: object, options?: PdfOutputOptions): Promise<Buffer> =>
+  requestPdf(`forms/${formCode.toUpperCase()}`, formData, options);
+
+/**
+ * Generate an N4 form through the PDF service
+ */
+export const generateN4Pdf = (formData: N4FormData, options?: PdfOutputOptions): Promise<Buffer> =>
+  generateFormPdf("N4", formData, options);
+
+/**
+ * Generate a Certificate of Service through the PDF service
+ */
+export const generateCertificateOfServicePdf = (formData: CertificateOfServiceFormData, options?: PdfOutputOptions): Promise<Buffer> =>
+  generateFormPdf("COS", formData, options);
+
+/**
+ * Generate the L1 filing package through the PDF service
+ */
+export const generateL1PackagePdf = (packageData: L1PackageData, format: "pdf" | "zip" = "pdf"): Promise<Buffer> =>
+  requestPdf("l1-package", packageData, { format });
+
+/**
+ * Generate a closing statement through the PDF service
+ */
+export const generateClosingStatementPdf = (statement: ClosingStatementData): Promise<Buffer> =>
+  requestPdf("closing-statement", statement);
+
+/**
+ * Generate a utility bill breakdown through the PDF service
+ */
+export const generateUtilityBreakdownPdf = (breakdown: UtilityBreakdownData): Promise<Buffer> =>
+  requestPdf("utility-breakdown", breakdown);
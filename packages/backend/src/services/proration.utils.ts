@@ -0,0 +1,93 @@
+// Pure calculations for prorating rent over part of a rental period when a
+// lease starts or ends mid-period. Kept free of database access so the
+// proration methods can be unit tested.
+import { parseDate } from "../utils/date";
+import { RentFrequency } from "./billing.utils";
+
+/**
+ * How the daily rate for a partial period is worked out
+ * - actual_days: rent divided by the number of days in the period (default)
+ * - 365_12: rent annualised and divided by 365, so every day costs the same
+ *   whatever the length of the month
+ */
+export type ProrationMethod = "actual_days" | "365_12";
+
+export const PRORATION_METHODS: ProrationMethod[] = ["actual_days", "365_12"];
+
+const PERIODS_PER_YEAR: Record<RentFrequency, number> = {
+  weekly: 52,
+  biweekly: 26,
+  monthly: 12,
+  quarterly: 4
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const roundToCents = (value: number): number => Math.round(value * 100) / 100;
+
+const daysInclusive = (start: string, end: string): number =>
+  Math.round((parseDate(end).getTime() - parseDate(start).getTime()) / MS_PER_DAY) + 1;
+
+/**
+ * The part of a rental period covered by a lease, with the calculation used
+ * to charge for it
+ */
+export interface Proration {
+  start: string;
+  end: string;
+  days: number;
+  periodDays: number;
+  dailyRate: number;
+  method: ProrationMethod;
+  description: string;
+}
+
+export interface PeriodRent {
+  amount: number;
+  proration: Proration | null; // Null when the whole period is charged
+}
+
+export interface LeaseDates {
+  start?: string | null;
+  end?: string | null;
+}
+
+/**
+ * The rent owed for a period given the lease dates. The full rent is charged
+ * when the lease covers the whole period, a prorated amount when it starts or
+ * ends inside it, and null when the lease does not overlap the period at all.
+ */
+export const getRentForPeriod = (
+  rent: number,
+  period: { periodStart: string; periodEnd: string },
+  lease: LeaseDates,
+  method: ProrationMethod = "actual_days",
+  frequency: RentFrequency = "monthly"
+): PeriodRent | null => {
+  const start = lease.start && lease.start > period.periodStart ? lease.start : period.periodStart;
+  const end = lease.end && lease.end < period.periodEnd ? lease.end : period.periodEnd;
+  if (start > end) {
+    return null;
+  }
+  if (start === period.periodStart && end === period.periodEnd) {
+    return { amount: rent, proration: null };
+  }
+
+  const days = daysInclusive(start, end);
+  const periodDays = daysInclusive(period.periodStart, period.periodEnd);
+  // Rounded once on the total so the daily rate's rounding isn't multiplied
+  // by the days. The description shows the exact formula for the same reason.
+  const exactDailyRate = method === "365_12" ? (rent * PERIODS_PER_YEAR[frequency]) / 365 : rent / periodDays;
+  const dailyRate = roundToCents(exactDailyRate);
+  const amount = Math.min(rent, roundToCents(exactDailyRate * days));
+
+  const formula = method === "365_12"
+    ? `$${rent.toFixed(2)} x ${PERIODS_PER_YEAR[frequency]} x ${days} / 365`
+    : `$${rent.toFixed(2)} x ${days} / ${periodDays}`;
+  const description = `Prorated rent ${start} to ${end}: ${days} of ${periodDays} days (${formula}) = $${amount.toFixed(2)}`;
+
+  return {
+    amount,
+    proration: { start, end, days, periodDays, dailyRate, method, description }
+  };
+};
@@ -1,6 +1,20 @@
-import { supabase, RentPayment, Tenant, Unit } from "../config/database";
+import { supabase, RentPayment, Tenant, TenantUnit, Unit, Property, Landlord, LedgerEntry } from "../config/database";
 import { logger } from "../utils/logger";
 import { paymentService } from "./payment.service";
+import { legalNoticeService } from "./legalNotice.service";
+import { sendN4VoidedNotification } from "./notification.service";
+import { getRemainingBalance } from "./arrears.utils";
+import { getBillingPeriod, PeriodDueDate } from "./billing.utils";
+import { getRentForPeriod, ProrationMethod } from "./proration.utils";
+import { getRentInForce, RentChange } from "./rentHistory.utils";
+import { billingCalendarService } from "./billingCalendar.service";
+import { ledgerService, RentChargeRow } from "./ledger.service";
+import { depositService } from "./deposit.service";
+import { isFinalRentPeriod, DEPOSIT_PAYMENT_METHOD } from "./deposit.utils";
+import { MOVE_OUT_CATEGORY } from "./moveOut.utils";
+import { jointTenancyService } from "./jointTenancy.service";
+import { additionalChargeService } from "./additionalCharge.service";
+import { describeCharge, formatLineItems } from "./additionalCharge.utils";
 
 export class RentService {
   /**
@@ -18,9 +32,146 @@ export class RentService {
       console.log(`Error creating rent payment: ${error.message}`);
       throw new Error(`Failed to create rent payment: ${error.message}`);
     }
+
+    await this.recordLedgerCharge(data);
     return data;
   }
 
+  /**
+   * Put a new rent charge on the tenant's ledger. A ledger failure is logged
+   * rather than thrown so the rent_payments row is not lost.
+   */
+  private async recordLedgerCharge(payment: RentPayment): Promise<void> {
+    try {
+      await ledgerService.recordRentCharge(payment);
+    } catch (ledgerError) {
+      logger.error(`Error adding rent payment ${payment.id} to the ledger: ${ledgerError}`);
+      console.log(`Error adding rent payment ${payment.id} to the ledger: ${ledgerError}`);
+    }
+  }
+
+  /**
+   * Create the rent charge for a tenant_unit's billing period. The database
+   * keeps one charge per tenant_unit and period, so when the charge already
+   * exists nothing is written and null is returned. Safe to call any number
+   * of times, including from concurrent jobs. The charge for the last period
+   * of the lease is paid from the last month's rent deposit, and a joint
+   * lease's charge is split between the roommates.
+   */
+  async createRentChargeForPeriod(
+    paymentData: Omit<RentPayment, "id" | "created_at" | "updated_at"> & { tenant_unit_id: string },
+    finalPeriod: boolean = false
+  ): Promise<RentPayment | null> {
+    const billingPeriod = paymentData.billing_period || getBillingPeriod(paymentData.due_date);
+
+    const { data, error } = await supabase
+      .from("rent_payments")
+      .upsert([{ ...paymentData, billing_period: billingPeriod }], {
+        onConflict: "tenant_unit_id,billing_period",
+        ignoreDuplicates: true
+      })
+      .select();
+
+    if (error) {
+      logger.error(`Error creating rent charge for tenant_unit ${paymentData.tenant_unit_id}, period ${billingPeriod}: ${error.message}`);
+      console.log(`Error creating rent charge for tenant_unit ${paymentData.tenant_unit_id}, period ${billingPeriod}: ${error.message}`);
+      throw new Error(`Failed to create rent charge: ${error.message}`);
+    }
+
+    const created = data && data[0];
+    if (!created) {
+      logger.debug(`Rent charge for tenant_unit ${paymentData.tenant_unit_id}, period ${billingPeriod} already exists`);
+      console.log(`Rent charge for tenant_unit ${paymentData.tenant_unit_id}, period ${billingPeriod} already exists`);
+      return null;
+    }
+
+    await this.recordLedgerCharge(created);
+    const { payment } = await this.applyCreditToPayment(created);
+    const charged = finalPeriod ? (await this.applyDepositToPayment(payment)).payment : payment;
+    await this.splitJointCharge(charged);
+    return charged;
+  }
+
+  /**
+   * The part of a new rent charge to ask the tenant for. Credit from
+   * overpayments and prepayments pays the rent first, then the last month's
+   * rent deposit pays the final period.
+   */
+  async getRentToRequest(tenantUnitId: string, amount: number, finalPeriod: boolean): Promise<number> {
+    const credit = await ledgerService.getCreditBalance(tenantUnitId);
+    const deposit = finalPeriod ? await depositService.getHeldDeposit(tenantUnitId) : null;
+    return Math.max(0, Math.round((amount - credit - Number(deposit?.amount || 0)) * 100) / 100);
+  }
+
+  /**
+   * Split a joint lease's rent charge between the roommates. A failure is
+   * logged rather than thrown; the charge itself stands for the whole unit.
+   */
+  private async splitJointCharge(payment: RentPayment): Promise<void> {
+    try {
+      await jointTenancyService.splitCharge(payment);
+    } catch (splitError) {
+      logger.error(`Error splitting rent payment ${payment.id} between joint tenants: ${splitError}`);
+      console.log(`Error splitting rent payment ${payment.id} between joint tenants: ${splitError}`);
+    }
+  }
+
+  /**
+   * What to charge a tenant_unit for a period: the rent in force at the start
+   * of the period, prorated when the lease starts or ends inside it. A
+   * move-in charge falls due on the lease start rather than before the tenant
+   * moves in. Returns null when the lease does not cover the period at all.
+   */
+  getChargeForPeriod(
+    tenantUnit: Pick<TenantUnit, "rent_amount" | "rent_frequency" | "lease_start" | "lease_end"> & { rent_history?: RentChange[] | null },
+    period: PeriodDueDate,
+    prorationMethod?: ProrationMethod | null
+  ): { amount: number; dueDate: string; description: string | null } | null {
+    // Without any history the rent has not changed since it was set on tenant_units
+    const rentAmount = getRentInForce(tenantUnit.rent_history || [], period.periodStart) ?? Number(tenantUnit.rent_amount);
+    const rent = getRentForPeriod(
+      rentAmount,
+      period,
+      {
+        start: tenantUnit.lease_start ? tenantUnit.lease_start.split("T")[0] : null,
+        end: tenantUnit.lease_end ? tenantUnit.lease_end.split("T")[0] : null
+      },
+      prorationMethod || "actual_days",
+      tenantUnit.rent_frequency || "monthly"
+    );
+    if (!rent) {
+      return null;
+    }
+
+    const { proration } = rent;
+    return {
+      amount: rent.amount,
+      dueDate: proration && proration.start > period.dueDate ? proration.start : period.dueDate,
+      description: proration ? proration.description : null
+    };
+  }
+
+  /**
+   * Whether a tenant_unit already has its rent charge for a billing period.
+   * Only used to skip work such as Interac links; uniqueness is enforced by
+   * the database in createRentChargeForPeriod.
+   */
+  async hasRentChargeForPeriod(tenantUnitId: string, billingPeriod: string): Promise<boolean> {
+    const { data, error } = await supabase
+      .from("rent_payments")
+      .select("id")
+      .eq("tenant_unit_id", tenantUnitId)
+      .eq("billing_period", billingPeriod)
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`Error checking rent charge for tenant_unit ${tenantUnitId}, period ${billingPeriod}: ${error.message}`);
+      console.log(`Error checking rent charge for tenant_unit ${tenantUnitId}, period ${billingPeriod}: ${error.message}`);
+      throw new Error(`Failed to check rent charge: ${error.message}`);
+    }
+    return data !== null;
+  }
+
   /**
    * Get rent payment by ID
    */  async getRentPaymentById(id: string): Promise<RentPayment | null> {
@@ -79,42 +230,10 @@ export class RentService {
   }
 
   /**
-   * Get all pending rent payments
-   */  async getPendingRentPayments(): Promise<RentPayment[]> {
-    const { data, error } = await supabase
-      .from("rent_payments")
-      .select(`
-        *,
-        tenants (first_name, last_name),
-        units (unit_number)
-      `)
-      .in("status", ["pending", "late"]);
-
-    if (error) {
-      logger.error(`Error fetching pending rent payments: ${error.message}`);
-      console.log(`Error fetching pending rent payments: ${error.message}`);
-      throw new Error(`Failed to fetch pending rent payments: ${error.message}`);
-    }
-
-    // Transform the data to include tenant_name and unit_number
-    const formattedData = (data || []).map((payment: any) => {
-      const tenant_name = payment.tenants
-        ? `${payment.tenants.first_name} ${payment.tenants.last_name}`
-        : 'Unknown Tenant';
-
-      const unit_number = payment.units
-        ? payment.units.unit_number
-        : 'Unknown Unit';
-
-      // Return payment with flattened tenant and unit information
-      return {
-        ...payment,
-        tenant_name,
-        unit_number
-      };
-    });
-
-    return formattedData;
+   * Get all rent charges that are not paid in full, derived from the ledger
+   */
+  async getPendingRentPayments(): Promise<RentChargeRow[]> {
+    return ledgerService.getOpenRentCharges();
   }
 
   /**
@@ -131,43 +250,348 @@ export class RentService {
       updateData.payment_date = paymentDate;
     }
 
-    const { data, error } = await supabase
+    const { data: updated, error } = await supabase
       .from("rent_payments")
       .update(updateData)
       .eq("id", id)
       .select()
       .single();
+    let data: RentPayment = updated;
 
     if (error) {
       logger.error(`Error updating rent payment status ${id}: ${error.message}`);
       console.log(`Error updating rent payment status ${id}: ${error.message}`);
       throw new Error(`Failed to update rent payment status: ${error.message}`);
     }
+
+    // A payment may clear the arrears behind an open N4, which voids it
+    if (status === "paid") {
+      // Marking as paid records whatever was still owing as one more payment
+      try {
+        await ledgerService.settleRentCharge(data, data.payment_date || undefined, data.payment_method);
+        data = await this.applyPaymentTotals(data);
+      } catch (ledgerError) {
+        logger.error(`Error recording payment ${id} on the ledger: ${ledgerError}`);
+        console.log(`Error recording payment ${id} on the ledger: ${ledgerError}`);
+      }
+
+      try {
+        await this.voidSettledLegalNotices(data);
+      } catch (noticeError) {
+        logger.error(`Error reconciling legal notices after payment ${id}: ${noticeError}`);
+        console.log(`Error reconciling legal notices after payment ${id}: ${noticeError}`);
+      }
+    }
+
+    return data;
+  }
+
+  /**
+   * Payments recorded against a rent charge, oldest first
+   */
+  async getPaymentRecords(id: string): Promise<LedgerEntry[]> {
+    const entries = await ledgerService.getEntriesForRentPayment(id);
+    return entries
+      .filter((entry) => entry.entry_type !== "charge")
+      .sort((a, b) => a.entry_date.localeCompare(b.entry_date));
+  }
+
+  /**
+   * Record money received against a rent charge. A charge can take any number
+   * of payments; its amount_paid, payment_date and status are derived from
+   * their total. Returns null when the rent payment does not exist.
+   */
+  async recordPayment(
+    id: string,
+    paymentData: {
+      amount: number;
+      payment_date?: string;
+      payment_method?: string | null;
+      reference?: string | null;
+      payer_tenant_id?: string | null;
+    }
+  ): Promise<{ payment: RentPayment; records: LedgerEntry[] } | null> {
+    const { data: payment, error } = await supabase
+      .from("rent_payments")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`Error fetching rent payment ${id}: ${error.message}`);
+      console.log(`Error fetching rent payment ${id}: ${error.message}`);
+      throw new Error(`Failed to fetch rent payment: ${error.message}`);
+    }
+    if (!payment) {
+      return null;
+    }
+
+    await ledgerService.recordRentCharge(payment);
+    const summary = await ledgerService.getRentChargeSummary(id);
+    const balance = summary ? summary.balance : getRemainingBalance(payment);
+
+    if (paymentData.amount > balance) {
+      throw Object.assign(
+        new Error(`Payment of ${paymentData.amount} is more than the ${balance} still owing on this rent payment`),
+        { statusCode: 422 }
+      );
+    }
+
+    // A roommate's payment counts towards their share of a joint lease's rent
+    if (paymentData.payer_tenant_id) {
+      const shares = await jointTenancyService.getShares(id);
+      if (!shares.some((share) => share.tenantId === paymentData.payer_tenant_id)) {
+        throw Object.assign(
+          new Error(`Tenant ${paymentData.payer_tenant_id} does not have a share of this rent payment`),
+          { statusCode: 422 }
+        );
+      }
+    }
+
+    await ledgerService.recordRentPayment(
+      payment,
+      paymentData.amount,
+      paymentData.payment_date,
+      paymentData.payment_method || null,
+      paymentData.reference || null,
+      paymentData.payer_tenant_id || null
+    );
+
+    const updated = await this.applyPaymentTotals(payment);
+
+    if (updated.status === "paid") {
+      try {
+        await this.voidSettledLegalNotices(updated);
+      } catch (noticeError) {
+        logger.error(`Error reconciling legal notices after payment ${id}: ${noticeError}`);
+        console.log(`Error reconciling legal notices after payment ${id}: ${noticeError}`);
+      }
+    }
+
+    return { payment: updated, records: await this.getPaymentRecords(id) };
+  }
+
+  /**
+   * Pay a new rent charge from the credit its tenant_unit holds, as far as the
+   * credit goes. Returns the charge with its updated status and the credit left.
+   * A ledger failure is logged and the charge is returned unchanged.
+   */
+  async applyCreditToPayment(payment: RentPayment): Promise<{ payment: RentPayment; creditApplied: number; creditRemaining: number }> {
+    try {
+      const tenantUnit = await ledgerService.findTenantUnit(payment.tenant_id, payment.unit_id);
+      if (!tenantUnit) {
+        return { payment, creditApplied: 0, creditRemaining: 0 };
+      }
+
+      const credit = await ledgerService.getCreditBalance(tenantUnit.id);
+      const creditApplied = Math.min(credit, getRemainingBalance(payment));
+      if (creditApplied <= 0) {
+        return { payment, creditApplied: 0, creditRemaining: credit };
+      }
+
+      await ledgerService.applyCredit(tenantUnit, payment, creditApplied);
+      const updated = await this.applyPaymentTotals(payment);
+
+      return {
+        payment: updated,
+        creditApplied,
+        creditRemaining: Math.round((credit - creditApplied) * 100) / 100
+      };
+    } catch (creditError) {
+      logger.error(`Error applying credit to rent payment ${payment.id}: ${creditError}`);
+      console.log(`Error applying credit to rent payment ${payment.id}: ${creditError}`);
+      return { payment, creditApplied: 0, creditRemaining: 0 };
+    }
+  }
+
+  /**
+   * Pay a rent charge, normally the last of the tenancy, from the last month's
+   * rent deposit its tenant_unit holds. Whatever the charge does not use is
+   * kept as a credit on the tenant_unit, and the deposit is marked applied.
+   * A ledger failure is logged and the charge is returned unchanged.
+   */
+  async applyDepositToPayment(payment: RentPayment): Promise<{ payment: RentPayment; depositApplied: number; depositCredited: number }> {
+    try {
+      const tenantUnit = await ledgerService.findTenantUnit(payment.tenant_id, payment.unit_id);
+      const deposit = tenantUnit ? await depositService.getHeldDeposit(tenantUnit.id) : null;
+      if (!tenantUnit || !deposit) {
+        return { payment, depositApplied: 0, depositCredited: 0 };
+      }
+
+      const depositAmount = Number(deposit.amount);
+      const depositApplied = Math.min(depositAmount, getRemainingBalance(payment));
+      const depositCredited = Math.round((depositAmount - depositApplied) * 100) / 100;
+
+      logger.info(`Applying deposit ${deposit.id} of ${depositAmount} to rent payment ${payment.id}`);
+      console.log(`Applying deposit ${deposit.id} of ${depositAmount} to rent payment ${payment.id}`);
+
+      if (depositApplied > 0) {
+        await ledgerService.recordRentPayment(payment, depositApplied, undefined, DEPOSIT_PAYMENT_METHOD, deposit.id);
+      }
+      if (depositCredited > 0) {
+        await ledgerService.recordCredit(
+          tenantUnit,
+          depositCredited,
+          undefined,
+          DEPOSIT_PAYMENT_METHOD,
+          deposit.id,
+          "Last month's rent deposit not used by the final rent"
+        );
+      }
+      await depositService.markApplied(deposit, payment.id);
+
+      return { payment: await this.applyPaymentTotals(payment), depositApplied, depositCredited };
+    } catch (depositError) {
+      logger.error(`Error applying deposit to rent payment ${payment.id}: ${depositError}`);
+      console.log(`Error applying deposit to rent payment ${payment.id}: ${depositError}`);
+      return { payment, depositApplied: 0, depositCredited: 0 };
+    }
+  }
+
+  /**
+   * Reduce a rent charge to the rent owed up to a move-out date: the prorated
+   * rent for the final period, or nothing for a period after it. The part of
+   * the reduction the tenant had not paid comes off the charge; anything they
+   * had already paid for is kept as a credit on the tenant_unit.
+   */
+  async adjustChargeForMoveOut(payment: RentPayment, rent: number, moveOutDate: string): Promise<RentPayment> {
+    const reduction = Math.round((Number(payment.amount) - rent) * 100) / 100;
+    if (reduction <= 0) {
+      return payment;
+    }
+
+    const tenantUnit = await ledgerService.findTenantUnit(payment.tenant_id, payment.unit_id);
+    if (!tenantUnit) {
+      throw new Error(`No tenant_unit for tenant ${payment.tenant_id}, unit ${payment.unit_id}`);
+    }
+
+    await ledgerService.recordRentCharge(payment);
+    const summary = await ledgerService.getRentChargeSummary(payment.id);
+    const offCharge = Math.min(reduction, summary ? summary.balance : getRemainingBalance(payment));
+    const toCredit = Math.round((reduction - offCharge) * 100) / 100;
+
+    logger.info(`Reducing rent payment ${payment.id} by ${reduction} for move-out on ${moveOutDate}`);
+    console.log(`Reducing rent payment ${payment.id} by ${reduction} for move-out on ${moveOutDate}`);
+
+    if (offCharge > 0) {
+      await ledgerService.createEntry({
+        tenant_unit_id: tenantUnit.id,
+        tenant_id: tenantUnit.tenant_id,
+        unit_id: tenantUnit.unit_id,
+        entry_date: moveOutDate,
+        entry_type: "adjustment",
+        category: MOVE_OUT_CATEGORY,
+        description: `Rent after move-out on ${moveOutDate} not charged`,
+        debit: 0,
+        credit: offCharge,
+        rent_payment_id: payment.id,
+        payment_method: null,
+        reference: null
+      });
+    }
+    if (toCredit > 0) {
+      await ledgerService.recordCredit(
+        tenantUnit,
+        toCredit,
+        moveOutDate,
+        null,
+        payment.id,
+        `Rent paid for after move-out on ${moveOutDate}`
+      );
+    }
+
+    return this.applyPaymentTotals(payment);
+  }
+
+  /**
+   * Copy the totals of the payments recorded on the ledger onto the
+   * rent_payments row and derive its status from them
+   */
+  private async applyPaymentTotals(payment: RentPayment): Promise<RentPayment> {
+    const summary = await ledgerService.getRentChargeSummary(payment.id);
+    if (!summary) {
+      return payment;
+    }
+
+    const { data, error } = await supabase
+      .from("rent_payments")
+      .update({
+        amount_paid: summary.amountPaid,
+        payment_date: summary.lastPaymentDate,
+        status: summary.status
+      })
+      .eq("id", payment.id)
+      .select()
+      .single();
+
+    if (error) {
+      logger.error(`Error updating payment totals for rent payment ${payment.id}: ${error.message}`);
+      console.log(`Error updating payment totals for rent payment ${payment.id}: ${error.message}`);
+      throw new Error(`Failed to update rent payment totals: ${error.message}`);
+    }
     return data;
   }
 
+  /**
+   * Void any open N4 for the payment's tenant and unit when the arrears are now
+   * cleared before the termination date, and tell the landlord about it
+   */
+  private async voidSettledLegalNotices(payment: RentPayment): Promise<void> {
+    const voidedNotices = await legalNoticeService.voidNoticesPaidInFull(payment.tenant_id, payment.unit_id);
+
+    if (voidedNotices.length === 0) {
+      return;
+    }
+
+    logger.info(`Voided ${voidedNotices.length} N4 notice(s) after payment ${payment.id}`);
+    console.log(`Voided ${voidedNotices.length} N4 notice(s) after payment ${payment.id}`);
+
+    const { data: unit, error: unitError } = await supabase
+      .from("units")
+      .select("*, properties(*, landlords(*))")
+      .eq("id", payment.unit_id)
+      .single();
+
+    const { data: tenant, error: tenantError } = await supabase
+      .from("tenants")
+      .select("*")
+      .eq("id", payment.tenant_id)
+      .single();
+
+    if (unitError || tenantError || !unit?.properties?.landlords || !tenant) {
+      logger.error(`Missing tenant, unit or landlord to notify about voided N4 for payment ${payment.id}`);
+      console.log(`Missing tenant, unit or landlord to notify about voided N4 for payment ${payment.id}`);
+      return;
+    }
+
+    const property = unit.properties as Property & { landlords: Landlord };
+    const unitAddress = `${unit.unit_number}, ${property.address}, ${property.city}, ${property.province} ${property.postal_code}`;
+
+    for (const notice of voidedNotices) {
+      await sendN4VoidedNotification(notice, tenant as Tenant, property.landlords, unitAddress);
+    }
+  }
+
   /**
    * Generate rent due for all tenants with rent due today
    */
   async generateRentDueToday(): Promise<RentPayment[]> {
     // Get current date
-    const today = new Date();
-    const currentDay = today.getDate();
-    const currentMonth = today.getMonth();
-    const currentYear = today.getFullYear();
-
-    // Format today's date for logging
-    const todayFormatted = `${currentYear}-${String(currentMonth + 1).padStart(2, "0")}-${String(currentDay).padStart(2, "0")}`;
+    const todayFormatted = billingCalendarService.today();
     console.log(`DEBUG: Today's date: ${todayFormatted}`);
 
-    // 1. Get all tenant_units regardless of rent due day
+    // 1. Get all tenant_units regardless of rent due day, except tenancies that have ended.
+    // Roommates are charged through their joint lease.
     const { data: tenantUnits, error: tenantUnitsError } = await supabase
       .from("tenant_units")
       .select(`
       *,
       tenants (*),
-      units(*)
-      `);
+      units(*, properties(proration_method)),
+      rent_history(amount, effective_date)
+      `)
+      .neq("status", "ended")
+      .is("joint_lease_id", null);
 
     if (tenantUnitsError) {
       logger.error(`Error fetching tenant_units with rent due: ${tenantUnitsError.message}`);
@@ -194,40 +618,41 @@ export class RentService {
         continue;
       }
 
-      // Calculate the due date based on tenant's rent_due_day
-      const dueDayAsNumber = Number(tenantUnit.rent_due_day);
-      // Create a date for the current month with the tenant's due day
-      const dueDate = new Date(currentYear, currentMonth, dueDayAsNumber);
-      // Format the due date as YYYY-MM-DD
-      const dueDateFormatted = `${currentYear}-${String(currentMonth + 1).padStart(2, "0")}-${String(dueDayAsNumber).padStart(2, "0")}`;
-
-      console.log(`DEBUG: Tenant ${tenant.first_name} ${tenant.last_name} has rent due day ${dueDayAsNumber}, due date: ${dueDateFormatted}`);
-
-      // Check if a payment already exists for this tenant, unit and date
-      const { data: existingPayment, error: checkError } = await supabase
-        .from("rent_payments")
-        .select("*")
-        .eq("tenant_id", tenant.id)
-        .eq("unit_id", unit.id)
-        .eq("due_date", dueDateFormatted)
-        .maybeSingle();
-
-      if (checkError) {
-        logger.error(`Error checking existing payment for tenant ${tenant.id}, unit ${unit.id}: ${checkError.message}`);
-        console.log(`Error checking existing payment for tenant ${tenant.id}, unit ${unit.id}: ${checkError.message}`);
+      // Calculate the due date of the current period from the tenant's rent schedule
+      const period = billingCalendarService.getCurrentPeriod(tenantUnit, todayFormatted);
+      if (!period) {
+        console.log(`DEBUG: Rent schedule for tenant_unit ${tenantUnit.id} has not started, skipping`);
+        continue;
+      }
+      const { billingPeriod } = period;
+
+      // Prorate the first and last periods of the lease
+      const charge = this.getChargeForPeriod(tenantUnit, period, unit.properties?.proration_method);
+      if (!charge) {
+        console.log(`DEBUG: Lease for tenant_unit ${tenantUnit.id} does not cover ${billingPeriod}, skipping`);
         continue;
       }
+      const dueDateFormatted = charge.dueDate;
 
-      // Skip if payment already exists
-      if (existingPayment) {
+      console.log(`DEBUG: Tenant ${tenant.first_name} ${tenant.last_name} has ${tenantUnit.rent_frequency || "monthly"} rent, due date: ${dueDateFormatted}`);
+
+      // Skip if this period's charge already exists, even if rent_due_day changed since
+      try {
+        if (await this.hasRentChargeForPeriod(tenantUnit.id, billingPeriod)) {
+          continue;
+        }
+      } catch (checkError) {
         continue;
       }
 
       // Create a new payment record
-      const newPayment: Omit<RentPayment, "id" | "created_at" | "updated_at"> = {
+      const newPayment: Omit<RentPayment, "id" | "created_at" | "updated_at"> & { tenant_unit_id: string } = {
         tenant_id: tenant.id,
         unit_id: unit.id,
-        amount: tenantUnit.rent_amount, // Use rent_amount from tenant_units
+        tenant_unit_id: tenantUnit.id,
+        billing_period: billingPeriod,
+        amount: charge.amount, // rent_amount from tenant_units, prorated for a partial period
+        description: charge.description,
         due_date: dueDateFormatted,
         payment_date: null,
         status: "pending",
@@ -236,18 +661,40 @@ export class RentService {
       };
 
       try {
-        // Generate Interac request link
-        const interacRequestLink = await paymentService.generateInteracRequestLink(
-          tenant.email,
-          tenant.first_name,
-          tenantUnit.rent_amount,
-          `Rent payment for unit ${unit.unit_number}`
-        );
-
-        newPayment.interac_request_link = interacRequestLink;
+        const finalPeriod = isFinalRentPeriod(tenantUnit.lease_end, period);
+        const rentToRequest = await this.getRentToRequest(tenantUnit.id, charge.amount, finalPeriod);
+
+        // Parking, storage and other recurring charges due now are requested
+        // with the rent. Roommates each get their own rent request, so a joint
+        // lease's charges are requested separately.
+        const extras = (await jointTenancyService.getJointTenants(tenantUnit.id)).length > 0
+          ? []
+          : await additionalChargeService.generateChargesDue(tenantUnit, todayFormatted);
+        const extrasTotal = extras.reduce((total, extra) => total + Number(extra.amount), 0);
+        const amountToRequest = Math.round((rentToRequest + extrasTotal) * 100) / 100;
+
+        // Generate Interac request link for whatever the credit does not cover
+        if (amountToRequest > 0) {
+          newPayment.interac_request_link = await paymentService.generateInteracRequestLink(
+            tenant.email,
+            tenant.first_name,
+            amountToRequest,
+            extras.length > 0
+              ? formatLineItems([
+                { description: `Rent for unit ${unit.unit_number}`, amount: rentToRequest },
+                ...extras.map((extra) => ({ description: describeCharge(extra.category, extra.description), amount: Number(extra.amount) }))
+              ])
+              : `Rent payment for unit ${unit.unit_number}`
+          );
+        }
 
-        // Create the payment record
-        const payment = await this.createRentPayment(newPayment);
+        // Create the payment record; null means another run created it first
+        // and the charges are left for the additional charges run to request
+        const payment = await this.createRentChargeForPeriod(newPayment, finalPeriod);
+        if (!payment) {
+          continue;
+        }
+        await additionalChargeService.markRequested(extras, payment.id, payment.interac_request_link);
         createdPayments.push(payment);
 
         logger.info(`Created rent payment for tenant ${tenant.id}, unit ${unit.id}`);
@@ -266,8 +713,7 @@ export class RentService {
    * This checks for any pending payments that are past their due date and marks them as late
    */
   async updateLateRentPayments(): Promise<RentPayment[]> {
-    const today = new Date();
-    const todayStr = today.toISOString().split("T")[0];
+    const todayStr = billingCalendarService.today();
 
     // Find all pending payments with due date before today
     const { data, error } = await supabase
@@ -307,23 +753,18 @@ export class RentService {
    * Generate rent due for all tenants regardless of rent due day
    */
   async generateRentPaymentsForAllTenants(): Promise<RentPayment[]> {
-    // Get current date
-    const today = new Date();
-    const currentMonth = today.getMonth();
-    const currentYear = today.getFullYear();
-
-    // Format today's date for comparisons
-    const currentMonthFormatted = `${currentYear}-${String(currentMonth + 1).padStart(2, "0")}`;
-
-    // Get all tenant_units with their tenant and unit information
+    // Get all tenant_units with their tenant and unit information, except roommates on a joint lease
     const { data: allTenantUnits, error: fetchError } = await supabase
       .from('tenant_units')
       .select(`
       *,
       tenants(*),
-      units(*),
-      properties(name)
+      units(*, properties(name, proration_method)),
+      properties(name),
+      rent_history(amount, effective_date)
       `)
+      .neq("status", "ended")
+      .is("joint_lease_id", null);
 
     if (fetchError) {
       logger.error("Error fetching tenant_units with joins", fetchError);
@@ -369,59 +810,43 @@ export class RentService {
         console.log(`DEBUG: Tenant: ${tenant.first_name} ${tenant.last_name} (ID: ${tenant.id})`);
         console.log(`DEBUG: Unit: ${unit.unit_number} (ID: ${unit.id})`);
 
-        // Calculate the due date for this month
-        const dueDate = new Date(currentYear, currentMonth, dueDayAsNumber);
-        const dueDateFormatted = `${currentYear}-${String(currentMonth + 1).padStart(2, "0")}-${String(dueDayAsNumber).padStart(2, "0")}`;
-
-        // Check if we already have a payment record for this month
-        const startOfMonth = `${currentMonthFormatted}-01`;
-        const endOfMonth = `${currentMonthFormatted}-31`; // Will automatically handle shorter months
-
-        console.log(`DEBUG: Checking for existing payments between ${startOfMonth} and ${endOfMonth}`);
-
-        const { data: existingPayments, error: checkError } = await supabase
-          .from("rent_payments")
-          .select("*")
-          .eq("tenant_id", tenant.id)
-          .eq("unit_id", unit.id)
-          .gte("due_date", startOfMonth)
-          .lte("due_date", endOfMonth);
-
-        if (checkError) {
-          logger.error(`Error checking existing payments: ${checkError.message}`);
-          console.log(`Error checking existing payments: ${checkError.message}`);
+        // Calculate the due date for the current period
+        const period = billingCalendarService.getCurrentPeriod(tenantUnit);
+        if (!period) {
+          console.log(`DEBUG: Rent schedule for tenant_unit ${tenantUnit.id} has not started, skipping`);
           continue;
         }
+        const { billingPeriod } = period;
 
-        console.log(`DEBUG: Found ${existingPayments?.length || 0} existing payments for this month`);
+        // Prorate the first and last periods of the lease
+        const charge = this.getChargeForPeriod(tenantUnit, period, unit.properties?.proration_method);
+        if (!charge) {
+          console.log(`DEBUG: Lease for tenant_unit ${tenantUnit.id} does not cover ${billingPeriod}, skipping`);
+          continue;
+        }
+        const dueDateFormatted = charge.dueDate;
 
-        // If payment already exists for this month, skip
-        if (existingPayments && existingPayments.length > 0) {
-          console.log(`DEBUG: Payment already exists for tenant ${tenant.id} this month. Skipping.`);
+        // If this month's charge already exists, skip
+        if (await this.hasRentChargeForPeriod(tenantUnit.id, billingPeriod)) {
+          console.log(`DEBUG: Payment already exists for tenant ${tenant.id} for ${billingPeriod}. Skipping.`);
           continue;
         }
 
         // Calculate days past due
-        const daysPastDue = Math.floor((today.getTime() - dueDate.getTime()) / (1000 * 3600 * 24));
+        const daysPastDue = billingCalendarService.getDaysLate(dueDateFormatted);
         console.log(`DEBUG: Days past due: ${daysPastDue}`);
 
         // Determine status based on days past due
         const status = daysPastDue > 0 ? "late" : "pending";
 
         // Define the payment data with the correct type
-        const newPaymentData: {
-          tenant_id: string;
-          unit_id: string;
-          amount: number;
-          due_date: string;
-          payment_date: string | null;
-          status: "pending" | "late";
-          payment_method: string | null;
-          interac_request_link: string | null;
-        } = {
+        const newPaymentData: Omit<RentPayment, "id" | "created_at" | "updated_at"> & { tenant_unit_id: string } = {
           tenant_id: tenant.id,
           unit_id: unit.id,
-          amount: tenantUnit.rent_amount,
+          tenant_unit_id: tenantUnit.id,
+          billing_period: billingPeriod,
+          amount: charge.amount,
+          description: charge.description,
           due_date: dueDateFormatted,
           payment_date: null,
           status: status as "pending" | "late",
@@ -429,36 +854,30 @@ export class RentService {
           interac_request_link: null
         };
 
+        const finalPeriod = isFinalRentPeriod(tenantUnit.lease_end, period);
         try {
-          // Generate Interac request link
-          const interacRequestLink = await paymentService.generateInteracRequestLink(
-            tenant.email,
-            tenant.first_name,
-            tenantUnit.rent_amount,
-            `Rent payment for unit ${unit.unit_number}`
-          );
-
-          // Set the interac_request_link
-          newPaymentData.interac_request_link = interacRequestLink;
+          // Generate Interac request link for whatever the credit and deposit do not cover
+          const rentToRequest = await this.getRentToRequest(tenantUnit.id, charge.amount, finalPeriod);
+          if (rentToRequest > 0) {
+            newPaymentData.interac_request_link = await paymentService.generateInteracRequestLink(
+              tenant.email,
+              tenant.first_name,
+              rentToRequest,
+              `Rent payment for unit ${unit.unit_number}`
+            );
+          }
         } catch (error) {
           logger.error(`Error generating Interac request link: ${error}`);
           console.log(`Error generating Interac request link: ${error}`);
           // Continue without the link
         }
 
-        const { data: newPayment, error: insertError } = await supabase
-          .from("rent_payments")
-          .insert([newPaymentData])
-          .select()
-          .single();
-
-        if (insertError) {
-          logger.error(`Error creating payment: ${insertError.message}`);
-          console.log(`Error creating payment: ${insertError.message}`);
+        const newPayment = await this.createRentChargeForPeriod(newPaymentData, finalPeriod);
+        if (!newPayment) {
           continue;
         }
 
-        console.log(`Successfully created payment record with ID: ${newPayment.id} and status: ${status}`);
+        console.log(`Successfully created payment record with ID: ${newPayment.id} and status: ${newPayment.status}`);
 
         createdPayments.push(newPayment);
       } catch (error) {
@@ -473,18 +892,19 @@ export class RentService {
    * Get all tenants with overdue rent
    */
   async getTenantsWithOverdueRent(): Promise<{ tenantId: string; tenantName: string; unitId: string; unitNumber: string; propertyName?: string; rentAmount: number; dueDate: string; daysPastDue: number }[]> {
-    const today = new Date();
-    const currentMonth = today.getMonth() + 1;
-    const currentYear = today.getFullYear();
-    const currentMonthFormatted = `${currentYear}-${String(currentMonth).padStart(2, "0")}`;
+    // Ended tenancies are no longer charged, and roommates have no charges of
+    // their own; the joint lease's tenant_unit carries them
     const { data: tenantUnits, error: fetchError } = await supabase
       .from('tenant_units')
       .select(`
       *,
       tenants(*),
-      units(*),
-      properties(name)
+      units(*, properties(name, proration_method)),
+      properties(name),
+      rent_history(amount, effective_date)
       `)
+      .neq("status", "ended")
+      .is("joint_lease_id", null);
     if (fetchError) {
       logger.error("Error fetching tenant_units with joins", fetchError);
       console.log("Error fetching tenant_units with joins", fetchError.message);
@@ -507,28 +927,32 @@ export class RentService {
         console.log(`DEBUG: Tenant unit ${tenantUnit.id} has invalid rent_due_day: ${tenantUnit.rent_due_day}, skipping`);
         continue;
       }
-      const dueDate = new Date(currentYear, currentMonth - 1, dueDayAsNumber);
-      const dueDateFormatted = `${currentYear}-${String(currentMonth).padStart(2, "0")}-${String(dueDayAsNumber).padStart(2, "0")}`;
-      const daysPastDue = Math.floor((today.getTime() - dueDate.getTime()) / (1000 * 3600 * 24));
-      const { data: existingPayments, error: checkError } = await supabase
-        .from("rent_payments")
-        .select("*")
-        .eq("tenant_id", tenant.id)
-        .eq("unit_id", unit.id)
-        .gte("due_date", `${currentMonthFormatted}-01`)
-        .lte("due_date", `${currentMonthFormatted}-31`);
-      if (checkError) {
-        logger.error(`Error checking existing payments: ${checkError.message}`);
-        console.log(`Error checking existing payments: ${checkError.message}`);
+      const period = billingCalendarService.getCurrentPeriod(tenantUnit);
+      if (!period) {
+        console.log(`DEBUG: Rent schedule for tenant_unit ${tenantUnit.id} has not started, skipping`);
         continue;
-      } if (!existingPayments || existingPayments.length === 0) {
+      }
+      const charge = this.getChargeForPeriod(tenantUnit, period, unit.properties?.proration_method);
+      if (!charge) {
+        continue;
+      }
+      const { billingPeriod } = period;
+      const dueDateFormatted = charge.dueDate;
+      const daysPastDue = billingCalendarService.getDaysLate(dueDateFormatted);
+      let hasCharge: boolean;
+      try {
+        hasCharge = await this.hasRentChargeForPeriod(tenantUnit.id, billingPeriod);
+      } catch (checkError) {
+        continue;
+      }
+      if (!hasCharge) {
         overdueTenants.push({
           tenantId: tenant.id,
           tenantName: `${tenant.first_name} ${tenant.last_name}`,
           unitId: unit.id,
           unitNumber: unit.unit_number,
           propertyName: unit.properties?.name,
-          rentAmount: tenantUnit.rent_amount,
+          rentAmount: charge.amount,
           dueDate: dueDateFormatted,
           daysPastDue: daysPastDue
         });
@@ -554,13 +978,17 @@ export class RentService {
       daysPastDue: tenant.daysPastDue,
     }));
 
-    const late = pendingRentPayments.filter((payment) => payment.status === "late").map((payment) => ({
-      paymentId: payment.id,
-      tenantId: payment.tenant_id,
-      unitId: payment.unit_id,
-      dueDate: payment.due_date,
-      amount: payment.amount,
-    }));
+    // Partly paid charges past their due date are late for what is still owing
+    const todayStr = billingCalendarService.today();
+    const late = pendingRentPayments
+      .filter((payment) => payment.status === "late" || (payment.status === "partial" && payment.due_date < todayStr))
+      .map((payment) => ({
+        paymentId: payment.id,
+        tenantId: payment.tenant_id,
+        unitId: payment.unit_id,
+        dueDate: payment.due_date,
+        amount: payment.balance,
+      }));
 
     return { notPaid, late };
   }
@@ -0,0 +1,169 @@
+import { supabase, RentHistoryEntry } from "../config/database";
+import { logger } from "../utils/logger";
+import { getRentInForce, sortRentHistory, RentChange } from "./rentHistory.utils";
+
+const today = (): string => new Date().toISOString().split("T")[0];
+
+export class RentHistoryService {
+  /**
+   * Get a tenant_unit's rent history, oldest first
+   */
+  async getRentHistory(tenantUnitId: string): Promise<RentHistoryEntry[]> {
+    const { data, error } = await supabase
+      .from("rent_history")
+      .select("*")
+      .eq("tenant_unit_id", tenantUnitId)
+      .order("effective_date", { ascending: true });
+
+    if (error) {
+      logger.error(`Error fetching rent history for tenant_unit ${tenantUnitId}: ${error.message}`);
+      console.log(`Error fetching rent history for tenant_unit ${tenantUnitId}: ${error.message}`);
+      throw new Error(`Failed to fetch rent history: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  /**
+   * Get the rent history of every unit a tenant rents, oldest first
+   */
+  async getRentHistoryForTenant(tenantId: string): Promise<RentHistoryEntry[]> {
+    const { data, error } = await supabase
+      .from("rent_history")
+      .select("*, tenant_units!inner(tenant_id)")
+      .eq("tenant_units.tenant_id", tenantId)
+      .order("effective_date", { ascending: true });
+
+    if (error) {
+      logger.error(`Error fetching rent history for tenant ${tenantId}: ${error.message}`);
+      console.log(`Error fetching rent history for tenant ${tenantId}: ${error.message}`);
+      throw new Error(`Failed to fetch rent history: ${error.message}`);
+    }
+    return (data || []).map(({ tenant_units, ...entry }) => ({ ...entry, amount: Number(entry.amount) }));
+  }
+
+  /**
+   * Record a rent change for a tenant in a unit taking effect on a date. The
+   * first change on a tenant_unit without history keeps its current rent as
+   * the amount in force before it. A change that leaves the rent as it
+   * already is on that date is not recorded.
+   *
+   * Returns the rent in force today, for tenant_units.rent_amount, or null if
+   * the tenant has no tenant_unit for the unit yet.
+   */
+  async recordRentChange(tenantId: string, unitId: string, amount: number, effectiveDate: string = today()): Promise<number | null> {
+    const { data: tenantUnit, error } = await supabase
+      .from("tenant_units")
+      .select("id, rent_amount, lease_start, created_at")
+      .eq("tenant_id", tenantId)
+      .eq("unit_id", unitId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`Error fetching tenant_unit for tenant ${tenantId}, unit ${unitId}: ${error.message}`);
+      console.log(`Error fetching tenant_unit for tenant ${tenantId}, unit ${unitId}: ${error.message}`);
+      throw new Error(`Failed to fetch tenant_unit: ${error.message}`);
+    }
+    if (!tenantUnit) {
+      return null;
+    }
+
+    const history: RentChange[] = await this.getRentHistory(tenantUnit.id);
+    const entries: Omit<RentHistoryEntry, "id" | "created_at">[] = [];
+
+    if (history.length === 0 && tenantUnit.rent_amount !== null && tenantUnit.rent_amount !== undefined) {
+      const startDate = (tenantUnit.lease_start || tenantUnit.created_at).split("T")[0];
+      if (startDate < effectiveDate) {
+        entries.push({ tenant_unit_id: tenantUnit.id, amount: Number(tenantUnit.rent_amount), effective_date: startDate });
+      }
+    }
+
+    const current = getRentInForce([...history, ...entries], effectiveDate);
+    const changedOnDate = history.some((change) => change.effective_date.split("T")[0] === effectiveDate);
+    if (current !== amount || changedOnDate) {
+      entries.push({ tenant_unit_id: tenantUnit.id, amount, effective_date: effectiveDate });
+    }
+
+    if (entries.length > 0) {
+      logger.info(`Recording rent of ${amount} from ${effectiveDate} for tenant_unit ${tenantUnit.id}`);
+      console.log(`Recording rent of ${amount} from ${effectiveDate} for tenant_unit ${tenantUnit.id}`);
+
+      const { error: upsertError } = await supabase
+        .from("rent_history")
+        .upsert(entries, { onConflict: "tenant_unit_id,effective_date" });
+
+      if (upsertError) {
+        logger.error(`Error recording rent change for tenant_unit ${tenantUnit.id}: ${upsertError.message}`);
+        console.log(`Error recording rent change for tenant_unit ${tenantUnit.id}: ${upsertError.message}`);
+        throw new Error(`Failed to record rent change: ${upsertError.message}`);
+      }
+    }
+
+    return getRentInForce([...history, ...entries], today()) ?? amount;
+  }
+
+  /**
+   * Remove a rent change that has not taken effect yet, e.g. when a scheduled
+   * increase is cancelled
+   */
+  async removeRentChange(tenantUnitId: string, effectiveDate: string): Promise<void> {
+    if (effectiveDate <= today()) {
+      throw Object.assign(new Error(`The rent change of ${effectiveDate} has already taken effect`), { statusCode: 409 });
+    }
+
+    const { error } = await supabase
+      .from("rent_history")
+      .delete()
+      .eq("tenant_unit_id", tenantUnitId)
+      .eq("effective_date", effectiveDate);
+
+    if (error) {
+      logger.error(`Error removing rent change of ${effectiveDate} for tenant_unit ${tenantUnitId}: ${error.message}`);
+      console.log(`Error removing rent change of ${effectiveDate} for tenant_unit ${tenantUnitId}: ${error.message}`);
+      throw new Error(`Failed to remove rent change: ${error.message}`);
+    }
+  }
+
+  /**
+   * Bring tenant_units.rent_amount up to date with rent changes that have
+   * taken effect since it was last set. Returns the number of tenant_units
+   * updated.
+   */
+  async applyRentChangesInForce(asOf: string = today()): Promise<number> {
+    const { data: tenantUnits, error } = await supabase
+      .from("tenant_units")
+      .select("id, rent_amount, rent_history(amount, effective_date)");
+
+    if (error) {
+      logger.error(`Error fetching tenant_units with rent history: ${error.message}`);
+      console.log(`Error fetching tenant_units with rent history: ${error.message}`);
+      throw new Error(`Failed to fetch tenant_units with rent history: ${error.message}`);
+    }
+
+    let updated = 0;
+    for (const tenantUnit of tenantUnits || []) {
+      const inForce = getRentInForce(sortRentHistory(tenantUnit.rent_history || []), asOf);
+      if (inForce === null || inForce === Number(tenantUnit.rent_amount)) {
+        continue;
+      }
+
+      const { error: updateError } = await supabase
+        .from("tenant_units")
+        .update({ rent_amount: inForce, updated_at: new Date().toISOString() })
+        .eq("id", tenantUnit.id);
+
+      if (updateError) {
+        logger.error(`Error updating rent for tenant_unit ${tenantUnit.id}: ${updateError.message}`);
+        console.log(`Error updating rent for tenant_unit ${tenantUnit.id}: ${updateError.message}`);
+        continue;
+      }
+
+      logger.info(`Rent for tenant_unit ${tenantUnit.id} is now ${inForce}`);
+      console.log(`Rent for tenant_unit ${tenantUnit.id} is now ${inForce}`);
+      updated++;
+    }
+    return updated;
+  }
+}
+
+// Create and export instance for use in other files
+export const rentHistoryService = new RentHistoryService();
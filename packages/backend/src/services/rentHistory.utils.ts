@@ -0,0 +1,32 @@
+// Pure calculations over a tenant_unit's effective-dated rent history. Kept
+// free of database access so the rent in force on a date can be unit tested.
+
+/**
+ * A rent amount and the date it took effect
+ */
+export interface RentChange {
+  amount: number | string; // numeric columns can come back from Supabase as strings
+  effective_date: string;
+}
+
+/**
+ * Sort rent changes oldest first
+ */
+export const sortRentHistory = <T extends RentChange>(history: T[]): T[] =>
+  [...history].sort((a, b) => a.effective_date.localeCompare(b.effective_date));
+
+/**
+ * The rent in force on a date: the latest change that took effect on or
+ * before it. Null when the history is empty or starts after the date.
+ */
+export const getRentInForce = (history: RentChange[], date: string): number | null => {
+  const day = date.split("T")[0];
+  let inForce: RentChange | null = null;
+  for (const change of sortRentHistory(history)) {
+    if (change.effective_date.split("T")[0] > day) {
+      break;
+    }
+    inForce = change;
+  }
+  return inForce ? Number(inForce.amount) : null;
+};
@@ -0,0 +1,238 @@
+import { supabase, RentIncrease, RentHistoryEntry, Tenant, TenantUnit, Unit, Property, Landlord } from "../config/database";
+import { logger } from "../utils/logger";
+import { addDays } from "../utils/date";
+import { getJurisdictionForProvince, Jurisdiction, RentIncreaseRules } from "../jurisdictions";
+import { generateFormPdf } from "./pdf.service";
+import { uploadDocument } from "./storage.service";
+import { rentHistoryService } from "./rentHistory.service";
+import { getRentInForce } from "./rentHistory.utils";
+import { checkRentIncrease, getLastRentIncreaseDate, RentIncreaseCheck } from "./rentIncrease.utils";
+
+type TenantUnitWithRelations = TenantUnit & {
+  tenants: Tenant;
+  units: Unit & { properties: Property & { landlords: Landlord } };
+  rent_history: RentHistoryEntry[] | null;
+};
+
+/**
+ * A proposed increase for a tenant_unit checked against its province's rules
+ */
+export interface RentIncreasePreview extends RentIncreaseCheck {
+  tenantUnitId: string;
+  tenantId: string;
+  unitId: string;
+  jurisdiction: string;
+  noticeType: string;
+}
+
+export interface RentIncreaseFilters {
+  tenantId?: string;
+  tenantUnitId?: string;
+}
+
+const today = (): string => new Date().toISOString().split("T")[0];
+
+export class RentIncreaseService {
+  /**
+   * Get a tenant_unit with the tenant, unit, property, landlord and rent history
+   */
+  private async getTenantUnit(tenantUnitId: string): Promise<TenantUnitWithRelations | null> {
+    const { data, error } = await supabase
+      .from("tenant_units")
+      .select("*, tenants(*), units(*, properties(*, landlords(*))), rent_history(*)")
+      .eq("id", tenantUnitId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`Error fetching tenant_unit ${tenantUnitId}: ${error.message}`);
+      console.log(`Error fetching tenant_unit ${tenantUnitId}: ${error.message}`);
+      throw new Error(`Failed to fetch tenant_unit: ${error.message}`);
+    }
+    return data;
+  }
+
+  /**
+   * The rent increase rules of the tenant_unit's province
+   */
+  private getRules(tenantUnit: TenantUnitWithRelations): { jurisdiction: Jurisdiction; rules: RentIncreaseRules } {
+    const jurisdiction = getJurisdictionForProvince(tenantUnit.units?.properties?.province);
+    if (!jurisdiction || !jurisdiction.rentIncrease) {
+      throw Object.assign(
+        new Error(`Rent increases are not supported for properties in ${tenantUnit.units?.properties?.province || "an unknown province"}`),
+        { statusCode: 422 }
+      );
+    }
+    return { jurisdiction, rules: jurisdiction.rentIncrease };
+  }
+
+  /**
+   * Check a proposed increase without recording anything. The current rent is
+   * the rent in force the day before the increase, and the 12-month rule
+   * counts from the last increase in the rent history or the lease start.
+   * Returns null if the tenant_unit does not exist.
+   */
+  async previewIncrease(
+    tenantUnitId: string,
+    newRent: number,
+    effectiveDate: string,
+    asOf: string = today()
+  ): Promise<RentIncreasePreview | null> {
+    const tenantUnit = await this.getTenantUnit(tenantUnitId);
+    if (!tenantUnit) {
+      return null;
+    }
+
+    const { jurisdiction, rules } = this.getRules(tenantUnit);
+    const history = (tenantUnit.rent_history || []).filter((change) => change.effective_date < effectiveDate);
+
+    const check = checkRentIncrease(rules, {
+      currentRent: getRentInForce(history, addDays(effectiveDate, -1)) ?? Number(tenantUnit.rent_amount),
+      newRent,
+      effectiveDate,
+      today: asOf,
+      lastIncreaseDate: getLastRentIncreaseDate(history),
+      tenancyStart: tenantUnit.lease_start || tenantUnit.created_at,
+      firstOccupiedDate: tenantUnit.units?.first_occupied_date
+    });
+
+    return {
+      ...check,
+      tenantUnitId: tenantUnit.id,
+      tenantId: tenantUnit.tenant_id,
+      unitId: tenantUnit.unit_id,
+      jurisdiction: jurisdiction.code,
+      noticeType: rules.noticeType
+    };
+  }
+
+  /**
+   * Issue a checked increase: generate and store the notice, record the
+   * increase and schedule the new rent in the rent history from its
+   * effective date
+   */
+  async issueIncrease(preview: RentIncreasePreview): Promise<RentIncrease> {
+    const tenantUnit = await this.getTenantUnit(preview.tenantUnitId);
+    if (!tenantUnit) {
+      throw Object.assign(new Error(`Tenant unit ${preview.tenantUnitId} not found`), { statusCode: 404 });
+    }
+
+    const { tenants: tenant, units: unit } = tenantUnit;
+    const property = unit.properties;
+
+    logger.info(`Issuing ${preview.noticeType} for tenant_unit ${tenantUnit.id}: ${preview.currentRent} to ${preview.newRent} from ${preview.effectiveDate}`);
+    console.log(`Issuing ${preview.noticeType} for tenant_unit ${tenantUnit.id}: ${preview.currentRent} to ${preview.newRent} from ${preview.effectiveDate}`);
+
+    const pdf = await generateFormPdf(preview.noticeType, {
+      tenantName: `${tenant.first_name} ${tenant.last_name}`,
+      landlordName: property.landlords.name,
+      rentalAddress: `${unit.unit_number}, ${property.address}, ${property.city}, ${property.province} ${property.postal_code}`,
+      currentRent: preview.currentRent,
+      newRent: preview.newRent,
+      effectiveDate: preview.effectiveDate,
+      rentPeriod: tenantUnit.rent_frequency || "monthly",
+      increasePercentage: preview.increasePercentage
+    }, { flatten: true });
+    const documentPath = await uploadDocument(
+      `${preview.noticeType.toLowerCase()}/${tenant.id}/${unit.id}/${preview.noticeType}_${preview.effectiveDate}.pdf`,
+      pdf
+    );
+
+    const { data: increase, error } = await supabase
+      .from("rent_increases")
+      .insert([{
+        tenant_unit_id: tenantUnit.id,
+        tenant_id: tenant.id,
+        unit_id: unit.id,
+        current_rent: preview.currentRent,
+        new_rent: preview.newRent,
+        increase_percentage: preview.increasePercentage,
+        guideline_percentage: preview.guidelinePercentage,
+        guideline_exempt: preview.guidelineExempt,
+        effective_date: preview.effectiveDate,
+        notice_deadline: preview.noticeDeadline,
+        notice_type: preview.noticeType,
+        document_path: documentPath,
+        status: "scheduled"
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      logger.error(`Error recording rent increase for tenant_unit ${tenantUnit.id}: ${error.message}`);
+      console.log(`Error recording rent increase for tenant_unit ${tenantUnit.id}: ${error.message}`);
+      throw new Error(`Failed to record rent increase: ${error.message}`);
+    }
+
+    await rentHistoryService.recordRentChange(tenant.id, unit.id, preview.newRent, preview.effectiveDate);
+    return increase;
+  }
+
+  /**
+   * List rent increases, most recent effective date first
+   */
+  async listIncreases(filters: RentIncreaseFilters = {}): Promise<RentIncrease[]> {
+    let query = supabase
+      .from("rent_increases")
+      .select("*")
+      .order("effective_date", { ascending: false });
+
+    if (filters.tenantId) {
+      query = query.eq("tenant_id", filters.tenantId);
+    }
+    if (filters.tenantUnitId) {
+      query = query.eq("tenant_unit_id", filters.tenantUnitId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      logger.error(`Error fetching rent increases: ${error.message}`);
+      console.log(`Error fetching rent increases: ${error.message}`);
+      throw new Error(`Failed to fetch rent increases: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  /**
+   * Get rent increase by ID
+   */
+  async getIncreaseById(id: string): Promise<RentIncrease | null> {
+    const { data, error } = await supabase
+      .from("rent_increases")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`Error fetching rent increase ${id}: ${error.message}`);
+      console.log(`Error fetching rent increase ${id}: ${error.message}`);
+      throw new Error(`Failed to fetch rent increase: ${error.message}`);
+    }
+    return data;
+  }
+
+  /**
+   * Cancel a scheduled increase before it takes effect and take the new rent
+   * out of the rent history
+   */
+  async cancelIncrease(increase: RentIncrease): Promise<RentIncrease> {
+    await rentHistoryService.removeRentChange(increase.tenant_unit_id, increase.effective_date);
+
+    const { data, error } = await supabase
+      .from("rent_increases")
+      .update({ status: "cancelled" })
+      .eq("id", increase.id)
+      .select()
+      .single();
+
+    if (error) {
+      logger.error(`Error cancelling rent increase ${increase.id}: ${error.message}`);
+      console.log(`Error cancelling rent increase ${increase.id}: ${error.message}`);
+      throw new Error(`Failed to cancel rent increase: ${error.message}`);
+    }
+    return data;
+  }
+}
+
+// Create and export instance for use in other files
+export const rentIncreaseService = new RentIncreaseService();
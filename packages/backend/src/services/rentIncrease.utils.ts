@@ -0,0 +1,134 @@
+// Pure rules for rent increases: the guideline cap, the minimum time between
+// increases and the notice deadline. Kept free of database access so each
+// jurisdiction's rules can be unit tested.
+import { addDays, addMonths } from "../utils/date";
+import { RentIncreaseRules } from "../jurisdictions";
+import { RentChange, sortRentHistory } from "./rentHistory.utils";
+
+const roundToCents = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * The guideline percentage for increases taking effect in the year of the
+ * date, or null when none has been published for that year
+ */
+export const getGuidelinePercentage = (rules: RentIncreaseRules, effectiveDate: string): number | null => {
+  const guideline = rules.guidelines[Number(effectiveDate.slice(0, 4))];
+  return guideline === undefined ? null : guideline;
+};
+
+/**
+ * Whether a unit is exempt from the guideline because it was first occupied
+ * after the jurisdiction's cut-off date
+ */
+export const isGuidelineExempt = (rules: RentIncreaseRules, firstOccupiedDate?: string | null): boolean =>
+  Boolean(rules.guidelineExemptAfter && firstOccupiedDate && firstOccupiedDate.split("T")[0] > rules.guidelineExemptAfter);
+
+/**
+ * The last day the notice can be given for an increase taking effect on the date
+ */
+export const getNoticeDeadline = (rules: RentIncreaseRules, effectiveDate: string): string =>
+  addDays(effectiveDate, -rules.noticeDays);
+
+/**
+ * The date of the most recent increase in a rent history, or null if the
+ * rent has never gone up
+ */
+export const getLastRentIncreaseDate = (history: RentChange[]): string | null => {
+  let lastIncrease: string | null = null;
+  let previous: number | null = null;
+  for (const change of sortRentHistory(history)) {
+    const amount = Number(change.amount);
+    if (previous !== null && amount > previous) {
+      lastIncrease = change.effective_date.split("T")[0];
+    }
+    previous = amount;
+  }
+  return lastIncrease;
+};
+
+export interface RentIncreaseRequest {
+  currentRent: number;
+  newRent: number;
+  effectiveDate: string;
+  today: string;
+  // The 12-month rule counts from the last increase, or the start of the tenancy
+  lastIncreaseDate?: string | null;
+  tenancyStart?: string | null;
+  firstOccupiedDate?: string | null;
+}
+
+/**
+ * Whether a proposed increase is allowed, and the limits it was checked against
+ */
+export interface RentIncreaseCheck {
+  currentRent: number;
+  newRent: number;
+  increasePercentage: number;
+  effectiveDate: string;
+  guidelinePercentage: number | null;
+  guidelineExempt: boolean;
+  maximumRent: number | null; // Null when the unit is exempt or there is no guideline for the year
+  earliestEffectiveDate: string | null;
+  noticeDeadline: string;
+  errors: string[];
+}
+
+/**
+ * Check a proposed rent increase against the jurisdiction's rules. The
+ * increase is allowed when errors is empty.
+ */
+export const checkRentIncrease = (rules: RentIncreaseRules, request: RentIncreaseRequest): RentIncreaseCheck => {
+  const { currentRent, newRent, effectiveDate, today } = request;
+  const errors: string[] = [];
+
+  const increasePercentage = currentRent > 0 ? roundToCents(((newRent - currentRent) / currentRent) * 100) : 0;
+  if (newRent <= currentRent) {
+    errors.push(`The new rent must be more than the current rent of $${currentRent.toFixed(2)}`);
+  }
+
+  const countFrom = request.lastIncreaseDate || request.tenancyStart;
+  const earliestEffectiveDate = countFrom ? addMonths(countFrom.split("T")[0], rules.monthsBetweenIncreases) : null;
+  if (earliestEffectiveDate && effectiveDate < earliestEffectiveDate) {
+    errors.push(
+      `Rent can only be increased once every ${rules.monthsBetweenIncreases} months; ` +
+      `the earliest effective date is ${earliestEffectiveDate}`
+    );
+  }
+
+  const noticeDeadline = getNoticeDeadline(rules, effectiveDate);
+  if (today > noticeDeadline) {
+    errors.push(
+      `The ${rules.noticeType} had to be given by ${noticeDeadline}, ${rules.noticeDays} days before the increase; ` +
+      `given today, the earliest effective date is ${addDays(today, rules.noticeDays)}`
+    );
+  }
+
+  const guidelineExempt = isGuidelineExempt(rules, request.firstOccupiedDate);
+  const guidelinePercentage = getGuidelinePercentage(rules, effectiveDate);
+  const maximumRent = !guidelineExempt && guidelinePercentage !== null
+    ? roundToCents(currentRent * (1 + guidelinePercentage / 100))
+    : null;
+  if (!guidelineExempt) {
+    if (guidelinePercentage === null) {
+      errors.push(`No rent increase guideline has been published for ${effectiveDate.slice(0, 4)}`);
+    } else if (maximumRent !== null && newRent > maximumRent) {
+      errors.push(
+        `An increase of ${increasePercentage}% is above the ${effectiveDate.slice(0, 4)} guideline of ${guidelinePercentage}%; ` +
+        `the rent can go up to $${maximumRent.toFixed(2)} without approval for an above-guideline increase`
+      );
+    }
+  }
+
+  return {
+    currentRent,
+    newRent,
+    increasePercentage,
+    effectiveDate,
+    guidelinePercentage,
+    guidelineExempt,
+    maximumRent,
+    earliestEffectiveDate,
+    noticeDeadline,
+    errors
+  };
+};
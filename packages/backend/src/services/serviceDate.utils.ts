@@ -0,0 +1,88 @@
+// Deemed service and earliest termination date rules for Ontario notices.
+// Kept free of database access so the date rules can be unit tested.
+import { addDays } from "../utils/date";
+import { isBusinessDay } from "./billing.utils";
+
+// "door" (attached to the door) is only accepted in some provinces, see src/jurisdictions
+export type NoticeServiceMethod = "hand" | "mail" | "courier" | "door";
+
+// A notice sent by mail is deemed served on the fifth day after mailing
+export const MAIL_SERVICE_DAYS = 5;
+
+// A notice sent by courier is deemed served on the next business day,
+// which is never a weekend or statutory holiday
+export const COURIER_SERVICE_BUSINESS_DAYS = 1;
+
+// Minimum days between service of an N4 and its termination date
+export const N4_NOTICE_DAYS = 14;
+export const N4_NOTICE_DAYS_DAILY_OR_WEEKLY = 7;
+
+export interface ServiceDates {
+  servedDate: string;
+  serviceMethod: NoticeServiceMethod;
+  deemedServiceDate: string;
+  earliestTerminationDate: string;
+}
+
+/**
+ * Move forward the given number of business days, skipping weekends and
+ * Ontario statutory holidays
+ */
+export const addBusinessDays = (date: string, days: number): string => {
+  let result = date;
+  let remaining = days;
+
+  while (remaining > 0) {
+    result = addDays(result, 1);
+    if (isBusinessDay(result)) {
+      remaining--;
+    }
+  }
+  return result;
+};
+
+/**
+ * Date a notice is deemed served, given the day it was handed over, mailed or couriered
+ */
+export const calculateDeemedServiceDate = (servedDate: string, serviceMethod: NoticeServiceMethod): string => {
+  const date = servedDate.split("T")[0];
+
+  switch (serviceMethod) {
+    case "mail":
+      return addDays(date, MAIL_SERVICE_DAYS);
+    case "courier":
+      return addBusinessDays(date, COURIER_SERVICE_BUSINESS_DAYS);
+    case "hand":
+    default:
+      return date;
+  }
+};
+
+/**
+ * Earliest termination date that can be put on an N4 deemed served on the given date
+ */
+export const calculateEarliestTerminationDate = (deemedServiceDate: string, rentPeriod: string = "monthly"): string => {
+  const noticeDays = rentPeriod === "daily" || rentPeriod === "weekly"
+    ? N4_NOTICE_DAYS_DAILY_OR_WEEKLY
+    : N4_NOTICE_DAYS;
+
+  return addDays(deemedServiceDate, noticeDays);
+};
+
+/**
+ * Deemed service date and earliest termination date for an N4
+ */
+export const calculateServiceDates = (
+  servedDate: string,
+  serviceMethod: NoticeServiceMethod,
+  rentPeriod: string = "monthly"
+): ServiceDates => {
+  const deemedServiceDate = calculateDeemedServiceDate(servedDate, serviceMethod);
+
+  return {
+    servedDate: servedDate.split("T")[0],
+    serviceMethod,
+    deemedServiceDate,
+    earliestTerminationDate: calculateEarliestTerminationDate(deemedServiceDate, rentPeriod)
+  };
+};
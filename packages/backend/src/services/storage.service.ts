@@ -0,0 +1,69 @@
+import { supabaseAdmin } from "../config/database";
+import { logger } from "../utils/logger";
+
+// Supabase storage bucket that holds generated documents (N4, L1, ...)
+const DOCUMENTS_BUCKET = process.env.DOCUMENTS_BUCKET || "documents";
+
+/**
+ * Upload a generated PDF to Supabase storage and return its storage path
+ */
+export const uploadDocument = async (path: string, document: Buffer): Promise<string> => {
+  logger.debug(`Uploading document to ${DOCUMENTS_BUCKET}/${path}`);
+  console.log(`Uploading document to ${DOCUMENTS_BUCKET}/${path}`);
+
+  const { data, error } = await supabaseAdmin.storage
+    .from(DOCUMENTS_BUCKET)
+    .upload(path, document, {
+      contentType: "application/pdf",
+      upsert: true
+    });
+
+  if (error) {
+    logger.error(`Error uploading document ${path}: ${error.message}`);
+    console.log(`Error uploading document ${path}: ${error.message}`);
+    throw new Error(`Failed to upload document: ${error.message}`);
+  }
+
+  return data.path;
+};
+
+
+/**
+ * Download a stored document from Supabase storage
+ */
+export const downloadDocument = async (path: string): Promise<Buffer> => {
+  logger.debug(`Downloading document ${DOCUMENTS_BUCKET}/${path}`);
+  console.log(`Downloading document ${DOCUMENTS_BUCKET}/${path}`);
+
+  const { data, error } = await supabaseAdmin.storage
+    .from(DOCUMENTS_BUCKET)
+    .download(path);
+
+  if (error || !data) {
+    logger.error(`Error downloading document ${path}: ${error?.message || "Document not found"}`);
+    console.log(`Error downloading document ${path}: ${error?.message || "Document not found"}`);
+    throw new Error(`Failed to download document: ${error?.message || path}`);
+  }
+
+  return Buffer.from(await data.arrayBuffer());
+};
+
+/**
+ * A temporary link to a stored document, for sending it as a WhatsApp attachment
+ */
+export const getDocumentUrl = async (path: string, expiresInSeconds: number = 7 * 24 * 60 * 60): Promise<string> => {
+  logger.debug(`Creating signed URL for ${DOCUMENTS_BUCKET}/${path}`);
+  console.log(`Creating signed URL for ${DOCUMENTS_BUCKET}/${path}`);
+
+  const { data, error } = await supabaseAdmin.storage
+    .from(DOCUMENTS_BUCKET)
+    .createSignedUrl(path, expiresInSeconds);
+
+  if (error || !data) {
+    logger.error(`Error creating signed URL for ${path}: ${error?.message || "Document not found"}`);
+    console.log(`Error creating signed URL for ${path}: ${error?.message || "Document not found"}`);
+    throw new Error(`Failed to create document link: ${error?.message || path}`);
+  }
+
+  return data.signedUrl;
+};
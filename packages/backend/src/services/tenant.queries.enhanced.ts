@@ -13,6 +13,10 @@ interface EnhancedTenantQueryResult {
   unit_id: string | null;
   rent_amount: number | null;
   rent_due_day: number | null;
+  rent_frequency?: string | null;
+  rent_anchor_date?: string | null;
+  lease_start?: string | null;
+  lease_end?: string | null;
   units: {
     id: string;
     unit_number: string;
@@ -88,6 +92,10 @@ export async function fetchTenantsWithTenantUnits(): Promise<{ data: EnhancedTen
         // Use tenant_units data for rent values
         rent_amount: tenantUnit.rent_amount !== undefined ? Number(tenantUnit.rent_amount) : null,
         rent_due_day: tenantUnit.rent_due_day !== undefined ? Number(tenantUnit.rent_due_day) : null,
+        rent_frequency: tenantUnit.rent_frequency || "monthly",
+        rent_anchor_date: tenantUnit.rent_anchor_date || null,
+        lease_start: tenantUnit.lease_start || null,
+        lease_end: tenantUnit.lease_end || null,
         unit_id: unit?.id || null,
         // Include unit data
         units: unit || null,
@@ -305,6 +313,10 @@ export async function fetchTenantByIdEnhanced(id: string): Promise<{ data: Enhan
       // Use tenant_units data for rent values (these are the primary values)
       rent_amount: primaryTenantUnit?.rent_amount !== undefined ? Number(primaryTenantUnit.rent_amount) : null,
       rent_due_day: primaryTenantUnit?.rent_due_day !== undefined ? Number(primaryTenantUnit.rent_due_day) : null,
+      rent_frequency: primaryTenantUnit?.rent_frequency || "monthly",
+      rent_anchor_date: primaryTenantUnit?.rent_anchor_date || null,
+      lease_start: primaryTenantUnit?.lease_start || null,
+      lease_end: primaryTenantUnit?.lease_end || null,
       unit_id: primaryTenantUnit?.unit_id || enhancedTenant.unit_id,
       // Remove the nested tenant_units to avoid duplication
       tenant_units: undefined
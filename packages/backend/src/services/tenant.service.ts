@@ -283,6 +283,7 @@ async function manageTenantUnitRelationship(
             console.log(`Successfully created new primary tenant-unit relationship`);
             if (unitId) {
               await verifyTenantUnitRelationship(tenantId, unitId);
+              await markTenancyStarted(tenantId, unitId);
             }
           }
         }
@@ -322,6 +323,7 @@ async function manageTenantUnitRelationship(
         console.log(`Successfully created tenant-unit relationship:`, relationshipResult);
         if (unitId) {
           await verifyTenantUnitRelationship(tenantId, unitId);
+          await markTenancyStarted(tenantId, unitId);
         }
       }
     }
@@ -331,6 +333,32 @@ async function manageTenantUnitRelationship(
   }
 }
 
+/**
+ * Mark a unit occupied and its tenant current once a tenancy starts, undoing
+ * what a move-out left behind
+ */
+async function markTenancyStarted(tenantId: string, unitId: string): Promise<void> {
+  const { error: unitError } = await queriesAdminSupabase
+    .from("units")
+    .update({ status: "occupied" })
+    .eq("id", unitId);
+
+  if (unitError) {
+    logger.error(`Error marking unit ${unitId} occupied:`, unitError);
+    console.log(`Error marking unit ${unitId} occupied:`, unitError);
+  }
+
+  const { error: tenantError } = await queriesAdminSupabase
+    .from("tenants")
+    .update({ status: "current" })
+    .eq("id", tenantId);
+
+  if (tenantError) {
+    logger.error(`Error marking tenant ${tenantId} current:`, tenantError);
+    console.log(`Error marking tenant ${tenantId} current:`, tenantError);
+  }
+}
+
 /**
  * Verify tenant-unit relationship was properly created/updated
  */
@@ -575,6 +603,10 @@ export async function getTenantById(id: string): Promise<Tenant | null> {
           property_postal_code: properties?.postal_code,
           rent_amount: enhancedData.rent_amount,
           rent_due_day: enhancedData.rent_due_day,
+          rent_frequency: enhancedData.rent_frequency,
+          rent_anchor_date: enhancedData.rent_anchor_date,
+          lease_start: enhancedData.lease_start,
+          lease_end: enhancedData.lease_end,
         };
 
         console.log(`[getTenantById] Mapped enhanced tenant data to return:`, {
@@ -667,6 +699,10 @@ async function constructTenantResponse(data: any, id: string): Promise<Tenant |
     property_postal_code: properties?.postal_code ?? undefined,
     rent_amount: parsedRentAmount,
     rent_due_day: directTenantUnits?.rent_due_day ?? primaryRelationship?.rent_due_day ?? undefined,
+    rent_frequency: directTenantUnits?.rent_frequency ?? primaryRelationship?.rent_frequency ?? undefined,
+    rent_anchor_date: directTenantUnits?.rent_anchor_date ?? primaryRelationship?.rent_anchor_date ?? undefined,
+    lease_start: directTenantUnits?.lease_start ?? primaryRelationship?.lease_start ?? undefined,
+    lease_end: directTenantUnits?.lease_end ?? primaryRelationship?.lease_end ?? undefined,
   };
 
   console.log(`[getTenantById] Mapped tenant data to return:`, {
@@ -1,6 +1,7 @@
 import { TenantQueryResult } from "./tenant.queries";
 import { Tenant } from "../config/database"; // Corrected path
 import { logger } from "../utils/logger";
+import { RENT_FREQUENCIES } from "./billing.utils";
 
 // Add functions for data transformation and validation here
 
@@ -99,6 +100,49 @@ export function validateRentAndUnitData(unit_id: string | undefined, rent_amount
   return { validatedRentAmount, validatedRentDueDay };
 }
 
+/**
+ * Validates the rent frequency and anchor date for creating or updating a tenant.
+ * Anything but monthly rent repeats from the anchor date, so it needs one.
+ */
+export function validateRentSchedule(rent_frequency: any, rent_anchor_date: any): void {
+  if (rent_frequency !== undefined && !RENT_FREQUENCIES.includes(rent_frequency)) {
+    throw new Error(`Rent frequency must be one of ${RENT_FREQUENCIES.join(", ")}`);
+  }
+
+  if (rent_anchor_date && (typeof rent_anchor_date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(rent_anchor_date))) {
+    throw new Error("Rent anchor date must be a date (YYYY-MM-DD)");
+  }
+
+  if (rent_frequency && rent_frequency !== "monthly" && !rent_anchor_date) {
+    throw new Error("Rent anchor date is required for weekly, bi-weekly and quarterly rent");
+  }
+}
+
+/**
+ * Validates the lease dates for creating or updating a tenant. The first and
+ * last rent charges are prorated from them.
+ */
+export function validateLeaseDates(lease_start: any, lease_end: any): void {
+  for (const [label, value] of [["Lease start", lease_start], ["Lease end", lease_end]]) {
+    if (value && (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value))) {
+      throw new Error(`${label} must be a date (YYYY-MM-DD)`);
+    }
+  }
+
+  if (lease_start && lease_end && lease_end < lease_start) {
+    throw new Error("Lease end cannot be before the lease start");
+  }
+}
+
+/**
+ * Validates the date a rent change takes effect
+ */
+export function validateRentEffectiveDate(rent_effective_date: any): void {
+  if (rent_effective_date && (typeof rent_effective_date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(rent_effective_date))) {
+    throw new Error("Rent effective date must be a date (YYYY-MM-DD)");
+  }
+}
+
 /**
  * Parses rent amount, handling potential string or number inputs and NaN.
  */
@@ -0,0 +1,366 @@
+import { supabase, UtilityBill, UtilityBillAllocation, AdditionalCharge, Tenant, TenantUnit, Unit, Property } from "../config/database";
+import { logger } from "../utils/logger";
+import { paymentService } from "./payment.service";
+import { additionalChargeService } from "./additionalCharge.service";
+import { generateUtilityBreakdownPdf } from "./pdf.service";
+import { uploadDocument, downloadDocument } from "./storage.service";
+import { sendUtilityBillNotification, sendAdditionalChargesDueNotification } from "./notification.service";
+import {
+  allocateUtilityBill,
+  validateAllocationInputs,
+  describeAllocationBasis,
+  describeUtility,
+  describeUtilityCharge,
+  UtilityAllocationInput,
+  UtilityAllocationMethod
+} from "./utilityBill.utils";
+
+type UnitRow = Pick<Unit, "id" | "unit_number" | "square_feet">;
+type AllocationWithUnit = UtilityBillAllocation & { units: Pick<Unit, "unit_number"> };
+
+const ALLOCATION_METHOD_LABELS: Record<UtilityAllocationMethod, string> = {
+  meter: "Meter readings",
+  square_footage: "Square footage",
+  equal: "Equal shares"
+};
+
+const today = (): string => new Date().toISOString().split("T")[0];
+
+/**
+ * A utility bill with each unit's part of it
+ */
+export interface UtilityBillWithAllocations extends UtilityBill {
+  allocations: AllocationWithUnit[];
+}
+
+export interface UtilityBillInput {
+  property_id: string;
+  utility_type: UtilityBill["utility_type"];
+  period_start: string;
+  period_end: string;
+  total_amount: number;
+  allocation_method: UtilityAllocationMethod;
+  due_date?: string;
+  // Meter method only: the readings of each sub-metered unit
+  readings?: { unit_id: string; meter_start: number; meter_end: number }[];
+}
+
+export class UtilityBillService {
+  /**
+   * List utility bills, optionally for one property, newest period first
+   */
+  async listBills(propertyId?: string): Promise<UtilityBill[]> {
+    let query = supabase
+      .from("utility_bills")
+      .select("*")
+      .order("period_start", { ascending: false });
+
+    if (propertyId) {
+      query = query.eq("property_id", propertyId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      logger.error(`Error fetching utility bills: ${error.message}`);
+      console.log(`Error fetching utility bills: ${error.message}`);
+      throw new Error(`Failed to fetch utility bills: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  /**
+   * Get a utility bill with each unit's part of it
+   */
+  async getBillById(id: string): Promise<UtilityBillWithAllocations | null> {
+    const { data, error } = await supabase
+      .from("utility_bills")
+      .select("*, allocations:utility_bill_allocations(*, units(unit_number))")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`Error fetching utility bill ${id}: ${error.message}`);
+      console.log(`Error fetching utility bill ${id}: ${error.message}`);
+      throw new Error(`Failed to fetch utility bill: ${error.message}`);
+    }
+    return data;
+  }
+
+  /**
+   * Record a property's utility bill and split it across the units: by the
+   * readings of the sub-metered units, or across every unit of the property
+   * by square footage or in equal shares. Each occupied unit's part is
+   * charged to its tenant, who is sent a breakdown PDF with an Interac
+   * request; a vacant unit's part is left to the landlord.
+   * Returns null if the property does not exist.
+   */
+  async createBill(input: UtilityBillInput): Promise<UtilityBillWithAllocations | null> {
+    const { data: property, error: propertyError } = await supabase
+      .from("properties")
+      .select("*")
+      .eq("id", input.property_id)
+      .maybeSingle();
+
+    if (propertyError) {
+      logger.error(`Error fetching property ${input.property_id}: ${propertyError.message}`);
+      console.log(`Error fetching property ${input.property_id}: ${propertyError.message}`);
+      throw new Error(`Failed to fetch property: ${propertyError.message}`);
+    }
+    if (!property) {
+      return null;
+    }
+
+    const units = await this.getPropertyUnits(property.id);
+    const inputs = this.getAllocationInputs(input, units);
+
+    const invalid = validateAllocationInputs(input.allocation_method, inputs);
+    if (invalid) {
+      throw Object.assign(new Error(invalid), { statusCode: 422 });
+    }
+
+    logger.info(`Splitting ${input.utility_type} bill of ${input.total_amount} for property ${property.id} by ${input.allocation_method}`);
+    console.log(`Splitting ${input.utility_type} bill of ${input.total_amount} for property ${property.id} by ${input.allocation_method}`);
+
+    const { data: bill, error } = await supabase
+      .from("utility_bills")
+      .insert([{
+        property_id: property.id,
+        utility_type: input.utility_type,
+        period_start: input.period_start,
+        period_end: input.period_end,
+        total_amount: input.total_amount,
+        allocation_method: input.allocation_method,
+        due_date: input.due_date || today()
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      logger.error(`Error creating utility bill: ${error.message}`);
+      console.log(`Error creating utility bill: ${error.message}`);
+      throw new Error(`Failed to create utility bill: ${error.message}`);
+    }
+
+    const allocations = allocateUtilityBill(Number(input.total_amount), input.allocation_method, inputs);
+    const tenancies = new Map<string, (TenantUnit & { tenants: Tenant }) | null>();
+    for (const allocation of allocations) {
+      tenancies.set(allocation.unitId, await this.getChargedTenancy(allocation.unitId));
+    }
+
+    const { data: rows, error: allocationsError } = await supabase
+      .from("utility_bill_allocations")
+      .insert(allocations.map((allocation, index) => ({
+        utility_bill_id: bill.id,
+        unit_id: allocation.unitId,
+        tenant_unit_id: tenancies.get(allocation.unitId)?.id || null,
+        meter_start: inputs[index].meterStart ?? null,
+        meter_end: inputs[index].meterEnd ?? null,
+        basis: allocation.basis,
+        share: allocation.share,
+        amount: allocation.amount
+      })))
+      .select("*, units(unit_number)");
+
+    if (allocationsError) {
+      logger.error(`Error recording utility bill ${bill.id} allocations: ${allocationsError.message}`);
+      console.log(`Error recording utility bill ${bill.id} allocations: ${allocationsError.message}`);
+      throw new Error(`Failed to record utility bill allocations: ${allocationsError.message}`);
+    }
+
+    const allocationRows = (rows || []) as AllocationWithUnit[];
+    for (const allocation of allocationRows) {
+      const tenancy = tenancies.get(allocation.unit_id);
+      if (!tenancy || Number(allocation.amount) <= 0) {
+        continue;
+      }
+
+      // One tenant's failure must not stop the others from being charged
+      try {
+        await this.chargeTenant(bill, allocation, allocationRows, tenancy, property);
+      } catch (chargeError) {
+        logger.error(`Error charging utility bill ${bill.id} to tenant_unit ${tenancy.id}: ${chargeError}`);
+        console.log(`Error charging utility bill ${bill.id} to tenant_unit ${tenancy.id}: ${chargeError}`);
+      }
+    }
+
+    return this.getBillById(bill.id);
+  }
+
+  /**
+   * A tenant's breakdown PDF of a utility bill. Null if there is none.
+   */
+  async getBreakdownPdf(billId: string, allocationId: string): Promise<Buffer | null> {
+    const { data, error } = await supabase
+      .from("utility_bill_allocations")
+      .select("document_path")
+      .eq("id", allocationId)
+      .eq("utility_bill_id", billId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`Error fetching utility bill allocation ${allocationId}: ${error.message}`);
+      console.log(`Error fetching utility bill allocation ${allocationId}: ${error.message}`);
+      throw new Error(`Failed to fetch utility bill allocation: ${error.message}`);
+    }
+    if (!data || !data.document_path) {
+      return null;
+    }
+    return downloadDocument(data.document_path);
+  }
+
+  /**
+   * The units of a property
+   */
+  private async getPropertyUnits(propertyId: string): Promise<UnitRow[]> {
+    const { data, error } = await supabase
+      .from("units")
+      .select("id, unit_number, square_feet")
+      .eq("property_id", propertyId)
+      .order("unit_number", { ascending: true });
+
+    if (error) {
+      logger.error(`Error fetching units of property ${propertyId}: ${error.message}`);
+      console.log(`Error fetching units of property ${propertyId}: ${error.message}`);
+      throw new Error(`Failed to fetch units: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  /**
+   * The units a bill is split across: the sub-metered units for the meter
+   * method, otherwise every unit of the property
+   */
+  private getAllocationInputs(input: UtilityBillInput, units: UnitRow[]): UtilityAllocationInput[] {
+    if (input.allocation_method !== "meter") {
+      return units.map((unit) => ({ unitId: unit.id, squareFeet: unit.square_feet }));
+    }
+
+    const readings = input.readings || [];
+    const unknown = readings.find((reading) => !units.some((unit) => unit.id === reading.unit_id));
+    if (unknown) {
+      throw Object.assign(new Error(`Unit ${unknown.unit_id} is not a unit of this property`), { statusCode: 422 });
+    }
+    return readings.map((reading) => ({
+      unitId: reading.unit_id,
+      meterStart: reading.meter_start,
+      meterEnd: reading.meter_end
+    }));
+  }
+
+  /**
+   * The tenancy a unit's utilities are charged to: the joint lease when the
+   * unit is shared, otherwise its tenant's. Null for a vacant unit.
+   */
+  private async getChargedTenancy(unitId: string): Promise<(TenantUnit & { tenants: Tenant }) | null> {
+    const { data, error } = await supabase
+      .from("tenant_units")
+      .select("*, tenants(*)")
+      .eq("unit_id", unitId)
+      .neq("status", "ended")
+      .is("joint_lease_id", null)
+      .order("created_at", { ascending: true })
+      .limit(1);
+
+    if (error) {
+      logger.error(`Error fetching tenancy of unit ${unitId}: ${error.message}`);
+      console.log(`Error fetching tenancy of unit ${unitId}: ${error.message}`);
+      throw new Error(`Failed to fetch tenant_units: ${error.message}`);
+    }
+    return (data && data[0]) || null;
+  }
+
+  /**
+   * Charge a unit's part of a bill to its tenant, store their breakdown PDF
+   * and send it with an Interac request for the charge
+   */
+  private async chargeTenant(
+    bill: UtilityBill,
+    allocation: AllocationWithUnit,
+    allocations: AllocationWithUnit[],
+    tenancy: TenantUnit & { tenants: Tenant },
+    property: Property
+  ): Promise<void> {
+    const tenant = tenancy.tenants;
+    const unitNumber = allocation.units.unit_number;
+    const propertyAddress = `${property.address}, ${property.city}, ${property.province} ${property.postal_code}`;
+
+    const charge: AdditionalCharge = await additionalChargeService.createCharge({
+      tenant_unit_id: tenancy.id,
+      tenant_id: tenant.id,
+      unit_id: allocation.unit_id,
+      category: "utilities",
+      description: describeUtilityCharge(bill.utility_type, bill.period_start, bill.period_end),
+      amount: Number(allocation.amount),
+      due_date: bill.due_date
+    });
+
+    // Without the breakdown the tenant is still asked to pay
+    let documentPath: string | null = null;
+    try {
+      const pdf = await generateUtilityBreakdownPdf({
+        tenantName: `${tenant.first_name} ${tenant.last_name}`,
+        rentalAddress: `${unitNumber}, ${propertyAddress}`,
+        utility: describeUtility(bill.utility_type),
+        periodStart: bill.period_start.split("T")[0],
+        periodEnd: bill.period_end.split("T")[0],
+        totalAmount: Number(bill.total_amount),
+        allocationMethod: ALLOCATION_METHOD_LABELS[bill.allocation_method],
+        dueDate: bill.due_date.split("T")[0],
+        rows: allocations.map((row) => ({
+          unitNumber: row.units.unit_number,
+          basis: describeAllocationBasis(bill.allocation_method, {
+            unitId: row.unit_id,
+            meterStart: row.meter_start,
+            meterEnd: row.meter_end,
+            basis: Number(row.basis)
+          }),
+          share: Number(row.share),
+          amount: Number(row.amount)
+        })),
+        amountDue: Number(allocation.amount)
+      });
+      documentPath = await uploadDocument(
+        `utility-bills/${bill.property_id}/${bill.id}/${bill.utility_type}_${unitNumber}_${bill.period_end.split("T")[0]}.pdf`,
+        pdf
+      );
+    } catch (pdfError) {
+      logger.error(`Error generating utility breakdown for tenant_unit ${tenancy.id}: ${pdfError}`);
+      console.log(`Error generating utility breakdown for tenant_unit ${tenancy.id}: ${pdfError}`);
+    }
+
+    const { error } = await supabase
+      .from("utility_bill_allocations")
+      .update({ additional_charge_id: charge.id, document_path: documentPath })
+      .eq("id", allocation.id);
+
+    if (error) {
+      logger.error(`Error linking utility bill allocation ${allocation.id} to its charge: ${error.message}`);
+      console.log(`Error linking utility bill allocation ${allocation.id} to its charge: ${error.message}`);
+      throw new Error(`Failed to update utility bill allocation: ${error.message}`);
+    }
+
+    try {
+      charge.interac_request_link = await paymentService.generateInteracRequestLink(
+        tenant.email,
+        tenant.first_name,
+        Number(charge.amount),
+        `${charge.description} for unit ${unitNumber}`
+      );
+    } catch (linkError) {
+      logger.error(`Error generating Interac request link for tenant ${tenant.id}: ${linkError}`);
+      console.log(`Error generating Interac request link for tenant ${tenant.id}: ${linkError}`);
+    }
+    await additionalChargeService.markRequested([charge], null, charge.interac_request_link);
+
+    const unit = { ...allocation.units, id: allocation.unit_id } as Unit;
+    if (documentPath) {
+      await sendUtilityBillNotification(tenant, charge, unit, propertyAddress, documentPath);
+    } else {
+      await sendAdditionalChargesDueNotification(tenant, [charge], unit, propertyAddress, charge.interac_request_link);
+    }
+  }
+}
+
+// Create and export instance for use in other files
+export const utilityBillService = new UtilityBillService();
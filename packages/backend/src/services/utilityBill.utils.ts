@@ -0,0 +1,134 @@
+// Pure calculations for splitting a property's utility bill across its units
+// by meter readings, floor area or equal shares. Kept free of database
+// access so the allocation can be unit tested.
+
+export type UtilityAllocationMethod = "meter" | "square_footage" | "equal";
+
+export type UtilityType = "hydro" | "water" | "gas";
+
+const UTILITY_LABELS: Record<UtilityType, string> = {
+  hydro: "Hydro",
+  water: "Water",
+  gas: "Gas"
+};
+
+/**
+ * What a unit's part of a bill is based on. Meter readings are needed for
+ * the meter method and square feet for the square footage method.
+ */
+export interface UtilityAllocationInput {
+  unitId: string;
+  meterStart?: number | null;
+  meterEnd?: number | null;
+  squareFeet?: number | null;
+}
+
+/**
+ * A unit's part of a bill: its basis (usage, square feet or 1 for an equal
+ * share), its percentage of the bill and the amount charged
+ */
+export interface UtilityAllocation {
+  unitId: string;
+  basis: number;
+  share: number;
+  amount: number;
+}
+
+const roundToCents = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * The quantity a unit's part is proportional to
+ */
+export const getAllocationBasis = (method: UtilityAllocationMethod, unit: UtilityAllocationInput): number => {
+  if (method === "meter") {
+    return Number(unit.meterEnd) - Number(unit.meterStart);
+  }
+  if (method === "square_footage") {
+    return Number(unit.squareFeet);
+  }
+  return 1;
+};
+
+/**
+ * Why a bill can't be split this way, or null when it can
+ */
+export const validateAllocationInputs = (method: UtilityAllocationMethod, units: UtilityAllocationInput[]): string | null => {
+  if (units.length === 0) {
+    return "The bill needs at least one unit to split it across";
+  }
+
+  if (method === "meter") {
+    const missing = units.find((unit) => unit.meterStart === null || unit.meterStart === undefined || unit.meterEnd === null || unit.meterEnd === undefined);
+    if (missing) {
+      return `Unit ${missing.unitId} needs a start and end meter reading`;
+    }
+    const reversed = units.find((unit) => Number(unit.meterEnd) < Number(unit.meterStart));
+    if (reversed) {
+      return `Unit ${reversed.unitId}'s end meter reading is lower than its start reading`;
+    }
+  }
+
+  if (method === "square_footage") {
+    const missing = units.find((unit) => !unit.squareFeet || Number(unit.squareFeet) <= 0);
+    if (missing) {
+      return `Unit ${missing.unitId} has no square footage`;
+    }
+  }
+
+  if (units.reduce((total, unit) => total + getAllocationBasis(method, unit), 0) <= 0) {
+    return "The meters recorded no usage to split the bill by";
+  }
+  return null;
+};
+
+/**
+ * Split a bill in proportion to each unit's basis. Amounts are rounded to
+ * the cent and the rounding remainder goes to the unit with the largest
+ * basis, so the parts always add up to the bill.
+ */
+export const allocateUtilityBill = (
+  totalAmount: number,
+  method: UtilityAllocationMethod,
+  units: UtilityAllocationInput[]
+): UtilityAllocation[] => {
+  const bases = units.map((unit) => getAllocationBasis(method, unit));
+  const totalBasis = bases.reduce((total, basis) => total + basis, 0);
+
+  const allocations = units.map((unit, index) => ({
+    unitId: unit.unitId,
+    basis: bases[index],
+    share: roundToCents((bases[index] / totalBasis) * 100),
+    amount: roundToCents((totalAmount * bases[index]) / totalBasis)
+  }));
+
+  const remainder = roundToCents(totalAmount - allocations.reduce((total, allocation) => total + allocation.amount, 0));
+  if (remainder !== 0) {
+    const largest = bases.indexOf(Math.max(...bases));
+    allocations[largest].amount = roundToCents(allocations[largest].amount + remainder);
+  }
+  return allocations;
+};
+
+/**
+ * How a unit's basis is shown on the breakdown, e.g. "1,000 to 2,250 (1,250 used)" or "850 sq ft"
+ */
+export const describeAllocationBasis = (method: UtilityAllocationMethod, allocation: UtilityAllocationInput & { basis: number }): string => {
+  if (method === "meter") {
+    return `${Number(allocation.meterStart).toLocaleString("en-CA")} to ${Number(allocation.meterEnd).toLocaleString("en-CA")} (${allocation.basis.toLocaleString("en-CA")} used)`;
+  }
+  if (method === "square_footage") {
+    return `${allocation.basis.toLocaleString("en-CA")} sq ft`;
+  }
+  return "Equal share";
+};
+
+/**
+ * The name of a utility as shown to the tenant, e.g. "Hydro"
+ */
+export const describeUtility = (utilityType: UtilityType): string => UTILITY_LABELS[utilityType];
+
+/**
+ * How a utility bill's charge is named to the tenant, e.g. "Hydro 2026-09-01 to 2026-09-30"
+ */
+export const describeUtilityCharge = (utilityType: UtilityType, periodStart: string, periodEnd: string): string =>
+  `${describeUtility(utilityType)} ${periodStart.split("T")[0]} to ${periodEnd.split("T")[0]}`;
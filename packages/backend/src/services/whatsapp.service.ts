@@ -34,13 +34,19 @@ interface WhatsAppTemplateMessage {
         date_time?: {
           fallback_value: string;
         };
+        document?: {
+          link: string;
+          filename: string;
+        };
       }>;
     }>;
   };
 }
 
 /**
- * Send a WhatsApp template message for rent notification
+ * Send a WhatsApp template message for rent notification. A prorated charge
+ * uses the rent_due_prorated template, which also shows the calculation, and
+ * rent requested with other charges uses rent_due_itemised, which lists them.
  */
 export const sendRentDueMessage = async (
   phoneNumber: string,
@@ -48,7 +54,9 @@ export const sendRentDueMessage = async (
   dueDate: string,
   amount: number,
   unitAddress: string,
-  interacLink: string
+  interacLink: string,
+  proration?: string | null,
+  items?: string | null
 ): Promise<string> => {
   try {
     logger.debug("Sending rent due WhatsApp message");
@@ -64,7 +72,7 @@ export const sendRentDueMessage = async (
     const messagePayload: WhatsAppTemplateMessage = {
       to: formattedPhone,
       template: {
-        name: "rent_due_notification",
+        name: items ? "rent_due_itemised" : proration ? "rent_due_prorated" : "rent_due_notification",
         language: {
           code: "en_US"
         },
@@ -104,6 +112,13 @@ export const sendRentDueMessage = async (
       }
     };
 
+    if (items || proration) {
+      messagePayload.template.components[0].parameters.push({
+        type: "text",
+        text: (items || proration) as string
+      });
+    }
+
     // Make the API call to send the message
     const response = await axios.post(
       `${BASE_URL}/messages`,
@@ -215,6 +230,455 @@ export const sendRentLateMessage = async (
   }
 };
 
+/**
+ * Send a WhatsApp template message telling the landlord an N4 was voided by payment
+ */
+export const sendN4VoidedMessage = async (
+  phoneNumber: string,
+  landlordName: string,
+  tenantName: string,
+  unitAddress: string,
+  terminationDate: string
+): Promise<string> => {
+  try {
+    logger.debug("Sending N4 voided WhatsApp message");
+    console.log("Sending N4 voided WhatsApp message to", phoneNumber);
+
+    // Format the phone number to ensure it has the correct format
+    const formattedPhone = phoneNumber.startsWith("+") ? phoneNumber : `+${phoneNumber}`;
+
+    // Create the message payload
+    const messagePayload: WhatsAppTemplateMessage = {
+      to: formattedPhone,
+      template: {
+        name: "n4_voided_notification",
+        language: {
+          code: "en_US"
+        },
+        components: [
+          {
+            type: "body",
+            parameters: [
+              {
+                type: "text",
+                text: landlordName
+              },
+              {
+                type: "text",
+                text: tenantName
+              },
+              {
+                type: "text",
+                text: unitAddress
+              },
+              {
+                type: "date_time",
+                date_time: {
+                  fallback_value: terminationDate
+                }
+              }
+            ]
+          }
+        ]
+      }
+    };
+
+    // Make the API call to send the message
+    const response = await axios.post(
+      `${BASE_URL}/messages`,
+      messagePayload,
+      {
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${WHATSAPP_ACCESS_TOKEN}`
+        }
+      }
+    );
+
+    logger.debug("WhatsApp N4 voided message sent successfully");
+    console.log("WhatsApp N4 voided message sent successfully", response.data);
+
+    // Return the message ID from the WhatsApp API
+    return response.data.messages[0].id;
+  } catch (error) {
+    logger.error("Error sending WhatsApp N4 voided message", error);
+    console.log("Error sending WhatsApp N4 voided message", error);
+    throw new Error("Failed to send WhatsApp N4 voided message");
+  }
+};
+
+/**
+ * Send a WhatsApp template message reminding the tenant of a payment plan installment
+ */
+export const sendInstallmentReminderMessage = async (
+  phoneNumber: string,
+  tenantName: string,
+  dueDate: string,
+  amount: number,
+  unitAddress: string
+): Promise<string> => {
+  try {
+    logger.debug("Sending installment reminder WhatsApp message");
+    console.log("Sending installment reminder WhatsApp message to", phoneNumber);
+
+    // Format the phone number to ensure it has the correct format
+    const formattedPhone = phoneNumber.startsWith("+") ? phoneNumber : `+${phoneNumber}`;
+
+    // Format the currency amount
+    const amountInCents = Math.round(amount * 1000);
+
+    // Create the message payload
+    const messagePayload: WhatsAppTemplateMessage = {
+      to: formattedPhone,
+      template: {
+        name: "payment_plan_installment_reminder",
+        language: {
+          code: "en_US"
+        },
+        components: [
+          {
+            type: "body",
+            parameters: [
+              {
+                type: "text",
+                text: tenantName
+              },
+              {
+                type: "currency",
+                currency: {
+                  fallback_value: `$${amount.toFixed(2)}`,
+                  code: "CAD",
+                  amount_1000: amountInCents
+                }
+              },
+              {
+                type: "date_time",
+                date_time: {
+                  fallback_value: dueDate
+                }
+              },
+              {
+                type: "text",
+                text: unitAddress
+              }
+            ]
+          }
+        ]
+      }
+    };
+
+    // Make the API call to send the message
+    const response = await axios.post(
+      `${BASE_URL}/messages`,
+      messagePayload,
+      {
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${WHATSAPP_ACCESS_TOKEN}`
+        }
+      }
+    );
+
+    logger.debug("WhatsApp installment reminder sent successfully");
+    console.log("WhatsApp installment reminder sent successfully", response.data);
+
+    // Return the message ID from the WhatsApp API
+    return response.data.messages[0].id;
+  } catch (error) {
+    logger.error("Error sending WhatsApp installment reminder", error);
+    console.log("Error sending WhatsApp installment reminder", error);
+    throw new Error("Failed to send WhatsApp installment reminder");
+  }
+};
+
+/**
+ * Send a WhatsApp template message telling a tenant their rent was paid from their credit
+ */
+export const sendRentCoveredByCreditMessage = async (
+  phoneNumber: string,
+  tenantName: string,
+  dueDate: string,
+  amountCovered: number,
+  creditRemaining: number,
+  unitAddress: string
+): Promise<string> => {
+  try {
+    logger.debug("Sending rent covered by credit WhatsApp message");
+    console.log("Sending rent covered by credit WhatsApp message to", phoneNumber);
+
+    // Format the phone number to ensure it has the correct format
+    const formattedPhone = phoneNumber.startsWith("+") ? phoneNumber : `+${phoneNumber}`;
+
+    // Create the message payload
+    const messagePayload: WhatsAppTemplateMessage = {
+      to: formattedPhone,
+      template: {
+        name: "rent_covered_by_credit",
+        language: {
+          code: "en_US"
+        },
+        components: [
+          {
+            type: "body",
+            parameters: [
+              {
+                type: "text",
+                text: tenantName
+              },
+              {
+                type: "currency",
+                currency: {
+                  fallback_value: `$${amountCovered.toFixed(2)}`,
+                  code: "CAD",
+                  amount_1000: Math.round(amountCovered * 1000)
+                }
+              },
+              {
+                type: "date_time",
+                date_time: {
+                  fallback_value: dueDate
+                }
+              },
+              {
+                type: "text",
+                text: unitAddress
+              },
+              {
+                type: "currency",
+                currency: {
+                  fallback_value: `$${creditRemaining.toFixed(2)}`,
+                  code: "CAD",
+                  amount_1000: Math.round(creditRemaining * 1000)
+                }
+              }
+            ]
+          }
+        ]
+      }
+    };
+
+    // Make the API call to send the message
+    const response = await axios.post(
+      `${BASE_URL}/messages`,
+      messagePayload,
+      {
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${WHATSAPP_ACCESS_TOKEN}`
+        }
+      }
+    );
+
+    logger.debug("WhatsApp rent covered by credit message sent successfully");
+    console.log("WhatsApp rent covered by credit message sent successfully", response.data);
+
+    // Return the message ID from the WhatsApp API
+    return response.data.messages[0].id;
+  } catch (error) {
+    logger.error("Error sending WhatsApp rent covered by credit message", error);
+    console.log("Error sending WhatsApp rent covered by credit message", error);
+    throw new Error("Failed to send WhatsApp rent covered by credit message");
+  }
+};
+
+/**
+ * Send a WhatsApp template message for charges requested apart from the rent,
+ * such as parking or storage, listing each of them
+ */
+export const sendAdditionalChargesDueMessage = async (
+  phoneNumber: string,
+  tenantName: string,
+  dueDate: string,
+  amount: number,
+  unitAddress: string,
+  interacLink: string,
+  items: string
+): Promise<string> => {
+  try {
+    logger.debug("Sending additional charges due WhatsApp message");
+    console.log("Sending additional charges due WhatsApp message to", phoneNumber);
+
+    // Format the phone number to ensure it has the correct format
+    const formattedPhone = phoneNumber.startsWith("+") ? phoneNumber : `+${phoneNumber}`;
+
+    // Create the message payload
+    const messagePayload: WhatsAppTemplateMessage = {
+      to: formattedPhone,
+      template: {
+        name: "additional_charges_due",
+        language: {
+          code: "en_US"
+        },
+        components: [
+          {
+            type: "body",
+            parameters: [
+              {
+                type: "text",
+                text: tenantName
+              },
+              {
+                type: "currency",
+                currency: {
+                  fallback_value: `$${amount.toFixed(2)}`,
+                  code: "CAD",
+                  amount_1000: Math.round(amount * 1000)
+                }
+              },
+              {
+                type: "date_time",
+                date_time: {
+                  fallback_value: dueDate
+                }
+              },
+              {
+                type: "text",
+                text: unitAddress
+              },
+              {
+                type: "text",
+                text: interacLink
+              },
+              {
+                type: "text",
+                text: items
+              }
+            ]
+          }
+        ]
+      }
+    };
+
+    // Make the API call to send the message
+    const response = await axios.post(
+      `${BASE_URL}/messages`,
+      messagePayload,
+      {
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${WHATSAPP_ACCESS_TOKEN}`
+        }
+      }
+    );
+
+    logger.debug("WhatsApp additional charges due message sent successfully");
+    console.log("WhatsApp additional charges due message sent successfully", response.data);
+
+    // Return the message ID from the WhatsApp API
+    return response.data.messages[0].id;
+  } catch (error) {
+    logger.error("Error sending WhatsApp additional charges due message", error);
+    console.log("Error sending WhatsApp additional charges due message", error);
+    throw new Error("Failed to send WhatsApp additional charges due message");
+  }
+};
+
+/**
+ * Send a WhatsApp template message for a tenant's part of a utility bill,
+ * with the breakdown PDF attached
+ */
+export const sendUtilityBillMessage = async (
+  phoneNumber: string,
+  tenantName: string,
+  dueDate: string,
+  amount: number,
+  unitAddress: string,
+  interacLink: string,
+  utility: string,
+  documentLink: string,
+  filename: string
+): Promise<string> => {
+  try {
+    logger.debug("Sending utility bill WhatsApp message");
+    console.log("Sending utility bill WhatsApp message to", phoneNumber);
+
+    // Format the phone number to ensure it has the correct format
+    const formattedPhone = phoneNumber.startsWith("+") ? phoneNumber : `+${phoneNumber}`;
+
+    // Create the message payload
+    const messagePayload: WhatsAppTemplateMessage = {
+      to: formattedPhone,
+      template: {
+        name: "utility_bill_due",
+        language: {
+          code: "en_US"
+        },
+        components: [
+          {
+            type: "header",
+            parameters: [
+              {
+                type: "document",
+                document: {
+                  link: documentLink,
+                  filename
+                }
+              }
+            ]
+          },
+          {
+            type: "body",
+            parameters: [
+              {
+                type: "text",
+                text: tenantName
+              },
+              {
+                type: "text",
+                text: utility
+              },
+              {
+                type: "currency",
+                currency: {
+                  fallback_value: `$${amount.toFixed(2)}`,
+                  code: "CAD",
+                  amount_1000: Math.round(amount * 1000)
+                }
+              },
+              {
+                type: "date_time",
+                date_time: {
+                  fallback_value: dueDate
+                }
+              },
+              {
+                type: "text",
+                text: unitAddress
+              },
+              {
+                type: "text",
+                text: interacLink
+              }
+            ]
+          }
+        ]
+      }
+    };
+
+    // Make the API call to send the message
+    const response = await axios.post(
+      `${BASE_URL}/messages`,
+      messagePayload,
+      {
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${WHATSAPP_ACCESS_TOKEN}`
+        }
+      }
+    );
+
+    logger.debug("WhatsApp utility bill message sent successfully");
+    console.log("WhatsApp utility bill message sent successfully", response.data);
+
+    // Return the message ID from the WhatsApp API
+    return response.data.messages[0].id;
+  } catch (error) {
+    logger.error("Error sending WhatsApp utility bill message", error);
+    console.log("Error sending WhatsApp utility bill message", error);
+    throw new Error("Failed to send WhatsApp utility bill message");
+  }
+};
+
 /**
  * Check the status of a WhatsApp message delivery
  */
@@ -1,12 +1,17 @@
 // This file defines types for the Supabase database schema
 
-import { Tenant, TenantUnit, Property, Unit, RentPayment, Notification } from "../config/database";
+import { Tenant, TenantUnit, Landlord, Property, Unit, RentPayment, Notification, LegalNotice, PaymentPlan, PaymentPlanInstallment, LedgerEntry } from "../config/database";
 
 export type Database = {
   tenants: Tenant[];
   tenant_units: TenantUnit[];
+  landlords: Landlord[];
   properties: Property[];
   units: Unit[];
   rent_payments: RentPayment[];
   notifications: Notification[];
+  legal_notices: LegalNotice[];
+  payment_plans: PaymentPlan[];
+  payment_plan_installments: PaymentPlanInstallment[];
+  ledger_entries: LedgerEntry[];
 };
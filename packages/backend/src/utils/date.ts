@@ -0,0 +1,34 @@
+// Date-only (YYYY-MM-DD) helpers. Dates are handled in UTC so day arithmetic
+// is not affected by the server's time zone.
+
+/**
+ * Parse a YYYY-MM-DD string as a UTC date
+ */
+export const parseDate = (date: string): Date => {
+  const [year, month, day] = date.split("T")[0].split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+export const formatDate = (date: Date): string => date.toISOString().split("T")[0];
+
+export const addDays = (date: string, days: number): string => {
+  const result = parseDate(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return formatDate(result);
+};
+
+/**
+ * Add months to a date, clamping to the last day of the target month
+ */
+export const addMonths = (date: string, months: number): string => {
+  const start = parseDate(date);
+  const target = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(start.getUTCDate(), lastDay));
+  return formatDate(target);
+};
+
+export const isWeekend = (date: string): boolean => {
+  const day = parseDate(date).getUTCDay();
+  return day === 0 || day === 6;
+};
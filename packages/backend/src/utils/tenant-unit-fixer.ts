@@ -1,10 +1,15 @@
-import { supabase } from "../config/database";
+import { supabase, TenantUnit } from "../config/database";
 
 interface FixResult {
   success: boolean;
   message: string;
 }
 
+/**
+ * Rent frequency and lease fields to set alongside the rent; omitted fields are left as they are
+ */
+export type RentScheduleUpdate = Partial<Pick<TenantUnit, "rent_frequency" | "rent_anchor_date" | "lease_start" | "lease_end">>;
+
 /**
  * This function ensures that rent_amount and rent_due_day are properly stored in the tenant_units table
  * for the given tenant and unit. It directly uses raw SQL to ensure data consistency.
@@ -13,7 +18,8 @@ export async function fixTenantUnitRelationship(
   tenantId: string,
   unitId: string,
   rentAmount: number,
-  rentDueDay: number
+  rentDueDay: number,
+  schedule: RentScheduleUpdate = {}
 ): Promise<FixResult> {
   console.log(`[DEBUG-FIXER] Starting fixTenantUnitRelationship`);
   console.log(`[DEBUG-FIXER] Input values: tenantId=${tenantId}, unitId=${unitId}`);
@@ -49,6 +55,7 @@ export async function fixTenantUnitRelationship(
       const updateData = {
         rent_amount: rentAmount,
         rent_due_day: rentDueDay,
+        ...schedule,
         is_primary: true, // Ensure this is the primary relationship
         updated_at: new Date().toISOString()
       };
@@ -77,7 +84,8 @@ export async function fixTenantUnitRelationship(
         rent_amount: rentAmount,
         rent_due_day: rentDueDay,
         is_primary: true,
-        lease_start_date: new Date().toISOString().split('T')[0], // Just get YYYY-MM-DD
+        lease_start: new Date().toISOString().split('T')[0], // Just get YYYY-MM-DD
+        ...schedule,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString()
       };
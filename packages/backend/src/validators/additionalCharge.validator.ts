@@ -0,0 +1,39 @@
+import Joi from "joi";
+import { ADDITIONAL_CHARGE_CATEGORIES } from "../services/additionalCharge.utils";
+
+// Schema for filtering recurring charges
+export const listRecurringChargesSchema = Joi.object({
+  tenantUnitId: Joi.string().uuid(),
+});
+
+// Schema for adding a recurring charge, such as parking or storage, to a tenant_unit
+export const createRecurringChargeSchema = Joi.object({
+  tenant_unit_id: Joi.string().uuid().required(),
+  category: Joi.string().valid(...ADDITIONAL_CHARGE_CATEGORIES).required(),
+  description: Joi.string().max(255).allow(null, ""),
+  amount: Joi.number().positive().precision(2).required(),
+  frequency: Joi.string().valid("weekly", "biweekly", "monthly", "quarterly"),
+  start_date: Joi.date().iso().required(),
+  end_date: Joi.date().iso().min(Joi.ref("start_date")).allow(null),
+});
+
+// Schema for changing a recurring charge. Charges already billed are not changed.
+export const updateRecurringChargeSchema = Joi.object({
+  description: Joi.string().max(255).allow(null, ""),
+  amount: Joi.number().positive().precision(2),
+  end_date: Joi.date().iso().allow(null),
+}).min(1);
+
+// Schema for filtering billed charges
+export const listAdditionalChargesSchema = Joi.object({
+  tenantId: Joi.string().uuid(),
+  tenantUnitId: Joi.string().uuid(),
+});
+
+// Schema for recording money received against a billed charge
+export const recordAdditionalChargePaymentSchema = Joi.object({
+  amount: Joi.number().positive().precision(2).required(),
+  payment_date: Joi.date().iso(),
+  payment_method: Joi.string().allow(null),
+  reference: Joi.string().max(255).allow(null, ""),
+});
@@ -0,0 +1,24 @@
+import Joi from "joi";
+
+// Schema for filtering the deposit list
+export const listDepositsSchema = Joi.object({
+  tenantId: Joi.string().uuid(),
+  tenantUnitId: Joi.string().uuid(),
+});
+
+// Schema for recording a last month's rent deposit
+export const createDepositSchema = Joi.object({
+  tenant_unit_id: Joi.string().uuid().required(),
+  amount: Joi.number().positive().precision(2).required(),
+  received_date: Joi.date().iso(),
+});
+
+// Schema for filtering deposit interest
+export const listDepositInterestSchema = Joi.object({
+  status: Joi.string().valid("pending", "topped_up", "credited"),
+});
+
+// Schema for paying deposit interest as a top-up or a credit
+export const applyDepositInterestSchema = Joi.object({
+  method: Joi.string().valid("top_up", "credit").required(),
+});
@@ -0,0 +1,14 @@
+import Joi from "joi";
+
+// Schema for making the tenants of a unit joint tenants with shares of the rent
+export const setJointTenancySchema = Joi.object({
+  lease_tenant_unit_id: Joi.string().uuid().required(),
+  shares: Joi.array()
+    .items(Joi.object({
+      tenant_unit_id: Joi.string().uuid().required(),
+      share: Joi.number().positive().max(100).precision(2).required(),
+    }))
+    .min(2)
+    .unique("tenant_unit_id")
+    .required(),
+});
@@ -0,0 +1,24 @@
+import Joi from "joi";
+
+// Schema for filtering the legal notice list
+export const listLegalNoticesSchema = Joi.object({
+  tenantId: Joi.string().uuid(),
+  tenantUnitId: Joi.string().uuid(),
+  status: Joi.string().valid("draft", "served", "voided_by_payment", "filed", "withdrawn"),
+  type: Joi.string().valid("N4", "L1", "RTB-30"),
+});
+
+// Schema for moving a legal notice through its lifecycle
+export const transitionLegalNoticeSchema = Joi.object({
+  status: Joi.string().valid("served", "voided_by_payment", "filed", "withdrawn").required(),
+  served_date: Joi.date().iso(),
+  service_method: Joi.string().valid("hand", "mail", "courier", "door"),
+});
+
+// Schema for previewing the deemed service and earliest termination dates
+export const serviceDatesQuerySchema = Joi.object({
+  servedDate: Joi.date().iso(),
+  serviceMethod: Joi.string().valid("hand", "mail", "courier", "door").required(),
+  rentPeriod: Joi.string().valid("daily", "weekly", "biweekly", "monthly", "quarterly", "yearly"),
+  jurisdiction: Joi.string().valid("ON", "BC"),
+});
@@ -0,0 +1,13 @@
+import Joi from "joi";
+
+// Schema for filtering the move-out list
+export const listMoveOutsSchema = Joi.object({
+  tenantId: Joi.string().uuid(),
+  unitId: Joi.string().uuid(),
+});
+
+// Schema for moving a tenant out of a unit
+export const createMoveOutSchema = Joi.object({
+  tenant_unit_id: Joi.string().uuid().required(),
+  move_out_date: Joi.date().iso().required(),
+});
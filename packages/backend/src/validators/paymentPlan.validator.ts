@@ -0,0 +1,31 @@
+import Joi from "joi";
+
+// Schema for filtering the payment plan list
+export const listPaymentPlansSchema = Joi.object({
+  tenantId: Joi.string().uuid(),
+  tenantUnitId: Joi.string().uuid(),
+  status: Joi.string().valid("active", "completed", "defaulted", "cancelled"),
+});
+
+// Schema for creating a payment plan, either with an explicit installment
+// schedule or with a number of equal installments to spread the total over
+export const createPaymentPlanSchema = Joi.object({
+  tenant_unit_id: Joi.string().uuid().required(),
+  total_owed: Joi.number().positive().required(),
+  installments: Joi.array().items(Joi.object({
+    due_date: Joi.date().iso().required(),
+    amount: Joi.number().positive().required(),
+  })).min(1),
+  installment_count: Joi.number().integer().min(1),
+  start_date: Joi.date().iso(),
+  frequency: Joi.string().valid("weekly", "biweekly", "monthly"),
+  notes: Joi.string().allow("", null),
+})
+  .xor("installments", "installment_count")
+  .with("installment_count", "start_date");
+
+// Schema for recording money received against an installment
+export const recordInstallmentPaymentSchema = Joi.object({
+  amount: Joi.number().positive().required(),
+  paid_date: Joi.date().iso(),
+});
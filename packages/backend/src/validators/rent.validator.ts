@@ -18,3 +18,33 @@ export const updateRentPaymentSchema = Joi.object({
   payment_method: Joi.string().allow(null),
   // You might not want to allow updating other fields like amount or due_date easily
 });
+
+// Schema for recording money received against a rent payment. A rent payment
+// can take several of these; together they make up its amount_paid.
+export const recordRentPaymentSchema = Joi.object({
+  amount: Joi.number().positive().precision(2).required(),
+  payment_date: Joi.date().iso(),
+  payment_method: Joi.string().allow(null),
+  reference: Joi.string().max(255).allow(null, ""),
+  payer_tenant_id: Joi.string().uuid().allow(null), // Roommate paying their share of a joint lease's rent
+});
+
+// Schema for allocating one lump-sum payment across a tenant_unit's open charges
+export const allocatePaymentSchema = Joi.object({
+  tenant_unit_id: Joi.string().uuid().required(),
+  amount: Joi.number().positive().precision(2).required(),
+  policy: Joi.string().valid("oldest_first", "newest_first"),
+  payment_date: Joi.date().iso(),
+  payment_method: Joi.string().allow(null),
+  reference: Joi.string().max(255).allow(null, ""),
+});
+
+// Schema for requesting an arrears statement, by tenant_unit or by tenant and unit
+export const arrearsQuerySchema = Joi.object({
+  tenantUnitId: Joi.string().uuid(),
+  tenantId: Joi.string().uuid(),
+  unitId: Joi.string().uuid(),
+  asOf: Joi.date().iso(),
+})
+  .or("tenantUnitId", "tenantId")
+  .with("tenantId", "unitId");
@@ -0,0 +1,19 @@
+import Joi from "joi";
+
+// Schema for filtering the rent increase list
+export const listRentIncreasesSchema = Joi.object({
+  tenantId: Joi.string().uuid(),
+  tenantUnitId: Joi.string().uuid(),
+});
+
+// Schema for checking or issuing a rent increase
+export const rentIncreaseSchema = Joi.object({
+  tenant_unit_id: Joi.string().uuid().required(),
+  new_rent: Joi.number().positive().precision(2).required(),
+  effective_date: Joi.date().iso().required(),
+});
+
+// Schema for looking up the rent increase guideline of a jurisdiction
+export const guidelinesQuerySchema = Joi.object({
+  jurisdiction: Joi.string().valid("ON", "BC"),
+});
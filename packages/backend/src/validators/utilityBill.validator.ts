@@ -0,0 +1,30 @@
+import Joi from "joi";
+
+// Schema for filtering utility bills
+export const listUtilityBillsSchema = Joi.object({
+  propertyId: Joi.string().uuid(),
+});
+
+// Schema for recording a property's utility bill and how to split it across the units
+export const createUtilityBillSchema = Joi.object({
+  property_id: Joi.string().uuid().required(),
+  utility_type: Joi.string().valid("hydro", "water", "gas").required(),
+  period_start: Joi.date().iso().required(),
+  period_end: Joi.date().iso().min(Joi.ref("period_start")).required(),
+  total_amount: Joi.number().positive().precision(2).required(),
+  allocation_method: Joi.string().valid("meter", "square_footage", "equal").required(),
+  due_date: Joi.date().iso(),
+  readings: Joi.when("allocation_method", {
+    is: "meter",
+    then: Joi.array()
+      .items(Joi.object({
+        unit_id: Joi.string().uuid().required(),
+        meter_start: Joi.number().min(0).required(),
+        meter_end: Joi.number().min(0).required(),
+      }))
+      .min(1)
+      .unique("unit_id")
+      .required(),
+    otherwise: Joi.forbidden(),
+  }),
+});
@@ -0,0 +1,85 @@
+import { getForm, listForms, prepareFormData } from '..';
+import { addDays, endOfMonth, today } from '../../utils/date';
+
+const parties = {
+  tenantName: 'Jane Tenant',
+  landlordName: 'Sam Landlord',
+  rentalAddress: '101, 1 Main St, Toronto, ON M1M 1M1'
+};
+
+describe('form registry', () => {
+  test('registers the LTB and RTB forms', () => {
+    expect(listForms().map((form) => form.code)).toEqual(
+      expect.arrayContaining(['N4', 'L1', 'COS', 'N1', 'N5', 'N9', 'N12', 'N13', 'RTB-30'])
+    );
+    expect(getForm('n12')?.code).toBe('N12');
+    expect(getForm('X1')).toBeUndefined();
+  });
+
+  test('reports schema errors', () => {
+    const { data, errors } = prepareFormData(getForm('N9')!, { tenantName: 'Jane Tenant' });
+
+    expect(data).toBeUndefined();
+    expect(errors).toEqual(expect.arrayContaining(['"landlordName" is required', '"terminationDate" is required']));
+  });
+
+  test('calculates the N1 increase percentage and enforces 90 days notice', () => {
+    const valid = prepareFormData(getForm('N1')!, {
+      ...parties,
+      currentRent: 2000,
+      newRent: 2050,
+      effectiveDate: addDays(today(), 90)
+    });
+    expect(valid.data).toMatchObject({ increasePercentage: 2.5, rentPeriod: 'monthly' });
+
+    const tooSoon = prepareFormData(getForm('N1')!, {
+      ...parties,
+      currentRent: 2000,
+      newRent: 2050,
+      effectiveDate: addDays(today(), 30)
+    });
+    expect(tooSoon.errors).toEqual(['"effectiveDate" must be at least 90 days from today']);
+  });
+
+  test('defaults the N5 termination date by notice number', () => {
+    const first = prepareFormData(getForm('N5')!, { ...parties, details: 'Noise after 11pm' });
+    const second = prepareFormData(getForm('N5')!, { ...parties, details: 'Noise after 11pm', isSecondNotice: true });
+
+    expect(first.data).toMatchObject({ terminationDate: addDays(today(), 20), noticeNumber: 'first' });
+    expect(second.data).toMatchObject({ terminationDate: addDays(today(), 14), noticeNumber: 'second' });
+  });
+
+  test('defaults the N12 termination date and compensation', () => {
+    const { data } = prepareFormData(getForm('N12')!, {
+      ...parties,
+      personRequiringUnit: 'parent',
+      occupantName: 'Pat Landlord',
+      monthlyRent: 1800
+    });
+
+    expect(data).toMatchObject({
+      terminationDate: endOfMonth(addDays(today(), 60)),
+      compensationAmount: 1800
+    });
+  });
+
+  test('enforces 10 days notice on the BC RTB-30', () => {
+    const notice = { ...parties, rentAmount: 1500, rentDueDate: today() };
+
+    expect(prepareFormData(getForm('rtb-30')!, { ...notice, terminationDate: addDays(today(), 13) }).errors).toEqual([]);
+    expect(prepareFormData(getForm('RTB-30')!, { ...notice, terminationDate: addDays(today(), 5) }).errors).toEqual([
+      '"terminationDate" must be at least 10 days from today'
+    ]);
+  });
+
+  test('strips unknown fields', () => {
+    const { data } = prepareFormData(getForm('N13')!, {
+      ...parties,
+      reason: 'repair',
+      workDetails: 'Replace all plumbing',
+      tenantUnitId: 'not-a-form-field'
+    });
+
+    expect(data).not.toHaveProperty('tenantUnitId');
+  });
+});
@@ -0,0 +1,21 @@
+import Joi from "joi";
+import { FormDefinition } from "./registry";
+import { partiesSchema, isoDate } from "./common";
+import { generateCertificateOfServiceForm, CertificateOfServiceFormData } from "../services/pdfGenerator.service";
+
+export const certificateOfServiceForm: FormDefinition<CertificateOfServiceFormData> = {
+  code: "COS",
+  title: "Certificate of Service",
+  schema: Joi.object({
+    ...partiesSchema,
+    noticeType: Joi.string().required(),
+    servedDate: isoDate().required(),
+    serviceMethod: Joi.string().valid("hand", "mail", "courier").required(),
+    deemedServiceDate: isoDate().required(),
+    servedBy: Joi.string().required(),
+  }),
+  validate: (data) => data.deemedServiceDate < data.servedDate
+    ? ['"deemedServiceDate" cannot be before "servedDate"']
+    : [],
+  render: generateCertificateOfServiceForm,
+};
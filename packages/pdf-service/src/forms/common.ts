@@ -0,0 +1,34 @@
+import Joi from "joi";
+import { fillForm, FillFormOptions } from "../services/formFiller.service";
+import { addDays, today } from "../utils/date";
+
+// Fields shared by every landlord/tenant form
+export const partiesSchema = {
+  tenantName: Joi.string().required(),
+  landlordName: Joi.string().required(),
+  rentalAddress: Joi.string().required(),
+};
+
+export const isoDate = () => Joi.string().isoDate();
+
+export const rentPeriodSchema = Joi.string().valid("daily", "weekly", "biweekly", "monthly", "quarterly", "yearly").default("monthly");
+
+export const arrearsPeriodsSchema = Joi.array().items(Joi.object({
+  periodStart: isoDate().required(),
+  periodEnd: isoDate().required(),
+  rentCharged: Joi.number().required(),
+  rentPaid: Joi.number().required(),
+  rentOwing: Joi.number().required(),
+}));
+
+/**
+ * Earliest date a notice given today can take effect
+ */
+export const minimumDate = (days: number): string => addDays(today(), days);
+
+/**
+ * Render a form straight from its mapping, adding the signature date
+ */
+export const renderMappedForm = (formCode: string) =>
+  (data: object, options: FillFormOptions): Promise<Buffer> =>
+    fillForm(formCode, { ...data, signatureDate: today() }, [], options);
@@ -0,0 +1,27 @@
+import { registerForm, FormDefinition } from "./registry";
+import { n4Form } from "./n4.form";
+import { l1Form } from "./l1.form";
+import { certificateOfServiceForm } from "./certificateOfService.form";
+import { n1Form } from "./n1.form";
+import { n5Form } from "./n5.form";
+import { n9Form } from "./n9.form";
+import { n12Form } from "./n12.form";
+import { n13Form } from "./n13.form";
+import { rtb30Form } from "./rtb30.form";
+
+// Every form the PDF service can generate. Add new forms here.
+const forms: FormDefinition[] = [
+  n4Form,
+  l1Form,
+  certificateOfServiceForm,
+  n1Form,
+  n5Form,
+  n9Form,
+  n12Form,
+  n13Form,
+  rtb30Form,
+];
+
+forms.forEach((form) => registerForm(form));
+
+export { getForm, listForms, prepareFormData, FormDefinition } from "./registry";
@@ -0,0 +1,18 @@
+import Joi from "joi";
+import { FormDefinition } from "./registry";
+import { partiesSchema, isoDate, rentPeriodSchema, arrearsPeriodsSchema } from "./common";
+import { generateL1Form, L1FormData } from "../services/pdfGenerator.service";
+
+export const l1Form: FormDefinition<L1FormData> = {
+  code: "L1",
+  title: "Application to Evict a Tenant for Non-payment of Rent and to Collect Rent the Tenant Owes",
+  schema: Joi.object({
+    ...partiesSchema,
+    rentAmount: Joi.number().positive().required(),
+    rentDueDate: isoDate().required(),
+    rentPeriod: rentPeriodSchema,
+    reasonForApplication: Joi.string().default("Non-payment of rent"),
+    arrearsPeriods: arrearsPeriodsSchema,
+  }),
+  render: generateL1Form,
+};
@@ -0,0 +1,46 @@
+import Joi from "joi";
+import { FormDefinition } from "./registry";
+import { partiesSchema, isoDate, rentPeriodSchema, minimumDate, renderMappedForm } from "./common";
+
+// A rent increase needs at least 90 days' written notice
+export const N1_NOTICE_DAYS = 90;
+
+export interface N1FormData {
+  tenantName: string;
+  landlordName: string;
+  rentalAddress: string;
+  currentRent: number;
+  newRent: number;
+  effectiveDate: string;
+  rentPeriod: string;
+  increasePercentage?: number;
+}
+
+export const n1Form: FormDefinition<N1FormData> = {
+  code: "N1",
+  title: "Notice of Rent Increase",
+  schema: Joi.object({
+    ...partiesSchema,
+    currentRent: Joi.number().positive().required(),
+    newRent: Joi.number().positive().required(),
+    effectiveDate: isoDate().required(),
+    rentPeriod: rentPeriodSchema,
+    increasePercentage: Joi.number(),
+  }),
+  applyDefaults: (data) => ({
+    ...data,
+    increasePercentage: data.increasePercentage ??
+      Math.round(((data.newRent - data.currentRent) / data.currentRent) * 10000) / 100,
+  }),
+  validate: (data) => {
+    const errors: string[] = [];
+    if (data.newRent <= data.currentRent) {
+      errors.push('"newRent" must be greater than "currentRent"');
+    }
+    if (data.effectiveDate < minimumDate(N1_NOTICE_DAYS)) {
+      errors.push(`"effectiveDate" must be at least ${N1_NOTICE_DAYS} days from today`);
+    }
+    return errors;
+  },
+  render: renderMappedForm("N1"),
+};
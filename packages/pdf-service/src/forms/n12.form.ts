@@ -0,0 +1,44 @@
+import Joi from "joi";
+import { FormDefinition } from "./registry";
+import { partiesSchema, isoDate, minimumDate, renderMappedForm } from "./common";
+import { endOfMonth } from "../utils/date";
+
+// Notice for personal use must give at least 60 days and end at the end of a rental period
+export const N12_NOTICE_DAYS = 60;
+
+export interface N12FormData {
+  tenantName: string;
+  landlordName: string;
+  rentalAddress: string;
+  personRequiringUnit: string;
+  occupantName: string;
+  monthlyRent: number;
+  terminationDate?: string;
+  compensationAmount?: number;
+}
+
+export const n12Form: FormDefinition<N12FormData> = {
+  code: "N12",
+  title: "Notice to End your Tenancy Because the Landlord, a Purchaser or a Family Member Requires the Rental Unit",
+  schema: Joi.object({
+    ...partiesSchema,
+    personRequiringUnit: Joi.string()
+      .valid("landlord", "spouse", "child", "parent", "spouse_child", "spouse_parent", "caregiver", "purchaser")
+      .required(),
+    occupantName: Joi.string().required(),
+    monthlyRent: Joi.number().positive().required(),
+    terminationDate: isoDate(),
+    compensationAmount: Joi.number().min(0),
+  }),
+  applyDefaults: (data) => ({
+    ...data,
+    // Last day of the first full rental period that gives enough notice
+    terminationDate: data.terminationDate || endOfMonth(minimumDate(N12_NOTICE_DAYS)),
+    // The tenant is owed one month's rent (or another unit they accept)
+    compensationAmount: data.compensationAmount ?? data.monthlyRent,
+  }),
+  validate: (data) => (data.terminationDate as string) < minimumDate(N12_NOTICE_DAYS)
+    ? [`"terminationDate" must be at least ${N12_NOTICE_DAYS} days from today`]
+    : [],
+  render: renderMappedForm("N12"),
+};
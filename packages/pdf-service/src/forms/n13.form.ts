@@ -0,0 +1,36 @@
+import Joi from "joi";
+import { FormDefinition } from "./registry";
+import { partiesSchema, isoDate, minimumDate, renderMappedForm } from "./common";
+import { endOfMonth } from "../utils/date";
+
+// Demolition, major repairs or conversion need at least 120 days' notice
+export const N13_NOTICE_DAYS = 120;
+
+export interface N13FormData {
+  tenantName: string;
+  landlordName: string;
+  rentalAddress: string;
+  reason: "demolish" | "repair" | "convert";
+  workDetails: string;
+  terminationDate?: string;
+}
+
+export const n13Form: FormDefinition<N13FormData> = {
+  code: "N13",
+  title: "Notice to End your Tenancy Because the Landlord Wants to Demolish the Rental Unit, Repair it or Convert it to Another Use",
+  schema: Joi.object({
+    ...partiesSchema,
+    reason: Joi.string().valid("demolish", "repair", "convert").required(),
+    // The work planned and any permits obtained
+    workDetails: Joi.string().required(),
+    terminationDate: isoDate(),
+  }),
+  applyDefaults: (data) => ({
+    ...data,
+    terminationDate: data.terminationDate || endOfMonth(minimumDate(N13_NOTICE_DAYS)),
+  }),
+  validate: (data) => (data.terminationDate as string) < minimumDate(N13_NOTICE_DAYS)
+    ? [`"terminationDate" must be at least ${N13_NOTICE_DAYS} days from today`]
+    : [],
+  render: renderMappedForm("N13"),
+};
@@ -0,0 +1,26 @@
+import Joi from "joi";
+import { FormDefinition } from "./registry";
+import { partiesSchema, isoDate, rentPeriodSchema, arrearsPeriodsSchema, minimumDate } from "./common";
+import { generateN4Form, N4FormData } from "../services/pdfGenerator.service";
+
+export const n4Form: FormDefinition<N4FormData> = {
+  code: "N4",
+  title: "Notice to End a Tenancy Early for Non-payment of Rent",
+  schema: Joi.object({
+    ...partiesSchema,
+    rentAmount: Joi.number().positive().required(),
+    rentDueDate: isoDate().required(),
+    rentPeriod: rentPeriodSchema,
+    // Calculated by the backend from the service method
+    terminationDate: isoDate().required(),
+    arrearsPeriods: arrearsPeriodsSchema,
+  }),
+  validate: (data) => {
+    // Even when handed over today the tenant must get 14 days (7 for daily or weekly rent)
+    const noticeDays = data.rentPeriod === "daily" || data.rentPeriod === "weekly" ? 7 : 14;
+    return data.terminationDate < minimumDate(noticeDays)
+      ? [`"terminationDate" must be at least ${noticeDays} days from today`]
+      : [];
+  },
+  render: generateN4Form,
+};
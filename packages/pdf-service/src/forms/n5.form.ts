@@ -0,0 +1,40 @@
+import Joi from "joi";
+import { FormDefinition } from "./registry";
+import { partiesSchema, isoDate, minimumDate, renderMappedForm } from "./common";
+
+// A first N5 needs 20 days' notice, a second one within six months needs 14
+export const N5_FIRST_NOTICE_DAYS = 20;
+export const N5_SECOND_NOTICE_DAYS = 14;
+
+export interface N5FormData {
+  tenantName: string;
+  landlordName: string;
+  rentalAddress: string;
+  isSecondNotice: boolean;
+  details: string;
+  terminationDate?: string;
+  noticeNumber?: "first" | "second";
+}
+
+const noticeDays = (data: N5FormData) => data.isSecondNotice ? N5_SECOND_NOTICE_DAYS : N5_FIRST_NOTICE_DAYS;
+
+export const n5Form: FormDefinition<N5FormData> = {
+  code: "N5",
+  title: "Notice to End your Tenancy for Interfering with Others, Damage or Overcrowding",
+  schema: Joi.object({
+    ...partiesSchema,
+    isSecondNotice: Joi.boolean().default(false),
+    // What happened, with dates and times
+    details: Joi.string().required(),
+    terminationDate: isoDate(),
+  }),
+  applyDefaults: (data) => ({
+    ...data,
+    terminationDate: data.terminationDate || minimumDate(noticeDays(data)),
+    noticeNumber: data.isSecondNotice ? "second" : "first",
+  }),
+  validate: (data) => (data.terminationDate as string) < minimumDate(noticeDays(data))
+    ? [`"terminationDate" must be at least ${noticeDays(data)} days from today`]
+    : [],
+  render: renderMappedForm("N5"),
+};
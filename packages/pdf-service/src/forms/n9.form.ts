@@ -0,0 +1,34 @@
+import Joi from "joi";
+import { FormDefinition } from "./registry";
+import { partiesSchema, isoDate, rentPeriodSchema, minimumDate, renderMappedForm } from "./common";
+
+// Tenants give 60 days' notice (28 days for daily or weekly tenancies)
+export const N9_NOTICE_DAYS = 60;
+export const N9_NOTICE_DAYS_DAILY_OR_WEEKLY = 28;
+
+export interface N9FormData {
+  tenantName: string;
+  landlordName: string;
+  rentalAddress: string;
+  terminationDate: string;
+  rentPeriod: string;
+  signedBy: "tenant" | "representative";
+}
+
+const noticeDays = (data: N9FormData) =>
+  data.rentPeriod === "daily" || data.rentPeriod === "weekly" ? N9_NOTICE_DAYS_DAILY_OR_WEEKLY : N9_NOTICE_DAYS;
+
+export const n9Form: FormDefinition<N9FormData> = {
+  code: "N9",
+  title: "Tenant's Notice to End the Tenancy",
+  schema: Joi.object({
+    ...partiesSchema,
+    terminationDate: isoDate().required(),
+    rentPeriod: rentPeriodSchema,
+    signedBy: Joi.string().valid("tenant", "representative").default("tenant"),
+  }),
+  validate: (data) => data.terminationDate < minimumDate(noticeDays(data))
+    ? [`"terminationDate" must be at least ${noticeDays(data)} days from today`]
+    : [],
+  render: renderMappedForm("N9"),
+};
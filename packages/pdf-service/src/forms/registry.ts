@@ -0,0 +1,57 @@
+import Joi from "joi";
+import { FillFormOptions } from "../services/formFiller.service";
+
+/**
+ * A legal form the PDF service can produce. Each form declares the shape of its
+ * input, the legal rules the data must meet, the values it can calculate itself
+ * and how it is rendered.
+ */
+export interface FormDefinition<T = any> {
+  code: string;
+  title: string;
+  // Shape and types of the input. Unknown keys are stripped.
+  schema: Joi.ObjectSchema<T>;
+  // Fill in calculated values (termination dates, percentages, ...) the caller left out
+  applyDefaults?: (data: T) => T;
+  // Legal rules checked after defaults are applied. Returns the problems found.
+  validate?: (data: T) => string[];
+  render: (data: T, options: FillFormOptions) => Promise<Buffer>;
+}
+
+export interface PreparedForm<T = any> {
+  data?: T;
+  errors: string[];
+}
+
+const forms = new Map<string, FormDefinition>();
+
+/**
+ * Register a form so it can be generated through POST /pdf/forms/:formCode
+ */
+export const registerForm = <T>(definition: FormDefinition<T>): void => {
+  forms.set(definition.code.toUpperCase(), definition);
+};
+
+export const getForm = (formCode: string): FormDefinition | undefined => forms.get(formCode.toUpperCase());
+
+export const listForms = (): { code: string; title: string }[] =>
+  Array.from(forms.values()).map(({ code, title }) => ({ code, title }));
+
+/**
+ * Validate the input for a form, apply its defaults and check its legal rules
+ */
+export const prepareFormData = <T>(definition: FormDefinition<T>, input: unknown): PreparedForm<T> => {
+  const { error, value } = definition.schema.validate(input, {
+    abortEarly: false, // Return all errors
+    stripUnknown: true, // Remove unknown keys
+  });
+
+  if (error) {
+    return { errors: error.details.map((detail) => detail.message) };
+  }
+
+  const data = definition.applyDefaults ? definition.applyDefaults(value) : value;
+  const errors = definition.validate ? definition.validate(data) : [];
+
+  return errors.length > 0 ? { errors } : { data, errors: [] };
+};
@@ -0,0 +1,36 @@
+import Joi from "joi";
+import { FormDefinition } from "./registry";
+import { partiesSchema, isoDate, minimumDate, renderMappedForm } from "./common";
+
+// The effective date must be at least 10 days after the tenant receives the notice
+export const RTB30_NOTICE_DAYS = 10;
+
+export interface RTB30FormData {
+  tenantName: string;
+  landlordName: string;
+  rentalAddress: string;
+  rentAmount: number;
+  rentDueDate: string;
+  utilitiesAmount?: number;
+  utilitiesDemandDate?: string;
+  terminationDate: string; // Effective date, calculated by the backend from the service method
+}
+
+// British Columbia Residential Tenancy Branch form, see src/jurisdictions in the backend
+export const rtb30Form: FormDefinition<RTB30FormData> = {
+  code: "RTB-30",
+  title: "10 Day Notice to End Tenancy for Unpaid Rent or Utilities (BC)",
+  schema: Joi.object({
+    ...partiesSchema,
+    rentAmount: Joi.number().positive().required(),
+    rentDueDate: isoDate().required(),
+    utilitiesAmount: Joi.number().min(0),
+    // Utilities can only be claimed 30 days after a written demand
+    utilitiesDemandDate: isoDate(),
+    terminationDate: isoDate().required(),
+  }),
+  validate: (data) => data.terminationDate < minimumDate(RTB30_NOTICE_DAYS)
+    ? [`"terminationDate" must be at least ${RTB30_NOTICE_DAYS} days from today`]
+    : [],
+  render: renderMappedForm("RTB-30"),
+};
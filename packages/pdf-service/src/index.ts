@@ -15,7 +15,8 @@ const PORT = process.env.PORT || 3001;
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+// Filing packages carry the stored N4 and Certificate of Service as base64
+app.use(express.json({ limit: "20mb" }));
 
 // Routes
 app.use("/pdf", pdfRoutes);
@@ -1,77 +1,209 @@
 import express from "express";
-import { generateN4Form, generateL1Form } from "../services/pdfGenerator.service";
+import { getForm, listForms, prepareFormData } from "../forms";
+import { listTemplateFields, checkFormMapping, FillFormOptions, FormSetupError } from "../services/formFiller.service";
+import { generateL1Package } from "../services/filingPackage.service";
+import { generateClosingStatement, generateUtilityBreakdown } from "../services/statement.service";
 import { logger } from "../utils/logger";
 
 const router = express.Router();
 
 /**
- * Generate N4 form as PDF
+ * Read the output options (?flatten=true, formVersion) from a form request
  */
-router.post("/n4", async (req, res) => {
+const getFillOptions = (req: express.Request): FillFormOptions => ({
+  flatten: req.query.flatten === "true" || req.body.flatten === true,
+  version: req.body.formVersion
+});
+
+/**
+ * Validate, complete and render a registered form, sending it back as a PDF
+ */
+const handleFormRequest = async (formCode: string, req: express.Request, res: express.Response) => {
+  const form = getForm(formCode);
+  if (!form) {
+    return res.status(404).json({ error: `Unknown form ${formCode}` });
+  }
+
   try {
-    const formData = req.body;
-    
-    logger.debug("POST /pdf/n4 - Generating N4 form");
-    console.log("POST /pdf/n4 - Generating N4 form for tenant:", formData.tenantName);
-    
-    // Validate required fields
-    if (!formData.tenantName || !formData.landlordName || !formData.rentalAddress || !formData.rentAmount || !formData.rentDueDate) {
+    logger.debug(`POST /pdf/forms/${form.code} - Generating ${form.code} form`);
+    console.log(`POST /pdf/forms/${form.code} - Generating ${form.code} form for tenant:`, req.body.tenantName);
+
+    const { data, errors } = prepareFormData(form, req.body);
+    if (!data) {
       return res.status(400).json({
-        error: "Missing required fields for N4 form"
+        error: `Invalid data for ${form.code} form`,
+        errors
       });
     }
-    
+
     // Generate PDF
-    const pdfBuffer = await generateN4Form(formData);
-    
+    const pdfBuffer = await form.render(data, getFillOptions(req));
+
     // Set headers for PDF download
     res.setHeader("Content-Type", "application/pdf");
-    res.setHeader("Content-Disposition", `attachment; filename="N4_${formData.tenantName}.pdf"`);
-    
+    res.setHeader("Content-Disposition", `attachment; filename="${form.code}_${data.tenantName}.pdf"`);
+
     // Send PDF data
     res.send(pdfBuffer);
   } catch (error) {
-    logger.error("Error in N4 form generation endpoint", error);
-    console.log("Error in N4 form generation endpoint", error);
-    res.status(500).json({ error: "Failed to generate N4 form" });
+    logger.error(`Error in ${form.code} form generation endpoint`, error);
+    console.log(`Error in ${form.code} form generation endpoint`, error);
+
+    // A missing template or mismatched mapping says how to fix it
+    if (error instanceof FormSetupError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    res.status(500).json({ error: `Failed to generate ${form.code} form` });
   }
+};
+
+/**
+ * List the forms that can be generated
+ */
+router.get("/forms", (req, res) => {
+  res.json(listForms());
 });
 
 /**
- * Generate L1 form as PDF
+ * Generate any registered form (N4, L1, COS, N1, N5, N9, N12, N13) as PDF
+ */
+router.post("/forms/:formCode", (req, res) => handleFormRequest(req.params.formCode, req, res));
+
+// Routes kept for existing callers
+router.post("/n4", (req, res) => handleFormRequest("N4", req, res));
+router.post("/l1", (req, res) => handleFormRequest("L1", req, res));
+router.post("/certificate-of-service", (req, res) => handleFormRequest("COS", req, res));
+
+/**
+ * Generate the L1 filing package (L1, served N4, Certificate of Service,
+ * rent ledger and delivery record) as one PDF, or a ZIP with ?format=zip
  */
-router.post("/l1", async (req, res) => {
+router.post("/l1-package", async (req, res) => {
   try {
-    const formData = req.body;
-    
-    logger.debug("POST /pdf/l1 - Generating L1 form");
-    console.log("POST /pdf/l1 - Generating L1 form for tenant:", formData.tenantName);
-    
+    const packageData = req.body;
+    const format = req.query.format === "zip" ? "zip" : "pdf";
+
+    logger.debug("POST /pdf/l1-package - Generating L1 filing package");
+    console.log("POST /pdf/l1-package - Generating L1 filing package for tenant:", packageData.l1?.tenantName);
+
     // Validate required fields
-    if (!formData.tenantName || !formData.landlordName || !formData.rentalAddress || !formData.rentAmount || !formData.rentDueDate) {
+    if (!packageData.l1 || !packageData.servedN4 || !packageData.certificateOfService || !packageData.ledger || !packageData.evidence) {
       return res.status(400).json({
-        error: "Missing required fields for L1 form"
+        error: "Missing required documents for L1 filing package"
       });
     }
-    
-    // Set a default reason if not provided
-    if (!formData.reasonForApplication) {
-      formData.reasonForApplication = "Non-payment of rent";
+
+    if (!packageData.l1.reasonForApplication) {
+      packageData.l1.reasonForApplication = "Non-payment of rent";
     }
-    
-    // Generate PDF
-    const pdfBuffer = await generateL1Form(formData);
-    
-    // Set headers for PDF download
+
+    const packageBuffer = await generateL1Package(packageData, format);
+
+    res.setHeader("Content-Type", format === "zip" ? "application/zip" : "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="L1_Package_${packageData.l1.tenantName}.${format}"`);
+    res.send(packageBuffer);
+  } catch (error) {
+    logger.error("Error in L1 filing package endpoint", error);
+    console.log("Error in L1 filing package endpoint", error);
+
+    if (error instanceof FormSetupError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    res.status(500).json({ error: "Failed to generate L1 filing package" });
+  }
+});
+
+/**
+ * Generate the closing statement for a tenancy ending on move-out
+ */
+router.post("/closing-statement", async (req, res) => {
+  try {
+    const statement = req.body;
+
+    logger.debug("POST /pdf/closing-statement - Generating closing statement");
+    console.log("POST /pdf/closing-statement - Generating closing statement for tenant:", statement.tenantName);
+
+    if (!statement.tenantName || !statement.moveOutDate || !Array.isArray(statement.lines) || typeof statement.balance !== "number") {
+      return res.status(400).json({
+        error: "Missing required fields for closing statement"
+      });
+    }
+
+    const pdfBuffer = await generateClosingStatement(statement);
+
     res.setHeader("Content-Type", "application/pdf");
-    res.setHeader("Content-Disposition", `attachment; filename="L1_${formData.tenantName}.pdf"`);
-    
-    // Send PDF data
+    res.setHeader("Content-Disposition", `attachment; filename="Closing_Statement_${statement.tenantName}.pdf"`);
     res.send(pdfBuffer);
   } catch (error) {
-    logger.error("Error in L1 form generation endpoint", error);
-    console.log("Error in L1 form generation endpoint", error);
-    res.status(500).json({ error: "Failed to generate L1 form" });
+    logger.error("Error in closing statement endpoint", error);
+    console.log("Error in closing statement endpoint", error);
+    res.status(500).json({ error: "Failed to generate closing statement" });
+  }
+});
+
+/**
+ * Generate the breakdown of a utility bill split across a property's units
+ */
+router.post("/utility-breakdown", async (req, res) => {
+  try {
+    const breakdown = req.body;
+
+    logger.debug("POST /pdf/utility-breakdown - Generating utility bill breakdown");
+    console.log("POST /pdf/utility-breakdown - Generating utility bill breakdown for tenant:", breakdown.tenantName);
+
+    if (!breakdown.tenantName || !breakdown.utility || !Array.isArray(breakdown.rows) || typeof breakdown.amountDue !== "number") {
+      return res.status(400).json({
+        error: "Missing required fields for utility bill breakdown"
+      });
+    }
+
+    const pdfBuffer = await generateUtilityBreakdown(breakdown);
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="Utility_Breakdown_${breakdown.tenantName}.pdf"`);
+    res.send(pdfBuffer);
+  } catch (error) {
+    logger.error("Error in utility breakdown endpoint", error);
+    console.log("Error in utility breakdown endpoint", error);
+    res.status(500).json({ error: "Failed to generate utility bill breakdown" });
+  }
+});
+
+/**
+ * List the fillable fields of a template, used to write field mappings
+ */
+router.get("/templates/:formCode/:version/fields", async (req, res) => {
+  try {
+    const { formCode, version } = req.params;
+
+    logger.debug(`GET /pdf/templates/${formCode}/${version}/fields`);
+    console.log(`GET /pdf/templates/${formCode}/${version}/fields`);
+
+    const fields = await listTemplateFields(formCode, version);
+    res.json({ formCode: formCode.toUpperCase(), version, fields });
+  } catch (error) {
+    logger.error("Error listing template fields", error);
+    console.log("Error listing template fields", error);
+    res.status(404).json({ error: error instanceof FormSetupError ? error.message : "Template not found" });
+  }
+});
+
+/**
+ * Check a form's field mapping against its template. missingFields lists the
+ * mapped fields the template doesn't have and is empty when they match.
+ */
+router.get("/templates/:formCode/:version/check", async (req, res) => {
+  try {
+    const { formCode, version } = req.params;
+
+    logger.debug(`GET /pdf/templates/${formCode}/${version}/check`);
+    console.log(`GET /pdf/templates/${formCode}/${version}/check`);
+
+    res.json(await checkFormMapping(formCode, version));
+  } catch (error) {
+    logger.error("Error checking form mapping", error);
+    console.log("Error checking form mapping", error);
+    res.status(404).json({ error: error instanceof FormSetupError ? error.message : "Template not found" });
   }
 });
 
@@ -0,0 +1,108 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import JSZip from 'jszip';
+import { PDFDocument } from 'pdf-lib';
+
+type FilingPackage = typeof import('../filingPackage.service');
+
+let templatesDir: string;
+let filingPackage: FilingPackage;
+
+// A stand-in for the LTB L1 with every field the committed mapping fills
+const writeL1Template = async () => {
+  const mapping = JSON.parse(await fs.readFile(path.resolve(__dirname, '../../../forms/mappings/L1/2022-11.json'), 'utf8'));
+  const pdfDoc = await PDFDocument.create();
+  const page = pdfDoc.addPage();
+  const form = pdfDoc.getForm();
+
+  mapping.fields.forEach(({ field, type }: { field: string; type?: string }) => {
+    if (type === 'checkbox') {
+      form.createCheckBox(field).addToPage(page);
+    } else {
+      form.createTextField(field).addToPage(page);
+    }
+  });
+  (mapping.arrearsTable?.rows || [])
+    .flatMap((row: Record<string, string>) => Object.values(row))
+    .concat(mapping.arrearsTable?.totalRentOwing || [])
+    .forEach((field: string) => form.createTextField(field).addToPage(page));
+
+  await fs.mkdir(path.join(templatesDir, 'L1'), { recursive: true });
+  await fs.writeFile(path.join(templatesDir, 'L1', '2022-11.pdf'), await pdfDoc.save());
+};
+
+const onePagePdf = async (text: string) => {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.addPage().drawText(text);
+  return Buffer.from(await pdfDoc.save());
+};
+
+const packageData = async () => ({
+  l1: {
+    tenantName: 'Jane Tenant',
+    landlordName: 'Sam Landlord',
+    rentalAddress: '2, 10 King St W, Toronto, ON M5H 1A1',
+    rentAmount: 2000,
+    rentDueDate: '2026-09-01',
+    reasonForApplication: 'Rent unpaid after the N4 termination date',
+    arrearsPeriods: [{ periodStart: '2026-09-01', periodEnd: '2026-09-30', rentCharged: 2000, rentPaid: 0, rentOwing: 2000 }]
+  },
+  servedN4: (await onePagePdf('Served N4')).toString('base64'),
+  certificateOfService: (await onePagePdf('Certificate of Service')).toString('base64'),
+  ledger: {
+    tenantName: 'Jane Tenant',
+    landlordName: 'Sam Landlord',
+    rentalAddress: '2, 10 King St W, Toronto, ON M5H 1A1',
+    asOf: '2026-10-19',
+    rows: [{ periodStart: '2026-09-01', periodEnd: '2026-09-30', rentCharged: 2000, rentPaid: 0, rentOwing: 2000, balance: 2000 }]
+  },
+  evidence: {
+    tenantName: 'Jane Tenant',
+    rentalAddress: '2, 10 King St W, Toronto, ON M5H 1A1',
+    records: [{ type: 'form_n4', channel: 'whatsapp', status: 'read', sentAt: '2026-10-01T14:00:00Z', readAt: '2026-10-01T14:05:00Z' }]
+  }
+});
+
+beforeAll(async () => {
+  templatesDir = await fs.mkdtemp(path.join(os.tmpdir(), 'templates-'));
+  process.env.PDF_TEMPLATES_DIR = templatesDir;
+  await writeL1Template();
+  filingPackage = await import('../filingPackage.service');
+});
+
+afterAll(async () => {
+  await fs.rm(templatesDir, { recursive: true, force: true });
+});
+
+describe('the L1 filing package', () => {
+  test('zips each document under its numbered file name', async () => {
+    const data = await packageData();
+    const zip = await JSZip.loadAsync(await filingPackage.generateL1Package(data, 'zip'));
+
+    expect(Object.keys(zip.files)).toEqual([
+      '1_L1_Application.pdf',
+      '2_N4_Served.pdf',
+      '3_Certificate_of_Service.pdf',
+      '4_Rent_Ledger.pdf',
+      '5_Delivery_Record.pdf'
+    ]);
+
+    const files = await Promise.all(Object.values(zip.files).map((file) => file.async('nodebuffer')));
+    files.forEach((file) => expect(file.subarray(0, 5).toString()).toBe('%PDF-'));
+
+    // The served N4 and Certificate of Service are the stored documents, unchanged
+    expect(files[1].toString('base64')).toBe(data.servedN4);
+    expect(files[2].toString('base64')).toBe(data.certificateOfService);
+
+    // The L1 is filled and flattened
+    const l1 = await PDFDocument.load(files[0]);
+    expect(l1.getForm().getFields()).toHaveLength(0);
+  });
+
+  test('merges the same documents into one PDF by default', async () => {
+    const merged = await PDFDocument.load(await filingPackage.generateL1Package(await packageData()));
+
+    expect(merged.getPageCount()).toBe(5);
+  });
+});
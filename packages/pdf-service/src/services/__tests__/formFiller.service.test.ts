@@ -0,0 +1,70 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { PDFDocument } from 'pdf-lib';
+
+type FormFiller = typeof import('../formFiller.service');
+
+let root: string;
+let filler: FormFiller;
+
+const writeMapping = (formCode: string, fields: string[]) =>
+  fs.mkdir(path.join(root, 'mappings', formCode), { recursive: true }).then(() =>
+    fs.writeFile(path.join(root, 'mappings', formCode, '2022-11.json'), JSON.stringify({
+      formCode,
+      version: '2022-11',
+      template: `${formCode}/2022-11.pdf`,
+      fields: fields.map((field) => ({ field, source: 'tenantName' }))
+    }))
+  );
+
+const writeTemplate = async (formCode: string, fields: string[]) => {
+  const pdfDoc = await PDFDocument.create();
+  const page = pdfDoc.addPage();
+  fields.forEach((name, index) => {
+    pdfDoc.getForm().createTextField(name).addToPage(page, { x: 50, y: 700 - index * 30 });
+  });
+  await fs.mkdir(path.join(root, 'templates', formCode), { recursive: true });
+  await fs.writeFile(path.join(root, 'templates', formCode, '2022-11.pdf'), await pdfDoc.save());
+};
+
+beforeAll(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'forms-'));
+  process.env.PDF_TEMPLATES_DIR = path.join(root, 'templates');
+  process.env.PDF_MAPPINGS_DIR = path.join(root, 'mappings');
+  filler = await import('../formFiller.service');
+});
+
+afterAll(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe('filling a form template', () => {
+  test('says where to save a missing template', async () => {
+    await writeMapping('MISSING', ['TenantName']);
+
+    await expect(filler.fillForm('MISSING', { tenantName: 'Jane Tenant' })).rejects.toMatchObject({
+      statusCode: 503,
+      message: expect.stringContaining(path.join(root, 'templates', 'MISSING', '2022-11.pdf'))
+    });
+  });
+
+  test('lists every mapped field the template lacks', async () => {
+    await writeMapping('MISMATCH', ['TenantName', 'LandlordName', 'Signature']);
+    await writeTemplate('MISMATCH', ['TenantName']);
+
+    await expect(filler.fillForm('MISMATCH', { tenantName: 'Jane Tenant' })).rejects.toThrow(
+      'Mapping MISMATCH 2022-11 names fields that are not in MISMATCH/2022-11.pdf: LandlordName, Signature'
+    );
+    await expect(filler.checkFormMapping('MISMATCH')).resolves.toMatchObject({ missingFields: ['LandlordName', 'Signature'] });
+  });
+
+  test('fills a template that matches its mapping', async () => {
+    await writeMapping('MATCH', ['TenantName']);
+    await writeTemplate('MATCH', ['TenantName']);
+
+    const filled = await PDFDocument.load(await filler.fillForm('MATCH', { tenantName: 'Jane Tenant' }));
+
+    expect(filled.getForm().getTextField('TenantName').getText()).toBe('Jane Tenant');
+  });
+});
@@ -0,0 +1,228 @@
+import PDFDocument from "pdfkit";
+import { PDFDocument as PDFLibDocument } from "pdf-lib";
+import JSZip from "jszip";
+import { logger } from "../utils/logger";
+import { generateL1Form, L1FormData } from "./pdfGenerator.service";
+
+/**
+ * One period of the rent ledger statement
+ */
+export interface LedgerRow {
+  periodStart: string;
+  periodEnd: string;
+  rentCharged: number;
+  rentPaid: number;
+  rentOwing: number;
+  balance: number;
+}
+
+export interface RentLedgerData {
+  tenantName: string;
+  landlordName: string;
+  rentalAddress: string;
+  asOf: string;
+  rows: LedgerRow[];
+}
+
+/**
+ * A WhatsApp (or email) message sent to the tenant, with its delivery receipts
+ */
+export interface DeliveryRecord {
+  type: string;
+  channel: string;
+  status: string;
+  messageId?: string | null;
+  sentAt?: string | null;
+  deliveredAt?: string | null;
+  readAt?: string | null;
+}
+
+export interface DeliveryEvidenceData {
+  tenantName: string;
+  rentalAddress: string;
+  records: DeliveryRecord[];
+}
+
+/**
+ * Everything that goes into an L1 filing package. The served N4 and the
+ * Certificate of Service are the stored PDFs, base64 encoded.
+ */
+export interface L1PackageData {
+  l1: L1FormData;
+  servedN4: string;
+  certificateOfService: string;
+  ledger: RentLedgerData;
+  evidence: DeliveryEvidenceData;
+}
+
+export type PackageFormat = "pdf" | "zip";
+
+export const currencyFormatter = new Intl.NumberFormat("en-CA", {
+  style: "currency",
+  currency: "CAD",
+});
+
+/**
+ * Render a pdfkit document into a buffer
+ */
+export const renderDocument = (build: (doc: PDFKit.PDFDocument) => void): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    try {
+      const doc = new PDFDocument({
+        size: "letter", // 8.5" x 11"
+        margin: 50,
+      });
+
+      const buffers: Buffer[] = [];
+      doc.on("data", buffers.push.bind(buffers));
+      doc.on("end", () => resolve(Buffer.concat(buffers)));
+
+      build(doc);
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+};
+
+/**
+ * Draw a simple table, starting a new page when the current one is full
+ */
+export const drawTable = (doc: PDFKit.PDFDocument, columns: { header: string; width: number }[], rows: string[][]) => {
+  const left = doc.page.margins.left;
+  const bottom = doc.page.height - doc.page.margins.bottom;
+  let y = doc.y;
+
+  const drawRow = (cells: string[], bold: boolean) => {
+    if (y + 16 > bottom) {
+      doc.addPage();
+      y = doc.page.margins.top;
+    }
+
+    let x = left;
+    doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(9);
+    cells.forEach((cell, index) => {
+      doc.text(cell, x, y, { width: columns[index].width - 4 });
+      x += columns[index].width;
+    });
+    y += 16;
+  };
+
+  drawRow(columns.map((column) => column.header), true);
+  rows.forEach((row) => drawRow(row, false));
+
+  doc.x = left;
+  doc.y = y;
+};
+
+/**
+ * Generate the rent ledger statement covering the arrears period
+ */
+export const generateRentLedgerStatement = (data: RentLedgerData): Promise<Buffer> => {
+  logger.debug("Generating rent ledger statement");
+  console.log("Generating rent ledger statement for tenant:", data.tenantName);
+
+  return renderDocument((doc) => {
+    doc.fontSize(16).font("Helvetica-Bold").text("Rent Ledger Statement", { align: "center" });
+    doc.moveDown(1);
+
+    doc.fontSize(10).font("Helvetica");
+    doc.text(`Tenant: ${data.tenantName}`);
+    doc.text(`Landlord: ${data.landlordName}`);
+    doc.text(`Rental Unit: ${data.rentalAddress}`);
+    doc.text(`Statement as of: ${data.asOf}`);
+    doc.moveDown(1);
+
+    drawTable(doc, [
+      { header: "Rental Period", width: 150 },
+      { header: "Rent Charged", width: 85 },
+      { header: "Rent Paid", width: 85 },
+      { header: "Rent Owing", width: 85 },
+      { header: "Balance", width: 85 }
+    ], data.rows.map((row) => [
+      `${row.periodStart} to ${row.periodEnd}`,
+      currencyFormatter.format(row.rentCharged),
+      currencyFormatter.format(row.rentPaid),
+      currencyFormatter.format(row.rentOwing),
+      currencyFormatter.format(row.balance)
+    ]));
+
+    const balance = data.rows.length > 0 ? data.rows[data.rows.length - 1].balance : 0;
+    doc.moveDown(1);
+    doc.fontSize(11).font("Helvetica-Bold").text(`Total rent owing as of ${data.asOf}: ${currencyFormatter.format(balance)}`);
+  });
+};
+
+/**
+ * Generate the delivery evidence page listing when each message was sent, delivered and read
+ */
+export const generateDeliveryEvidence = (data: DeliveryEvidenceData): Promise<Buffer> => {
+  logger.debug("Generating delivery evidence");
+  console.log("Generating delivery evidence for tenant:", data.tenantName);
+
+  return renderDocument((doc) => {
+    doc.fontSize(16).font("Helvetica-Bold").text("Notice Delivery Record", { align: "center" });
+    doc.moveDown(1);
+
+    doc.fontSize(10).font("Helvetica");
+    doc.text(`Tenant: ${data.tenantName}`);
+    doc.text(`Rental Unit: ${data.rentalAddress}`);
+    doc.moveDown(0.5);
+    doc.text("Delivery and read receipts as reported by the WhatsApp Business API. Times are UTC.");
+    doc.moveDown(1);
+
+    if (data.records.length === 0) {
+      doc.text("No messages were sent to the tenant for this arrears period.");
+      return;
+    }
+
+    drawTable(doc, [
+      { header: "Message", width: 80 },
+      { header: "Channel", width: 60 },
+      { header: "Status", width: 60 },
+      { header: "Sent", width: 105 },
+      { header: "Delivered", width: 105 },
+      { header: "Read", width: 105 }
+    ], data.records.map((record) => [
+      record.type,
+      record.channel,
+      record.status,
+      record.sentAt || "—",
+      record.deliveredAt || "—",
+      record.readAt || "—"
+    ]));
+  });
+};
+
+/**
+ * Assemble the L1 filing package: filled L1, served N4, Certificate of Service,
+ * rent ledger statement and delivery evidence, as one PDF or a ZIP of PDFs
+ */
+export const generateL1Package = async (data: L1PackageData, format: PackageFormat = "pdf"): Promise<Buffer> => {
+  logger.debug(`Generating L1 filing package as ${format}`);
+  console.log(`Generating L1 filing package for tenant ${data.l1.tenantName} as ${format}`);
+
+  // The L1 is flattened so its fields survive being copied into the merged document
+  const documents: { fileName: string; content: Buffer }[] = [
+    { fileName: "1_L1_Application.pdf", content: await generateL1Form(data.l1, { flatten: true }) },
+    { fileName: "2_N4_Served.pdf", content: Buffer.from(data.servedN4, "base64") },
+    { fileName: "3_Certificate_of_Service.pdf", content: Buffer.from(data.certificateOfService, "base64") },
+    { fileName: "4_Rent_Ledger.pdf", content: await generateRentLedgerStatement(data.ledger) },
+    { fileName: "5_Delivery_Record.pdf", content: await generateDeliveryEvidence(data.evidence) }
+  ];
+
+  if (format === "zip") {
+    const zip = new JSZip();
+    documents.forEach((document) => zip.file(document.fileName, document.content));
+    return zip.generateAsync({ type: "nodebuffer" });
+  }
+
+  const merged = await PDFLibDocument.create();
+  for (const document of documents) {
+    const source = await PDFLibDocument.load(document.content);
+    const pages = await merged.copyPages(source, source.getPageIndices());
+    pages.forEach((page) => merged.addPage(page));
+  }
+
+  return Buffer.from(await merged.save());
+};
@@ -0,0 +1,316 @@
+import fs from "fs/promises";
+import path from "path";
+import { PDFDocument, PDFCheckBox, PDFTextField } from "pdf-lib";
+import { logger } from "../utils/logger";
+
+// Official fillable PDFs downloaded from the LTB (not committed, see forms/README.md)
+export const TEMPLATES_DIR = process.env.PDF_TEMPLATES_DIR || path.resolve(__dirname, "../../forms/templates");
+
+// Field mappings, one JSON file per form revision
+export const MAPPINGS_DIR = process.env.PDF_MAPPINGS_DIR || path.resolve(__dirname, "../../forms/mappings");
+
+/**
+ * How a value from the form data is written into one AcroForm field
+ */
+export interface FieldMapping {
+  field: string;
+  source: string;
+  type?: "text" | "checkbox";
+  format?: "text" | "amount" | "date";
+  // For checkboxes: only check the box when the source equals this value
+  value?: string;
+}
+
+/**
+ * Field names of one row of the rent owing table
+ */
+export interface ArrearsRowMapping {
+  periodStart: string;
+  periodEnd: string;
+  rentCharged: string;
+  rentPaid: string;
+  rentOwing: string;
+}
+
+/**
+ * A versioned mapping between our form data and the fields of an LTB template
+ */
+export interface FormMapping {
+  formCode: string;
+  version: string;
+  template: string;
+  fields: FieldMapping[];
+  arrearsTable?: {
+    rows: ArrearsRowMapping[];
+    totalRentOwing?: string;
+  };
+}
+
+export interface ArrearsTableRow {
+  periodStart: string;
+  periodEnd: string;
+  rentCharged: number;
+  rentPaid: number;
+  rentOwing: number;
+}
+
+export interface FillFormOptions {
+  // Flatten the fields into the page so the output can no longer be edited
+  flatten?: boolean;
+  // Mapping version to use, defaults to the latest one for the form
+  version?: string;
+}
+
+/**
+ * An error in the service's form set-up rather than the request: a missing
+ * template or mapping, or a mapping that doesn't match its template.
+ * Sent back as a 503 with a message saying how to fix it.
+ */
+export class FormSetupError extends Error {
+  statusCode = 503;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "FormSetupError";
+  }
+}
+
+const amountFormatter = new Intl.NumberFormat("en-CA", {
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2
+});
+
+/**
+ * Format a value the way the LTB forms expect it
+ */
+const formatValue = (value: unknown, format: FieldMapping["format"] = "text"): string => {
+  if (value === undefined || value === null || value === "") {
+    return "";
+  }
+
+  if (format === "amount") {
+    return amountFormatter.format(Number(value));
+  }
+
+  if (format === "date") {
+    // LTB forms use dd/mm/yyyy
+    const [year, month, day] = String(value).split("T")[0].split("-");
+    return `${day}/${month}/${year}`;
+  }
+
+  return String(value);
+};
+
+/**
+ * List the available mapping versions for a form, oldest first
+ */
+export const listFormVersions = async (formCode: string): Promise<string[]> => {
+  try {
+    const files = await fs.readdir(path.join(MAPPINGS_DIR, formCode.toUpperCase()));
+    return files
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => file.replace(/\.json$/, ""))
+      .sort();
+  } catch (error) {
+    return [];
+  }
+};
+
+/**
+ * Load the field mapping for a form, using the latest version unless one is requested
+ */
+export const loadFormMapping = async (formCode: string, version?: string): Promise<FormMapping> => {
+  const versions = await listFormVersions(formCode);
+  const selectedVersion = version || versions[versions.length - 1];
+
+  if (!selectedVersion || !versions.includes(selectedVersion)) {
+    throw new FormSetupError(
+      `No field mapping found for form ${formCode}${version ? ` version ${version}` : ""} in ${path.join(MAPPINGS_DIR, formCode.toUpperCase())}. See forms/README.md`
+    );
+  }
+
+  const mappingPath = path.join(MAPPINGS_DIR, formCode.toUpperCase(), `${selectedVersion}.json`);
+  const mapping = JSON.parse(await fs.readFile(mappingPath, "utf-8")) as FormMapping;
+
+  logger.debug(`Loaded ${formCode} field mapping version ${mapping.version}`);
+  console.log(`Loaded ${formCode} field mapping version ${mapping.version}`);
+  return mapping;
+};
+
+/**
+ * Load an official template from the templates directory. The templates are
+ * not committed, so a missing one says where it has to be saved.
+ */
+const loadTemplate = async (template: string): Promise<PDFDocument> => {
+  const templatePath = path.join(TEMPLATES_DIR, template);
+
+  let templateBytes: Buffer;
+  try {
+    templateBytes = await fs.readFile(templatePath);
+  } catch (error) {
+    logger.error(`Template ${templatePath} is missing`, error);
+    console.log(`Template ${templatePath} is missing`, error);
+    throw new FormSetupError(
+      `Template ${template} is missing. Download the fillable form and save it as ${templatePath}; see forms/README.md`
+    );
+  }
+
+  try {
+    return await PDFDocument.load(templateBytes);
+  } catch (error) {
+    logger.error(`Error loading template ${templatePath}`, error);
+    console.log(`Error loading template ${templatePath}`, error);
+    throw new FormSetupError(`Template ${templatePath} is not a readable PDF`);
+  }
+};
+
+/**
+ * The fields a mapping fills, including the rent owing table
+ */
+const getMappedFieldNames = (mapping: FormMapping): string[] => [
+  ...mapping.fields.map((fieldMapping) => fieldMapping.field),
+  ...(mapping.arrearsTable?.rows || []).flatMap((row) => [row.periodStart, row.periodEnd, row.rentCharged, row.rentPaid, row.rentOwing]),
+  ...(mapping.arrearsTable?.totalRentOwing ? [mapping.arrearsTable.totalRentOwing] : [])
+];
+
+/**
+ * The fields a mapping names that its template doesn't have. Empty when the
+ * mapping matches the template.
+ */
+export const findUnmappedFields = (mapping: FormMapping, pdfDoc: PDFDocument): string[] => {
+  const templateFields = new Set(pdfDoc.getForm().getFields().map((field) => field.getName()));
+  return getMappedFieldNames(mapping).filter((field) => !templateFields.has(field));
+};
+
+/**
+ * Check a form's mapping against its template, used after saving a new
+ * template or revising a mapping
+ */
+export const checkFormMapping = async (
+  formCode: string,
+  version?: string
+): Promise<{ formCode: string; version: string; template: string; missingFields: string[] }> => {
+  const mapping = await loadFormMapping(formCode, version);
+  const pdfDoc = await loadTemplate(mapping.template);
+
+  return {
+    formCode: mapping.formCode,
+    version: mapping.version,
+    template: mapping.template,
+    missingFields: findUnmappedFields(mapping, pdfDoc)
+  };
+};
+
+/**
+ * Fit the rent owing periods into the rows available on the form. When there
+ * are more periods than rows, the oldest periods are combined into the first row.
+ */
+export const fitArrearsRows = (periods: ArrearsTableRow[], maxRows: number): ArrearsTableRow[] => {
+  if (periods.length <= maxRows || maxRows < 1) {
+    return periods;
+  }
+
+  const combined = periods.slice(0, periods.length - maxRows + 1);
+  const firstRow = combined.reduce((row, period) => ({
+    periodStart: row.periodStart,
+    periodEnd: period.periodEnd,
+    rentCharged: row.rentCharged + period.rentCharged,
+    rentPaid: row.rentPaid + period.rentPaid,
+    rentOwing: row.rentOwing + period.rentOwing
+  }));
+
+  return [firstRow, ...periods.slice(periods.length - maxRows + 1)];
+};
+
+/**
+ * Fill an official LTB form from a set of values using its field mapping
+ */
+export const fillForm = async (
+  formCode: string,
+  values: Record<string, unknown>,
+  arrearsPeriods: ArrearsTableRow[] = [],
+  options: FillFormOptions = {}
+): Promise<Buffer> => {
+  const mapping = await loadFormMapping(formCode, options.version);
+  const pdfDoc = await loadTemplate(mapping.template);
+  const form = pdfDoc.getForm();
+
+  // Report every field the template lacks at once instead of failing on the first
+  const missingFields = findUnmappedFields(mapping, pdfDoc);
+  if (missingFields.length > 0) {
+    throw new FormSetupError(
+      `Mapping ${formCode} ${mapping.version} names fields that are not in ${mapping.template}: ${missingFields.join(", ")}. ` +
+      `Compare it with GET /pdf/templates/${formCode.toUpperCase()}/${mapping.version}/fields`
+    );
+  }
+
+  const setText = (fieldName: string, text: string) => {
+    const field = form.getField(fieldName);
+    if (!(field instanceof PDFTextField)) {
+      throw new FormSetupError(`Field "${fieldName}" on form ${formCode} is not a text field`);
+    }
+    field.setText(text);
+  };
+
+  mapping.fields.forEach((fieldMapping) => {
+    const value = values[fieldMapping.source];
+
+    if (fieldMapping.type === "checkbox") {
+      const field = form.getField(fieldMapping.field);
+      if (!(field instanceof PDFCheckBox)) {
+        throw new FormSetupError(`Field "${fieldMapping.field}" on form ${formCode} is not a checkbox`);
+      }
+      const checked = fieldMapping.value !== undefined ? value === fieldMapping.value : Boolean(value);
+      if (checked) {
+        field.check();
+      } else {
+        field.uncheck();
+      }
+      return;
+    }
+
+    setText(fieldMapping.field, formatValue(value, fieldMapping.format));
+  });
+
+  if (mapping.arrearsTable) {
+    const rows = fitArrearsRows(arrearsPeriods, mapping.arrearsTable.rows.length);
+
+    rows.forEach((row, index) => {
+      const rowMapping = mapping.arrearsTable!.rows[index];
+      setText(rowMapping.periodStart, formatValue(row.periodStart, "date"));
+      setText(rowMapping.periodEnd, formatValue(row.periodEnd, "date"));
+      setText(rowMapping.rentCharged, formatValue(row.rentCharged, "amount"));
+      setText(rowMapping.rentPaid, formatValue(row.rentPaid, "amount"));
+      setText(rowMapping.rentOwing, formatValue(row.rentOwing, "amount"));
+    });
+
+    if (mapping.arrearsTable.totalRentOwing && rows.length > 0) {
+      const totalOwing = rows.reduce((total, row) => total + row.rentOwing, 0);
+      setText(mapping.arrearsTable.totalRentOwing, formatValue(totalOwing, "amount"));
+    }
+  }
+
+  if (options.flatten) {
+    form.flatten();
+  }
+
+  const pdfBytes = await pdfDoc.save();
+
+  logger.debug(`${formCode} form filled using mapping version ${mapping.version}${options.flatten ? " (flattened)" : ""}`);
+  console.log(`${formCode} form filled using mapping version ${mapping.version}${options.flatten ? " (flattened)" : ""}`);
+
+  return Buffer.from(pdfBytes);
+};
+
+/**
+ * List the AcroForm field names of a template (forms/templates/<formCode>/<version>.pdf),
+ * used when writing the mapping for a new revision of a form
+ */
+export const listTemplateFields = async (formCode: string, version: string): Promise<{ name: string; type: string }[]> => {
+  const pdfDoc = await loadTemplate(path.join(formCode.toUpperCase(), `${version}.pdf`));
+
+  return pdfDoc.getForm().getFields().map((field) => ({
+    name: field.getName(),
+    type: field.constructor.name
+  }));
+};
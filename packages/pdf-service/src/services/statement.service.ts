@@ -0,0 +1,112 @@
+import { logger } from "../utils/logger";
+import { renderDocument, drawTable, currencyFormatter } from "./filingPackage.service";
+
+/**
+ * One line of a closing statement. Positive amounts are owed by the tenant,
+ * negative amounts reduce what they owe.
+ */
+export interface StatementLine {
+  description: string;
+  amount: number;
+}
+
+export interface ClosingStatementData {
+  tenantName: string;
+  landlordName: string;
+  rentalAddress: string;
+  moveOutDate: string;
+  statementDate: string;
+  lines: StatementLine[];
+  balance: number; // Positive when the tenant owes money, negative when a refund is due
+}
+
+/**
+ * Generate the closing statement settling a tenancy on move-out
+ */
+export const generateClosingStatement = (data: ClosingStatementData): Promise<Buffer> => {
+  logger.debug("Generating closing statement");
+  console.log("Generating closing statement for tenant:", data.tenantName);
+
+  return renderDocument((doc) => {
+    doc.fontSize(16).font("Helvetica-Bold").text("Closing Statement", { align: "center" });
+    doc.moveDown(1);
+
+    doc.fontSize(10).font("Helvetica");
+    doc.text(`Tenant: ${data.tenantName}`);
+    doc.text(`Landlord: ${data.landlordName}`);
+    doc.text(`Rental Unit: ${data.rentalAddress}`);
+    doc.text(`Move-out date: ${data.moveOutDate}`);
+    doc.text(`Statement date: ${data.statementDate}`);
+    doc.moveDown(1);
+
+    drawTable(doc, [
+      { header: "Description", width: 380 },
+      { header: "Amount", width: 110 }
+    ], data.lines.map((line) => [line.description, currencyFormatter.format(line.amount)]));
+
+    doc.moveDown(1);
+    doc.fontSize(11).font("Helvetica-Bold").text(
+      data.balance > 0
+        ? `Amount owing by the tenant: ${currencyFormatter.format(data.balance)}`
+        : data.balance < 0
+          ? `Refund due to the tenant: ${currencyFormatter.format(-data.balance)}`
+          : "The tenancy is settled; nothing is owing either way."
+    );
+  });
+};
+
+/**
+ * One unit's part of a utility bill. The tenant's own unit is highlighted.
+ */
+export interface UtilityBreakdownRow {
+  unitNumber: string;
+  basis: string; // e.g. "1,000 to 2,250 (1,250 used)" or "850 sq ft"
+  share: number; // Percentage of the bill
+  amount: number;
+}
+
+export interface UtilityBreakdownData {
+  tenantName: string;
+  rentalAddress: string;
+  utility: string;
+  periodStart: string;
+  periodEnd: string;
+  totalAmount: number;
+  allocationMethod: string; // How the bill was split, e.g. "Meter readings"
+  dueDate: string;
+  rows: UtilityBreakdownRow[];
+  amountDue: number;
+}
+
+/**
+ * Generate the breakdown of a utility bill split across a property's units
+ */
+export const generateUtilityBreakdown = (data: UtilityBreakdownData): Promise<Buffer> => {
+  logger.debug("Generating utility bill breakdown");
+  console.log("Generating utility bill breakdown for tenant:", data.tenantName);
+
+  return renderDocument((doc) => {
+    doc.fontSize(16).font("Helvetica-Bold").text(`${data.utility} Bill Breakdown`, { align: "center" });
+    doc.moveDown(1);
+
+    doc.fontSize(10).font("Helvetica");
+    doc.text(`Tenant: ${data.tenantName}`);
+    doc.text(`Rental Unit: ${data.rentalAddress}`);
+    doc.text(`Billing period: ${data.periodStart} to ${data.periodEnd}`);
+    doc.text(`Bill total: ${currencyFormatter.format(data.totalAmount)}`);
+    doc.text(`Split by: ${data.allocationMethod}`);
+    doc.moveDown(1);
+
+    drawTable(doc, [
+      { header: "Unit", width: 70 },
+      { header: "Basis", width: 230 },
+      { header: "Share", width: 80 },
+      { header: "Amount", width: 110 }
+    ], data.rows.map((row) => [row.unitNumber, row.basis, `${row.share.toFixed(2)}%`, currencyFormatter.format(row.amount)]));
+
+    doc.moveDown(1);
+    doc.fontSize(11).font("Helvetica-Bold").text(
+      `Your share: ${currencyFormatter.format(data.amountDue)}, due ${data.dueDate}`
+    );
+  });
+};
@@ -0,0 +1,16 @@
+// Date-only (YYYY-MM-DD) helpers, handled in UTC so results don't depend on the server's time zone
+
+export const today = (): string => new Date().toISOString().split("T")[0];
+
+export const addDays = (date: string, days: number): string => {
+  const [year, month, day] = date.split("T")[0].split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split("T")[0];
+};
+
+/**
+ * Last day of the month the date falls in
+ */
+export const endOfMonth = (date: string): string => {
+  const [year, month] = date.split("T")[0].split("-").map(Number);
+  return new Date(Date.UTC(year, month, 0)).toISOString().split("T")[0];
+};
@@ -10,11 +10,13 @@ interface PaymentModalProps {
     id: string;
     tenant_name: string;
     amount: number;
+    balance?: number;
     due_date: string;
   };
   onConfirm: (paymentData: {
     id: string;
     status: string;
+    amount?: number;
     payment_date: string;
     payment_method: string;
     notes?: string;
@@ -27,7 +29,9 @@ const PaymentConfirmationModal: React.FC<PaymentModalProps> = ({
   paymentInfo,
   onConfirm,
 }) => {
+  const remainingBalance = paymentInfo.balance ?? paymentInfo.amount;
   const [formData, setFormData] = useState({
+    amount: String(remainingBalance),
     payment_date: new Date().toISOString().split("T")[0],
     payment_method: "e-transfer",
     notes: "",
@@ -43,9 +47,11 @@ const PaymentConfirmationModal: React.FC<PaymentModalProps> = ({
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    const amount = Number(formData.amount);
     onConfirm({
       id: paymentInfo.id,
-      status: "paid",
+      status: amount < remainingBalance ? "partial" : "paid",
+      amount,
       payment_date: formData.payment_date,
       payment_method: formData.payment_method,
       notes: formData.notes,
@@ -86,6 +92,10 @@ const PaymentConfirmationModal: React.FC<PaymentModalProps> = ({
               <p className="text-sm text-gray-500">Amount</p>
               <p className="font-medium">{formatCurrency(paymentInfo.amount)}</p>
             </div>
+            <div>
+              <p className="text-sm text-gray-500">Balance Owing</p>
+              <p className="font-medium">{formatCurrency(remainingBalance)}</p>
+            </div>
             <div>
               <p className="text-sm text-gray-500">Due Date</p>
               <p className="font-medium">
@@ -97,6 +107,20 @@ const PaymentConfirmationModal: React.FC<PaymentModalProps> = ({
 
         <form id="payment-confirmation-form" onSubmit={handleSubmit}>
           <div className="space-y-4">
+            <Input
+              label="Amount Received"
+              id="amount"
+              name="amount"
+              type="number"
+              min="0.01"
+              step="0.01"
+              max={remainingBalance}
+              value={formData.amount}
+              onChange={handleChange}
+              fullWidth
+              required
+            />
+
             <Input
               label="Payment Date"
               id="payment_date"
@@ -3,7 +3,10 @@ import { Input, Select } from "./FormElements";
 import Button from "./Button";
 import Card from "./Card";
 import { tenantsApi } from "../services/api.service";
-import Tenant from "../types/tenant";
+import Tenant, { RentFrequency } from "../types/tenant";
+import { formatRentFrequency } from "../utils/formatters";
+
+const RENT_FREQUENCIES: RentFrequency[] = ["monthly", "weekly", "biweekly", "quarterly"];
 
 interface Unit {
   id: string;
@@ -34,6 +37,10 @@ const TenantForm: React.FC<TenantFormProps> = ({
     unit_id: "",
     rent_amount: undefined,
     rent_due_day: undefined,
+    rent_frequency: "monthly",
+    rent_anchor_date: null,
+    lease_start: null,
+    lease_end: null,
   });
 
   const [units, setUnits] = useState<{ value: string, label: string }[]>(
@@ -80,7 +87,8 @@ const TenantForm: React.FC<TenantFormProps> = ({
     if (tenant) {
       setFormData({
         ...tenant,
-        unit_id: tenant.unit_id ? tenant.unit_id.toString() : ""
+        unit_id: tenant.unit_id ? tenant.unit_id.toString() : "",
+        rent_frequency: tenant.rent_frequency || "monthly"
       });
     }
   }, [tenant]);
@@ -102,21 +110,33 @@ const TenantForm: React.FC<TenantFormProps> = ({
     }
   };
 
+  // Changing the rent of an existing tenant can take effect on a later date
+  const isRentChanged = Boolean(tenant?.id) && formData.rent_amount !== tenant?.rent_amount;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     console.log("Form submitted with data:", formData);
     console.log("rent_amount:", formData.rent_amount);
     console.log("rent_due_day:", formData.rent_due_day);
 
+    const isMonthly = (formData.rent_frequency || "monthly") === "monthly";
     const dataToSave = {
       ...formData,
-      unit_id: formData.unit_id || ""
+      unit_id: formData.unit_id || "",
+      // Weekly, bi-weekly and quarterly rent repeats from the first due date
+      rent_due_day: isMonthly || !formData.rent_anchor_date
+        ? formData.rent_due_day
+        : Number(formData.rent_anchor_date.split("-")[2]),
+      rent_anchor_date: formData.rent_anchor_date || null,
+      lease_end: formData.lease_end || null,
+      rent_effective_date: isRentChanged ? formData.rent_effective_date || null : undefined
     };
 
     onSave(dataToSave);
   };
 
   const isEditMode = Boolean(tenant?.id);
+  const isMonthly = (formData.rent_frequency || "monthly") === "monthly";
   const cardTitle = isEditMode ? "Edit Tenant" : "Add New Tenant";
 
   return (
@@ -221,19 +241,85 @@ const TenantForm: React.FC<TenantFormProps> = ({
             required
             disabled={loading}
           />
+          <Select
+            label="Rent Frequency"
+            id="rent_frequency"
+            name="rent_frequency"
+            value={formData.rent_frequency || "monthly"}
+            onChange={handleChange}
+            options={RENT_FREQUENCIES.map((frequency) => ({ value: frequency, label: formatRentFrequency(frequency) }))}
+            fullWidth
+            disabled={loading}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+          {isMonthly ? (
+            <Input
+              label="Rent Due Day"
+              id="rent_due_day"
+              name="rent_due_day"
+              type="number"
+              min="1"
+              max="31"
+              value={formData.rent_due_day?.toString() || ""}
+              onChange={handleChange}
+              placeholder="e.g. 1 (for 1st of month)"
+              helperText="Day of month rent is due (1-31)"
+              fullWidth
+              required
+              disabled={loading}
+            />
+          ) : (
+            <Input
+              label="First Due Date"
+              id="rent_anchor_date"
+              name="rent_anchor_date"
+              type="date"
+              value={formData.rent_anchor_date || ""}
+              onChange={handleChange}
+              helperText="Rent is due every period from this date"
+              fullWidth
+              required
+              disabled={loading}
+            />
+          )}
+          {isRentChanged && (
+            <Input
+              label="New Rent Effective From"
+              id="rent_effective_date"
+              name="rent_effective_date"
+              type="date"
+              value={formData.rent_effective_date || ""}
+              onChange={handleChange}
+              helperText="Leave blank for today; earlier periods keep the old rent"
+              fullWidth
+              disabled={loading}
+            />
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+          <Input
+            label="Lease Start"
+            id="lease_start"
+            name="lease_start"
+            type="date"
+            value={formData.lease_start ? formData.lease_start.split("T")[0] : ""}
+            onChange={handleChange}
+            helperText="Rent for a partial first period is prorated"
+            fullWidth
+            disabled={loading}
+          />
           <Input
-            label="Rent Due Day"
-            id="rent_due_day"
-            name="rent_due_day"
-            type="number"
-            min="1"
-            max="31"
-            value={formData.rent_due_day?.toString() || ""}
+            label="Lease End"
+            id="lease_end"
+            name="lease_end"
+            type="date"
+            value={formData.lease_end ? formData.lease_end.split("T")[0] : ""}
             onChange={handleChange}
-            placeholder="e.g. 1 (for 1st of month)"
-            helperText="Day of month rent is due (1-31)"
+            helperText="Leave blank for an ongoing lease"
             fullWidth
-            required
             disabled={loading}
           />
         </div>
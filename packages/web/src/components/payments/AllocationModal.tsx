@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import Modal from '../Modal';
+import Button from '../Button';
+import { Input, Select } from '../FormElements';
+import AllocationTable from './AllocationTable';
+import api from '../../services/api.service';
+import { AllocationPolicy, AllocationReport, Payment } from '../../types/payment.types';
+import { formatCurrency } from '../../utils/formatters';
+
+interface AllocationModalProps {
+  payments: Payment[];
+  onClose: () => void;
+  onConfirmed: (report: AllocationReport) => void;
+}
+
+const AllocationModal: React.FC<AllocationModalProps> = ({ payments, onClose, onConfirmed }) => {
+  // One option per tenancy with something owing
+  const tenancies = payments.reduce<{ value: string; label: string }[]>((options, payment) => {
+    if (payment.tenant_unit_id && !options.some((option) => option.value === payment.tenant_unit_id)) {
+      options.push({ value: payment.tenant_unit_id, label: `${payment.tenant_name} (Unit ${payment.unit_number})` });
+    }
+    return options;
+  }, []);
+
+  const [formData, setFormData] = useState({
+    tenant_unit_id: tenancies[0]?.value || '',
+    amount: '',
+    payment_date: new Date().toISOString().split('T')[0],
+    payment_method: 'e-transfer',
+    policy: 'oldest_first' as AllocationPolicy,
+  });
+  const [report, setReport] = useState<AllocationReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState<boolean>(false);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+    // Any change invalidates the preview
+    setReport(null);
+  };
+
+  const requestBody = () => ({ ...formData, amount: Number(formData.amount) });
+
+  const handlePreview = async () => {
+    try {
+      setSubmitting(true);
+      setError(null);
+      setReport((await api.payments.previewAllocation(requestBody())) as AllocationReport);
+    } catch (err) {
+      console.log('Error previewing allocation:', err);
+      setError('Failed to preview the allocation.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    try {
+      setSubmitting(true);
+      setError(null);
+      const confirmed = (await api.payments.allocate(requestBody())) as AllocationReport;
+      onConfirmed(confirmed);
+      onClose();
+    } catch (err) {
+      console.log('Error allocating payment:', err);
+      setError('Failed to record the payment.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const canPreview = formData.tenant_unit_id !== '' && Number(formData.amount) > 0;
+
+  return (
+    <Modal
+      isOpen={true}
+      onClose={onClose}
+      title="Record Payment"
+      size="xl"
+      footer={
+        <div className="flex justify-end space-x-3">
+          <Button variant="text" onClick={onClose}>
+            Cancel
+          </Button>
+          {report ? (
+            <Button onClick={handleConfirm} loading={submitting}>Confirm Allocation</Button>
+          ) : (
+            <Button onClick={handlePreview} disabled={!canPreview} loading={submitting}>Preview Allocation</Button>
+          )}
+        </div>
+      }
+    >
+      <div className="space-y-4">
+        <Select
+          label="Tenant"
+          id="tenant_unit_id"
+          name="tenant_unit_id"
+          value={formData.tenant_unit_id}
+          onChange={handleChange}
+          options={tenancies}
+          fullWidth
+        />
+        <Input
+          label="Amount Received"
+          id="amount"
+          name="amount"
+          type="number"
+          min="0.01"
+          step="0.01"
+          value={formData.amount}
+          onChange={handleChange}
+          fullWidth
+          required
+        />
+        <Input
+          label="Payment Date"
+          id="payment_date"
+          name="payment_date"
+          type="date"
+          value={formData.payment_date}
+          onChange={handleChange}
+          fullWidth
+        />
+        <Select
+          label="Payment Method"
+          id="payment_method"
+          name="payment_method"
+          value={formData.payment_method}
+          onChange={handleChange}
+          options={[
+            { value: 'e-transfer', label: 'Interac e-Transfer' },
+            { value: 'cash', label: 'Cash' },
+            { value: 'check', label: 'Check' },
+            { value: 'direct_deposit', label: 'Direct Deposit' },
+            { value: 'other', label: 'Other' },
+          ]}
+          fullWidth
+        />
+        <Select
+          label="Apply To"
+          id="policy"
+          name="policy"
+          value={formData.policy}
+          onChange={handleChange}
+          options={[
+            { value: 'oldest_first', label: 'Oldest rent owing first' },
+            { value: 'newest_first', label: 'Most recent rent first' },
+          ]}
+          fullWidth
+        />
+
+        {error && <div className="payments-error">{error}</div>}
+
+        {report && (
+          <div className="allocation-preview">
+            <AllocationTable report={report} />
+            {report.credit > 0 && (
+              <p className="allocation-credit">
+                {formatCurrency(report.credit)} will be kept as a credit (credit balance after: {formatCurrency(report.creditAfter)}).
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default AllocationModal;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { AllocationReport } from '../../types/payment.types';
+import { formatCurrency, formatDate } from '../../utils/formatters';
+
+interface AllocationTableProps {
+  report: AllocationReport;
+}
+
+const AllocationTable: React.FC<AllocationTableProps> = ({ report }) => {
+  return (
+    <div className="table-container">
+      <table className="data-table">
+        <thead>
+          <tr>
+            <th>Rent Due</th>
+            <th>Owing Before</th>
+            <th>Applied</th>
+            <th>Owing After</th>
+            <th>Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.allocations.map((line) => (
+            <tr key={line.rentPaymentId}>
+              <td>{formatDate(line.dueDate)}</td>
+              <td>{formatCurrency(line.balanceBefore)}</td>
+              <td>{formatCurrency(line.applied)}</td>
+              <td>{formatCurrency(line.balanceAfter)}</td>
+              <td>
+                <span className={`status-badge status-${line.status}`}>
+                  {line.status === 'paid' ? 'Paid' : 'Partial'}
+                </span>
+              </td>
+            </tr>
+          ))}
+          {report.credit > 0 && (
+            <tr>
+              <td>Credit carried forward</td>
+              <td></td>
+              <td>{formatCurrency(report.credit)}</td>
+              <td></td>
+              <td></td>
+            </tr>
+          )}
+        </tbody>
+        <tfoot>
+          <tr>
+            <th>Total received</th>
+            <th></th>
+            <th>{formatCurrency(report.amount)}</th>
+            <th></th>
+            <th></th>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+};
+
+export default AllocationTable;
@@ -0,0 +1,44 @@
+import React, { useEffect, useState } from 'react';
+import Modal from '../Modal';
+import ArrearsTable from './ArrearsTable';
+import api from '../../services/api.service';
+import { ArrearsStatement, Payment } from '../../types/payment.types';
+
+interface ArrearsModalProps {
+  payment: Payment;
+  onClose: () => void;
+}
+
+const ArrearsModal: React.FC<ArrearsModalProps> = ({ payment, onClose }) => {
+  const [statement, setStatement] = useState<ArrearsStatement | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchArrears = async () => {
+      try {
+        const arrears = (await api.payments.getArrears(payment.tenant_id, payment.unit_id)) as ArrearsStatement;
+        setStatement(arrears);
+      } catch (err) {
+        console.log("Error fetching arrears:", err);
+        setError("Failed to fetch the arrears statement.");
+      }
+    };
+
+    fetchArrears();
+  }, [payment.tenant_id, payment.unit_id]);
+
+  return (
+    <Modal
+      isOpen={true}
+      onClose={onClose}
+      title={`Rent owing for ${payment.tenant_name} (Unit ${payment.unit_number})`}
+      size="xl"
+    >
+      {error && <div className="payments-error">{error}</div>}
+      {!error && !statement && <div className="payments-loading">Loading arrears...</div>}
+      {statement && <ArrearsTable statement={statement} />}
+    </Modal>
+  );
+};
+
+export default ArrearsModal;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { ArrearsStatement } from '../../types/payment.types';
+import { formatCurrency, formatDate } from '../../utils/formatters';
+
+interface ArrearsTableProps {
+  statement: ArrearsStatement;
+}
+
+const ArrearsTable: React.FC<ArrearsTableProps> = ({ statement }) => {
+  if (statement.periods.length === 0) {
+    return <p className="arrears-empty">No rent has come due as of {formatDate(statement.asOf)}.</p>;
+  }
+
+  return (
+    <div className="table-container">
+      <table className="data-table">
+        <thead>
+          <tr>
+            <th>Rental Period</th>
+            <th>Rent Charged</th>
+            <th>Rent Paid</th>
+            <th>Rent Owing</th>
+            <th>Balance</th>
+          </tr>
+        </thead>
+        <tbody>
+          {statement.periods.map((period) => (
+            <tr key={period.paymentId}>
+              <td>{formatDate(period.periodStart)} to {formatDate(period.periodEnd)}</td>
+              <td>{formatCurrency(period.rentCharged)}</td>
+              <td>{formatCurrency(period.rentPaid)}</td>
+              <td>{formatCurrency(period.rentOwing)}</td>
+              <td>{formatCurrency(period.balance)}</td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr>
+            <th>Total as of {formatDate(statement.asOf)}</th>
+            <th>{formatCurrency(statement.totalCharged)}</th>
+            <th>{formatCurrency(statement.totalPaid)}</th>
+            <th>{formatCurrency(statement.totalOwing)}</th>
+            <th></th>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+};
+
+export default ArrearsTable;
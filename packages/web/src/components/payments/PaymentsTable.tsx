@@ -5,9 +5,10 @@ import { formatCurrency, formatDate } from '../../utils/formatters';
 interface PaymentsTableProps {
   payments: Payment[];
   onMarkAsPaid: (payment: Payment) => void;
+  onViewDetails?: (payment: Payment) => void;
 }
 
-const PaymentsTable: React.FC<PaymentsTableProps> = ({ payments, onMarkAsPaid }) => {
+const PaymentsTable: React.FC<PaymentsTableProps> = ({ payments, onMarkAsPaid, onViewDetails }) => {
   return (
     <div className="table-container">
       <table className="data-table">
@@ -16,6 +17,7 @@ const PaymentsTable: React.FC<PaymentsTableProps> = ({ payments, onMarkAsPaid })
             <th>Tenant</th>
             <th>Unit</th>
             <th>Amount</th>
+            <th>Balance</th>
             <th>Due Date</th>
             <th>Payment Date</th>
             <th>Status</th>
@@ -29,6 +31,7 @@ const PaymentsTable: React.FC<PaymentsTableProps> = ({ payments, onMarkAsPaid })
               <td>{payment.tenant_name}</td>
               <td>{payment.unit_number}</td>
               <td>{formatCurrency(payment.amount)}</td>
+              <td>{formatCurrency(payment.balance ?? (payment.status === "paid" ? 0 : payment.amount))}</td>
               <td>{formatDate(payment.due_date)}</td>
               <td>{formatDate(payment.payment_date)}</td>
               <td>
@@ -50,7 +53,13 @@ const PaymentsTable: React.FC<PaymentsTableProps> = ({ payments, onMarkAsPaid })
                 {payment.interac_request_link && (
                   <button className="btn-icon" title="Copy Interac Link">🔗</button>
                 )}
-                <button className="btn-icon" title="View Details">👁️</button>
+                <button
+                  className="btn-icon"
+                  title="View Details"
+                  onClick={() => onViewDetails && onViewDetails(payment)}
+                >
+                  👁️
+                </button>
               </td>
             </tr>
           ))}
@@ -0,0 +1,59 @@
+import { render, screen } from '@testing-library/react';
+import AllocationTable from '../AllocationTable';
+import { AllocationReport } from '../../../types/payment.types';
+import '@testing-library/jest-dom';
+
+// Mock the formatter utilities
+jest.mock('../../../utils/formatters', () => ({
+  formatCurrency: jest.fn(amount => `$${amount}`),
+  formatDate: jest.fn(date => date || '—')
+}));
+
+const mockReport: AllocationReport = {
+  tenantUnitId: 'tu-1',
+  tenantId: '1',
+  unitId: '101',
+  policy: 'oldest_first',
+  amount: 2500,
+  paymentDate: '2026-10-19',
+  allocations: [
+    { rentPaymentId: 'sep', dueDate: '2026-09-01', balanceBefore: 500, applied: 500, balanceAfter: 0, status: 'paid' },
+    { rentPaymentId: 'oct', dueDate: '2026-10-01', balanceBefore: 1500, applied: 1500, balanceAfter: 0, status: 'paid' }
+  ],
+  totalApplied: 2000,
+  credit: 500,
+  creditBefore: 0,
+  creditAfter: 500,
+  confirmed: false
+};
+
+describe('AllocationTable', () => {
+  test('renders one row per charge the payment is applied to', () => {
+    render(<AllocationTable report={mockReport} />);
+
+    expect(screen.getByText('2026-09-01')).toBeInTheDocument();
+    expect(screen.getByText('2026-10-01')).toBeInTheDocument();
+    expect(screen.getAllByText('Paid')).toHaveLength(2);
+  });
+
+  test('shows the overpayment as a credit carried forward', () => {
+    render(<AllocationTable report={mockReport} />);
+
+    expect(screen.getByText('Credit carried forward')).toBeInTheDocument();
+    expect(screen.getByText('$2500')).toBeInTheDocument();
+  });
+
+  test('marks a charge the money ran out on as partial', () => {
+    const partialReport: AllocationReport = {
+      ...mockReport,
+      amount: 800,
+      allocations: [{ ...mockReport.allocations[1], applied: 800, balanceAfter: 700, status: 'partial' }],
+      totalApplied: 800,
+      credit: 0
+    };
+    render(<AllocationTable report={partialReport} />);
+
+    expect(screen.getByText('Partial')).toBeInTheDocument();
+    expect(screen.queryByText('Credit carried forward')).not.toBeInTheDocument();
+  });
+});
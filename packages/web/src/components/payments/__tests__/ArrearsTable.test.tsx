@@ -0,0 +1,63 @@
+import { render, screen } from '@testing-library/react';
+import ArrearsTable from '../ArrearsTable';
+import '@testing-library/jest-dom';
+
+// Mock the formatter utilities
+jest.mock('../../../utils/formatters', () => ({
+  formatCurrency: jest.fn(amount => `$${amount}`),
+  formatDate: jest.fn(date => date || '—')
+}));
+
+const mockStatement = {
+  tenantId: '1',
+  unitId: '101',
+  tenantUnitId: null,
+  asOf: '2026-02-20',
+  periods: [
+    {
+      paymentId: 'jan',
+      periodStart: '2026-01-01',
+      periodEnd: '2026-01-31',
+      rentCharged: 1500,
+      rentPaid: 1000,
+      rentOwing: 500,
+      balance: 500
+    },
+    {
+      paymentId: 'feb',
+      periodStart: '2026-02-01',
+      periodEnd: '2026-02-28',
+      rentCharged: 1500,
+      rentPaid: 0,
+      rentOwing: 1500,
+      balance: 2000
+    }
+  ],
+  totalCharged: 3000,
+  totalPaid: 1000,
+  totalOwing: 2000
+};
+
+describe('ArrearsTable Component', () => {
+  test('renders one row per rental period', () => {
+    render(<ArrearsTable statement={mockStatement} />);
+
+    expect(screen.getByText('2026-01-01 to 2026-01-31')).toBeInTheDocument();
+    expect(screen.getByText('2026-02-01 to 2026-02-28')).toBeInTheDocument();
+    expect(screen.getAllByText('$500')).toHaveLength(2);
+  });
+
+  test('renders the totals as of the statement date', () => {
+    render(<ArrearsTable statement={mockStatement} />);
+
+    expect(screen.getByText('Total as of 2026-02-20')).toBeInTheDocument();
+    expect(screen.getByText('$3000')).toBeInTheDocument();
+    expect(screen.getAllByText('$2000')).toHaveLength(2);
+  });
+
+  test('renders an empty message when nothing is due', () => {
+    render(<ArrearsTable statement={{ ...mockStatement, periods: [], totalCharged: 0, totalPaid: 0, totalOwing: 0 }} />);
+
+    expect(screen.getByText('No rent has come due as of 2026-02-20.')).toBeInTheDocument();
+  });
+});
@@ -1,5 +1,6 @@
 import { render, screen, fireEvent } from '@testing-library/react';
 import PaymentsTable from '../PaymentsTable';
+import { Payment } from '../../../types/payment.types';
 import { formatCurrency, formatDate } from '../../../utils/formatters';
 import '@testing-library/jest-dom';
 
@@ -95,4 +96,12 @@ describe('PaymentsTable', () => {
     const markAsPaidButtons = screen.getAllByTitle('Mark as Paid');
     expect(markAsPaidButtons.length).toBe(1);
   });
+
+  test('shows the ledger balance for partially paid charges', () => {
+    const partialPayment: Payment = { ...mockPayments[0], status: 'partial', payment_date: null, amount_paid: 400, balance: 600 };
+    render(<PaymentsTable payments={[partialPayment]} onMarkAsPaid={mockOnMarkAsPaid} />);
+
+    expect(screen.getByText('Balance')).toBeInTheDocument();
+    expect(formatCurrency).toHaveBeenCalledWith(600);
+  });
 });
@@ -38,6 +38,7 @@ describe('usePayments hook', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     (api.payments.getPending as jest.Mock).mockResolvedValue(mockPayments);
+    (api.payments.recordPayment as jest.Mock).mockResolvedValue({});
   });
 
   afterEach(() => {
@@ -83,8 +84,8 @@ describe('usePayments hook', () => {
     const { result, waitForNextUpdate } = renderHook(() => usePayments());
     await waitForNextUpdate();
 
-    act(() => {
-      result.current.handleConfirmPayment({
+    await act(async () => {
+      await result.current.handleConfirmPayment({
         id: '1',
         status: 'paid',
         payment_date: '2023-06-02',
@@ -98,6 +99,45 @@ describe('usePayments hook', () => {
     expect(result.current.payments[0].payment_method).toBe('cash');
   });
 
+  test('records a partial payment against the remaining balance', async () => {
+    const { result, waitForNextUpdate } = renderHook(() => usePayments());
+    await waitForNextUpdate();
+
+    await act(async () => {
+      await result.current.handleConfirmPayment({
+        id: '1',
+        status: 'partial',
+        amount: 400,
+        payment_date: '2023-06-02',
+        payment_method: 'cash'
+      });
+    });
+
+    expect(result.current.payments[0].status).toBe('partial');
+    expect(result.current.payments[0].amount_paid).toBe(400);
+    expect(result.current.payments[0].balance).toBe(600);
+    expect(api.payments.recordPayment).toHaveBeenCalledWith('1', expect.objectContaining({ amount: 400 }));
+  });
+
+  test('leaves the payment unchanged when recording it fails', async () => {
+    (api.payments.recordPayment as jest.Mock).mockRejectedValue(new Error('API error'));
+
+    const { result, waitForNextUpdate } = renderHook(() => usePayments());
+    await waitForNextUpdate();
+
+    await act(async () => {
+      await result.current.handleConfirmPayment({
+        id: '1',
+        status: 'paid',
+        payment_date: '2023-06-02',
+        payment_method: 'cash'
+      });
+    });
+
+    expect(result.current.payments[0]).toEqual(mockPayments[0]);
+    expect(result.current.error).toBe('Failed to record payment. Please refresh and try again.');
+  });
+
   test('handles API error', async () => {
     (api.payments.getPending as jest.Mock).mockRejectedValue(new Error('API error'));
 
@@ -9,21 +9,21 @@ export const usePayments = () => {
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
 
-  useEffect(() => {
-    const fetchPayments = async () => {
-      try {
-        setLoading(true);
-        const paymentsData = (await api.payments.getPending()) as Payment[];
-        setPayments(paymentsData);
-        setFilteredPayments(paymentsData);
-      } catch (err) {
-        console.log("Error fetching payments:", err);
-        setError("Failed to fetch payments. Please try again later.");
-      } finally {
-        setLoading(false);
-      }
-    };
+  const fetchPayments = async () => {
+    try {
+      setLoading(true);
+      const paymentsData = (await api.payments.getPending()) as Payment[];
+      setPayments(paymentsData);
+      setFilteredPayments(paymentsData);
+    } catch (err) {
+      console.log("Error fetching payments:", err);
+      setError("Failed to fetch payments. Please try again later.");
+    } finally {
+      setLoading(false);
+    }
+  };
 
+  useEffect(() => {
     fetchPayments();
   }, []);
 
@@ -36,23 +36,43 @@ export const usePayments = () => {
     }
   }, [filter, payments]);
 
-  // Handler for confirming a payment
-  const handleConfirmPayment = (paymentData: PaymentConfirmationData) => {
-    console.log("Payment confirmed:", paymentData);
-    // In a real app, we would send this data to the API
-    setPayments((prevPayments) => {
-      return prevPayments.map((payment) => {
-        if (payment.id === paymentData.id) {
-          return {
-            ...payment,
-            status: "paid" as "paid",
-            payment_date: paymentData.payment_date,
-            payment_method: paymentData.payment_method,
-          };
-        }
-        return payment;
+  // Handler for confirming a payment. The amount received may be less than
+  // what is owing, which leaves the payment partly paid. The table is only
+  // updated once the payment has been recorded.
+  const handleConfirmPayment = async (paymentData: PaymentConfirmationData) => {
+    const applyPayment = (payment: Payment): Payment => {
+      const balance = payment.balance ?? payment.amount - (payment.amount_paid || 0);
+      const received = paymentData.amount ?? balance;
+      const amountPaid = (payment.amount_paid || 0) + received;
+      const remaining = Math.max(0, Math.round((payment.amount - amountPaid) * 100) / 100);
+
+      return {
+        ...payment,
+        amount_paid: amountPaid,
+        balance: remaining,
+        status: remaining > 0 ? "partial" : "paid",
+        payment_date: paymentData.payment_date,
+        payment_method: paymentData.payment_method,
+      };
+    };
+
+    const payment = payments.find((p) => p.id === paymentData.id);
+    try {
+      await api.payments.recordPayment(paymentData.id, {
+        amount: paymentData.amount ?? payment?.balance ?? payment?.amount,
+        payment_date: paymentData.payment_date,
+        payment_method: paymentData.payment_method,
+        reference: paymentData.notes || null,
       });
-    });
+    } catch (err) {
+      console.log("Error recording payment:", err);
+      setError("Failed to record payment. Please refresh and try again.");
+      return;
+    }
+
+    setPayments((prevPayments) =>
+      prevPayments.map((p) => (p.id === paymentData.id ? applyPayment(p) : p))
+    );
   };
 
   return {
@@ -62,6 +82,7 @@ export const usePayments = () => {
     error,
     filter,
     setFilter,
-    handleConfirmPayment
+    handleConfirmPayment,
+    refreshPayments: fetchPayments
   };
 };
@@ -6,7 +6,7 @@ interface Notification {
   tenant_id: string;
   tenant_name: string;
   payment_id: string | null;
-  type: "rent_due" | "rent_late" | "receipt" | "form_n4" | "form_l1";
+  type: "rent_due" | "rent_late" | "receipt" | "form_n4" | "form_l1" | "n4_voided" | "installment_reminder" | "credit_applied";
   channel: "whatsapp" | "email";
   status: "pending" | "sent" | "delivered" | "read" | "failed";
   message_id: string | null;
@@ -19,6 +19,9 @@ const NotificationTypeName: Record<string, string> = {
   receipt: "Payment Receipt",
   form_n4: "Form N4 Notice",
   form_l1: "Form L1 Application",
+  n4_voided: "N4 Voided by Payment",
+  installment_reminder: "Payment Plan Reminder",
+  credit_applied: "Rent Covered by Credit",
 };
 
 const Notifications = () => {
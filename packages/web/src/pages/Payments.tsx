@@ -3,6 +3,8 @@ import PaymentConfirmationModal from "../components/PaymentConfirmationModal";
 import Button from "../components/Button";
 import PaymentsTable from "../components/payments/PaymentsTable";
 import PaymentFilters from "../components/payments/PaymentFilters";
+import ArrearsModal from "../components/payments/ArrearsModal";
+import AllocationModal from "../components/payments/AllocationModal";
 import { usePayments } from "../hooks/usePayments";
 import { Payment } from "../types/payment.types";
 import "./Payments.css";
@@ -15,10 +17,13 @@ const Payments = () => {
     error,
     handleConfirmPayment,
     setFilter,
-    filter
+    filter,
+    refreshPayments
   } = usePayments();
   const [isPaymentModalOpen, setIsPaymentModalOpen] = useState<boolean>(false);
   const [selectedPayment, setSelectedPayment] = useState<Payment | null>(null);
+  const [arrearsPayment, setArrearsPayment] = useState<Payment | null>(null);
+  const [isAllocationModalOpen, setIsAllocationModalOpen] = useState<boolean>(false);
 
   // Handler for opening the payment confirmation modal
   const handleOpenPaymentModal = (payment: Payment) => {
@@ -38,7 +43,7 @@ const Payments = () => {
     <div className="payments-page">
       <header className="page-header">
         <h1>Rent Payments</h1>
-        <Button>Record Payment</Button>
+        <Button onClick={() => setIsAllocationModalOpen(true)}>Record Payment</Button>
       </header>
 
       <div className="payments-container">
@@ -50,6 +55,7 @@ const Payments = () => {
         <PaymentsTable
           payments={filteredPayments}
           onMarkAsPaid={handleOpenPaymentModal}
+          onViewDetails={setArrearsPayment}
         />
       </div>
 
@@ -60,6 +66,21 @@ const Payments = () => {
           onConfirm={handleConfirmPayment}
         />
       )}
+
+      {isAllocationModalOpen && (
+        <AllocationModal
+          payments={payments}
+          onClose={() => setIsAllocationModalOpen(false)}
+          onConfirmed={() => refreshPayments()}
+        />
+      )}
+
+      {arrearsPayment && (
+        <ArrearsModal
+          payment={arrearsPayment}
+          onClose={() => setArrearsPayment(null)}
+        />
+      )}
     </div>
   );
 };
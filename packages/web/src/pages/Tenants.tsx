@@ -5,6 +5,7 @@ import Button from "../components/Button";
 import { tenantsApi } from "../services/api.service";
 import "./Tenants.css";
 import Tenant from "../types/tenant";
+import { formatDate, formatRentFrequency } from "../utils/formatters";
 
 const Tenants = () => {
   const [tenants, setTenants] = useState<Tenant[]>([]);
@@ -166,7 +167,7 @@ const Tenants = () => {
                 <th>Unit</th>
                 <th>Property</th>
                 <th>Rent Amount</th>
-                <th>Due Day</th>
+                <th>Rent Due</th>
                 <th>Actions</th>
               </tr>
             </thead>
@@ -178,7 +179,7 @@ const Tenants = () => {
                   <td>{tenant.unit_number}</td>
                   <td>{tenant.property_name}</td>
                   <td>{typeof tenant.rent_amount === 'number' ? formatCurrency(tenant.rent_amount) : "-"}</td>
-                  <td>{tenant.rent_due_day ? `${tenant.rent_due_day}${getDayOrdinal(tenant.rent_due_day)}` : "-"}</td>
+                  <td>{formatRentSchedule(tenant)}</td>
                   <td className="actions-cell">
                     <button
                       className="btn-icon"
@@ -221,6 +222,16 @@ const Tenants = () => {
 };
 
 // Utility function to get ordinal suffix for day numbers
+// Monthly rent shows its due day, other frequencies when they started
+function formatRentSchedule(tenant: Tenant): string {
+  if (tenant.rent_frequency && tenant.rent_frequency !== "monthly") {
+    return tenant.rent_anchor_date
+      ? `${formatRentFrequency(tenant.rent_frequency)} from ${formatDate(tenant.rent_anchor_date)}`
+      : formatRentFrequency(tenant.rent_frequency);
+  }
+  return tenant.rent_due_day ? `${tenant.rent_due_day}${getDayOrdinal(tenant.rent_due_day)}` : "-";
+}
+
 function getDayOrdinal(day: number): string {
   if (day > 3 && day < 21) return "th";
   switch (day % 10) {
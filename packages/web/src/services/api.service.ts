@@ -73,6 +73,10 @@ export interface Tenant {
   property_postal_code?: string | null; // From properties table through tenant_units -> units
   rent_amount?: number | null; // From tenant_units junction table
   rent_due_day?: number | null; // From tenant_units junction table
+  rent_frequency?: 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | null; // From tenant_units junction table
+  rent_anchor_date?: string | null; // From tenant_units junction table
+  lease_start?: string | null; // From tenant_units junction table
+  lease_end?: string | null; // From tenant_units junction table
 }
 
 // Tenant API functions
@@ -120,7 +124,11 @@ export const tenantsApi = {
       body: JSON.stringify(normalizedData)
     });
   },
-  getAllUnits: () => fetchApi<any[]>("/tenants/units") // Add method to get all units
+  getAllUnits: () => fetchApi<any[]>("/tenants/units"), // Add method to get all units
+  getLedger: (id: string, asOf?: string) => {
+    const params = asOf ? `?${new URLSearchParams({ asOf }).toString()}` : "";
+    return fetchApi<any>(`/tenants/${id}/ledger${params}`);
+  }
 };
 
 // Rent Payments API functions
@@ -128,6 +136,13 @@ export const paymentsApi = {
   getPending: () => fetchApi<any[]>("/rent/pending"),
   getByTenantId: (tenantId: string) => fetchApi<any[]>(`/rent/tenant/${tenantId}`),
   getById: (id: string) => fetchApi<any>(`/rent/${id}`),
+  getArrears: (tenantId: string, unitId: string, asOf?: string) => {
+    const params = new URLSearchParams({ tenantId, unitId });
+    if (asOf) {
+      params.append("asOf", asOf);
+    }
+    return fetchApi<any>(`/rent/arrears?${params.toString()}`);
+  },
   create: (data: any) => fetchApi<any>("/rent", {
     method: "POST",
     body: JSON.stringify(data)
@@ -135,6 +150,19 @@ export const paymentsApi = {
   updateStatus: (id: string, data: any) => fetchApi<any>(`/rent/${id}`, {
     method: "PUT",
     body: JSON.stringify(data)
+  }),
+  getPaymentRecords: (id: string) => fetchApi<any[]>(`/rent/${id}/payments`),
+  recordPayment: (id: string, data: any) => fetchApi<any>(`/rent/${id}/payments`, {
+    method: "POST",
+    body: JSON.stringify(data)
+  }),
+  previewAllocation: (data: any) => fetchApi<any>("/rent/allocations/preview", {
+    method: "POST",
+    body: JSON.stringify(data)
+  }),
+  allocate: (data: any) => fetchApi<any>("/rent/allocations", {
+    method: "POST",
+    body: JSON.stringify(data)
   })
 };
 
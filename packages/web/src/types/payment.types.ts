@@ -4,7 +4,10 @@ export interface Payment {
   tenant_name: string;
   unit_id: string;
   unit_number: string;
+  tenant_unit_id?: string;
   amount: number;
+  amount_paid?: number; // Received so far, from the tenant ledger
+  balance?: number; // Still owing on this charge, from the tenant ledger
   due_date: string;
   payment_date: string | null;
   status: "pending" | "paid" | "late" | "partial";
@@ -15,7 +18,86 @@ export interface Payment {
 export interface PaymentConfirmationData {
   id: string;
   status: string;
+  amount?: number; // Amount received; defaults to the remaining balance
   payment_date: string;
   payment_method: string;
   notes?: string;
 }
+
+export interface ArrearsPeriod {
+  paymentId: string;
+  periodStart: string;
+  periodEnd: string;
+  rentCharged: number;
+  rentPaid: number;
+  rentOwing: number;
+  balance: number;
+}
+
+export interface ArrearsStatement {
+  tenantId: string;
+  unitId: string;
+  tenantUnitId: string | null;
+  asOf: string;
+  periods: ArrearsPeriod[];
+  totalCharged: number;
+  totalPaid: number;
+  totalOwing: number;
+}
+
+export interface LedgerLine {
+  id: string;
+  entry_date: string;
+  entry_type: "charge" | "payment" | "adjustment";
+  category: string;
+  description: string | null;
+  debit: number;
+  credit: number;
+  rent_payment_id: string | null;
+  balance: number;
+}
+
+export interface TenantUnitLedger {
+  tenantUnitId: string;
+  tenantId: string;
+  unitId: string;
+  unitNumber: string | null;
+  entries: LedgerLine[];
+  totalCharges: number;
+  totalPayments: number;
+  totalAdjustments: number;
+  balance: number;
+}
+
+export interface TenantLedger {
+  tenantId: string;
+  asOf: string;
+  balance: number;
+  ledgers: TenantUnitLedger[];
+}
+
+export type AllocationPolicy = "oldest_first" | "newest_first";
+
+export interface AllocationLine {
+  rentPaymentId: string;
+  dueDate: string;
+  balanceBefore: number;
+  applied: number;
+  balanceAfter: number;
+  status: "paid" | "partial";
+}
+
+export interface AllocationReport {
+  tenantUnitId: string;
+  tenantId: string;
+  unitId: string;
+  policy: AllocationPolicy;
+  amount: number;
+  paymentDate: string;
+  allocations: AllocationLine[];
+  totalApplied: number;
+  credit: number;
+  creditBefore: number;
+  creditAfter: number;
+  confirmed: boolean;
+}
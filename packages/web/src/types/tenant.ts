@@ -1,3 +1,14 @@
+export type RentFrequency = 'weekly' | 'biweekly' | 'monthly' | 'quarterly';
+
+// A rent amount and the date it took effect
+export interface RentHistoryEntry {
+  id: string;
+  tenant_unit_id: string;
+  amount: number;
+  effective_date: string;
+  created_at: string;
+}
+
 interface Tenant {
   id?: number | string;
   first_name: string;
@@ -19,6 +30,12 @@ interface Tenant {
   // Rent info comes from tenant_units table
   rent_amount?: number | null;
   rent_due_day?: number | null;
+  rent_frequency?: RentFrequency | null;
+  rent_anchor_date?: string | null; // First due date for weekly, bi-weekly and quarterly rent
+  lease_start?: string | null; // The first and last rent charges are prorated from the lease dates
+  lease_end?: string | null;
+  rent_history?: RentHistoryEntry[]; // Oldest first, returned with tenant details
+  rent_effective_date?: string | null; // Sent with a rent change; today if omitted
   created_at?: string;
   updated_at?: string;
 }
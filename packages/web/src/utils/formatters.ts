@@ -6,6 +6,20 @@ export const formatCurrency = (amount: number) => {
   }).format(amount);
 };
 
+// Format how often rent is paid
+export const formatRentFrequency = (frequency?: string | null) => {
+  switch (frequency) {
+    case "weekly":
+      return "Weekly";
+    case "biweekly":
+      return "Bi-weekly";
+    case "quarterly":
+      return "Quarterly";
+    default:
+      return "Monthly";
+  }
+};
+
 // Format date
 export const formatDate = (dateString: string | null) => {
   if (!dateString) return "—";